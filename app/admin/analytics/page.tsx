@@ -6,6 +6,9 @@ import { useRouter } from "next/navigation";
 import { useQuery } from "@tanstack/react-query";
 import adminService from "@/app/services/admin.service";
 import { useAdminOrderAnalytics } from "@/app/hooks/useAdminOrderAnalytics";
+import { useSearchAnalytics } from "@/app/hooks/useSearch";
+import { useCodRtoAnalytics, useCodRules, useUpdateCodRules } from "@/app/hooks/useCod";
+import { HIGH_RTO_RATE } from "@/app/lib/cod";
 import {
   FiTrendingUp,
   FiUsers,
@@ -15,6 +18,8 @@ import {
 import AdminLayout from "@/app/components/layout/AdminLayout";
 
 const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN"];
+// Pincodes with fewer finished COD orders than this are too noisy to rank
+const MIN_COD_ORDERS = 5;
 
 export default function AnalyticsPage() {
   const { user, isLoading, isAuthenticated } = useAuth();
@@ -51,6 +56,20 @@ export default function AnalyticsPage() {
     staleTime: 5 * 60 * 1000,
   });
 
+  const { data: searchAnalytics } = useSearchAnalytics(filters);
+
+  const { data: codRto } = useCodRtoAnalytics({ ...filters, minOrders: MIN_COD_ORDERS, limit: 20 });
+  const { data: codRules } = useCodRules();
+  const updateCodRules = useUpdateCodRules();
+
+  const blockCodPincode = (pincode: string) => {
+    if (!codRules) return;
+    updateCodRules.mutate({
+      ...codRules,
+      blockedPincodes: [...new Set([...codRules.blockedPincodes, pincode])],
+    });
+  };
+
   useEffect(() => {
     if (!isLoading) {
       if (!isAuthenticated) {
@@ -357,6 +376,136 @@ export default function AnalyticsPage() {
                   </div>
                 </section>
               )}
+
+            {/* Search Analytics */}
+            {searchAnalytics && searchAnalytics.totalSearches > 0 && (
+              <section>
+                <h2 className="text-3xl font-bold text-black mb-8 border-b-2 border-black pb-4 tracking-tight">SEARCH</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                  {[
+                    { label: "TOTAL SEARCHES", value: formatNumber(searchAnalytics.totalSearches) },
+                    { label: "UNIQUE QUERIES", value: formatNumber(searchAnalytics.uniqueQueries) },
+                    {
+                      label: "ZERO-RESULT RATE",
+                      value: `${((searchAnalytics.zeroResultSearches / searchAnalytics.totalSearches) * 100).toFixed(1)}%`,
+                    },
+                  ].map((metric) => (
+                    <div key={metric.label} className="bg-white border-2 border-black p-6">
+                      <p className="text-gray-600 font-medium tracking-widest text-sm">{metric.label}</p>
+                      <p className="text-3xl font-bold text-black mt-2">{metric.value}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div className="bg-white border-2 border-black p-8">
+                    <h3 className="font-bold text-black text-xl mb-2 tracking-wide">NO RESULTS</h3>
+                    <p className="text-gray-600 text-sm mb-6">
+                      Queries shoppers searched for that matched nothing. Consider adding synonyms, tags or products.
+                    </p>
+                    {searchAnalytics.zeroResultQueries.length === 0 ? (
+                      <p className="text-gray-600 font-medium tracking-widest">EVERY SEARCH RETURNED RESULTS</p>
+                    ) : (
+                      <div className="divide-y-2 divide-black border-2 border-black">
+                        {searchAnalytics.zeroResultQueries.slice(0, 10).map((stat) => (
+                          <div key={stat.query} className="flex items-center justify-between p-4">
+                            <div>
+                              <p className="font-bold text-black">{stat.query}</p>
+                              <p className="text-xs text-gray-600 tracking-wide">
+                                LAST {new Date(stat.lastSearchedAt).toLocaleDateString()}
+                              </p>
+                            </div>
+                            <span className="font-bold text-black">{formatNumber(stat.count)}×</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="bg-white border-2 border-black p-8">
+                    <h3 className="font-bold text-black text-xl mb-2 tracking-wide">TOP QUERIES</h3>
+                    <p className="text-gray-600 text-sm mb-6">Most searched terms and how many products they match on average.</p>
+                    <div className="divide-y-2 divide-black border-2 border-black">
+                      {searchAnalytics.topQueries.slice(0, 10).map((stat) => (
+                        <div key={stat.query} className="flex items-center justify-between p-4">
+                          <div>
+                            <p className="font-bold text-black">{stat.query}</p>
+                            <p className="text-xs text-gray-600 tracking-wide">
+                              ~{Math.round(stat.avgResults)} RESULTS
+                            </p>
+                          </div>
+                          <span className="font-bold text-black">{formatNumber(stat.count)}×</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </section>
+            )}
+
+            {/* COD Return-to-Origin */}
+            {codRto && codRto.overall.codOrders > 0 && (
+              <section>
+                <h2 className="text-3xl font-bold text-black mb-8 border-b-2 border-black pb-4 tracking-tight">
+                  COD RETURN-TO-ORIGIN
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                  {[
+                    { label: "COD ORDERS", value: formatNumber(codRto.overall.codOrders) },
+                    { label: "RTO RATE", value: `${(codRto.overall.rtoRate * 100).toFixed(1)}%` },
+                    { label: "RTO VALUE", value: formatCurrency(codRto.overall.rtoValue) },
+                  ].map((metric) => (
+                    <div key={metric.label} className="bg-white border-2 border-black p-6">
+                      <p className="text-gray-600 font-medium tracking-widest text-sm">{metric.label}</p>
+                      <p className="text-3xl font-bold text-black mt-2">{metric.value}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="bg-white border-2 border-black p-8">
+                  <h3 className="font-bold text-black text-xl mb-2 tracking-wide">BY PINCODE</h3>
+                  <p className="text-gray-600 text-sm mb-6">
+                    Pincodes with at least {MIN_COD_ORDERS} finished COD orders, worst first. Rows at{" "}
+                    {Math.round(HIGH_RTO_RATE * 100)}% or more are highlighted.
+                  </p>
+                  {codRto.pincodes.length === 0 ? (
+                    <p className="text-gray-600 font-medium tracking-widest">NOT ENOUGH COD ORDERS YET</p>
+                  ) : (
+                    <div className="divide-y-2 divide-black border-2 border-black">
+                      {codRto.pincodes.map((stat) => (
+                        <div
+                          key={stat.pincode}
+                          className={`flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 ${
+                            stat.rtoRate >= HIGH_RTO_RATE ? "bg-red-50" : ""
+                          }`}
+                        >
+                          <div>
+                            <p className="font-mono font-bold text-black">{stat.pincode}</p>
+                            <p className="text-xs text-gray-600 tracking-wide">
+                              {[stat.city, stat.state].filter(Boolean).join(", ") || "UNKNOWN LOCATION"} ·{" "}
+                              {formatNumber(stat.rto)} OF {formatNumber(stat.codOrders)} RETURNED ·{" "}
+                              {formatCurrency(stat.rtoValue)}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-4">
+                            <span className="text-xl font-bold text-black">{(stat.rtoRate * 100).toFixed(1)}%</span>
+                            {stat.codBlocked ? (
+                              <span className="text-xs font-bold tracking-widest text-gray-600">COD BLOCKED</span>
+                            ) : (
+                              <button
+                                type="button"
+                                onClick={() => blockCodPincode(stat.pincode)}
+                                disabled={!codRules || updateCodRules.isPending}
+                                className="px-4 py-2 border-2 border-black text-xs font-bold tracking-widest hover:bg-black hover:text-white disabled:opacity-50 cursor-pointer"
+                              >
+                                BLOCK COD
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </section>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,423 @@
+"use client";
+
+import AdminLayout from "@/app/components/layout/AdminLayout";
+import { Button } from "@/app/components/ui/button";
+import Modal from "@/app/components/ui/Modal";
+import { useAuth } from "@/app/hooks/useAuth";
+import {
+    useAdminPincodeZones,
+    useCreatePincodeZone,
+    useDeletePincodeZone,
+    useUpdatePincodeZone,
+} from "@/app/hooks/useDelivery";
+import { useCodRules, useUpdateCodRules } from "@/app/hooks/useCod";
+import { parsePincodeList } from "@/app/lib/cod";
+import { ICreatePincodeZoneData, IPincodeZone } from "@/app/types/delivery.type";
+import { ShippingZone } from "@/app/types/pricing.type";
+import { isValidPincode } from "@/app/lib/validation";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN"];
+const ZONES: ShippingZone[] = ["LOCAL", "REGIONAL", "NATIONAL", "REMOTE"];
+const PAGE_SIZE = 20;
+
+export default function AdminDeliveryPage() {
+    const { user, isLoading, isAuthenticated } = useAuth();
+    const router = useRouter();
+    const [page, setPage] = useState(1);
+    const [search, setSearch] = useState("");
+    const [zoneFilter, setZoneFilter] = useState<ShippingZone | "">("");
+    const { data: zonesResponse, isLoading: zonesLoading } = useAdminPincodeZones({
+        page,
+        limit: PAGE_SIZE,
+        search: search || undefined,
+        zone: zoneFilter || undefined,
+    });
+    const createZone = useCreatePincodeZone();
+    const updateZone = useUpdatePincodeZone();
+    const deleteZone = useDeletePincodeZone();
+    const { data: codRules, isLoading: codRulesLoading } = useCodRules();
+    const updateCodRules = useUpdateCodRules();
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [editZone, setEditZone] = useState<IPincodeZone | null>(null);
+
+    const zones = useMemo(() => zonesResponse?.data ?? [], [zonesResponse]);
+    const totalPages = zonesResponse?.meta.totalPages ?? 1;
+
+    useEffect(() => {
+        if (!isLoading) {
+            if (!isAuthenticated) {
+                router.replace("/(auth)/login?redirect=/admin/delivery");
+            } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+                router.replace("/");
+            }
+        }
+    }, [isLoading, isAuthenticated, user, router]);
+
+    useEffect(() => {
+        if (createZone.isSuccess || updateZone.isSuccess) {
+            setIsOpen(false);
+            setEditZone(null);
+        }
+    }, [createZone.isSuccess, updateZone.isSuccess]);
+
+    if (isLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-background">
+                <p className="text-base font-medium text-muted-foreground">Loading...</p>
+            </div>
+        );
+    }
+
+    function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        const form = e.currentTarget as HTMLFormElement & {
+            pincodeFrom: { value: string };
+            pincodeTo: { value: string };
+            zone: { value: ShippingZone };
+            city: { value: string };
+            state: { value: string };
+            minDays: { value: string };
+            maxDays: { value: string };
+            isServiceable: { checked: boolean };
+            codAvailable: { checked: boolean };
+        };
+
+        const pincodeFrom = form.pincodeFrom.value.trim();
+        const pincodeTo = form.pincodeTo.value.trim() || pincodeFrom;
+        if (!isValidPincode(pincodeFrom) || !isValidPincode(pincodeTo)) {
+            toast.error("Enter valid 6-digit pincodes");
+            return;
+        }
+        if (Number(pincodeTo) < Number(pincodeFrom)) {
+            toast.error("Range end must not be before range start");
+            return;
+        }
+
+        const minDays = Number(form.minDays.value);
+        const maxDays = Number(form.maxDays.value);
+        if (maxDays < minDays) {
+            toast.error("Max days must be at least min days");
+            return;
+        }
+
+        const payload: ICreatePincodeZoneData = {
+            pincodeFrom,
+            pincodeTo,
+            zone: form.zone.value,
+            city: form.city.value || undefined,
+            state: form.state.value || undefined,
+            isServiceable: form.isServiceable.checked,
+            codAvailable: form.codAvailable.checked,
+            minDays,
+            maxDays,
+        };
+
+        if (editZone) {
+            updateZone.mutate({ id: editZone.id, data: payload });
+        } else {
+            createZone.mutate(payload);
+        }
+    }
+
+    function onCodRulesSubmit(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        const form = e.currentTarget as HTMLFormElement & {
+            enabled: { checked: boolean };
+            requireOtp: { checked: boolean };
+            minOrderValue: { value: string };
+            maxOrderValue: { value: string };
+            maxOpenOrdersPerUser: { value: string };
+            codFee: { value: string };
+            prepaidDiscountPercent: { value: string };
+            prepaidDiscountCap: { value: string };
+            blockedPincodes: { value: string };
+        };
+
+        const { pincodes, invalid } = parsePincodeList(form.blockedPincodes.value);
+        if (invalid.length > 0) {
+            toast.error(`Not valid pincodes: ${invalid.slice(0, 5).join(", ")}`);
+            return;
+        }
+
+        const minOrderValue = Number(form.minOrderValue.value) || 0;
+        const maxOrderValue = form.maxOrderValue.value ? Number(form.maxOrderValue.value) : null;
+        if (maxOrderValue !== null && maxOrderValue < minOrderValue) {
+            toast.error("Max order value must be at least the minimum");
+            return;
+        }
+
+        const prepaidDiscountPercent = Number(form.prepaidDiscountPercent.value) || 0;
+        if (prepaidDiscountPercent > 100) {
+            toast.error("Prepaid discount can't be more than 100%");
+            return;
+        }
+
+        updateCodRules.mutate({
+            enabled: form.enabled.checked,
+            requireOtp: form.requireOtp.checked,
+            minOrderValue,
+            maxOrderValue,
+            maxOpenOrdersPerUser: form.maxOpenOrdersPerUser.value ? Number(form.maxOpenOrdersPerUser.value) : null,
+            codFee: Number(form.codFee.value) || 0,
+            prepaidDiscountPercent,
+            prepaidDiscountCap: form.prepaidDiscountCap.value ? Number(form.prepaidDiscountCap.value) : null,
+            blockedPincodes: pincodes,
+        });
+    }
+
+    return (
+        <AdminLayout>
+            <div className="min-h-screen bg-white">
+                <div className="flex justify-between items-center pt-30 mb-12 pb-6 border-b-2 border-black">
+                    <h1 className="text-4xl font-bold tracking-tight">DELIVERY ZONES</h1>
+                    <Button onClick={() => { setEditZone(null); setIsOpen(true); }}>NEW ZONE</Button>
+                </div>
+
+                <div className="border-2 border-black mb-12">
+                    <div className="p-8 border-b-2 border-black bg-white">
+                        <h2 className="text-2xl font-bold text-black tracking-tight">CASH ON DELIVERY RULES</h2>
+                        <p className="text-sm text-gray-600 mt-2">
+                            Checked at checkout on top of each zone&apos;s COD setting. Leave a limit empty for no limit.
+                        </p>
+                    </div>
+                    <div className="p-8">
+                        {codRulesLoading ? (
+                            <div className="text-center text-black font-bold tracking-wide py-12">LOADING RULES...</div>
+                        ) : (
+                            <form key={codRules?.updatedAt ?? "new"} className="grid grid-cols-1 md:grid-cols-3 gap-4" onSubmit={onCodRulesSubmit}>
+                                <div className="md:col-span-3 flex flex-wrap gap-8">
+                                    <div className="flex items-center gap-3">
+                                        <input id="codEnabled" name="enabled" type="checkbox" defaultChecked={codRules?.enabled ?? true} className="w-5 h-5 border-2 border-black" />
+                                        <label htmlFor="codEnabled" className="text-sm font-bold tracking-widest">COD ENABLED</label>
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <input id="codRequireOtp" name="requireOtp" type="checkbox" defaultChecked={codRules?.requireOtp ?? false} className="w-5 h-5 border-2 border-black" />
+                                        <label htmlFor="codRequireOtp" className="text-sm font-bold tracking-widest">CONFIRM PHONE BY OTP</label>
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">MIN ORDER VALUE (₹)</label>
+                                    <input name="minOrderValue" type="number" min="0" defaultValue={codRules?.minOrderValue ?? 0} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">MAX ORDER VALUE (₹)</label>
+                                    <input name="maxOrderValue" type="number" min="0" placeholder="No limit" defaultValue={codRules?.maxOrderValue ?? ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">OPEN COD ORDERS PER CUSTOMER</label>
+                                    <input name="maxOpenOrdersPerUser" type="number" min="1" placeholder="No limit" defaultValue={codRules?.maxOpenOrdersPerUser ?? ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">COD FEE (₹)</label>
+                                    <input name="codFee" type="number" min="0" defaultValue={codRules?.codFee ?? 0} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">PREPAID DISCOUNT (%)</label>
+                                    <input name="prepaidDiscountPercent" type="number" min="0" max="100" step="0.5" defaultValue={codRules?.prepaidDiscountPercent ?? 0} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">PREPAID DISCOUNT CAP (₹)</label>
+                                    <input name="prepaidDiscountCap" type="number" min="0" placeholder="No cap" defaultValue={codRules?.prepaidDiscountCap ?? ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div className="md:col-span-3">
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">
+                                        BLOCKED PINCODES ({codRules?.blockedPincodes.length ?? 0})
+                                    </label>
+                                    <textarea
+                                        name="blockedPincodes"
+                                        rows={3}
+                                        placeholder="Separate with commas, spaces or new lines"
+                                        defaultValue={codRules?.blockedPincodes.join(", ") ?? ''}
+                                        className="w-full px-4 py-3 border-2 border-black focus:outline-none font-mono text-sm"
+                                    />
+                                </div>
+                                <div className="md:col-span-3">
+                                    <Button type="submit" disabled={updateCodRules.isPending}>
+                                        {updateCodRules.isPending ? 'SAVING...' : 'SAVE COD RULES'}
+                                    </Button>
+                                </div>
+                            </form>
+                        )}
+                    </div>
+                </div>
+
+                <div className="border-2 border-black">
+                    <div className="p-8 border-b-2 border-black bg-white flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                        <h2 className="text-2xl font-bold text-black tracking-tight">PINCODE TABLE</h2>
+                        <div className="flex gap-4">
+                            <input
+                                value={search}
+                                onChange={(e) => { setSearch(e.target.value.replace(/\D/g, "").slice(0, 6)); setPage(1); }}
+                                placeholder="SEARCH PINCODE"
+                                className="px-4 py-2 border-2 border-black focus:outline-none font-medium"
+                            />
+                            <select
+                                value={zoneFilter}
+                                onChange={(e) => { setZoneFilter(e.target.value as ShippingZone | ""); setPage(1); }}
+                                className="px-4 py-2 border-2 border-black focus:outline-none font-medium"
+                            >
+                                <option value="">ALL ZONES</option>
+                                {ZONES.map((z) => (
+                                    <option key={z} value={z}>{z}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="p-8">
+                        {zonesLoading ? (
+                            <div className="text-center text-black font-bold tracking-wide py-12">LOADING ZONES...</div>
+                        ) : zones.length === 0 ? (
+                            <div className="text-center text-gray-600 font-medium tracking-wide py-12">NO PINCODE ZONES FOUND.</div>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="bg-black hover:bg-black">
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">PINCODES</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">LOCATION</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">ZONE</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">DELIVERY</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">COD</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">STATUS</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest">ACTIONS</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {zones.map((z, index) => (
+                                        <TableRow key={z.id} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                                            <TableCell className="px-8 py-5 font-mono font-bold text-black border-r border-gray-200">
+                                                {z.pincodeFrom === z.pincodeTo ? z.pincodeFrom : `${z.pincodeFrom} – ${z.pincodeTo}`}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-sm text-gray-700 border-r border-gray-200">
+                                                {z.city || z.state
+                                                    ? [z.city, z.state].filter(Boolean).join(", ")
+                                                    : <span className="text-gray-400">—</span>}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 border-r border-gray-200">
+                                                <Badge variant="outline" className="rounded-none text-xs font-bold tracking-widest border-black">
+                                                    {z.zone}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-sm text-black border-r border-gray-200">
+                                                {z.minDays === z.maxDays ? z.minDays : `${z.minDays}-${z.maxDays}`} days
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-xs font-bold tracking-widest border-r border-gray-200">
+                                                {z.codAvailable ? "YES" : "NO"}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 border-r border-gray-200">
+                                                <Badge
+                                                    variant="outline"
+                                                    className={
+                                                        z.isServiceable
+                                                            ? "bg-black text-white border-black rounded-none tracking-widest text-xs font-bold"
+                                                            : "bg-white text-black border-black rounded-none tracking-widest text-xs font-bold"
+                                                    }
+                                                >
+                                                    {z.isServiceable ? "SERVICEABLE" : "BLOCKED"}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5">
+                                                <div className="flex gap-2">
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => { setEditZone(z); setIsOpen(true); }}
+                                                        className="text-xs font-bold tracking-widest border-2 border-black rounded-none"
+                                                    >
+                                                        EDIT
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => deleteZone.mutate(z.id)}
+                                                        disabled={deleteZone.isPending}
+                                                        className="text-xs font-bold tracking-widest border-2 border-black rounded-none"
+                                                    >
+                                                        DELETE
+                                                    </Button>
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                        {totalPages > 1 && (
+                            <div className="flex justify-between items-center mt-8">
+                                <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>PREVIOUS</Button>
+                                <span className="text-sm font-bold tracking-widest">PAGE {page} OF {totalPages}</span>
+                                <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>NEXT</Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <Modal isOpen={isOpen} onClose={() => { setIsOpen(false); setEditZone(null); }}>
+                    <div className="p-8 max-w-2xl w-full border-2 border-black">
+                        <h2 className="text-2xl font-bold mb-8 tracking-tight">{editZone ? 'EDIT ZONE' : 'CREATE ZONE'}</h2>
+                        <form className="grid grid-cols-2 gap-4" onSubmit={onSubmit}>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">PINCODE FROM</label>
+                                <input name="pincodeFrom" inputMode="numeric" maxLength={6} required defaultValue={editZone?.pincodeFrom || ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">PINCODE TO</label>
+                                <input name="pincodeTo" inputMode="numeric" maxLength={6} placeholder="Same as from" defaultValue={editZone?.pincodeTo || ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">CITY</label>
+                                <input name="city" defaultValue={editZone?.city || ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">STATE</label>
+                                <input name="state" defaultValue={editZone?.state || ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div className="col-span-2">
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">ZONE</label>
+                                <select name="zone" defaultValue={editZone?.zone || 'NATIONAL'} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium">
+                                    {ZONES.map((z) => (
+                                        <option key={z} value={z}>{z}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">MIN DAYS</label>
+                                <input name="minDays" type="number" min="0" required defaultValue={editZone?.minDays ?? 3} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">MAX DAYS</label>
+                                <input name="maxDays" type="number" min="0" required defaultValue={editZone?.maxDays ?? 7} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div className="col-span-2 flex items-center gap-3">
+                                <input id="isServiceable" name="isServiceable" type="checkbox" defaultChecked={editZone ? editZone.isServiceable : true} className="w-5 h-5 border-2 border-black" />
+                                <label htmlFor="isServiceable" className="text-sm font-bold tracking-widest">SERVICEABLE</label>
+                            </div>
+                            <div className="col-span-2 flex items-center gap-3">
+                                <input id="codAvailable" name="codAvailable" type="checkbox" defaultChecked={editZone ? editZone.codAvailable : true} className="w-5 h-5 border-2 border-black" />
+                                <label htmlFor="codAvailable" className="text-sm font-bold tracking-widest">CASH ON DELIVERY</label>
+                            </div>
+                            <div className="col-span-2 flex gap-4 mt-6">
+                                <Button type="submit" disabled={createZone.isPending || updateZone.isPending}>
+                                    {createZone.isPending || updateZone.isPending ? 'SAVING...' : (editZone ? 'UPDATE' : 'CREATE')}
+                                </Button>
+                                <Button type="button" variant="outline" onClick={() => { setIsOpen(false); setEditZone(null); }}>CANCEL</Button>
+                            </div>
+                        </form>
+                    </div>
+                </Modal>
+            </div>
+        </AdminLayout>
+    );
+}
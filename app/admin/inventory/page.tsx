@@ -0,0 +1,370 @@
+"use client";
+
+import AdminLayout from "@/app/components/layout/AdminLayout";
+import { Button } from "@/app/components/ui/button";
+import Modal from "@/app/components/ui/Modal";
+import { useAuth } from "@/app/hooks/useAuth";
+import { useAdjustStock, useInventory, useStockMovements } from "@/app/hooks/useInventory";
+import {
+    LOW_COVER_DAYS,
+    STOCK_ADJUSTMENT_REASONS,
+    STOCK_MOVEMENT_LABELS,
+    validateStockAdjustment,
+} from "@/app/lib/inventory";
+import { formatDateTime } from "@/app/lib/formatters";
+import { IInventoryItem, InventoryStockStatus, StockAdjustmentReason } from "@/app/types/inventory.type";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN"];
+const STATUS_TABS: Array<{ label: string; value: InventoryStockStatus | "" }> = [
+    { label: "ALL", value: "" },
+    { label: "LOW STOCK", value: "LOW_STOCK" },
+    { label: "OUT OF STOCK", value: "OUT_OF_STOCK" },
+];
+
+export default function AdminInventoryPage() {
+    const { user, isLoading, isAuthenticated } = useAuth();
+    const router = useRouter();
+    const [status, setStatus] = useState<InventoryStockStatus | "">("");
+    const [search, setSearch] = useState("");
+    const [debouncedSearch, setDebouncedSearch] = useState("");
+    const [page, setPage] = useState(1);
+    const { data: inventoryResponse, isLoading: inventoryLoading } = useInventory({
+        page,
+        limit: 50,
+        status: status || undefined,
+        search: debouncedSearch || undefined,
+        sortBy: "daysOfCover",
+    });
+    const adjustStock = useAdjustStock();
+
+    // Pending changes keyed by variant, kept across pages until applied or cleared
+    const [adjustments, setAdjustments] = useState<Record<string, { item: IInventoryItem; value: string }>>({});
+    const [reason, setReason] = useState<StockAdjustmentReason>("RESTOCK");
+    const [note, setNote] = useState("");
+    const [ledgerItem, setLedgerItem] = useState<IInventoryItem | null>(null);
+
+    const items = useMemo(() => inventoryResponse?.data ?? [], [inventoryResponse]);
+    const meta = inventoryResponse?.meta;
+    const totalPages = meta?.totalPages ?? 1;
+
+    const pending = Object.values(adjustments).filter((a) => a.value.trim() !== "");
+    const errors = Object.fromEntries(
+        pending.map((a) => [a.item.variantId, validateStockAdjustment(reason, Number(a.value), a.item)])
+    );
+    const hasErrors = Object.values(errors).some(Boolean);
+
+    useEffect(() => {
+        const id = setTimeout(() => {
+            setDebouncedSearch(search.trim());
+            setPage(1);
+        }, 300);
+        return () => clearTimeout(id);
+    }, [search]);
+
+    useEffect(() => {
+        if (!isLoading) {
+            if (!isAuthenticated) {
+                router.replace("/(auth)/login?redirect=/admin/inventory");
+            } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+                router.replace("/");
+            }
+        }
+    }, [isLoading, isAuthenticated, user, router]);
+
+    if (isLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-background">
+                <p className="text-base font-medium text-muted-foreground">Loading...</p>
+            </div>
+        );
+    }
+
+    const setAdjustment = (item: IInventoryItem, value: string) => {
+        setAdjustments((prev) => ({ ...prev, [item.variantId]: { item, value } }));
+    };
+
+    const clearAdjustments = () => {
+        setAdjustments({});
+        setNote("");
+    };
+
+    const applyAdjustments = () => {
+        if (pending.length === 0 || hasErrors) return;
+        adjustStock.mutate(
+            {
+                reason,
+                note: note.trim() || undefined,
+                items: pending.map((a) => ({ variantId: a.item.variantId, quantity: Number(a.value) })),
+            },
+            { onSuccess: clearAdjustments }
+        );
+    };
+
+    const headClass = "px-6 py-4 text-white font-bold tracking-widest border-r border-gray-700";
+
+    return (
+        <AdminLayout>
+            <div className="min-h-screen bg-white">
+                <div className="flex justify-between items-center pt-30 mb-12 pb-6 border-b-2 border-black">
+                    <h1 className="text-4xl font-bold tracking-tight">INVENTORY</h1>
+                    {meta && (
+                        <div className="flex gap-6 text-sm font-bold tracking-widest">
+                            <span>{meta.lowStockCount} LOW</span>
+                            <span className="text-red-600">{meta.outOfStockCount} OUT</span>
+                        </div>
+                    )}
+                </div>
+
+                <div className="border-2 border-black mb-8">
+                    <div className="p-8 border-b-2 border-black bg-white space-y-6">
+                        <h2 className="text-2xl font-bold text-black tracking-tight">STOCK BY SKU</h2>
+                        <div className="flex flex-col md:flex-row md:items-center gap-4">
+                            <div className="flex flex-wrap gap-2">
+                                {STATUS_TABS.map((tab) => (
+                                    <Button
+                                        key={tab.label}
+                                        size="sm"
+                                        variant={status === tab.value ? "default" : "outline"}
+                                        className="text-xs font-bold tracking-widest rounded-none"
+                                        onClick={() => { setStatus(tab.value); setPage(1); }}
+                                    >
+                                        {tab.label}
+                                    </Button>
+                                ))}
+                            </div>
+                            <input
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="SEARCH PRODUCT OR SKU"
+                                className="md:ml-auto w-full md:w-72 px-4 py-2 border-2 border-black focus:outline-none text-sm font-medium"
+                            />
+                        </div>
+                    </div>
+
+                    {/* Bulk adjustment bar */}
+                    {pending.length > 0 && (
+                        <div className="p-8 border-b-2 border-black bg-gray-50 flex flex-col lg:flex-row lg:items-end gap-4">
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">REASON</label>
+                                <select
+                                    value={reason}
+                                    onChange={(e) => setReason(e.target.value as StockAdjustmentReason)}
+                                    className="px-4 py-2 border-2 border-black focus:outline-none font-medium bg-white"
+                                >
+                                    {STOCK_ADJUSTMENT_REASONS.map((r) => (
+                                        <option key={r} value={r}>{STOCK_MOVEMENT_LABELS[r]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="flex-1">
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">NOTE (OPTIONAL)</label>
+                                <input
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                    placeholder="PO number, count sheet, damage details..."
+                                    className="w-full px-4 py-2 border-2 border-black focus:outline-none font-medium"
+                                />
+                            </div>
+                            <div className="flex gap-2">
+                                <Button
+                                    className="text-xs font-bold tracking-widest rounded-none"
+                                    disabled={hasErrors || adjustStock.isPending}
+                                    onClick={applyAdjustments}
+                                >
+                                    {adjustStock.isPending ? "APPLYING..." : `APPLY TO ${pending.length} SKU${pending.length === 1 ? "" : "S"}`}
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    className="text-xs font-bold tracking-widest border-2 border-black rounded-none"
+                                    onClick={clearAdjustments}
+                                >
+                                    CLEAR
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="p-8">
+                        {inventoryLoading ? (
+                            <div className="text-center text-black font-bold tracking-wide py-12">LOADING INVENTORY...</div>
+                        ) : items.length === 0 ? (
+                            <div className="text-center text-gray-600 font-medium tracking-wide py-12">NO SKUS FOUND.</div>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="bg-black hover:bg-black">
+                                        <TableHead className={headClass}>PRODUCT</TableHead>
+                                        <TableHead className={headClass}>SKU</TableHead>
+                                        <TableHead className={headClass}>ON HAND</TableHead>
+                                        <TableHead className={headClass}>RESERVED</TableHead>
+                                        <TableHead className={headClass}>AVAILABLE</TableHead>
+                                        <TableHead className={headClass}>LOW AT</TableHead>
+                                        <TableHead className={headClass}>DAYS OF COVER</TableHead>
+                                        <TableHead className={headClass}>ADJUST (±)</TableHead>
+                                        <TableHead className="px-6 py-4 text-white font-bold tracking-widest">LEDGER</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {items.map((item, index) => {
+                                        const value = adjustments[item.variantId]?.value ?? "";
+                                        const error = value.trim() ? errors[item.variantId] : null;
+                                        return (
+                                            <TableRow key={item.variantId} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                                                <TableCell className="px-6 py-4 text-sm text-black border-r border-gray-200">
+                                                    <span className="font-bold">{item.productName}</span>
+                                                    <span className="block text-xs text-gray-500">
+                                                        {item.size}
+                                                        {item.fit && ` · ${item.fit === "OVERSIZED" ? "Oversized" : "Normal"}`}
+                                                        {item.color && ` · ${item.color}`}
+                                                        {!item.isActive && " · INACTIVE"}
+                                                    </span>
+                                                </TableCell>
+                                                <TableCell className="px-6 py-4 font-mono text-xs text-black border-r border-gray-200">{item.sku}</TableCell>
+                                                <TableCell className="px-6 py-4 font-bold text-black border-r border-gray-200">{item.stock}</TableCell>
+                                                <TableCell className="px-6 py-4 text-gray-700 border-r border-gray-200">{item.reserved}</TableCell>
+                                                <TableCell className="px-6 py-4 border-r border-gray-200">
+                                                    {item.status === "IN_STOCK" ? (
+                                                        <span className="font-bold text-black">{item.available}</span>
+                                                    ) : (
+                                                        <Badge
+                                                            variant="outline"
+                                                            className={`rounded-none tracking-widest text-xs font-bold ${
+                                                                item.status === "OUT_OF_STOCK"
+                                                                    ? "bg-red-600 text-white border-red-600"
+                                                                    : "bg-orange-100 text-orange-800 border-orange-300"
+                                                            }`}
+                                                        >
+                                                            {item.available}
+                                                        </Badge>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="px-6 py-4 text-gray-700 border-r border-gray-200">{item.lowStockThreshold}</TableCell>
+                                                <TableCell className="px-6 py-4 border-r border-gray-200">
+                                                    {item.daysOfCover === null ? (
+                                                        <span className="text-gray-400" title="No sales in the last 30 days">—</span>
+                                                    ) : (
+                                                        <span
+                                                            className={item.daysOfCover < LOW_COVER_DAYS ? "font-bold text-red-600" : "text-black"}
+                                                            title={`${item.dailySalesRate.toFixed(1)} sold per day`}
+                                                        >
+                                                            {Math.floor(item.daysOfCover)}
+                                                        </span>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="px-6 py-4 border-r border-gray-200">
+                                                    <input
+                                                        type="number"
+                                                        step="1"
+                                                        value={value}
+                                                        onChange={(e) => setAdjustment(item, e.target.value)}
+                                                        placeholder="0"
+                                                        className={`w-24 px-3 py-2 border-2 focus:outline-none font-medium ${error ? "border-red-600" : "border-black"}`}
+                                                        aria-label={`Adjust stock for ${item.sku}`}
+                                                    />
+                                                    {error && <span className="block text-xs text-red-600 mt-1 max-w-[10rem]">{error}</span>}
+                                                </TableCell>
+                                                <TableCell className="px-6 py-4">
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        className="text-xs font-bold tracking-widest border-2 border-black rounded-none"
+                                                        onClick={() => setLedgerItem(item)}
+                                                    >
+                                                        HISTORY
+                                                    </Button>
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        )}
+                        {totalPages > 1 && (
+                            <div className="flex justify-between items-center mt-8">
+                                <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>PREVIOUS</Button>
+                                <span className="text-sm font-bold tracking-widest">PAGE {page} OF {totalPages}</span>
+                                <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>NEXT</Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <Modal isOpen={!!ledgerItem} onClose={() => setLedgerItem(null)} maxWidth="max-w-4xl">
+                    {ledgerItem && <StockLedger item={ledgerItem} />}
+                </Modal>
+            </div>
+        </AdminLayout>
+    );
+}
+
+function StockLedger({ item }: { item: IInventoryItem }) {
+    const [page, setPage] = useState(1);
+    const { data: movementsResponse, isLoading } = useStockMovements(item.variantId, { page, limit: 20 });
+    const movements = movementsResponse?.data ?? [];
+    const totalPages = movementsResponse?.meta.totalPages ?? 1;
+
+    return (
+        <div className="p-8 w-full border-2 border-black">
+            <h2 className="text-2xl font-bold mb-2 tracking-tight">STOCK LEDGER</h2>
+            <p className="text-sm text-gray-600 mb-8">
+                {item.productName} · <span className="font-mono">{item.sku}</span> · {item.stock} ON HAND
+            </p>
+            {isLoading ? (
+                <div className="text-center text-black font-bold tracking-wide py-8">LOADING...</div>
+            ) : movements.length === 0 ? (
+                <div className="text-center text-gray-600 font-medium tracking-wide py-8">NO MOVEMENTS RECORDED.</div>
+            ) : (
+                <Table>
+                    <TableHeader>
+                        <TableRow className="bg-black hover:bg-black">
+                            <TableHead className="px-4 py-3 text-white font-bold tracking-widest">WHEN</TableHead>
+                            <TableHead className="px-4 py-3 text-white font-bold tracking-widest">REASON</TableHead>
+                            <TableHead className="px-4 py-3 text-white font-bold tracking-widest">CHANGE</TableHead>
+                            <TableHead className="px-4 py-3 text-white font-bold tracking-widest">STOCK</TableHead>
+                            <TableHead className="px-4 py-3 text-white font-bold tracking-widest">BY</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {movements.map((m) => (
+                            <TableRow key={m.id}>
+                                <TableCell className="px-4 py-3 text-xs text-gray-700">{formatDateTime(m.createdAt)}</TableCell>
+                                <TableCell className="px-4 py-3 text-xs">
+                                    <span className="font-bold">{STOCK_MOVEMENT_LABELS[m.reason]}</span>
+                                    {m.reference && <span className="block font-mono text-gray-500">#{m.reference}</span>}
+                                    {m.note && <span className="block text-gray-500">{m.note}</span>}
+                                </TableCell>
+                                <TableCell className={`px-4 py-3 font-mono font-bold ${m.quantity > 0 ? "text-green-700" : "text-red-600"}`}>
+                                    {m.quantity > 0 ? `+${m.quantity}` : m.quantity}
+                                </TableCell>
+                                <TableCell className="px-4 py-3 font-mono text-xs">
+                                    {m.stockBefore} → {m.stockAfter}
+                                </TableCell>
+                                <TableCell className="px-4 py-3 text-xs text-gray-700">
+                                    {m.createdBy ? `${m.createdBy.firstName} ${m.createdBy.lastName}` : "System"}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            )}
+            {totalPages > 1 && (
+                <div className="flex justify-between items-center mt-6">
+                    <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>PREVIOUS</Button>
+                    <span className="text-sm font-bold tracking-widest">PAGE {page} OF {totalPages}</span>
+                    <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>NEXT</Button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -2,6 +2,7 @@
 
 import {
   useAdminOrders,
+  useExportOrders,
   useUpdateOrderStatus,
   useUpdatePaymentStatus,
 } from "@/app/hooks/useOrders";
@@ -12,13 +13,20 @@ import { useEffect } from "react";
 import { useRouter } from "next/navigation";
 import AdminLayout from "@/app/components/layout/AdminLayout";
 import { useAdminUsers } from "@/app/hooks/useAdminUserManagement";
-import { FiSearch } from "react-icons/fi";
+import { useBulkDownloadInvoices } from "@/app/hooks/useInvoice";
+import { isInvoiceAvailable } from "@/app/lib/invoice";
+import CreateShipmentModal from "@/app/components/ui/CreateShipmentModal";
+import RefundOrderModal from "@/app/components/ui/RefundOrderModal";
+import { getActiveRefunds, getRefundableAmount, getRefundedAmount, REFUND_ROLES } from "@/app/lib/refunds";
+import Link from "next/link";
+import { FiDownload, FiSearch } from "react-icons/fi";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/app/components/ui/table";
 import { Badge } from "@/app/components/ui/badge";
 import { Input } from "@/app/components/ui/input";
 import { Label } from "@/app/components/ui/label";
 import { Button } from "@/app/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { formatFileSize } from "@/app/lib/formatters";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -26,7 +34,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/app/components/ui/dropdown-menu";
-import { MoreVertical, MapPin, Phone, User } from "lucide-react";
+import { FileText, MoreVertical, MapPin, Phone, RotateCcw, Truck, User } from "lucide-react";
 
 const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN", "DELIVERY_PARTNER"];
 const ORDER_STATUSES = [
@@ -44,7 +52,11 @@ const PAYMENT_STATUSES = [
   "REFUNDED",
   "PARTIAL_REFUND",
 ];
+// Refund states are only reached by issuing a refund, never set by hand
+const EDITABLE_PAYMENT_STATUSES = ["PENDING", "PAID", "FAILED"];
+const REFUND_PAYMENT_STATUSES = ["REFUNDED", "PARTIAL_REFUND"];
 const PAYMENT_METHODS = ["RAZORPAY", "COD"];
+const SHIPPABLE_STATUSES: IOrder["status"][] = ["CONFIRMED", "PROCESSING"];
 
 export default function AdminOrdersPage() {
   const { user, isLoading, isAuthenticated } = useAuth();
@@ -56,12 +68,15 @@ export default function AdminOrdersPage() {
     paymentStatus: "",
     paymentMethod: "",
     search: "",
+    startDate: "",
+    endDate: "",
   });
 
   const { data: ordersData, isLoading: isOrdersLoading } =
     useAdminOrders(filters);
   const updateStatusMutation = useUpdateOrderStatus();
   const updatePaymentStatusMutation = useUpdatePaymentStatus();
+  const exportOrders = useExportOrders();
   const [editing, setEditing] = useState<{ [orderId: string]: boolean }>({});
   const [editingPayment, setEditingPayment] = useState<{
     [orderId: string]: boolean;
@@ -76,6 +91,10 @@ export default function AdminOrdersPage() {
     limit: 1000,
   });
   const users = usersData?.data || [];
+  const bulkDownloadInvoices = useBulkDownloadInvoices();
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
+  const [shippingOrder, setShippingOrder] = useState<IOrder | null>(null);
+  const [refundingOrder, setRefundingOrder] = useState<IOrder | null>(null);
 
   // Extract orders and meta from the response
   const orders = ordersData?.data || [];
@@ -145,6 +164,27 @@ export default function AdminOrdersPage() {
     setFilters((prev) => ({ ...prev, page }));
   };
 
+  // Only confirmed orders have an invoice
+  const invoiceableOrders = orders.filter(isInvoiceAvailable);
+  const allInvoiceableSelected =
+    invoiceableOrders.length > 0 &&
+    invoiceableOrders.every((o) => selectedOrderIds.includes(o.id));
+
+  const toggleOrderSelection = (orderId: string) => {
+    setSelectedOrderIds((prev) =>
+      prev.includes(orderId) ? prev.filter((id) => id !== orderId) : [...prev, orderId]
+    );
+  };
+
+  const toggleSelectAll = () => {
+    const pageIds = invoiceableOrders.map((o) => o.id);
+    setSelectedOrderIds((prev) =>
+      allInvoiceableSelected
+        ? prev.filter((id) => !pageIds.includes(id))
+        : [...new Set([...prev, ...pageIds])]
+    );
+  };
+
   const getOrderStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
       DELIVERED: "default",
@@ -193,6 +233,8 @@ export default function AdminOrdersPage() {
     );
   }
 
+  const canRefund = REFUND_ROLES.includes(user.role);
+
   return (
     <AdminLayout>
       <div className="min-h-screen bg-white px-4 sm:px-6 lg:px-8">
@@ -200,6 +242,31 @@ export default function AdminOrdersPage() {
           <h1 className="text-2xl font-bold">
             Orders Management
           </h1>
+          <div className="flex items-center gap-2">
+            {exportOrders.isPending && exportOrders.bytesLoaded > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {formatFileSize(exportOrders.bytesLoaded)}
+              </span>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportOrders.mutate({ filters, format: "csv" })}
+              disabled={exportOrders.isPending}
+            >
+              <FiDownload className="h-4 w-4 mr-2" />
+              {exportOrders.isPending && exportOrders.variables?.format === "csv" ? "Exporting..." : "Export CSV"}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportOrders.mutate({ filters, format: "xlsx" })}
+              disabled={exportOrders.isPending}
+            >
+              <FiDownload className="h-4 w-4 mr-2" />
+              {exportOrders.isPending && exportOrders.variables?.format === "xlsx" ? "Exporting..." : "Export Excel"}
+            </Button>
+          </div>
         </div>
 
         <div className="space-y-6 sm:space-y-8 pb-8">
@@ -207,10 +274,10 @@ export default function AdminOrdersPage() {
           <Card>
             <CardHeader className="p-4 sm:p-6">
               <CardTitle className="text-base font-semibold">Filters</CardTitle>
-              <CardDescription className="text-sm text-muted-foreground">Filter orders by status, payment, or search</CardDescription>
+              <CardDescription className="text-sm text-muted-foreground">Filter orders by status, payment, date, or search. Exports use the same filters.</CardDescription>
             </CardHeader>
             <CardContent className="p-4 sm:p-6">
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-3 sm:gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="search">Search</Label>
                   <div className="relative">
@@ -283,6 +350,28 @@ export default function AdminOrdersPage() {
                   </select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="startDate">From</Label>
+                  <Input
+                    id="startDate"
+                    type="date"
+                    value={filters.startDate}
+                    max={filters.endDate || undefined}
+                    onChange={(e) => handleFilterChange("startDate", e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="endDate">To</Label>
+                  <Input
+                    id="endDate"
+                    type="date"
+                    value={filters.endDate}
+                    min={filters.startDate || undefined}
+                    onChange={(e) => handleFilterChange("endDate", e.target.value)}
+                  />
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="limit">Limit</Label>
                   <select
@@ -310,6 +399,8 @@ export default function AdminOrdersPage() {
                         paymentStatus: "",
                         paymentMethod: "",
                         search: "",
+                        startDate: "",
+                        endDate: "",
                       })
                     }
                     className="w-full"
@@ -323,14 +414,39 @@ export default function AdminOrdersPage() {
 
           <Card>
             <CardHeader className="p-4 sm:p-6">
-              <CardTitle className="text-base font-semibold">All Orders</CardTitle>
-              {ordersData && meta && (
-                <CardDescription className="text-sm text-muted-foreground">
-                  Showing {(meta.page - 1) * meta.limit + 1} to{" "}
-                  {Math.min(meta.page * meta.limit, meta.total)} of {meta.total}{" "}
-                  orders
-                </CardDescription>
-              )}
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div>
+                  <CardTitle className="text-base font-semibold">All Orders</CardTitle>
+                  {ordersData && meta && (
+                    <CardDescription className="text-sm text-muted-foreground">
+                      Showing {(meta.page - 1) * meta.limit + 1} to{" "}
+                      {Math.min(meta.page * meta.limit, meta.total)} of {meta.total}{" "}
+                      orders
+                    </CardDescription>
+                  )}
+                </div>
+                {selectedOrderIds.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() =>
+                        bulkDownloadInvoices.mutate(selectedOrderIds, {
+                          onSuccess: () => setSelectedOrderIds([]),
+                        })
+                      }
+                      disabled={bulkDownloadInvoices.isPending}
+                    >
+                      <FileText className="h-4 w-4 mr-2" />
+                      {bulkDownloadInvoices.isPending
+                        ? "Preparing..."
+                        : `Download ${selectedOrderIds.length} Invoice${selectedOrderIds.length === 1 ? "" : "s"}`}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setSelectedOrderIds([])}>
+                      Clear
+                    </Button>
+                  </div>
+                )}
+              </div>
             </CardHeader>
             <CardContent className="p-0 sm:p-6">
               {isOrdersLoading ? (
@@ -347,6 +463,15 @@ export default function AdminOrdersPage() {
                     <Table className="min-w-[1000px]">
                       <TableHeader>
                         <TableRow>
+                          <TableHead className="w-10">
+                            <input
+                              type="checkbox"
+                              aria-label="Select all orders with invoices"
+                              checked={allInvoiceableSelected}
+                              onChange={toggleSelectAll}
+                              disabled={invoiceableOrders.length === 0}
+                            />
+                          </TableHead>
                           <TableHead>Order #</TableHead>
                           <TableHead>User</TableHead>
                           <TableHead>Product(s)</TableHead>
@@ -367,6 +492,15 @@ export default function AdminOrdersPage() {
                       <TableBody>
                         {orders.map((order: IOrder) => (
                           <TableRow key={order.id}>
+                            <TableCell>
+                              <input
+                                type="checkbox"
+                                aria-label={`Select order ${order.orderNumber}`}
+                                checked={selectedOrderIds.includes(order.id)}
+                                onChange={() => toggleOrderSelection(order.id)}
+                                disabled={!isInvoiceAvailable(order)}
+                              />
+                            </TableCell>
                             <TableCell className="font-mono font-medium">
                               {order.orderNumber}
                             </TableCell>
@@ -441,7 +575,7 @@ export default function AdminOrdersPage() {
                                   }))
                                 }
                               >
-                                {PAYMENT_STATUSES.map((status) => (
+                                {EDITABLE_PAYMENT_STATUSES.map((status) => (
                                   <option key={status} value={status}>
                                     {status}
                                   </option>
@@ -455,6 +589,11 @@ export default function AdminOrdersPage() {
                             </TableCell>
                             <TableCell className="font-semibold">
                               ₹{order.totalAmount}
+                              {getRefundedAmount(order) > 0 && (
+                                <div className="text-xs font-normal text-muted-foreground">
+                                  −₹{getRefundedAmount(order)} refunded
+                                </div>
+                              )}
                             </TableCell>
                             <TableCell className="text-sm font-medium uppercase">
                               {order.paymentMethod}
@@ -557,7 +696,7 @@ export default function AdminOrdersPage() {
                                       Cancel
                                     </Button>
                                   </div>
-                                ) : (
+                                ) : !REFUND_PAYMENT_STATUSES.includes(order.paymentStatus) && (
                                   <Button
                                     size="sm"
                                     variant="outline"
@@ -616,6 +755,80 @@ export default function AdminOrdersPage() {
                                     </div>
                                   </div>
                                 </div>
+                                {getActiveRefunds(order).length > 0 && (
+                                  <>
+                                    <DropdownMenuSeparator />
+                                    <div className="px-2 py-3 space-y-2">
+                                      <p className="text-xs font-medium text-muted-foreground">Refunds</p>
+                                      {getActiveRefunds(order).map((refund) => (
+                                        <div key={refund.id} className="text-sm">
+                                          <div className="flex justify-between gap-2">
+                                            <span className="font-medium">₹{refund.amount}</span>
+                                            <span className="text-xs text-muted-foreground">
+                                              {refund.status} · {new Date(refund.createdAt).toLocaleDateString()}
+                                            </span>
+                                          </div>
+                                          <p className="text-xs text-muted-foreground break-words">
+                                            {refund.reason}
+                                            {refund.restock && " · restocked"}
+                                          </p>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  </>
+                                )}
+                                {canRefund && getRefundableAmount(order) > 0 && (
+                                  <>
+                                    <DropdownMenuSeparator />
+                                    <button
+                                      type="button"
+                                      onClick={() => setRefundingOrder(order)}
+                                      className="flex w-full items-center gap-2 px-2 py-2 text-sm hover:bg-accent rounded-sm"
+                                    >
+                                      <RotateCcw className="h-4 w-4 text-muted-foreground" />
+                                      Issue Refund
+                                    </button>
+                                  </>
+                                )}
+                                {isInvoiceAvailable(order) && (
+                                  <>
+                                    <DropdownMenuSeparator />
+                                    <Link
+                                      href={`/orders/${order.id}/invoice`}
+                                      target="_blank"
+                                      className="flex items-center gap-2 px-2 py-2 text-sm hover:bg-accent rounded-sm"
+                                    >
+                                      <FileText className="h-4 w-4 text-muted-foreground" />
+                                      View Invoice
+                                    </Link>
+                                  </>
+                                )}
+                                {order.trackingNumber ? (
+                                  <>
+                                    <DropdownMenuSeparator />
+                                    <Link
+                                      href={`/admin/shipments?search=${encodeURIComponent(order.trackingNumber)}`}
+                                      className="flex items-center gap-2 px-2 py-2 text-sm hover:bg-accent rounded-sm"
+                                    >
+                                      <Truck className="h-4 w-4 text-muted-foreground" />
+                                      <span>
+                                        AWB <span className="font-mono">{order.trackingNumber}</span>
+                                      </span>
+                                    </Link>
+                                  </>
+                                ) : SHIPPABLE_STATUSES.includes(order.status) && (
+                                  <>
+                                    <DropdownMenuSeparator />
+                                    <button
+                                      type="button"
+                                      onClick={() => setShippingOrder(order)}
+                                      className="flex w-full items-center gap-2 px-2 py-2 text-sm hover:bg-accent rounded-sm"
+                                    >
+                                      <Truck className="h-4 w-4 text-muted-foreground" />
+                                      Create Shipment
+                                    </button>
+                                  </>
+                                )}
                               </DropdownMenuContent>
                             </DropdownMenu>
                           </TableCell>
@@ -705,6 +918,8 @@ export default function AdminOrdersPage() {
           </Card>
         </div>
       </div>
+      <CreateShipmentModal order={shippingOrder} onClose={() => setShippingOrder(null)} />
+      {canRefund && <RefundOrderModal order={refundingOrder} onClose={() => setRefundingOrder(null)} />}
     </AdminLayout>
   );
 }
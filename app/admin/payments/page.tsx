@@ -0,0 +1,208 @@
+"use client";
+
+import AdminLayout from "@/app/components/layout/AdminLayout";
+import { Button } from "@/app/components/ui/button";
+import Modal from "@/app/components/ui/Modal";
+import { useAuth } from "@/app/hooks/useAuth";
+import {
+    useCreateOrderFromPayment,
+    useRefundUnmatchedPayment,
+    useUnmatchedPayments,
+} from "@/app/hooks/usePaymentReconciliation";
+import { formatCurrency, formatDateTime } from "@/app/lib/formatters";
+import { IUnmatchedPayment } from "@/app/types/payment.type";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN"];
+
+export default function AdminPaymentsPage() {
+    const { user, isLoading, isAuthenticated } = useAuth();
+    const router = useRouter();
+    const [page, setPage] = useState(1);
+    const { data: paymentsResponse, isLoading: paymentsLoading } = useUnmatchedPayments({ page, limit: 20 });
+    const createOrder = useCreateOrderFromPayment();
+    const refundPayment = useRefundUnmatchedPayment();
+    const [refunding, setRefunding] = useState<IUnmatchedPayment | null>(null);
+
+    const payments = paymentsResponse?.data ?? [];
+    const totalPages = paymentsResponse?.meta.totalPages ?? 1;
+
+    useEffect(() => {
+        if (!isLoading) {
+            if (!isAuthenticated) {
+                router.replace("/(auth)/login?redirect=/admin/payments");
+            } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+                router.replace("/");
+            }
+        }
+    }, [isLoading, isAuthenticated, user, router]);
+
+    useEffect(() => {
+        if (refundPayment.isSuccess) {
+            setRefunding(null);
+        }
+    }, [refundPayment.isSuccess]);
+
+    if (isLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-background">
+                <p className="text-base font-medium text-muted-foreground">Loading...</p>
+            </div>
+        );
+    }
+
+    function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        if (!refunding) return;
+        const form = e.currentTarget as HTMLFormElement & { note?: { value: string } };
+        refundPayment.mutate({ paymentId: refunding.paymentId, note: form.note?.value || undefined });
+    }
+
+    const actionButtonClass = "text-xs font-bold tracking-widest border-2 border-black rounded-none";
+
+    return (
+        <AdminLayout>
+            <div className="min-h-screen bg-white">
+                <div className="flex justify-between items-center pt-30 mb-12 pb-6 border-b-2 border-black">
+                    <h1 className="text-4xl font-bold tracking-tight">PAYMENTS</h1>
+                </div>
+
+                <div className="border-2 border-black">
+                    <div className="p-8 border-b-2 border-black bg-white space-y-2">
+                        <h2 className="text-2xl font-bold text-black tracking-tight">CAPTURED WITHOUT AN ORDER</h2>
+                        <p className="text-sm text-gray-600">
+                            Razorpay took the money but no order was created, usually because verification failed after capture.
+                            Create the order from the saved cart, or refund the full amount.
+                        </p>
+                        {paymentsResponse && (
+                            <span className="block text-sm font-bold tracking-widest">{paymentsResponse.meta.total} UNMATCHED</span>
+                        )}
+                    </div>
+                    <div className="p-8">
+                        {paymentsLoading ? (
+                            <div className="text-center text-black font-bold tracking-wide py-12">LOADING PAYMENTS...</div>
+                        ) : payments.length === 0 ? (
+                            <div className="text-center text-gray-600 font-medium tracking-wide py-12">EVERY CAPTURED PAYMENT HAS AN ORDER.</div>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="bg-black hover:bg-black">
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">PAYMENT</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">AMOUNT</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">CUSTOMER</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">CART</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest">ACTIONS</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {payments.map((p, index) => (
+                                        <TableRow key={p.paymentId} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                                            <TableCell className="px-8 py-5 font-mono font-bold text-black border-r border-gray-200">
+                                                {p.paymentId}
+                                                <span className="block text-xs text-gray-500 font-normal">{p.razorpayOrderId}</span>
+                                                <span className="block text-xs text-gray-500 font-normal font-sans">
+                                                    {formatDateTime(p.capturedAt)}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 border-r border-gray-200">
+                                                <span className="font-bold">
+                                                    {formatCurrency(p.amount / 100, { currency: p.currency, maximumFractionDigits: 2 })}
+                                                </span>
+                                                <Badge variant="outline" className="block w-fit mt-1 rounded-none text-xs font-bold tracking-widest border-black">
+                                                    {p.method.toUpperCase()}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-sm text-gray-700 border-r border-gray-200">
+                                                {p.email || p.contact ? (
+                                                    <>
+                                                        {p.email}
+                                                        {p.contact && <span className="block text-xs text-gray-500">{p.contact}</span>}
+                                                    </>
+                                                ) : (
+                                                    <span className="text-gray-400">—</span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-xs text-gray-700 border-r border-gray-200">
+                                                {p.cart && p.cart.items.length > 0 ? (
+                                                    p.cart.items.map((item) => (
+                                                        <div key={`${item.productId}_${item.variantId}`}>
+                                                            {item.name || item.productId} × {item.quantity}
+                                                            {item.size && ` (${item.size})`}
+                                                        </div>
+                                                    ))
+                                                ) : (
+                                                    <span className="text-gray-400">NO SAVED CART</span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5">
+                                                <div className="flex gap-2">
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        className={actionButtonClass}
+                                                        disabled={!p.canCreateOrder || createOrder.isPending}
+                                                        onClick={() => createOrder.mutate(p.paymentId)}
+                                                    >
+                                                        CREATE ORDER
+                                                    </Button>
+                                                    <Button size="sm" variant="outline" className={actionButtonClass} onClick={() => setRefunding(p)}>
+                                                        REFUND
+                                                    </Button>
+                                                </div>
+                                                {!p.canCreateOrder && p.blockedReason && (
+                                                    <span className="block text-xs text-gray-500 mt-2 max-w-[220px]">{p.blockedReason}</span>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                        {totalPages > 1 && (
+                            <div className="flex justify-between items-center mt-8">
+                                <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>PREVIOUS</Button>
+                                <span className="text-sm font-bold tracking-widest">PAGE {page} OF {totalPages}</span>
+                                <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>NEXT</Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <Modal isOpen={!!refunding} onClose={() => setRefunding(null)}>
+                    {refunding && (
+                        <div className="p-8 max-w-xl w-full border-2 border-black">
+                            <h2 className="text-2xl font-bold mb-2 tracking-tight">REFUND PAYMENT</h2>
+                            <p className="text-sm text-gray-600 mb-8">
+                                {refunding.paymentId} ·{" "}
+                                {formatCurrency(refunding.amount / 100, { currency: refunding.currency, maximumFractionDigits: 2 })} back to{" "}
+                                {refunding.method}
+                            </p>
+                            <form className="grid grid-cols-2 gap-4" onSubmit={onSubmit}>
+                                <div className="col-span-2">
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">NOTE</label>
+                                    <textarea name="note" rows={3} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div className="col-span-2 flex gap-4 mt-6">
+                                    <Button type="submit" disabled={refundPayment.isPending}>
+                                        {refundPayment.isPending ? "REFUNDING..." : "CONFIRM REFUND"}
+                                    </Button>
+                                    <Button type="button" variant="outline" onClick={() => setRefunding(null)}>CANCEL</Button>
+                                </div>
+                            </form>
+                        </div>
+                    )}
+                </Modal>
+            </div>
+        </AdminLayout>
+    );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import {
+  useCommitProductImport,
+  useExportProducts,
+  usePreviewProductImport,
+} from "@/app/hooks/useProducts";
+import { useAuth } from "@/app/hooks/useAuth";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import AdminLayout from "@/app/components/layout/AdminLayout";
+import { Button } from "@/app/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Alert, AlertDescription } from "@/app/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+import { formatDateTime, formatFileSize } from "@/app/lib/formatters";
+import { ProductImportAction } from "@/app/types/product.type";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN"];
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const ACCEPTED_EXTENSIONS = [".csv", ".xlsx"];
+const TEMPLATE_COLUMNS = [
+  "product_slug",
+  "name",
+  "category_slug",
+  "description",
+  "price",
+  "discounted_price",
+  "material",
+  "gender",
+  "variant_sku",
+  "size",
+  "fit",
+  "color",
+  "variant_price",
+  "stock",
+];
+
+const ACTION_BADGES: Record<ProductImportAction, "default" | "secondary" | "destructive" | "outline"> = {
+  CREATE: "default",
+  UPDATE: "secondary",
+  UNCHANGED: "outline",
+  ERROR: "destructive",
+};
+
+export default function AdminProductImportPage() {
+  const { user, isLoading, isAuthenticated } = useAuth();
+  const router = useRouter();
+  const previewImport = usePreviewProductImport();
+  const commitImport = useCommitProductImport();
+  const exportProducts = useExportProducts();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const preview = previewImport.data;
+  const visibleRows = useMemo(
+    () => (preview?.rows ?? []).filter((row) => showUnchanged || row.action !== "UNCHANGED"),
+    [preview, showUnchanged]
+  );
+  const hasChanges = !!preview && preview.rows.some((row) => row.action === "CREATE" || row.action === "UPDATE");
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        router.replace("/(auth)/login?redirect=/admin/products/import");
+      } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+        router.replace("/");
+      }
+    }
+  }, [isLoading, isAuthenticated, user, router]);
+
+  if (isLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <p className="text-base font-medium text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    previewImport.reset();
+    commitImport.reset();
+
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    if (!ACCEPTED_EXTENSIONS.some((ext) => selected.name.toLowerCase().endsWith(ext))) {
+      toast.error("Please choose a .csv or .xlsx file");
+      e.target.value = "";
+      return;
+    }
+    if (selected.size > MAX_FILE_SIZE) {
+      toast.error(`File is too large (max ${formatFileSize(MAX_FILE_SIZE)})`);
+      e.target.value = "";
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleReset = () => {
+    setFile(null);
+    previewImport.reset();
+    commitImport.reset();
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <AdminLayout>
+      <div className="min-h-screen bg-white px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 pt-4 sm:pt-6 mb-6 pb-4 border-b">
+          <h1 className="text-2xl font-bold">Catalog Import &amp; Export</h1>
+          <Button asChild variant="outline" className="w-full sm:w-auto">
+            <Link href="/admin/products">Back to Products</Link>
+          </Button>
+        </div>
+
+        <div className="space-y-6 pb-8">
+          <Card>
+            <CardHeader className="p-4 sm:p-6">
+              <CardTitle className="text-base font-semibold">Export Catalog</CardTitle>
+              <CardDescription className="text-sm text-muted-foreground">
+                Download every product with one row per variant. Edit it in a spreadsheet and import it back below.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => exportProducts.mutate("csv")}
+                  disabled={exportProducts.isPending}
+                >
+                  {exportProducts.isPending && exportProducts.variables === "csv" ? "Exporting..." : "Export CSV"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => exportProducts.mutate("xlsx")}
+                  disabled={exportProducts.isPending}
+                >
+                  {exportProducts.isPending && exportProducts.variables === "xlsx" ? "Exporting..." : "Export Excel"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Columns: <span className="font-mono">{TEMPLATE_COLUMNS.join(", ")}</span>. Rows with the same{" "}
+                <span className="font-mono">product_slug</span> belong to one product; sizes are XS–XXL and fit is
+                NORMAL or OVERSIZED.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="p-4 sm:p-6">
+              <CardTitle className="text-base font-semibold">Import Catalog</CardTitle>
+              <CardDescription className="text-sm text-muted-foreground">
+                Upload a CSV or Excel file. We validate it and show what would change before anything is saved.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ACCEPTED_EXTENSIONS.join(",")}
+                  onChange={handleFileChange}
+                  className="text-sm"
+                />
+                <Button
+                  onClick={() => file && previewImport.mutate(file)}
+                  disabled={!file || previewImport.isPending}
+                >
+                  {previewImport.isPending ? "Validating..." : "Validate (Dry Run)"}
+                </Button>
+                {(file || preview) && (
+                  <Button variant="ghost" onClick={handleReset}>
+                    Reset
+                  </Button>
+                )}
+              </div>
+
+              {commitImport.data && (
+                <Alert>
+                  <AlertDescription>
+                    Imported {commitImport.data.summary.productsCreated} new and{" "}
+                    {commitImport.data.summary.productsUpdated} updated products (
+                    {commitImport.data.summary.variantsCreated} new,{" "}
+                    {commitImport.data.summary.variantsUpdated} updated variants).
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+
+          {preview && !commitImport.data && (
+            <Card>
+              <CardHeader className="p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <div>
+                    <CardTitle className="text-base font-semibold">Dry Run: {preview.fileName}</CardTitle>
+                    <CardDescription className="text-sm text-muted-foreground">
+                      Preview valid until {formatDateTime(preview.expiresAt)}
+                    </CardDescription>
+                  </div>
+                  <Button
+                    onClick={() => commitImport.mutate(preview.importId)}
+                    disabled={preview.summary.errors > 0 || !hasChanges || commitImport.isPending}
+                  >
+                    {commitImport.isPending ? "Importing..." : "Commit Import"}
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <Badge variant="outline">{preview.summary.totalRows} rows</Badge>
+                  <Badge>{preview.summary.productsCreated} new products</Badge>
+                  <Badge variant="secondary">{preview.summary.productsUpdated} updated products</Badge>
+                  <Badge>{preview.summary.variantsCreated} new variants</Badge>
+                  <Badge variant="secondary">{preview.summary.variantsUpdated} updated variants</Badge>
+                  <Badge variant="outline">{preview.summary.unchanged} unchanged</Badge>
+                  {preview.summary.errors > 0 && (
+                    <Badge variant="destructive">{preview.summary.errors} errors</Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="px-0 pb-0">
+                {preview.summary.errors > 0 && (
+                  <div className="px-4 sm:px-6 pb-4">
+                    <Alert variant="destructive">
+                      <AlertDescription>
+                        Fix the rows marked ERROR in your file and validate again. Nothing is imported while errors remain.
+                      </AlertDescription>
+                    </Alert>
+                  </div>
+                )}
+                <div className="px-4 sm:px-6 pb-3">
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={showUnchanged}
+                      onChange={(e) => setShowUnchanged(e.target.checked)}
+                    />
+                    Show unchanged rows
+                  </label>
+                </div>
+                {visibleRows.length === 0 ? (
+                  <div className="text-center text-muted-foreground py-12">
+                    No changes found in this file.
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <Table className="min-w-[900px]">
+                      <TableHeader>
+                        <TableRow className="hover:bg-transparent">
+                          <TableHead className="pl-6 w-16">Row</TableHead>
+                          <TableHead>Action</TableHead>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Variant</TableHead>
+                          <TableHead>Changes</TableHead>
+                          <TableHead>Issues</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {visibleRows.map((row) => (
+                          <TableRow key={row.rowNumber} className={row.action === "ERROR" ? "bg-destructive/5" : ""}>
+                            <TableCell className="pl-6 font-mono text-xs">{row.rowNumber}</TableCell>
+                            <TableCell>
+                              <Badge variant={ACTION_BADGES[row.action]}>{row.action}</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              <div className="font-medium">{row.productName || "—"}</div>
+                              <div className="text-xs text-muted-foreground font-mono">
+                                {row.productSlug}
+                                {row.categorySlug && ` · ${row.categorySlug}`}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-sm">
+                              {row.variantSku ? (
+                                <>
+                                  <div className="font-mono text-xs">{row.variantSku}</div>
+                                  <div className="text-xs text-muted-foreground">
+                                    {[row.size, row.fit, row.color].filter(Boolean).join(" · ")}
+                                  </div>
+                                </>
+                              ) : (
+                                "—"
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs">
+                              {row.changes.length === 0 ? (
+                                <span className="text-muted-foreground">—</span>
+                              ) : (
+                                <ul className="space-y-0.5">
+                                  {row.changes.map((change) => (
+                                    <li key={change.field}>
+                                      <span className="font-medium">{change.field}:</span>{" "}
+                                      {change.from !== null && (
+                                        <span className="line-through text-muted-foreground">{String(change.from)}</span>
+                                      )}{" "}
+                                      → <span>{change.to === null ? "(empty)" : String(change.to)}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs">
+                              {row.errors.map((message) => (
+                                <p key={message} className="text-destructive">{message}</p>
+                              ))}
+                              {row.warnings.map((message) => (
+                                <p key={message} className="text-amber-600">{message}</p>
+                              ))}
+                              {row.errors.length === 0 && row.warnings.length === 0 && (
+                                <span className="text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
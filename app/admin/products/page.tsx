@@ -7,6 +7,7 @@ import {
 import { useAuth } from "@/app/hooks/useAuth";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
+import Link from "next/link";
 import AdminLayout from "@/app/components/layout/AdminLayout";
 import { Button } from "@/app/components/ui/button";
 import ProductManagement from "@/app/components/admin/ProductManagement";
@@ -109,7 +110,15 @@ export default function AdminProductsPage() {
       <div className="min-h-screen bg-white px-4 sm:px-6 lg:px-8">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 pt-4 sm:pt-6 mb-6 pb-4 border-b">
           <h1 className="text-2xl font-bold">Products Management</h1>
-          <Button onClick={() => setShowCreate(true)} className="w-full sm:w-auto">Add Product</Button>
+          <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+            <Button asChild variant="outline" className="w-full sm:w-auto">
+              <Link href="/admin/products/import">Import / Export</Link>
+            </Button>
+            <Button asChild variant="outline" className="w-full sm:w-auto">
+              <Link href="/admin/products/waitlist">Restock Waitlist</Link>
+            </Button>
+            <Button onClick={() => setShowCreate(true)} className="w-full sm:w-auto">Add Product</Button>
+          </div>
         </div>
         <Card>
           <CardHeader className="p-4 sm:p-6">
@@ -0,0 +1,192 @@
+"use client";
+
+import { useStockWaitlist } from "@/app/hooks/useWishlist";
+import { useAuth } from "@/app/hooks/useAuth";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import AdminLayout from "@/app/components/layout/AdminLayout";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+import { formatDate } from "@/app/lib/formatters";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN"];
+const PAGE_SIZE = 20;
+
+export default function AdminStockWaitlistPage() {
+  const { user, isLoading, isAuthenticated } = useAuth();
+  const router = useRouter();
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [outOfStockOnly, setOutOfStockOnly] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const { data, isLoading: isWaitlistLoading, error } = useStockWaitlist({
+    search: debouncedSearch || undefined,
+    outOfStockOnly,
+    page: currentPage,
+    limit: PAGE_SIZE,
+  });
+  const entries = data?.data ?? [];
+  const meta = data?.meta;
+
+  useEffect(() => {
+    const id = setTimeout(() => {
+      setDebouncedSearch(search.trim());
+      setCurrentPage(1);
+    }, 300);
+    return () => clearTimeout(id);
+  }, [search]);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        router.replace("/(auth)/login?redirect=/admin/products/waitlist");
+      } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+        router.replace("/");
+      }
+    }
+  }, [isLoading, isAuthenticated, user, router]);
+
+  if (isLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <p className="text-base font-medium text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="min-h-screen bg-white px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 pt-4 sm:pt-6 mb-6 pb-4 border-b">
+          <h1 className="text-2xl font-bold">Restock Waitlist</h1>
+          <Button asChild variant="outline" className="w-full sm:w-auto">
+            <Link href="/admin/products">Back to Products</Link>
+          </Button>
+        </div>
+
+        <Card className="mb-8">
+          <CardHeader className="p-4 sm:p-6">
+            <CardTitle className="text-base font-semibold">Shoppers Waiting per SKU</CardTitle>
+            <CardDescription className="text-sm text-muted-foreground">
+              Open &ldquo;notify me&rdquo; requests from product pages, most requested first. Everyone waiting on a
+              SKU is emailed when its stock goes above zero.
+            </CardDescription>
+            {meta && (
+              <span className="text-sm font-medium text-black tracking-wide">
+                {meta.totalWaiting} WAITING ACROSS {meta.total} SKUS
+              </span>
+            )}
+          </CardHeader>
+          <CardContent className="px-0 pb-0">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 px-4 sm:px-6 pb-4">
+              <Input
+                placeholder="Search by product or SKU"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="sm:max-w-xs"
+              />
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={outOfStockOnly}
+                  onChange={(e) => {
+                    setOutOfStockOnly(e.target.checked);
+                    setCurrentPage(1);
+                  }}
+                />
+                Out of stock only
+              </label>
+            </div>
+
+            {isWaitlistLoading ? (
+              <div className="text-center text-muted-foreground py-16">Loading waitlist...</div>
+            ) : error ? (
+              <div className="text-center text-destructive py-16">Failed to load the waitlist.</div>
+            ) : entries.length === 0 ? (
+              <div className="text-center text-muted-foreground py-16">Nobody is waiting on a restock.</div>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow className="hover:bg-transparent">
+                      <TableHead className="pl-6 w-[240px]">Product</TableHead>
+                      <TableHead>SKU</TableHead>
+                      <TableHead>Size</TableHead>
+                      <TableHead>Fit</TableHead>
+                      <TableHead>Stock</TableHead>
+                      <TableHead>Waiting</TableHead>
+                      <TableHead className="pr-6">Oldest Request</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry.variantId ?? entry.productId}>
+                        <TableCell className="pl-6 font-medium">
+                          <Link href={`/products/${entry.productId}`} className="hover:underline" target="_blank">
+                            {entry.productName}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{entry.sku}</TableCell>
+                        <TableCell>{entry.size ?? "—"}</TableCell>
+                        <TableCell>
+                          {entry.fit ? (entry.fit === "OVERSIZED" ? "Oversized" : "Normal") : "—"}
+                        </TableCell>
+                        <TableCell>
+                          {entry.stock === 0 ? (
+                            <Badge variant="destructive">Out of stock</Badge>
+                          ) : (
+                            entry.stock
+                          )}
+                        </TableCell>
+                        <TableCell className="font-semibold">{entry.waiting}</TableCell>
+                        <TableCell className="pr-6">{formatDate(entry.oldestRequestAt)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {meta && meta.totalPages > 1 && (
+                  <div className="flex items-center justify-between gap-4 px-6 py-4 border-t">
+                    <span className="text-sm text-muted-foreground">
+                      Page {meta.page} of {meta.totalPages}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setCurrentPage((p) => p - 1)}
+                        disabled={currentPage <= 1}
+                      >
+                        Previous
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setCurrentPage((p) => p + 1)}
+                        disabled={currentPage >= meta.totalPages}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,543 @@
+"use client";
+
+import AdminLayout from "@/app/components/layout/AdminLayout";
+import { Button } from "@/app/components/ui/button";
+import Modal from "@/app/components/ui/Modal";
+import { useAuth } from "@/app/hooks/useAuth";
+import {
+    useAdminPromotions,
+    useCreatePromotion,
+    useDeletePromotion,
+    useUpdatePromotion,
+} from "@/app/hooks/useAdminPromotions";
+import { useAdminProducts, useCategories } from "@/app/hooks/useProducts";
+import { describePromotion, formatTierList, parseTierList, PROMOTION_TYPE_LABELS } from "@/app/lib/promotions";
+import {
+    ICreatePromotionData,
+    IPromotion,
+    PromotionScope,
+    PromotionType,
+    PromotionValueType,
+} from "@/app/types/promotion.type";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN"];
+const TYPES: PromotionType[] = ["DISCOUNT", "BUY_X_GET_Y", "TIERED_SPEND", "FREE_SHIPPING", "FIRST_ORDER"];
+const SCOPES: PromotionScope[] = ["ALL", "CATEGORY", "PRODUCT"];
+
+type SelectedProduct = { id: string; name: string };
+
+function ProductPicker({
+    selected,
+    onChange,
+}: {
+    selected: SelectedProduct[];
+    onChange: (products: SelectedProduct[]) => void;
+}) {
+    const [search, setSearch] = useState("");
+    const [debouncedSearch, setDebouncedSearch] = useState("");
+    const { data: productsResponse, isFetching } = useAdminProducts({ search: debouncedSearch || undefined, limit: 8 });
+    const matches = (productsResponse?.data ?? []).filter((p) => !selected.some((s) => s.id === p.id));
+
+    useEffect(() => {
+        const id = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+        return () => clearTimeout(id);
+    }, [search]);
+
+    return (
+        <div className="space-y-3">
+            {selected.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {selected.map((product) => (
+                        <button
+                            key={product.id}
+                            type="button"
+                            onClick={() => onChange(selected.filter((s) => s.id !== product.id))}
+                            className="px-3 py-1 border-2 border-black text-xs font-bold tracking-wide hover:bg-black hover:text-white cursor-pointer"
+                        >
+                            {product.name} ×
+                        </button>
+                    ))}
+                </div>
+            )}
+            <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="SEARCH PRODUCTS TO ADD"
+                className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium"
+            />
+            <div className="border-2 border-black divide-y divide-gray-200 max-h-48 overflow-y-auto">
+                {isFetching && matches.length === 0 ? (
+                    <p className="p-3 text-xs font-bold tracking-widest text-gray-600">SEARCHING...</p>
+                ) : matches.length === 0 ? (
+                    <p className="p-3 text-xs font-bold tracking-widest text-gray-600">NO MATCHING PRODUCTS</p>
+                ) : (
+                    matches.map((product) => (
+                        <button
+                            key={product.id}
+                            type="button"
+                            onClick={() => onChange([...selected, { id: product.id, name: product.name }])}
+                            className="w-full text-left p-3 text-sm hover:bg-gray-50 cursor-pointer"
+                        >
+                            {product.name}
+                        </button>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default function AdminPromotionsPage() {
+    const { user, isLoading, isAuthenticated } = useAuth();
+    const router = useRouter();
+    const { data: promotionsResponse, isLoading: promotionsLoading } = useAdminPromotions();
+    const { data: categoriesResponse } = useCategories();
+    const createPromotion = useCreatePromotion();
+    const updatePromotion = useUpdatePromotion();
+    const deletePromotion = useDeletePromotion();
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [editPromotion, setEditPromotion] = useState<IPromotion | null>(null);
+    const [formType, setFormType] = useState<PromotionType>("DISCOUNT");
+    const [formScope, setFormScope] = useState<PromotionScope>("ALL");
+    const [categoryIds, setCategoryIds] = useState<string[]>([]);
+    const [products, setProducts] = useState<SelectedProduct[]>([]);
+
+    const promotions = useMemo(() => promotionsResponse?.data ?? [], [promotionsResponse]);
+    const categories = useMemo(() => categoriesResponse?.data ?? [], [categoriesResponse]);
+
+    useEffect(() => {
+        if (!isLoading) {
+            if (!isAuthenticated) {
+                router.replace("/(auth)/login?redirect=/admin/promotions");
+            } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+                router.replace("/");
+            }
+        }
+    }, [isLoading, isAuthenticated, user, router]);
+
+    useEffect(() => {
+        if (createPromotion.isSuccess || updatePromotion.isSuccess) {
+            setIsOpen(false);
+            setEditPromotion(null);
+        }
+    }, [createPromotion.isSuccess, updatePromotion.isSuccess]);
+
+    if (isLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-background">
+                <p className="text-base font-medium text-muted-foreground">Loading...</p>
+            </div>
+        );
+    }
+
+    function openEditor(promotion: IPromotion | null) {
+        setEditPromotion(promotion);
+        setFormType(promotion?.type ?? "DISCOUNT");
+        setFormScope(promotion?.scope ?? "ALL");
+        setCategoryIds(promotion?.categoryIds ?? []);
+        setProducts(
+            promotion?.productIds.map((id) => ({
+                id,
+                name: promotion.products?.find((p) => p.id === id)?.name ?? id,
+            })) ?? []
+        );
+        setIsOpen(true);
+    }
+
+    function closeEditor() {
+        setIsOpen(false);
+        setEditPromotion(null);
+    }
+
+    function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        const form = e.currentTarget as HTMLFormElement & {
+            name: { value: string };
+            description: { value: string };
+            valueType?: { value: PromotionValueType };
+            value?: { value: string };
+            maxDiscount?: { value: string };
+            buyQuantity?: { value: string };
+            getQuantity?: { value: string };
+            getDiscountPercent?: { value: string };
+            tiers?: { value: string };
+            minOrderValue: { value: string };
+            priority: { value: string };
+            stackable: { checked: boolean };
+            combinesWithCoupons: { checked: boolean };
+            validFrom: { value: string };
+            validUntil: { value: string };
+            usageLimit: { value: string };
+            isActive: { checked: boolean };
+        };
+
+        if (formScope === "CATEGORY" && categoryIds.length === 0) {
+            toast.error("Pick at least one category");
+            return;
+        }
+        if (formScope === "PRODUCT" && products.length === 0) {
+            toast.error("Pick at least one product");
+            return;
+        }
+
+        const payload: ICreatePromotionData = {
+            name: form.name.value,
+            description: form.description.value || undefined,
+            type: formType,
+            scope: formScope,
+            categoryIds: formScope === "CATEGORY" ? categoryIds : [],
+            productIds: formScope === "PRODUCT" ? products.map((p) => p.id) : [],
+            minOrderValue: Number(form.minOrderValue.value) || 0,
+            priority: Number(form.priority.value) || 0,
+            stackable: form.stackable.checked,
+            combinesWithCoupons: form.combinesWithCoupons.checked,
+            validFrom: form.validFrom.value ? new Date(form.validFrom.value).toISOString() : undefined,
+            validUntil: form.validUntil.value ? new Date(form.validUntil.value).toISOString() : undefined,
+            usageLimit: form.usageLimit.value ? Number(form.usageLimit.value) : null,
+            isActive: form.isActive.checked,
+        };
+
+        if (formType === "DISCOUNT" || formType === "FIRST_ORDER") {
+            payload.valueType = form.valueType?.value;
+            payload.value = Number(form.value?.value);
+            payload.maxDiscount = form.maxDiscount?.value ? Number(form.maxDiscount.value) : null;
+            if (!payload.value || payload.value <= 0) {
+                toast.error("Enter a discount value");
+                return;
+            }
+            if (payload.valueType === "PERCENTAGE" && payload.value > 100) {
+                toast.error("A percentage discount can't be more than 100%");
+                return;
+            }
+        }
+
+        if (formType === "BUY_X_GET_Y") {
+            payload.buyQuantity = Number(form.buyQuantity?.value);
+            payload.getQuantity = Number(form.getQuantity?.value);
+            payload.getDiscountPercent = Number(form.getDiscountPercent?.value);
+            if (payload.buyQuantity < 1 || payload.getQuantity < 1) {
+                toast.error("Buy and get quantities must be at least 1");
+                return;
+            }
+        }
+
+        if (formType === "TIERED_SPEND") {
+            const { tiers, invalid } = parseTierList(form.tiers?.value ?? "");
+            if (invalid.length > 0) {
+                toast.error(`Couldn't read tier: ${invalid[0]}`);
+                return;
+            }
+            if (tiers.length === 0) {
+                toast.error("Add at least one spend tier");
+                return;
+            }
+            payload.tiers = tiers;
+        }
+
+        if (editPromotion) {
+            updatePromotion.mutate({ id: editPromotion.id, data: payload });
+        } else {
+            createPromotion.mutate(payload);
+        }
+    }
+
+    const hasValue = formType === "DISCOUNT" || formType === "FIRST_ORDER";
+
+    return (
+        <AdminLayout>
+            <div className="min-h-screen bg-white">
+                <div className="flex justify-between items-center pt-30 mb-12 pb-6 border-b-2 border-black">
+                    <h1 className="text-4xl font-bold tracking-tight">PROMOTIONS</h1>
+                    <Button onClick={() => openEditor(null)}>NEW PROMOTION</Button>
+                </div>
+
+                <div className="border-2 border-black">
+                    <div className="p-8 border-b-2 border-black bg-white">
+                        <h2 className="text-2xl font-bold text-black tracking-tight">AUTOMATIC PROMOTIONS</h2>
+                        <p className="text-sm text-gray-600 mt-2">
+                            Applied at checkout without a code, highest priority first. A promotion that doesn&apos;t
+                            stack stops the ones below it once it applies.
+                        </p>
+                    </div>
+                    <div className="p-8">
+                        {promotionsLoading ? (
+                            <div className="text-center text-black font-bold tracking-wide py-12">LOADING PROMOTIONS...</div>
+                        ) : promotions.length === 0 ? (
+                            <div className="text-center text-gray-600 font-medium tracking-wide py-12">NO PROMOTIONS FOUND.</div>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="bg-black hover:bg-black">
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">PRIORITY</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">NAME</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">OFFER</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">APPLIES TO</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">STACKING</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">VALIDITY</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">USAGE</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">STATUS</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest">ACTIONS</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {promotions.map((p, index) => (
+                                        <TableRow key={p.id} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                                            <TableCell className="px-8 py-5 font-mono font-bold text-black border-r border-gray-200">
+                                                {p.priority}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 border-r border-gray-200">
+                                                <span className="font-bold text-black">{p.name}</span>
+                                                <Badge variant="outline" className="ml-2 rounded-none text-xs font-bold tracking-widest border-black">
+                                                    {PROMOTION_TYPE_LABELS[p.type].toUpperCase()}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-sm text-black border-r border-gray-200">
+                                                {describePromotion(p)}
+                                                {p.minOrderValue > 0 && p.type !== "FREE_SHIPPING" ? (
+                                                    <span className="block text-xs text-gray-500">min order ₹{p.minOrderValue}</span>
+                                                ) : null}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-xs text-gray-700 border-r border-gray-200">
+                                                {p.scope === "ALL"
+                                                    ? "Whole cart"
+                                                    : p.scope === "CATEGORY"
+                                                        ? categories
+                                                            .filter((c) => p.categoryIds.includes(c.id))
+                                                            .map((c) => c.name)
+                                                            .join(", ") || `${p.categoryIds.length} categories`
+                                                        : `${p.productIds.length} product${p.productIds.length === 1 ? "" : "s"}`}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-xs font-bold tracking-widest border-r border-gray-200">
+                                                {p.stackable ? "STACKS" : "EXCLUSIVE"}
+                                                <span className="block font-normal text-gray-500 tracking-normal">
+                                                    {p.combinesWithCoupons ? "with coupons" : "no coupons"}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-xs text-gray-600 border-r border-gray-200">
+                                                {p.validFrom ? (
+                                                    <div>
+                                                        <span className="font-medium">From:</span> {new Date(p.validFrom).toLocaleDateString()}
+                                                    </div>
+                                                ) : null}
+                                                {p.validUntil ? (
+                                                    <div>
+                                                        <span className="font-medium">Until:</span> {new Date(p.validUntil).toLocaleDateString()}
+                                                    </div>
+                                                ) : null}
+                                                {!p.validFrom && !p.validUntil && <span className="text-gray-400">—</span>}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-xs text-gray-600 border-r border-gray-200">
+                                                {p.usageCount ?? 0}
+                                                {p.usageLimit ? ` / ${p.usageLimit}` : ""}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 border-r border-gray-200">
+                                                <Badge
+                                                    variant="outline"
+                                                    className={
+                                                        p.isActive
+                                                            ? "bg-black text-white border-black rounded-none tracking-widest text-xs font-bold"
+                                                            : "bg-white text-black border-black rounded-none tracking-widest text-xs font-bold"
+                                                    }
+                                                >
+                                                    {p.isActive ? "ACTIVE" : "INACTIVE"}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5">
+                                                <div className="flex gap-2">
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => openEditor(p)}
+                                                        className="text-xs font-bold tracking-widest border-2 border-black rounded-none"
+                                                    >
+                                                        EDIT
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => deletePromotion.mutate(p.id)}
+                                                        disabled={deletePromotion.isPending}
+                                                        className="text-xs font-bold tracking-widest border-2 border-black rounded-none"
+                                                    >
+                                                        DELETE
+                                                    </Button>
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                    </div>
+                </div>
+
+                <Modal isOpen={isOpen} onClose={closeEditor}>
+                    <div className="p-8 max-w-2xl w-full border-2 border-black max-h-[90vh] overflow-y-auto">
+                        <h2 className="text-2xl font-bold mb-8 tracking-tight">{editPromotion ? 'EDIT PROMOTION' : 'CREATE PROMOTION'}</h2>
+                        <form key={editPromotion?.id ?? "new"} className="grid grid-cols-2 gap-4" onSubmit={onSubmit}>
+                            <div className="col-span-2">
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">NAME</label>
+                                <input name="name" required defaultValue={editPromotion?.name || ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">TYPE</label>
+                                <select value={formType} onChange={(e) => setFormType(e.target.value as PromotionType)} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium">
+                                    {TYPES.map((t) => (
+                                        <option key={t} value={t}>{PROMOTION_TYPE_LABELS[t].toUpperCase()}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">APPLIES TO</label>
+                                <select value={formScope} onChange={(e) => setFormScope(e.target.value as PromotionScope)} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium">
+                                    {SCOPES.map((s) => (
+                                        <option key={s} value={s}>{s === "ALL" ? "WHOLE CART" : `SELECTED ${s}S`}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {formScope === "CATEGORY" && (
+                                <div className="col-span-2">
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">CATEGORIES</label>
+                                    <div className="grid grid-cols-2 gap-2 border-2 border-black p-4 max-h-48 overflow-y-auto">
+                                        {categories.map((c) => (
+                                            <label key={c.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={categoryIds.includes(c.id)}
+                                                    onChange={(e) =>
+                                                        setCategoryIds(e.target.checked
+                                                            ? [...categoryIds, c.id]
+                                                            : categoryIds.filter((id) => id !== c.id))
+                                                    }
+                                                    className="w-4 h-4"
+                                                />
+                                                {c.name}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {formScope === "PRODUCT" && (
+                                <div className="col-span-2">
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">PRODUCTS</label>
+                                    <ProductPicker selected={products} onChange={setProducts} />
+                                </div>
+                            )}
+
+                            {hasValue && (
+                                <>
+                                    <div>
+                                        <label className="block text-sm font-bold text-black mb-2 tracking-widest">DISCOUNT</label>
+                                        <div className="flex">
+                                            <input name="value" type="number" step="0.01" min="0" required defaultValue={editPromotion?.value ?? ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                            <select name="valueType" defaultValue={editPromotion?.valueType || 'PERCENTAGE'} className="px-3 py-3 border-2 border-l-0 border-black focus:outline-none font-medium">
+                                                <option value="PERCENTAGE">%</option>
+                                                <option value="FIXED">₹</option>
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-bold text-black mb-2 tracking-widest">MAX DISCOUNT (₹)</label>
+                                        <input name="maxDiscount" type="number" step="0.01" min="0" placeholder="No cap" defaultValue={editPromotion?.maxDiscount ?? ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                    </div>
+                                </>
+                            )}
+
+                            {formType === "BUY_X_GET_Y" && (
+                                <>
+                                    <div>
+                                        <label className="block text-sm font-bold text-black mb-2 tracking-widest">BUY</label>
+                                        <input name="buyQuantity" type="number" min="1" required defaultValue={editPromotion?.buyQuantity ?? 2} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-bold text-black mb-2 tracking-widest">GET</label>
+                                        <input name="getQuantity" type="number" min="1" required defaultValue={editPromotion?.getQuantity ?? 1} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                    </div>
+                                    <div className="col-span-2">
+                                        <label className="block text-sm font-bold text-black mb-2 tracking-widest">DISCOUNT ON THE &quot;GET&quot; ITEMS (%)</label>
+                                        <input name="getDiscountPercent" type="number" min="1" max="100" required defaultValue={editPromotion?.getDiscountPercent ?? 100} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                        <p className="text-xs text-gray-600 mt-2">100 makes them free. The cheapest eligible items are discounted.</p>
+                                    </div>
+                                </>
+                            )}
+
+                            {formType === "TIERED_SPEND" && (
+                                <div className="col-span-2">
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">SPEND TIERS</label>
+                                    <textarea
+                                        name="tiers"
+                                        rows={4}
+                                        placeholder={"2999: 10%\n4999: 750"}
+                                        defaultValue={formatTierList(editPromotion?.tiers)}
+                                        className="w-full px-4 py-3 border-2 border-black focus:outline-none font-mono text-sm"
+                                    />
+                                    <p className="text-xs text-gray-600 mt-2">One tier per line: minimum spend, then % or a rupee amount. The highest reached tier applies.</p>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">
+                                    {formType === "FREE_SHIPPING" ? "FREE ABOVE (₹)" : "MIN ORDER VALUE (₹)"}
+                                </label>
+                                <input name="minOrderValue" type="number" step="0.01" min="0" defaultValue={editPromotion?.minOrderValue ?? 0} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">PRIORITY</label>
+                                <input name="priority" type="number" defaultValue={editPromotion?.priority ?? 0} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">VALID FROM</label>
+                                <input name="validFrom" type="date" defaultValue={editPromotion?.validFrom?.slice(0, 10) ?? ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">VALID UNTIL</label>
+                                <input name="validUntil" type="date" defaultValue={editPromotion?.validUntil?.slice(0, 10) ?? ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div className="col-span-2">
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">USAGE LIMIT</label>
+                                <input name="usageLimit" type="number" min="0" placeholder="Unlimited" defaultValue={editPromotion?.usageLimit ?? ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div className="col-span-2">
+                                <label className="block text-sm font-bold text-black mb-2 tracking-widest">DESCRIPTION</label>
+                                <textarea name="description" rows={2} placeholder="Shown to shoppers under the discount" defaultValue={editPromotion?.description ?? ''} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                            </div>
+                            <div className="col-span-2 flex items-center gap-3">
+                                <input id="stackable" name="stackable" type="checkbox" defaultChecked={editPromotion ? editPromotion.stackable : true} className="w-5 h-5 border-2 border-black" />
+                                <label htmlFor="stackable" className="text-sm font-bold tracking-widest">STACKS WITH OTHER PROMOTIONS</label>
+                            </div>
+                            <div className="col-span-2 flex items-center gap-3">
+                                <input id="combinesWithCoupons" name="combinesWithCoupons" type="checkbox" defaultChecked={editPromotion ? editPromotion.combinesWithCoupons : true} className="w-5 h-5 border-2 border-black" />
+                                <label htmlFor="combinesWithCoupons" className="text-sm font-bold tracking-widest">ALLOW COUPON CODES TOO</label>
+                            </div>
+                            <div className="col-span-2 flex items-center gap-3">
+                                <input id="isActive" name="isActive" type="checkbox" defaultChecked={editPromotion ? editPromotion.isActive : true} className="w-5 h-5 border-2 border-black" />
+                                <label htmlFor="isActive" className="text-sm font-bold tracking-widest">ACTIVE</label>
+                            </div>
+                            <div className="col-span-2 flex gap-4 mt-6">
+                                <Button type="submit" disabled={createPromotion.isPending || updatePromotion.isPending}>
+                                    {createPromotion.isPending || updatePromotion.isPending ? 'SAVING...' : (editPromotion ? 'UPDATE' : 'CREATE')}
+                                </Button>
+                                <Button type="button" variant="outline" onClick={closeEditor}>CANCEL</Button>
+                            </div>
+                        </form>
+                    </div>
+                </Modal>
+            </div>
+        </AdminLayout>
+    );
+}
@@ -0,0 +1,347 @@
+"use client";
+
+import AdminLayout from "@/app/components/layout/AdminLayout";
+import { Button } from "@/app/components/ui/button";
+import Modal from "@/app/components/ui/Modal";
+import { useAuth } from "@/app/hooks/useAuth";
+import {
+    useAdminReturns,
+    useApproveReturn,
+    useCompleteExchange,
+    useIssueReturnRefund,
+    useMarkReturnPickedUp,
+    useRejectReturn,
+    useScheduleReturnPickup,
+} from "@/app/hooks/useReturns";
+import { RETURN_REASON_LABELS } from "@/app/lib/returns";
+import { IReturnRequest, ReturnStatus } from "@/app/types/return.type";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN"];
+const STATUS_TABS: Array<{ label: string; value: ReturnStatus | "" }> = [
+    { label: "NEW", value: "REQUESTED" },
+    { label: "APPROVED", value: "APPROVED" },
+    { label: "PICKUP", value: "PICKUP_SCHEDULED" },
+    { label: "RECEIVED", value: "PICKED_UP" },
+    { label: "REFUNDED", value: "REFUNDED" },
+    { label: "EXCHANGED", value: "EXCHANGED" },
+    { label: "REJECTED", value: "REJECTED" },
+    { label: "ALL", value: "" },
+];
+
+type ReturnAction = "reject" | "pickup" | "refund";
+
+export default function AdminReturnsPage() {
+    const { user, isLoading, isAuthenticated } = useAuth();
+    const router = useRouter();
+    const [status, setStatus] = useState<ReturnStatus | "">("REQUESTED");
+    const [page, setPage] = useState(1);
+    const { data: returnsResponse, isLoading: returnsLoading } = useAdminReturns({
+        page,
+        limit: 20,
+        status: status || undefined,
+    });
+    const approveReturn = useApproveReturn();
+    const rejectReturn = useRejectReturn();
+    const schedulePickup = useScheduleReturnPickup();
+    const markPickedUp = useMarkReturnPickedUp();
+    const issueRefund = useIssueReturnRefund();
+    const completeExchange = useCompleteExchange();
+
+    const [active, setActive] = useState<{ action: ReturnAction; request: IReturnRequest } | null>(null);
+
+    const returns = useMemo(() => returnsResponse?.data ?? [], [returnsResponse]);
+    const totalPages = returnsResponse?.meta.totalPages ?? 1;
+
+    useEffect(() => {
+        if (!isLoading) {
+            if (!isAuthenticated) {
+                router.replace("/(auth)/login?redirect=/admin/returns");
+            } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+                router.replace("/");
+            }
+        }
+    }, [isLoading, isAuthenticated, user, router]);
+
+    useEffect(() => {
+        if (rejectReturn.isSuccess || schedulePickup.isSuccess || issueRefund.isSuccess) {
+            setActive(null);
+        }
+    }, [rejectReturn.isSuccess, schedulePickup.isSuccess, issueRefund.isSuccess]);
+
+    if (isLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-background">
+                <p className="text-base font-medium text-muted-foreground">Loading...</p>
+            </div>
+        );
+    }
+
+    function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        if (!active) return;
+        const form = e.currentTarget as HTMLFormElement & {
+            note?: { value: string };
+            scheduledFor?: { value: string };
+            courier?: { value: string };
+            trackingNumber?: { value: string };
+            amount?: { value: string };
+        };
+        const { id } = active.request;
+
+        if (active.action === "reject") {
+            rejectReturn.mutate({ id, note: form.note?.value || "" });
+        } else if (active.action === "pickup") {
+            schedulePickup.mutate({
+                id,
+                data: {
+                    scheduledFor: new Date(form.scheduledFor?.value || "").toISOString(),
+                    courier: form.courier?.value || undefined,
+                    trackingNumber: form.trackingNumber?.value || undefined,
+                },
+            });
+        } else {
+            issueRefund.mutate({
+                id,
+                data: {
+                    amount: Number(form.amount?.value),
+                    note: form.note?.value || undefined,
+                },
+            });
+        }
+    }
+
+    const actionButtonClass = "text-xs font-bold tracking-widest border-2 border-black rounded-none";
+    const isSaving = rejectReturn.isPending || schedulePickup.isPending || issueRefund.isPending;
+
+    const renderActions = (r: IReturnRequest) => {
+        switch (r.status) {
+            case "REQUESTED":
+                return (
+                    <>
+                        <Button size="sm" variant="outline" className={actionButtonClass} disabled={approveReturn.isPending} onClick={() => approveReturn.mutate({ id: r.id })}>
+                            APPROVE
+                        </Button>
+                        <Button size="sm" variant="outline" className={actionButtonClass} onClick={() => setActive({ action: "reject", request: r })}>
+                            REJECT
+                        </Button>
+                    </>
+                );
+            case "APPROVED":
+                return (
+                    <Button size="sm" variant="outline" className={actionButtonClass} onClick={() => setActive({ action: "pickup", request: r })}>
+                        SCHEDULE PICKUP
+                    </Button>
+                );
+            case "PICKUP_SCHEDULED":
+                return (
+                    <Button size="sm" variant="outline" className={actionButtonClass} disabled={markPickedUp.isPending} onClick={() => markPickedUp.mutate(r.id)}>
+                        MARK RECEIVED
+                    </Button>
+                );
+            case "PICKED_UP":
+                return r.type === "EXCHANGE" ? (
+                    <Button size="sm" variant="outline" className={actionButtonClass} disabled={completeExchange.isPending} onClick={() => completeExchange.mutate(r.id)}>
+                        SHIP REPLACEMENT
+                    </Button>
+                ) : (
+                    <Button size="sm" variant="outline" className={actionButtonClass} onClick={() => setActive({ action: "refund", request: r })}>
+                        ISSUE REFUND
+                    </Button>
+                );
+            default:
+                return <span className="text-gray-400">—</span>;
+        }
+    };
+
+    return (
+        <AdminLayout>
+            <div className="min-h-screen bg-white">
+                <div className="flex justify-between items-center pt-30 mb-12 pb-6 border-b-2 border-black">
+                    <h1 className="text-4xl font-bold tracking-tight">RETURNS</h1>
+                </div>
+
+                <div className="border-2 border-black">
+                    <div className="p-8 border-b-2 border-black bg-white space-y-6">
+                        <h2 className="text-2xl font-bold text-black tracking-tight">RETURN & EXCHANGE QUEUE</h2>
+                        <div className="flex flex-wrap gap-2">
+                            {STATUS_TABS.map((tab) => (
+                                <Button
+                                    key={tab.label}
+                                    size="sm"
+                                    variant={status === tab.value ? "default" : "outline"}
+                                    className="text-xs font-bold tracking-widest rounded-none"
+                                    onClick={() => { setStatus(tab.value); setPage(1); }}
+                                >
+                                    {tab.label}
+                                </Button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="p-8">
+                        {returnsLoading ? (
+                            <div className="text-center text-black font-bold tracking-wide py-12">LOADING RETURNS...</div>
+                        ) : returns.length === 0 ? (
+                            <div className="text-center text-gray-600 font-medium tracking-wide py-12">NO RETURN REQUESTS FOUND.</div>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="bg-black hover:bg-black">
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">ORDER</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">CUSTOMER</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">TYPE</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">ITEMS</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">REASON</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">STATUS</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest">ACTIONS</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {returns.map((r, index) => (
+                                        <TableRow key={r.id} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                                            <TableCell className="px-8 py-5 font-mono font-bold text-black border-r border-gray-200">
+                                                #{r.orderNumber}
+                                                <span className="block text-xs text-gray-500 font-normal font-sans">
+                                                    {new Date(r.createdAt).toLocaleDateString()}
+                                                </span>
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-sm text-gray-700 border-r border-gray-200">
+                                                {r.user ? (
+                                                    <>
+                                                        {[r.user.firstName, r.user.lastName].filter(Boolean).join(" ")}
+                                                        <span className="block text-xs text-gray-500">{r.user.email}</span>
+                                                    </>
+                                                ) : (
+                                                    <span className="text-gray-400">—</span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 border-r border-gray-200">
+                                                <Badge variant="outline" className="rounded-none text-xs font-bold tracking-widest border-black">
+                                                    {r.type}
+                                                </Badge>
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-xs text-gray-700 border-r border-gray-200">
+                                                {r.items.map((item) => (
+                                                    <div key={`${item.productId}_${item.variantId}`}>
+                                                        {item.product?.name || item.productId} × {item.quantity}
+                                                        {item.variant && ` (${item.variant.size})`}
+                                                        {item.exchangeVariant && ` → ${item.exchangeVariant.size}`}
+                                                    </div>
+                                                ))}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 text-xs text-gray-700 border-r border-gray-200">
+                                                <span className="font-bold">{RETURN_REASON_LABELS[r.reason]}</span>
+                                                {r.comments && <span className="block mt-1">{r.comments}</span>}
+                                                {r.photos.length > 0 && (
+                                                    <div className="flex gap-2 mt-2">
+                                                        {r.photos.map((url, i) => (
+                                                            <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="underline font-bold">
+                                                                PHOTO {i + 1}
+                                                            </a>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 border-r border-gray-200">
+                                                <Badge variant="outline" className="bg-black text-white border-black rounded-none tracking-widest text-xs font-bold">
+                                                    {r.status.replace(/_/g, " ")}
+                                                </Badge>
+                                                {r.pickup && (
+                                                    <span className="block text-xs text-gray-500 mt-1">
+                                                        Pickup {new Date(r.pickup.scheduledFor).toLocaleDateString()}
+                                                    </span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5">
+                                                <div className="flex gap-2">{renderActions(r)}</div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                        {totalPages > 1 && (
+                            <div className="flex justify-between items-center mt-8">
+                                <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>PREVIOUS</Button>
+                                <span className="text-sm font-bold tracking-widest">PAGE {page} OF {totalPages}</span>
+                                <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>NEXT</Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <Modal isOpen={!!active} onClose={() => setActive(null)}>
+                    {active && (
+                        <div className="p-8 max-w-xl w-full border-2 border-black">
+                            <h2 className="text-2xl font-bold mb-2 tracking-tight">
+                                {active.action === "reject" ? "REJECT REQUEST" : active.action === "pickup" ? "SCHEDULE PICKUP" : "ISSUE REFUND"}
+                            </h2>
+                            <p className="text-sm text-gray-600 mb-8">ORDER #{active.request.orderNumber}</p>
+                            <form className="grid grid-cols-2 gap-4" onSubmit={onSubmit}>
+                                {active.action === "pickup" && (
+                                    <>
+                                        <div className="col-span-2">
+                                            <label className="block text-sm font-bold text-black mb-2 tracking-widest">PICKUP DATE</label>
+                                            <input name="scheduledFor" type="date" required min={new Date().toISOString().slice(0, 10)} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-bold text-black mb-2 tracking-widest">COURIER</label>
+                                            <input name="courier" className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-bold text-black mb-2 tracking-widest">TRACKING NUMBER</label>
+                                            <input name="trackingNumber" className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                        </div>
+                                    </>
+                                )}
+                                {active.action === "refund" && (
+                                    <div className="col-span-2">
+                                        <label className="block text-sm font-bold text-black mb-2 tracking-widest">AMOUNT (₹)</label>
+                                        <input
+                                            name="amount"
+                                            type="number"
+                                            step="0.01"
+                                            min="1"
+                                            max={active.request.order?.totalAmount}
+                                            required
+                                            className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium"
+                                        />
+                                        {active.request.order && (
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                Order total ₹{active.request.order.totalAmount} · paid via {active.request.order.paymentMethod}
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+                                {active.action !== "pickup" && (
+                                    <div className="col-span-2">
+                                        <label className="block text-sm font-bold text-black mb-2 tracking-widest">
+                                            {active.action === "reject" ? "REASON (SHOWN TO CUSTOMER)" : "NOTE"}
+                                        </label>
+                                        <textarea name="note" rows={3} required={active.action === "reject"} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                    </div>
+                                )}
+                                <div className="col-span-2 flex gap-4 mt-6">
+                                    <Button type="submit" disabled={isSaving}>
+                                        {isSaving ? "SAVING..." : "CONFIRM"}
+                                    </Button>
+                                    <Button type="button" variant="outline" onClick={() => setActive(null)}>CANCEL</Button>
+                                </div>
+                            </form>
+                        </div>
+                    )}
+                </Modal>
+            </div>
+        </AdminLayout>
+    );
+}
@@ -0,0 +1,582 @@
+"use client";
+
+import AdminLayout from "@/app/components/layout/AdminLayout";
+import { Button } from "@/app/components/ui/button";
+import Modal from "@/app/components/ui/Modal";
+import { useAuth } from "@/app/hooks/useAuth";
+import {
+    useAdminReviews,
+    useDeleteReviewReply,
+    useModerateReviews,
+    useReplyToReview,
+    useReviewRequestSettings,
+    useSendTestReviewRequest,
+    useUpdateReviewRequestSettings,
+} from "@/app/hooks/useReviews";
+import { REVIEW_FIT_LABELS, REVIEW_FLAG_LABELS, REVIEW_STATUS_LABELS } from "@/app/lib/reviews";
+import { STARTER_EMAIL_TEMPLATES } from "@/app/lib/emailTemplates";
+import { IAdminReview, ReviewStatus } from "@/app/types/review.type";
+import { FaStar } from "react-icons/fa";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN"];
+const STATUS_TABS: ReviewStatus[] = ["PENDING", "APPROVED", "REJECTED"];
+const PAGE_SIZE = 20;
+const DEFAULT_REQUEST_TEMPLATE = STARTER_EMAIL_TEMPLATES.find((t) => t.id === "review_request");
+
+type ReviewAction =
+    | { action: "reject"; reviewIds: string[] }
+    | { action: "reply"; review: IAdminReview };
+
+export default function AdminReviewsPage() {
+    const { user, isLoading, isAuthenticated } = useAuth();
+    const router = useRouter();
+    const [status, setStatus] = useState<ReviewStatus>("PENDING");
+    const [rating, setRating] = useState<number | "">("");
+    const [product, setProduct] = useState<{ id: string; name: string } | null>(null);
+    const [flaggedOnly, setFlaggedOnly] = useState(false);
+    const [reportedOnly, setReportedOnly] = useState(false);
+    const [search, setSearch] = useState("");
+    const [debouncedSearch, setDebouncedSearch] = useState("");
+    const [page, setPage] = useState(1);
+    const { data: reviewsResponse, isLoading: reviewsLoading } = useAdminReviews({
+        page,
+        limit: PAGE_SIZE,
+        status,
+        rating: rating || undefined,
+        productId: product?.id,
+        flagged: flaggedOnly || undefined,
+        reported: reportedOnly || undefined,
+        search: debouncedSearch || undefined,
+    });
+    const moderateReviews = useModerateReviews();
+    const replyToReview = useReplyToReview();
+    const deleteReply = useDeleteReviewReply();
+    const { data: requestSettings, isLoading: requestSettingsLoading } = useReviewRequestSettings();
+    const updateRequestSettings = useUpdateReviewRequestSettings();
+    const sendTestRequest = useSendTestReviewRequest();
+
+    const [selected, setSelected] = useState<string[]>([]);
+    const [active, setActive] = useState<ReviewAction | null>(null);
+
+    const reviews = useMemo(() => reviewsResponse?.data ?? [], [reviewsResponse]);
+    const totalPages = reviewsResponse?.meta.totalPages ?? 1;
+    const counts = reviewsResponse?.meta.counts;
+
+    useEffect(() => {
+        if (!isLoading) {
+            if (!isAuthenticated) {
+                router.replace("/(auth)/login?redirect=/admin/reviews");
+            } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+                router.replace("/");
+            }
+        }
+    }, [isLoading, isAuthenticated, user, router]);
+
+    useEffect(() => {
+        const id = setTimeout(() => {
+            setDebouncedSearch(search.trim());
+            setPage(1);
+        }, 300);
+        return () => clearTimeout(id);
+    }, [search]);
+
+    // Selections only make sense for the rows currently on screen
+    useEffect(() => {
+        setSelected([]);
+    }, [status, rating, product, flaggedOnly, reportedOnly, debouncedSearch, page]);
+
+    useEffect(() => {
+        if (moderateReviews.isSuccess || replyToReview.isSuccess) {
+            setActive(null);
+            setSelected([]);
+        }
+    }, [moderateReviews.isSuccess, replyToReview.isSuccess]);
+
+    if (isLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-background">
+                <p className="text-base font-medium text-muted-foreground">Loading...</p>
+            </div>
+        );
+    }
+
+    function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        if (!active) return;
+        const form = e.currentTarget as HTMLFormElement & {
+            reason?: { value: string };
+            body?: { value: string };
+        };
+
+        if (active.action === "reject") {
+            moderateReviews.mutate({
+                reviewIds: active.reviewIds,
+                status: "REJECTED",
+                reason: form.reason?.value || undefined,
+            });
+        } else {
+            replyToReview.mutate({
+                reviewId: active.review.id,
+                data: { body: form.body?.value.trim() || "" },
+            });
+        }
+    }
+
+    function onRequestSettingsSubmit(e: React.FormEvent<HTMLFormElement>) {
+        e.preventDefault();
+        const form = e.currentTarget as HTMLFormElement & {
+            enabled: { checked: boolean };
+            delayDays: { value: string };
+            reminderEnabled: { checked: boolean };
+            reminderDelayDays: { value: string };
+            subject: { value: string };
+            previewText: { value: string };
+            body: { value: string };
+            buttonText: { value: string };
+            footerText: { value: string };
+        };
+
+        const delayDays = Number(form.delayDays.value);
+        const reminderDelayDays = Number(form.reminderDelayDays.value);
+        if (!Number.isInteger(delayDays) || delayDays < 1) {
+            toast.error("Send the first email at least 1 day after delivery");
+            return;
+        }
+        if (form.reminderEnabled.checked && (!Number.isInteger(reminderDelayDays) || reminderDelayDays < 1)) {
+            toast.error("The reminder needs a delay of at least 1 day");
+            return;
+        }
+        if (!form.subject.value.trim() || !form.body.value.trim()) {
+            toast.error("Subject and body are required");
+            return;
+        }
+
+        updateRequestSettings.mutate({
+            enabled: form.enabled.checked,
+            delayDays,
+            reminderEnabled: form.reminderEnabled.checked,
+            reminderDelayDays: reminderDelayDays || 1,
+            subject: form.subject.value.trim(),
+            previewText: form.previewText.value.trim() || undefined,
+            body: form.body.value,
+            buttonText: form.buttonText.value.trim() || undefined,
+            footerText: form.footerText.value.trim() || undefined,
+        });
+    }
+
+    const toggleSelected = (id: string) =>
+        setSelected((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+    const allSelected = reviews.length > 0 && selected.length === reviews.length;
+
+    const actionButtonClass = "text-xs font-bold tracking-widest border-2 border-black rounded-none";
+    const isSaving = moderateReviews.isPending || replyToReview.isPending;
+
+    return (
+        <AdminLayout>
+            <div className="min-h-screen bg-white">
+                <div className="flex justify-between items-center pt-30 mb-12 pb-6 border-b-2 border-black">
+                    <h1 className="text-4xl font-bold tracking-tight">REVIEWS</h1>
+                </div>
+
+                <div className="border-2 border-black mb-12">
+                    <div className="p-8 border-b-2 border-black bg-white flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                        <div>
+                            <h2 className="text-2xl font-bold text-black tracking-tight">REVIEW REQUEST EMAILS</h2>
+                            <p className="text-sm text-gray-600 mt-2">
+                                Sent after an order is delivered. Each unreviewed item gets a row of star links below your message;
+                                items the customer has already reviewed are left out, and orders with nothing left to review get no email.
+                            </p>
+                        </div>
+                        {requestSettings?.stats && (
+                            <div className="flex gap-6 text-center shrink-0">
+                                {([
+                                    ["SENT", requestSettings.stats.sent],
+                                    ["REMINDED", requestSettings.stats.reminded],
+                                    ["REVIEWED", requestSettings.stats.reviewed],
+                                ] as const).map(([label, value]) => (
+                                    <div key={label}>
+                                        <p className="text-2xl font-bold">{value}</p>
+                                        <p className="text-xs font-bold tracking-widest text-gray-600">{label}</p>
+                                    </div>
+                                ))}
+                                <p className="self-end text-xs text-gray-600">LAST 30 DAYS</p>
+                            </div>
+                        )}
+                    </div>
+                    <div className="p-8">
+                        {requestSettingsLoading ? (
+                            <div className="text-center text-black font-bold tracking-wide py-12">LOADING SETTINGS...</div>
+                        ) : (
+                            <form key={requestSettings?.updatedAt ?? "new"} className="grid grid-cols-1 md:grid-cols-2 gap-4" onSubmit={onRequestSettingsSubmit}>
+                                <div className="flex items-center gap-3">
+                                    <input id="requestEnabled" name="enabled" type="checkbox" defaultChecked={requestSettings?.enabled ?? false} className="w-5 h-5 border-2 border-black" />
+                                    <label htmlFor="requestEnabled" className="text-sm font-bold tracking-widest">SEND REVIEW REQUESTS</label>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <input id="reminderEnabled" name="reminderEnabled" type="checkbox" defaultChecked={requestSettings?.reminderEnabled ?? true} className="w-5 h-5 border-2 border-black" />
+                                    <label htmlFor="reminderEnabled" className="text-sm font-bold tracking-widest">SEND ONE REMINDER</label>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">DAYS AFTER DELIVERY</label>
+                                    <input name="delayDays" type="number" min="1" defaultValue={requestSettings?.delayDays ?? 5} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">REMINDER AFTER (DAYS)</label>
+                                    <input name="reminderDelayDays" type="number" min="1" defaultValue={requestSettings?.reminderDelayDays ?? 7} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">SUBJECT *</label>
+                                    <input name="subject" defaultValue={requestSettings?.subject ?? DEFAULT_REQUEST_TEMPLATE?.subject} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">PREVIEW TEXT</label>
+                                    <input name="previewText" defaultValue={requestSettings?.previewText ?? ""} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div className="md:col-span-2">
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">BODY * (HTML)</label>
+                                    <textarea
+                                        name="body"
+                                        rows={6}
+                                        defaultValue={requestSettings?.body ?? DEFAULT_REQUEST_TEMPLATE?.body}
+                                        className="w-full px-4 py-3 border-2 border-black focus:outline-none font-mono text-sm"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">BUTTON TEXT</label>
+                                    <input name="buttonText" placeholder="Links to the order page" defaultValue={requestSettings?.buttonText ?? ""} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-bold text-black mb-2 tracking-widest">FOOTER TEXT</label>
+                                    <input name="footerText" defaultValue={requestSettings?.footerText ?? ""} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                </div>
+                                <div className="md:col-span-2 flex flex-wrap gap-4">
+                                    <Button type="submit" disabled={updateRequestSettings.isPending}>
+                                        {updateRequestSettings.isPending ? "SAVING..." : "SAVE EMAIL SETTINGS"}
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        variant="outline"
+                                        className={actionButtonClass}
+                                        disabled={sendTestRequest.isPending || !requestSettings?.updatedAt}
+                                        onClick={() => sendTestRequest.mutate()}
+                                    >
+                                        {sendTestRequest.isPending ? "SENDING..." : "SEND TEST TO ME"}
+                                    </Button>
+                                </div>
+                            </form>
+                        )}
+                    </div>
+                </div>
+
+                <div className="border-2 border-black">
+                    <div className="p-8 border-b-2 border-black bg-white space-y-6">
+                        <h2 className="text-2xl font-bold text-black tracking-tight">MODERATION QUEUE</h2>
+                        <div className="flex flex-wrap gap-2">
+                            {STATUS_TABS.map((tab) => (
+                                <Button
+                                    key={tab}
+                                    size="sm"
+                                    variant={status === tab ? "default" : "outline"}
+                                    className="text-xs font-bold tracking-widest rounded-none"
+                                    onClick={() => { setStatus(tab); setPage(1); }}
+                                >
+                                    {REVIEW_STATUS_LABELS[tab].toUpperCase()}
+                                    {counts && ` (${counts[tab]})`}
+                                </Button>
+                            ))}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-4">
+                            <input
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="SEARCH REVIEW TEXT"
+                                className="px-4 py-2 border-2 border-black focus:outline-none font-medium"
+                            />
+                            <select
+                                value={rating}
+                                onChange={(e) => { setRating(e.target.value ? Number(e.target.value) : ""); setPage(1); }}
+                                className="px-4 py-2 border-2 border-black focus:outline-none font-medium"
+                            >
+                                <option value="">ALL RATINGS</option>
+                                {[5, 4, 3, 2, 1].map((r) => (
+                                    <option key={r} value={r}>{r} STAR{r === 1 ? "" : "S"}</option>
+                                ))}
+                            </select>
+                            <label className="flex items-center gap-2 text-sm font-bold tracking-widest cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={flaggedOnly}
+                                    onChange={(e) => { setFlaggedOnly(e.target.checked); setPage(1); }}
+                                    className="w-4 h-4"
+                                />
+                                FLAGGED ONLY
+                            </label>
+                            <label className="flex items-center gap-2 text-sm font-bold tracking-widest cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={reportedOnly}
+                                    onChange={(e) => { setReportedOnly(e.target.checked); setPage(1); }}
+                                    className="w-4 h-4"
+                                />
+                                REPORTED ONLY
+                            </label>
+                            {product && (
+                                <button
+                                    type="button"
+                                    onClick={() => { setProduct(null); setPage(1); }}
+                                    className="px-3 py-2 border-2 border-black text-xs font-bold tracking-widest hover:bg-black hover:text-white cursor-pointer"
+                                >
+                                    {product.name.toUpperCase()} ×
+                                </button>
+                            )}
+                        </div>
+                        {selected.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-4 p-4 bg-gray-50 border-2 border-black">
+                                <span className="text-sm font-bold tracking-widest">{selected.length} SELECTED</span>
+                                {status !== "APPROVED" && (
+                                    <Button
+                                        size="sm"
+                                        className="text-xs font-bold tracking-widest rounded-none"
+                                        disabled={moderateReviews.isPending}
+                                        onClick={() => moderateReviews.mutate({ reviewIds: selected, status: "APPROVED" })}
+                                    >
+                                        APPROVE SELECTED
+                                    </Button>
+                                )}
+                                {status !== "REJECTED" && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className={actionButtonClass}
+                                        onClick={() => setActive({ action: "reject", reviewIds: selected })}
+                                    >
+                                        REJECT SELECTED
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                    <div className="p-8">
+                        {reviewsLoading ? (
+                            <div className="text-center text-black font-bold tracking-wide py-12">LOADING REVIEWS...</div>
+                        ) : reviews.length === 0 ? (
+                            <div className="text-center text-gray-600 font-medium tracking-wide py-12">NO REVIEWS FOUND.</div>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="bg-black hover:bg-black">
+                                        <TableHead className="px-4 py-4 border-r border-gray-700">
+                                            <input
+                                                type="checkbox"
+                                                checked={allSelected}
+                                                onChange={() => setSelected(allSelected ? [] : reviews.map((r) => r.id))}
+                                                className="w-4 h-4"
+                                                aria-label="Select all reviews on this page"
+                                            />
+                                        </TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">REVIEW</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">PRODUCT</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">CUSTOMER</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">FLAGS</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest">ACTIONS</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {reviews.map((r, index) => (
+                                        <TableRow key={r.id} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                                            <TableCell className="px-4 py-5 align-top border-r border-gray-200">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selected.includes(r.id)}
+                                                    onChange={() => toggleSelected(r.id)}
+                                                    className="w-4 h-4"
+                                                    aria-label="Select review"
+                                                />
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 align-top text-sm text-black border-r border-gray-200 max-w-md whitespace-normal">
+                                                <div className="flex items-center gap-1 mb-2">
+                                                    {[...Array(5)].map((_, i) => (
+                                                        <FaStar key={i} className={`w-3 h-3 ${i < r.rating ? "text-black" : "text-gray-300"}`} />
+                                                    ))}
+                                                    <span className="ml-2 text-xs text-gray-500">{new Date(r.createdAt).toLocaleDateString()}</span>
+                                                </div>
+                                                {r.title && <p className="font-bold">{r.title}</p>}
+                                                <p className="text-gray-700">{r.comment}</p>
+                                                {(r.purchasedSize || r.fit) && (
+                                                    <p className="text-xs text-gray-500 mt-1">
+                                                        {[r.purchasedSize && `Size ${r.purchasedSize}`, r.fit && REVIEW_FIT_LABELS[r.fit]].filter(Boolean).join(" · ")}
+                                                    </p>
+                                                )}
+                                                {r.media && r.media.length > 0 && (
+                                                    <div className="flex gap-2 mt-2">
+                                                        {r.media.map((m, i) => (
+                                                            <a key={m.url} href={m.url} target="_blank" rel="noopener noreferrer" className="text-xs underline font-bold">
+                                                                {m.type === "VIDEO" ? "VIDEO" : "PHOTO"} {i + 1}
+                                                            </a>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                                {r.rejectionReason && (
+                                                    <p className="text-xs text-gray-500 mt-2">Rejected: {r.rejectionReason}</p>
+                                                )}
+                                                {r.reply && (
+                                                    <div className="mt-3 pl-3 border-l-2 border-black text-xs text-gray-700">
+                                                        <span className="font-bold tracking-widest">BRAND REPLY</span>
+                                                        <p className="mt-1">{r.reply.body}</p>
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 align-top text-sm border-r border-gray-200">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => { setProduct({ id: r.product.id, name: r.product.name }); setPage(1); }}
+                                                    className="font-bold text-black hover:underline text-left cursor-pointer"
+                                                    title="Show only this product's reviews"
+                                                >
+                                                    {r.product.name}
+                                                </button>
+                                                <Link
+                                                    href={`/products/${r.product.id}`}
+                                                    target="_blank"
+                                                    className="block text-xs text-gray-500 hover:underline mt-1"
+                                                >
+                                                    VIEW PRODUCT
+                                                </Link>
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 align-top text-sm text-gray-700 border-r border-gray-200">
+                                                {[r.user.firstName, r.user.lastName].filter(Boolean).join(" ")}
+                                                {r.isVerified && (
+                                                    <span className="block text-xs text-gray-500">Verified purchase</span>
+                                                )}
+                                                {((r.helpfulCount ?? 0) > 0 || (r.notHelpfulCount ?? 0) > 0) && (
+                                                    <span className="block text-xs text-gray-500">
+                                                        {r.helpfulCount ?? 0} helpful · {r.notHelpfulCount ?? 0} not
+                                                    </span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 align-top border-r border-gray-200">
+                                                {(r.flags && r.flags.length > 0) || (r.reportCount ?? 0) > 0 ? (
+                                                    <div className="flex flex-col gap-1">
+                                                        {(r.reportCount ?? 0) > 0 && (
+                                                            <Badge variant="outline" className="rounded-none text-xs font-bold tracking-widest border-black bg-black text-white">
+                                                                REPORTED ×{r.reportCount}
+                                                            </Badge>
+                                                        )}
+                                                        {r.flags?.map((flag) => (
+                                                            <Badge key={flag} variant="outline" className="rounded-none text-xs font-bold tracking-widest border-red-600 text-red-600">
+                                                                {REVIEW_FLAG_LABELS[flag].toUpperCase()}
+                                                            </Badge>
+                                                        ))}
+                                                    </div>
+                                                ) : (
+                                                    <span className="text-gray-400">—</span>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="px-8 py-5 align-top">
+                                                <div className="flex flex-col gap-2">
+                                                    {status !== "APPROVED" && (
+                                                        <Button
+                                                            size="sm"
+                                                            variant="outline"
+                                                            className={actionButtonClass}
+                                                            disabled={moderateReviews.isPending}
+                                                            onClick={() => moderateReviews.mutate({ reviewIds: [r.id], status: "APPROVED" })}
+                                                        >
+                                                            APPROVE
+                                                        </Button>
+                                                    )}
+                                                    {status !== "REJECTED" && (
+                                                        <Button size="sm" variant="outline" className={actionButtonClass} onClick={() => setActive({ action: "reject", reviewIds: [r.id] })}>
+                                                            REJECT
+                                                        </Button>
+                                                    )}
+                                                    <Button size="sm" variant="outline" className={actionButtonClass} onClick={() => setActive({ action: "reply", review: r })}>
+                                                        {r.reply ? "EDIT REPLY" : "REPLY"}
+                                                    </Button>
+                                                    {r.reply && (
+                                                        <Button
+                                                            size="sm"
+                                                            variant="outline"
+                                                            className={actionButtonClass}
+                                                            disabled={deleteReply.isPending}
+                                                            onClick={() => deleteReply.mutate(r.id)}
+                                                        >
+                                                            REMOVE REPLY
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        )}
+                        {totalPages > 1 && (
+                            <div className="flex justify-between items-center mt-8">
+                                <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>PREVIOUS</Button>
+                                <span className="text-sm font-bold tracking-widest">PAGE {page} OF {totalPages}</span>
+                                <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>NEXT</Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <Modal isOpen={!!active} onClose={() => setActive(null)}>
+                    {active && (
+                        <div className="p-8 max-w-xl w-full border-2 border-black">
+                            <h2 className="text-2xl font-bold mb-2 tracking-tight">
+                                {active.action === "reject"
+                                    ? `REJECT ${active.reviewIds.length === 1 ? "REVIEW" : `${active.reviewIds.length} REVIEWS`}`
+                                    : "REPLY AS KULANGARA"}
+                            </h2>
+                            <p className="text-sm text-gray-600 mb-8">
+                                {active.action === "reject"
+                                    ? "Rejected reviews are hidden from the product page."
+                                    : `${active.review.user.firstName} on ${active.review.product.name}. Replies are shown publicly under the review.`}
+                            </p>
+                            <form className="grid grid-cols-2 gap-4" onSubmit={onSubmit}>
+                                {active.action === "reject" ? (
+                                    <div className="col-span-2">
+                                        <label className="block text-sm font-bold text-black mb-2 tracking-widest">REASON (INTERNAL)</label>
+                                        <textarea name="reason" rows={3} className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium" />
+                                    </div>
+                                ) : (
+                                    <div className="col-span-2">
+                                        <label className="block text-sm font-bold text-black mb-2 tracking-widest">REPLY</label>
+                                        <textarea
+                                            name="body"
+                                            rows={4}
+                                            required
+                                            maxLength={1000}
+                                            defaultValue={active.review.reply?.body ?? ""}
+                                            className="w-full px-4 py-3 border-2 border-black focus:outline-none font-medium"
+                                        />
+                                    </div>
+                                )}
+                                <div className="col-span-2 flex gap-4 mt-6">
+                                    <Button type="submit" disabled={isSaving}>
+                                        {isSaving ? "SAVING..." : active.action === "reject" ? "REJECT" : "POST REPLY"}
+                                    </Button>
+                                    <Button type="button" variant="outline" onClick={() => setActive(null)}>CANCEL</Button>
+                                </div>
+                            </form>
+                        </div>
+                    )}
+                </Modal>
+            </div>
+        </AdminLayout>
+    );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { FiArrowLeft, FiPrinter } from "react-icons/fi";
+import { Button } from "@/app/components/ui/button";
+import ShippingLabel from "@/app/components/ui/ShippingLabel";
+import { useAuth } from "@/app/hooks/useAuth";
+import { useShipment } from "@/app/hooks/useShipments";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN", "DELIVERY_PARTNER"];
+
+export default function ShippingLabelPage() {
+  const { user, isLoading, isAuthenticated } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const shipmentId = params["id"] as string;
+  const { data: shipment, isLoading: shipmentLoading } = useShipment(shipmentId);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        router.replace(`/(auth)/login?redirect=/admin/shipments/${shipmentId}/label`);
+      } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+        router.replace("/");
+      }
+    }
+  }, [isLoading, isAuthenticated, user, router, shipmentId]);
+
+  if (isLoading || shipmentLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <p className="text-base font-medium text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 mt-16 sm:mt-24 print:m-0 print:p-0">
+      <div className="flex items-center justify-between gap-3 mb-6 print:hidden">
+        <Button variant="ghost" onClick={() => router.back()} className="-ml-2">
+          <FiArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        {shipment && shipment.status !== "CANCELLED" && (
+          <Button onClick={() => window.print()}>
+            <FiPrinter className="mr-2 h-4 w-4" />
+            Print Label
+          </Button>
+        )}
+      </div>
+      {!shipment ? (
+        <p className="text-center text-sm text-muted-foreground py-12">Shipment not found.</p>
+      ) : shipment.status === "CANCELLED" ? (
+        <p className="text-center text-sm text-muted-foreground py-12">
+          Shipment {shipment.trackingNumber} was cancelled and its label is no longer valid.
+        </p>
+      ) : (
+        <ShippingLabel shipment={shipment} />
+      )}
+    </div>
+  );
+}
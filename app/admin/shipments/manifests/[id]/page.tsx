@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { FiArrowLeft, FiPrinter } from "react-icons/fi";
+import { Button } from "@/app/components/ui/button";
+import ShippingLabel from "@/app/components/ui/ShippingLabel";
+import { useAuth } from "@/app/hooks/useAuth";
+import { useShipmentManifest } from "@/app/hooks/useShipments";
+import { formatCurrency, formatDateTime } from "@/app/lib/formatters";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN", "DELIVERY_PARTNER"];
+
+export default function ShipmentManifestPage() {
+  const { user, isLoading, isAuthenticated } = useAuth();
+  const router = useRouter();
+  const params = useParams();
+  const manifestId = params["id"] as string;
+  const { data: manifest, isLoading: manifestLoading } = useShipmentManifest(manifestId);
+
+  useEffect(() => {
+    if (!isLoading) {
+      if (!isAuthenticated) {
+        router.replace(`/(auth)/login?redirect=/admin/shipments/manifests/${manifestId}`);
+      } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+        router.replace("/");
+      }
+    }
+  }, [isLoading, isAuthenticated, user, router, manifestId]);
+
+  if (isLoading || manifestLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-background">
+        <p className="text-base font-medium text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!manifest) {
+    return <p className="text-center text-sm text-muted-foreground py-12 mt-24">Manifest not found.</p>;
+  }
+
+  const codTotal = manifest.shipments.reduce((sum, s) => sum + s.codAmount, 0);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl mt-16 sm:mt-24 print:m-0 print:p-0 print:max-w-none">
+      <div className="flex items-center justify-between gap-3 mb-6 print:hidden">
+        <Button variant="ghost" onClick={() => router.push("/admin/shipments")} className="-ml-2">
+          <FiArrowLeft className="mr-2 h-4 w-4" />
+          Shipments
+        </Button>
+        <Button onClick={() => window.print()}>
+          <FiPrinter className="mr-2 h-4 w-4" />
+          Print Manifest &amp; Labels
+        </Button>
+      </div>
+
+      <article className="bg-white text-black text-xs leading-relaxed p-8 border print:border-0 print:p-0 break-after-page">
+        <header className="flex justify-between gap-6 pb-4 border-b-2 border-black">
+          <div>
+            <h1 className="text-lg font-bold uppercase tracking-widest">Pickup Manifest</h1>
+            <p>
+              <span className="font-semibold">Courier:</span> {manifest.courier}
+            </p>
+          </div>
+          <div className="text-right">
+            <p>
+              <span className="font-semibold">Manifest No:</span> {manifest.manifestNumber}
+            </p>
+            <p>
+              <span className="font-semibold">Created:</span> {formatDateTime(manifest.createdAt)}
+            </p>
+          </div>
+        </header>
+
+        <table className="w-full mt-4 border-collapse">
+          <thead>
+            <tr className="border-y border-black text-left">
+              <th className="py-2 pr-2">#</th>
+              <th className="py-2 pr-2">AWB</th>
+              <th className="py-2 pr-2">Order</th>
+              <th className="py-2 pr-2">Consignee</th>
+              <th className="py-2 pr-2">Pincode</th>
+              <th className="py-2 pr-2 text-right">Weight</th>
+              <th className="py-2 text-right">COD</th>
+            </tr>
+          </thead>
+          <tbody>
+            {manifest.shipments.map((shipment, index) => (
+              <tr key={shipment.id} className="border-b border-gray-300">
+                <td className="py-2 pr-2">{index + 1}</td>
+                <td className="py-2 pr-2 font-mono">{shipment.trackingNumber}</td>
+                <td className="py-2 pr-2 font-mono">{shipment.orderNumber}</td>
+                <td className="py-2 pr-2">{shipment.shipTo.name}</td>
+                <td className="py-2 pr-2">{shipment.shipTo.pincode}</td>
+                <td className="py-2 pr-2 text-right">{(shipment.package.weightGrams / 1000).toFixed(2)} kg</td>
+                <td className="py-2 text-right">{shipment.codAmount > 0 ? formatCurrency(shipment.codAmount) : "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <section className="flex justify-end mt-4">
+          <dl className="w-64 space-y-1">
+            <div className="flex justify-between">
+              <dt>Total Shipments</dt>
+              <dd>{manifest.shipments.length}</dd>
+            </div>
+            <div className="flex justify-between font-bold">
+              <dt>Total COD</dt>
+              <dd>{formatCurrency(codTotal)}</dd>
+            </div>
+          </dl>
+        </section>
+
+        <footer className="mt-16 grid grid-cols-2 gap-12">
+          <div className="border-t border-black pt-2">Handed over by (name &amp; signature)</div>
+          <div className="border-t border-black pt-2">Received by courier (name, signature &amp; time)</div>
+        </footer>
+      </article>
+
+      <div className="hidden print:block">
+        {manifest.shipments.map((shipment) => (
+          <ShippingLabel key={shipment.id} shipment={shipment} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import AdminLayout from "@/app/components/layout/AdminLayout";
+import { Button } from "@/app/components/ui/button";
+import { useAuth } from "@/app/hooks/useAuth";
+import {
+    useAdminShipments,
+    useCancelShipment,
+    useCreateManifest,
+    useSyncShipmentTracking,
+} from "@/app/hooks/useShipments";
+import { formatCurrency } from "@/app/lib/formatters";
+import { IShipment, ShipmentStatus } from "@/app/types/shipment.type";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { use, useEffect, useMemo, useState } from "react";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/app/components/ui/table";
+import { Badge } from "@/app/components/ui/badge";
+
+const ALLOWED_ROLES = ["SUPER_ADMIN", "ADMIN", "DELIVERY_PARTNER"];
+const STATUS_TABS: Array<{ label: string; value: ShipmentStatus | "" }> = [
+    { label: "TO MANIFEST", value: "CREATED" },
+    { label: "AWAITING PICKUP", value: "MANIFESTED" },
+    { label: "IN TRANSIT", value: "IN_TRANSIT" },
+    { label: "OUT FOR DELIVERY", value: "OUT_FOR_DELIVERY" },
+    { label: "DELIVERED", value: "DELIVERED" },
+    { label: "RTO", value: "RTO" },
+    { label: "CANCELLED", value: "CANCELLED" },
+    { label: "ALL", value: "" },
+];
+const SYNCABLE_STATUSES: ShipmentStatus[] = ["CREATED", "MANIFESTED", "PICKED_UP", "IN_TRANSIT", "OUT_FOR_DELIVERY"];
+
+type SearchParams = { [key: string]: string | string[] | undefined };
+
+export default function AdminShipmentsPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+    const query = use(searchParams);
+    const initialSearch = typeof query["search"] === "string" ? query["search"] : "";
+    const { user, isLoading, isAuthenticated } = useAuth();
+    const router = useRouter();
+    // A linked AWB may be past CREATED, so look across every status
+    const [status, setStatus] = useState<ShipmentStatus | "">(initialSearch ? "" : "CREATED");
+    const [search, setSearch] = useState(initialSearch);
+    const [page, setPage] = useState(1);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const { data: shipmentsResponse, isLoading: shipmentsLoading } = useAdminShipments({
+        page,
+        limit: 20,
+        status: status || undefined,
+        search: search || undefined,
+    });
+    const cancelShipment = useCancelShipment();
+    const syncTracking = useSyncShipmentTracking();
+    const createManifest = useCreateManifest();
+
+    const shipments = useMemo(() => shipmentsResponse?.data ?? [], [shipmentsResponse]);
+    const totalPages = shipmentsResponse?.meta.totalPages ?? 1;
+    const manifestable = shipments.filter((s) => s.status === "CREATED");
+
+    useEffect(() => {
+        if (!isLoading) {
+            if (!isAuthenticated) {
+                router.replace("/(auth)/login?redirect=/admin/shipments");
+            } else if (!user || !ALLOWED_ROLES.includes(user.role)) {
+                router.replace("/");
+            }
+        }
+    }, [isLoading, isAuthenticated, user, router]);
+
+    if (isLoading || !isAuthenticated || !user || !ALLOWED_ROLES.includes(user.role)) {
+        return (
+            <div className="flex items-center justify-center min-h-screen bg-background">
+                <p className="text-base font-medium text-muted-foreground">Loading...</p>
+            </div>
+        );
+    }
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+    };
+
+    const handleCreateManifest = () => {
+        createManifest.mutate(selectedIds, {
+            onSuccess: (manifest) => {
+                setSelectedIds([]);
+                router.push(`/admin/shipments/manifests/${manifest.id}`);
+            },
+        });
+    };
+
+    const actionButtonClass = "text-xs font-bold tracking-widest border-2 border-black rounded-none";
+
+    const renderActions = (s: IShipment) => (
+        <>
+            {s.status !== "CANCELLED" && (
+                <Button asChild size="sm" variant="outline" className={actionButtonClass}>
+                    <Link href={`/admin/shipments/${s.id}/label`} target="_blank">LABEL</Link>
+                </Button>
+            )}
+            {s.manifestId && (
+                <Button asChild size="sm" variant="outline" className={actionButtonClass}>
+                    <Link href={`/admin/shipments/manifests/${s.manifestId}`} target="_blank">MANIFEST</Link>
+                </Button>
+            )}
+            {SYNCABLE_STATUSES.includes(s.status) && (
+                <Button size="sm" variant="outline" className={actionButtonClass} disabled={syncTracking.isPending} onClick={() => syncTracking.mutate(s.id)}>
+                    SYNC
+                </Button>
+            )}
+            {(s.status === "CREATED" || s.status === "MANIFESTED") && (
+                <Button
+                    size="sm"
+                    variant="outline"
+                    className={actionButtonClass}
+                    disabled={cancelShipment.isPending}
+                    onClick={() => {
+                        if (confirm(`Cancel shipment ${s.trackingNumber}?`)) {
+                            cancelShipment.mutate(s.id);
+                        }
+                    }}
+                >
+                    CANCEL
+                </Button>
+            )}
+        </>
+    );
+
+    return (
+        <AdminLayout>
+            <div className="min-h-screen bg-white">
+                <div className="flex justify-between items-center pt-30 mb-12 pb-6 border-b-2 border-black">
+                    <h1 className="text-4xl font-bold tracking-tight">SHIPMENTS</h1>
+                    {selectedIds.length > 0 && (
+                        <div className="flex gap-2">
+                            <Button disabled={createManifest.isPending} onClick={handleCreateManifest}>
+                                {createManifest.isPending ? "CREATING..." : `CREATE MANIFEST (${selectedIds.length})`}
+                            </Button>
+                            <Button variant="outline" onClick={() => setSelectedIds([])}>CLEAR</Button>
+                        </div>
+                    )}
+                </div>
+
+                <div className="border-2 border-black">
+                    <div className="p-8 border-b-2 border-black bg-white space-y-6">
+                        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                            <h2 className="text-2xl font-bold text-black tracking-tight">COURIER SHIPMENTS</h2>
+                            <input
+                                value={search}
+                                onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+                                placeholder="SEARCH ORDER # OR AWB"
+                                className="w-full lg:w-80 px-4 py-3 border-2 border-black focus:outline-none font-medium"
+                            />
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            {STATUS_TABS.map((tab) => (
+                                <Button
+                                    key={tab.label}
+                                    size="sm"
+                                    variant={status === tab.value ? "default" : "outline"}
+                                    className="text-xs font-bold tracking-widest rounded-none"
+                                    onClick={() => { setStatus(tab.value); setPage(1); setSelectedIds([]); }}
+                                >
+                                    {tab.label}
+                                </Button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="p-8">
+                        {shipmentsLoading ? (
+                            <div className="text-center text-black font-bold tracking-wide py-12">LOADING SHIPMENTS...</div>
+                        ) : shipments.length === 0 ? (
+                            <div className="text-center text-gray-600 font-medium tracking-wide py-12">
+                                NO SHIPMENTS FOUND. CREATE ONE FROM THE ORDERS PAGE.
+                            </div>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="bg-black hover:bg-black">
+                                        <TableHead className="px-4 py-4 border-r border-gray-700">
+                                            <input
+                                                type="checkbox"
+                                                aria-label="Select all shipments to manifest"
+                                                checked={manifestable.length > 0 && manifestable.every((s) => selectedIds.includes(s.id))}
+                                                disabled={manifestable.length === 0}
+                                                onChange={(e) => setSelectedIds(e.target.checked ? manifestable.map((s) => s.id) : [])}
+                                            />
+                                        </TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">AWB</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">ORDER</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">CONSIGNEE</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">PAYMENT</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest border-r border-gray-700">STATUS</TableHead>
+                                        <TableHead className="px-8 py-4 text-white font-bold tracking-widest">ACTIONS</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {shipments.map((s, index) => {
+                                        const lastEvent = s.events[s.events.length - 1];
+                                        return (
+                                            <TableRow key={s.id} className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                                                <TableCell className="px-4 py-5 border-r border-gray-200">
+                                                    <input
+                                                        type="checkbox"
+                                                        aria-label={`Select shipment ${s.trackingNumber}`}
+                                                        checked={selectedIds.includes(s.id)}
+                                                        disabled={s.status !== "CREATED"}
+                                                        onChange={() => toggleSelected(s.id)}
+                                                    />
+                                                </TableCell>
+                                                <TableCell className="px-8 py-5 font-mono font-bold text-black border-r border-gray-200">
+                                                    {s.trackingNumber}
+                                                    <span className="block text-xs text-gray-500 font-normal font-sans">{s.courier}</span>
+                                                </TableCell>
+                                                <TableCell className="px-8 py-5 font-mono text-sm border-r border-gray-200">
+                                                    #{s.orderNumber}
+                                                    <span className="block text-xs text-gray-500 font-sans">
+                                                        {new Date(s.createdAt).toLocaleDateString()}
+                                                    </span>
+                                                </TableCell>
+                                                <TableCell className="px-8 py-5 text-sm text-gray-700 border-r border-gray-200">
+                                                    {s.shipTo.name}
+                                                    <span className="block text-xs text-gray-500">
+                                                        {s.shipTo.city} {s.shipTo.pincode}
+                                                    </span>
+                                                </TableCell>
+                                                <TableCell className="px-8 py-5 text-sm font-bold border-r border-gray-200">
+                                                    {s.codAmount > 0 ? `COD ${formatCurrency(s.codAmount)}` : "PREPAID"}
+                                                </TableCell>
+                                                <TableCell className="px-8 py-5 border-r border-gray-200">
+                                                    <Badge variant="outline" className="bg-black text-white border-black rounded-none tracking-widest text-xs font-bold">
+                                                        {s.status.replace(/_/g, " ")}
+                                                    </Badge>
+                                                    {lastEvent && (
+                                                        <span className="block text-xs text-gray-500 mt-1">
+                                                            {lastEvent.note}
+                                                            {lastEvent.location && ` · ${lastEvent.location}`}
+                                                        </span>
+                                                    )}
+                                                    {s.estimatedDelivery && s.status !== "DELIVERED" && s.status !== "CANCELLED" && (
+                                                        <span className="block text-xs text-gray-500">
+                                                            ETA {new Date(s.estimatedDelivery).toLocaleDateString()}
+                                                        </span>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="px-8 py-5">
+                                                    <div className="flex flex-wrap gap-2">{renderActions(s)}</div>
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        )}
+                        {totalPages > 1 && (
+                            <div className="flex justify-between items-center mt-8">
+                                <Button variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>PREVIOUS</Button>
+                                <span className="text-sm font-bold tracking-widest">PAGE {page} OF {totalPages}</span>
+                                <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>NEXT</Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </AdminLayout>
+    );
+}
@@ -4,8 +4,8 @@ import Link from "next/link";
 import { Button } from "@/app/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/card";
 import { Alert, AlertDescription } from "@/app/components/ui/alert";
-import { Separator } from "@/app/components/ui/separator";
 import CartCard from "@/app/components/ui/CartCard";
+import PriceBreakdown from "@/app/components/ui/PriceBreakdown";
 import RecommendedProducts from "@/app/components/sections/RecommendedProducts";
 import {
   useCart,
@@ -14,15 +14,21 @@ import {
   useClearCart,
 } from "@/app/hooks/useCart";
 import { useCartValidation } from "@/app/hooks/useCartValidation";
+import { usePriceQuote } from "@/app/hooks/usePricing";
+import { useCartRecommendations } from "@/app/hooks/useRecommendations";
 import { ICartItem } from "../types/cart.type";
 import { useState, useEffect } from "react";
 
 export default function CartPage() {
-  const { items, totalItems, subtotal, shipping, total, loading, error } =
-    useCart();
+  const { items, totalItems, loading, error } = useCart();
+  // Same server breakdown as checkout; shipping is estimated until a pincode is known
+  const { data: priceQuote, isFetching: quoteLoading } = usePriceQuote(items);
   const { updateItem, loading: updateLoading } = useUpdateCartItem();
   const { removeItem, loading: removeLoading } = useRemoveFromCart();
   const { clearAllItems, loading: clearLoading } = useClearCart();
+  const { data: recommendations, isLoading: recommendationsLoading } = useCartRecommendations(
+    items.map((item: ICartItem) => item.productId)
+  );
   const {
     validateCart,
     validationResult,
@@ -160,23 +166,11 @@ export default function CartPage() {
                 <CardTitle>Order Summary</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="space-y-3">
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Items ({totalItems})</span>
-                    <span className="font-medium">₹{subtotal.toLocaleString()}.00</span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Shipping</span>
-                    <span className="font-medium text-green-600">
-                      {shipping === 0 ? "FREE" : `₹${shipping?.toLocaleString()}.00`}
-                    </span>
-                </div>
-                  <Separator />
-                <div className="flex justify-between">
-                    <span className="font-semibold">Total</span>
-                    <span className="font-bold text-lg">₹{total.toLocaleString()}.00</span>
-                </div>
-              </div>
+                <PriceBreakdown
+                  breakdown={priceQuote}
+                  isLoading={quoteLoading}
+                  itemCount={totalItems}
+                />
               <Link href="/checkout">
                 <Button 
                     className="w-full" 
@@ -191,7 +185,11 @@ export default function CartPage() {
               </CardContent>
             </Card>
           </div>
-          <RecommendedProducts />
+          <RecommendedProducts
+            title="Frequently Bought Together"
+            products={recommendations}
+            isLoading={recommendationsLoading}
+          />
         </>
       )}
     </div>
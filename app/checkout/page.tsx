@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useMemo } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import Script from "next/script";
 import { Button } from "@/app/components/ui/button";
@@ -11,15 +12,23 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/ca
 import { Alert, AlertDescription } from "@/app/components/ui/alert";
 import { Separator } from "@/app/components/ui/separator";
 import { Badge } from "@/app/components/ui/badge";
-import { PaymentMethod } from "@/app/types/checkout.type";
+import { ICheckoutFormData } from "@/app/types/checkout.type";
 import { useCheckout } from "@/app/hooks/useCheckout";
 import { useProfile } from "@/app/hooks/useProfile";
+import { useAuth } from "@/app/hooks/useAuth";
 import { useCartValidation } from "@/app/hooks/useCartValidation";
+import { usePincodeServiceability } from "@/app/hooks/useDelivery";
 import Modal from "@/app/components/ui/Modal";
+import GuestAccountOffer from "@/app/components/ui/GuestAccountOffer";
+import PriceBreakdown from "@/app/components/ui/PriceBreakdown";
+import DeliveryEstimator from "@/app/components/ui/DeliveryEstimator";
+import ReservationCountdown from "@/app/components/ui/ReservationCountdown";
+import CodOtpModal from "@/app/components/ui/CodOtpModal";
+import { COD_INELIGIBLE_MESSAGES } from "@/app/lib/cod";
+import { formatCurrency } from "@/app/lib/formatters";
 import { IOrder } from "@/app/types/order.type";
 import React from "react";
 import { IAddress } from "@/app/types/profile.type";
-import { isValidPincode } from "@/app/lib/validation";
 
 export default function CheckoutPage() {
   const router = useRouter();
@@ -29,14 +38,22 @@ export default function CheckoutPage() {
     appliedCoupon,
     loading,
     error,
-    subtotal,
-    discount,
-    total,
+    priceQuote,
+    quoteLoading,
     paymentStatus,
+    reservation,
+    isGuest,
+    paymentMethod,
+    codEligibility,
+    codEligibilityLoading,
+    prepaidSavings,
+    setPaymentMethod,
     setCouponCode,
+    setGuestPincode,
     applyCoupon,
     removeCoupon,
     createOrder,
+    validateCodOrder,
     // sync selected address with order creation
     setSelectedAddressId,
   } = useCheckout();
@@ -126,6 +143,7 @@ export default function CheckoutPage() {
     };
   }, [rawCartItems, cartItems]);
 
+  const { isAuthenticated } = useAuth();
   const {
     addresses,
     isCreatingAddress,
@@ -136,7 +154,7 @@ export default function CheckoutPage() {
     handleUpdateAddress,
     handleDeleteAddress,
     handleSetDefaultAddress,
-  } = useProfile();
+  } = useProfile({ enabled: isAuthenticated });
 
   const {
     validateCart,
@@ -174,15 +192,35 @@ export default function CheckoutPage() {
     }
   }, [typedAddresses, setSelectedAddressId]);
 
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("razorpay");
   const [formError, setFormError] = useState("");
-  
-  // Pincode availability checker
-  const [pincode, setPincode] = useState("");
-  const [pincodeError, setPincodeError] = useState("");
-  const [isCheckingPincode, setIsCheckingPincode] = useState(false);
-  const [pincodeAvailable, setPincodeAvailable] = useState<boolean | null>(null);
+  const [codOtpOpen, setCodOtpOpen] = useState(false);
+
+  // Guest checkout: contact and delivery details are entered inline
+  const [guestFormData, setGuestFormData] = useState<ICheckoutFormData>({
+    email: "",
+    country: "India",
+    firstName: "",
+    lastName: "",
+    address: "",
+    apartment: "",
+    city: "",
+    state: "",
+    pincode: "",
+    phone: "",
+  });
+  const [guestOrder, setGuestOrder] = useState<{ orderId: string | null; orderNumber: string | null } | null>(null);
+
+  // Re-quote shipping and GST as the guest fills in their pincode
+  useEffect(() => {
+    setGuestPincode(guestFormData.pincode);
+  }, [guestFormData.pincode, setGuestPincode]);
 
+  // Shares the cache with the delivery estimator below
+  const { data: shippingServiceability } = usePincodeServiceability(
+    (isGuest ? guestFormData.pincode : selectedAddress?.pincode) || ""
+  );
+  const isUnserviceable = shippingServiceability?.serviceable === false;
+  
   // Clear errors when cart becomes empty and clean up any stale data
   useEffect(() => {
     if (cartItems.length === 0) {
@@ -195,70 +233,6 @@ export default function CheckoutPage() {
     }
   }, [cartItems.length]);
 
-  // Pincode validation and availability check with debounce
-  useEffect(() => {
-    // Reset states when pincode is cleared
-    if (pincode === "") {
-      setPincodeError("");
-      setPincodeAvailable(null);
-      setIsCheckingPincode(false);
-      return;
-    }
-
-    // Validate format: must be exactly 6 digits
-    if (pincode.length < 6) {
-      setPincodeError("");
-      setPincodeAvailable(null);
-      setIsCheckingPincode(false);
-      return;
-    }
-
-    // Check if all are numbers
-    const pincodeRegex = /^[0-9]{6}$/;
-    if (!pincodeRegex.test(pincode)) {
-      setPincodeError("Pincode must be exactly 6 numbers");
-      setPincodeAvailable(null);
-      setIsCheckingPincode(false);
-      return;
-    }
-
-    // Validate using Indian pincode format (first digit should not be 0)
-    if (!isValidPincode(pincode)) {
-      setPincodeError("Invalid pincode format. First digit cannot be 0");
-      setPincodeAvailable(null);
-      setIsCheckingPincode(false);
-      return;
-    }
-
-    // Clear error if format is valid
-    setPincodeError("");
-
-    // Debounce: Wait 1 second before checking availability
-    setIsCheckingPincode(true);
-    const timer = setTimeout(async () => {
-      try {
-        // Simulate API call - In production, replace with actual API endpoint
-        // For now, we'll simulate availability check
-        // You can replace this with: await axiosInstance.get(`/api/v1/delivery/check-pincode/${pincode}`)
-        
-        // Mock availability check (replace with actual API call)
-        await new Promise(resolve => setTimeout(resolve, 500)); // Simulate network delay
-        
-        // Mock logic: Consider pincode available if it's valid format
-        // In production, this would be an actual API call
-        const isAvailable = true; // Replace with actual API response
-        setPincodeAvailable(isAvailable);
-      } catch (error) {
-        console.error('Error checking pincode availability:', error);
-        setPincodeAvailable(false);
-      } finally {
-        setIsCheckingPincode(false);
-      }
-    }, 1000); // 1 second debounce
-
-    return () => clearTimeout(timer);
-  }, [pincode]);
-
   const handleApplyCoupon = async () => {
     setFormError("");
     await applyCoupon(couponCode);
@@ -270,18 +244,51 @@ export default function CheckoutPage() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    // COD orders wait for the phone to be confirmed, then place themselves.
+    // Only text a code once the order itself would go through
+    if (paymentMethod === "cod" && codEligibility?.requiresOtp) {
+      if (await validateOrder()) {
+        setCodOtpOpen(true);
+      }
+      return;
+    }
+    await placeOrder();
+  };
+
+  // Cart, address and COD checks shared by the OTP step and placing the order
+  const validateOrder = async () => {
     setFormError("");
     clearValidationResult();
 
     try {
+      if (paymentMethod === "cod") {
+        validateCodOrder();
+      }
       const isValid = await validateCart(cartItems);
       if (!isValid) {
         setFormError("Some items in your cart are no longer available. Please review your cart.");
-        return;
+        return false;
       }
+      return true;
+    } catch (err: unknown) {
+      setFormError(err instanceof Error ? err.message : "An unknown error occurred");
+      return false;
+    }
+  };
 
-      const order = await createOrder(paymentMethod) as IOrder & { pendingWebhook?: boolean };
-      if (order?.pendingWebhook) {
+  const placeOrder = async (codVerificationToken?: string) => {
+    if (!(await validateOrder())) return;
+
+    try {
+      const order = await createOrder(
+        paymentMethod,
+        isGuest ? guestFormData : undefined,
+        { codVerificationToken }
+      ) as IOrder & { pendingWebhook?: boolean };
+      if (isGuest && (order?.pendingWebhook || order?.id)) {
+        // Guests can't open /orders yet, so confirm in place and offer an account
+        setGuestOrder({ orderId: order.id || null, orderNumber: order.orderNumber || null });
+      } else if (order?.pendingWebhook) {
         // Payment captured but client-side verify failed — webhook will create the order.
         router.push('/profile/orders');
       } else if (order && order.id) {
@@ -300,6 +307,11 @@ export default function CheckoutPage() {
     }
   };
 
+  const handleGuestInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setGuestFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setAddressFormData((prev) => ({ ...prev, [name]: value }));
@@ -353,6 +365,14 @@ export default function CheckoutPage() {
     setShowAddressModal(false);
   };
 
+  if (guestOrder) {
+    return <GuestAccountOffer
+        details={guestFormData}
+        orderId={guestOrder.orderId}
+        orderNumber={guestOrder.orderNumber}
+      />;
+  }
+
   return (
     <>
       <Script
@@ -368,7 +388,133 @@ export default function CheckoutPage() {
                 <CardTitle>Delivery Address</CardTitle>
               </CardHeader>
               <CardContent>
-                {typedAddresses.length === 0 ? (
+                {isGuest ? (
+                  <div className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      Checking out as a guest.{" "}
+                      <Link href="/login?next=/checkout" className="underline hover:text-foreground">
+                        Sign in
+                      </Link>{" "}
+                      to use your saved addresses.
+                    </p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="guest-email">Email</Label>
+                        <Input
+                          id="guest-email"
+                          name="email"
+                          type="email"
+                          autoComplete="email"
+                          placeholder="name@example.com"
+                          value={guestFormData.email}
+                          onChange={handleGuestInputChange}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="guest-phone">Phone</Label>
+                        <Input
+                          id="guest-phone"
+                          name="phone"
+                          type="tel"
+                          autoComplete="tel"
+                          placeholder="Phone number for order updates"
+                          value={guestFormData.phone}
+                          onChange={handleGuestInputChange}
+                          required
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="guest-firstName">First Name</Label>
+                        <Input
+                          id="guest-firstName"
+                          name="firstName"
+                          type="text"
+                          placeholder="First name"
+                          value={guestFormData.firstName}
+                          onChange={handleGuestInputChange}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="guest-lastName">Last Name</Label>
+                        <Input
+                          id="guest-lastName"
+                          name="lastName"
+                          type="text"
+                          placeholder="Last name"
+                          value={guestFormData.lastName}
+                          onChange={handleGuestInputChange}
+                          required
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="guest-address">Address</Label>
+                      <Input
+                        id="guest-address"
+                        name="address"
+                        type="text"
+                        placeholder="Address"
+                        value={guestFormData.address}
+                        onChange={handleGuestInputChange}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="guest-apartment">Apartment (Optional)</Label>
+                      <Input
+                        id="guest-apartment"
+                        name="apartment"
+                        type="text"
+                        placeholder="Apartment, suite, etc."
+                        value={guestFormData.apartment}
+                        onChange={handleGuestInputChange}
+                      />
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="guest-city">City</Label>
+                        <Input
+                          id="guest-city"
+                          name="city"
+                          type="text"
+                          placeholder="City"
+                          value={guestFormData.city}
+                          onChange={handleGuestInputChange}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="guest-state">State</Label>
+                        <Input
+                          id="guest-state"
+                          name="state"
+                          type="text"
+                          placeholder="State"
+                          value={guestFormData.state}
+                          onChange={handleGuestInputChange}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="guest-pincode">PIN Code</Label>
+                        <Input
+                          id="guest-pincode"
+                          name="pincode"
+                          type="text"
+                          placeholder="PIN code"
+                          value={guestFormData.pincode}
+                          onChange={handleGuestInputChange}
+                          maxLength={6}
+                          required
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ) : typedAddresses.length === 0 ? (
                   <div className="space-y-4">
                     <div className="text-muted-foreground">No addresses saved yet.</div>
                     <Button onClick={() => {
@@ -412,42 +558,9 @@ export default function CheckoutPage() {
                 <CardTitle>Check Availability</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="space-y-2">
-                  <Label htmlFor="pincode-check">Check availability</Label>
-                  <Input
-                    id="pincode-check"
-                    type="text"
-                    placeholder="Enter 6-digit pincode"
-                    value={pincode}
-                    onChange={(e) => {
-                      const value = e.target.value.replace(/\D/g, ''); // Only allow numbers
-                      if (value.length <= 6) {
-                        setPincode(value);
-                      }
-                    }}
-                    maxLength={6}
-                    className={pincodeError ? "border-destructive" : ""}
-                  />
-                  {pincodeError && (
-                    <p className="text-sm text-destructive">{pincodeError}</p>
-                  )}
-                  {isCheckingPincode && pincode.length === 6 && !pincodeError && (
-                    <p className="text-sm text-muted-foreground">Checking availability...</p>
-                  )}
-                  {!isCheckingPincode && pincode.length === 6 && !pincodeError && pincodeAvailable !== null && (
-                    <div className="flex items-center gap-2">
-                      {pincodeAvailable ? (
-                        <>
-                          <span className="text-sm text-green-600 font-medium">✓ Delivery available</span>
-                        </>
-                      ) : (
-                        <>
-                          <span className="text-sm text-destructive font-medium">✗ Delivery not available for this pincode</span>
-                        </>
-                      )}
-                    </div>
-                  )}
-                </div>
+                <DeliveryEstimator
+                  defaultPincode={(isGuest ? guestFormData.pincode : selectedAddress?.pincode) ?? ""}
+                />
               </CardContent>
             </Card>
 
@@ -470,20 +583,69 @@ export default function CheckoutPage() {
                       onChange={() => setPaymentMethod("razorpay")}
                       className="mr-3"
                     />
-                    <span className="text-sm font-medium">Razorpay Secure (UPI, Cards, Wallets, NetBanking)</span>
+                    <span className="text-sm font-medium flex-grow">Razorpay Secure (UPI, Cards, Wallets, NetBanking)</span>
+                    {!isGuest && prepaidSavings > 0 && (
+                      <Badge variant="secondary" className="ml-2 text-green-700 bg-green-50">
+                        Save {formatCurrency(prepaidSavings)}
+                      </Badge>
+                    )}
                   </label>
 
-                  {/* <label className="flex items-center p-4 border rounded-lg cursor-pointer hover:bg-accent/50 transition-colors">
-                    <input
-                      type="radio"
-                      name="payment"
-                      checked={paymentMethod === "cod"}
-                      onChange={() => setPaymentMethod("cod")}
-                      className="mr-3"
-                    />
-                    <span className="text-sm font-medium">Cash on Delivery</span>
-                  </label> */}
+                  {!isGuest && (
+                    <label
+                      className={`flex items-start p-4 border rounded-lg transition-colors ${
+                        codEligibility?.eligible ? "cursor-pointer hover:bg-accent/50" : "opacity-60 cursor-not-allowed"
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="payment"
+                        checked={paymentMethod === "cod"}
+                        onChange={() => setPaymentMethod("cod")}
+                        disabled={!codEligibility?.eligible}
+                        className="mr-3 mt-1"
+                      />
+                      <span>
+                        <span className="text-sm font-medium">Cash on Delivery</span>
+                        {codEligibility?.eligible && codEligibility.codFee > 0 && (
+                          <span className="block text-xs text-muted-foreground mt-1">
+                            {formatCurrency(codEligibility.codFee)} handling fee
+                          </span>
+                        )}
+                        {codEligibility && !codEligibility.eligible && (
+                          <span className="block text-xs text-muted-foreground mt-1">
+                            {codEligibility.message ||
+                              (codEligibility.reason && COD_INELIGIBLE_MESSAGES[codEligibility.reason])}
+                          </span>
+                        )}
+                        {!codEligibility && (
+                          <span className="block text-xs text-muted-foreground mt-1">
+                            {codEligibilityLoading ? "Checking availability..." : "Select a delivery address to check availability"}
+                          </span>
+                        )}
+                      </span>
+                    </label>
+                  )}
                 </div>
+
+                {paymentMethod === "cod" && prepaidSavings > 0 && (
+                  <Alert className="bg-green-50 border-green-200">
+                    <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                      <span className="text-sm text-green-800">
+                        Pay online and save {formatCurrency(prepaidSavings)} on this order.
+                      </span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPaymentMethod("razorpay")}
+                        className="border-green-300 text-green-800"
+                      >
+                        Pay online instead
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
               </CardContent>
             </Card>
 
@@ -523,11 +685,21 @@ export default function CheckoutPage() {
               </Alert>
             )}
 
+            {isUnserviceable && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  We don&apos;t deliver to {shippingServiceability?.pincode} yet. Please use a different shipping address.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {reservation && <ReservationCountdown expiresAt={reservation.expiresAt} />}
+
             <Button
               onClick={handleSubmit}
               className="w-full"
               size="lg"
-              disabled={loading || isValidating || !cartItems || cartItems.length === 0 || (validationResult?.available === false)}
+              disabled={loading || isValidating || !priceQuote || isUnserviceable || !cartItems || cartItems.length === 0 || (validationResult?.available === false)}
             >
               {isValidating ? "Validating cart..." :
                 loading ?
@@ -536,9 +708,17 @@ export default function CheckoutPage() {
                       paymentStatus === 'verifying' ? "Verifying payment..." :
                         "Processing..." :
                   validationResult?.available === false ? "Resolve Stock Issues" :
+                    paymentMethod === "cod" ? "Place order" :
                     "Pay now"}
             </Button>
 
+            <CodOtpModal
+              isOpen={codOtpOpen}
+              phone={selectedAddress?.phone || ""}
+              onClose={() => setCodOtpOpen(false)}
+              onVerified={(token) => placeOrder(token)}
+            />
+
             {/* Address Modal */}
             <Modal isOpen={showAddressModal} onClose={() => {
               setShowAddressModal(false);
@@ -870,33 +1050,20 @@ export default function CheckoutPage() {
                     </AlertDescription>
                   </Alert>
                 )}
+
+                {appliedCoupon && priceQuote?.couponRejectedReason && (
+                  <p className="text-xs text-amber-700">{priceQuote.couponRejectedReason}</p>
+                )}
               </div>
 
               <Separator />
 
               {/* Price Summary */}
-              <div className="space-y-3">
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Subtotal ({cartItems?.length || 0} items)</span>
-                  <span className="font-medium">₹{subtotal.toLocaleString()}.00</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Shipping</span>
-                  <span className="font-medium text-green-600">FREE</span>
-                </div>
-                {discount > 0 && (
-                  <div className="flex justify-between text-sm text-green-600">
-                    <span>Discount</span>
-                    <span className="font-medium">-₹{discount.toLocaleString()}.00</span>
-                  </div>
-                )}
-                <Separator />
-                <div className="flex justify-between">
-                  <span className="font-semibold">Total</span>
-                  <span className="font-bold text-lg">₹{total.toLocaleString()}.00</span>
-                </div>
-                <p className="text-xs text-muted-foreground">Including all taxes</p>
-              </div>
+              <PriceBreakdown
+                breakdown={priceQuote}
+                isLoading={quoteLoading}
+                itemCount={cartItems?.length || 0}
+              />
             </CardContent>
           </Card>
         </div>
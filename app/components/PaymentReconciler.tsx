@@ -0,0 +1,9 @@
+'use client';
+
+import { usePendingPaymentReconciliation } from '../hooks/usePaymentReconciliation';
+
+// Retries any captured-but-unconfirmed payment on page load, wherever the shopper lands
+export function PaymentReconciler() {
+  usePendingPaymentReconciliation();
+  return null;
+}
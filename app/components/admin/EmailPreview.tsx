@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import {
+    buildEmailDocument,
+    EMAIL_VARIABLES,
+    EmailPreviewTheme,
+    extractTemplateVariables,
+    getUnknownVariables,
+    renderTemplateVariables,
+} from "@/app/lib/emailTemplates";
+import { IEmailTemplateContent } from "@/app/types/admin.type";
+
+type PreviewMode = EmailPreviewTheme | "both";
+
+interface EmailPreviewProps {
+    content: Partial<IEmailTemplateContent>;
+    // The first recipient stands in for {{email}}
+    recipients?: string[];
+}
+
+export default function EmailPreview({ content, recipients = [] }: EmailPreviewProps) {
+    const [mode, setMode] = useState<PreviewMode>("light");
+    const [values, setValues] = useState<Record<string, string>>(() =>
+        Object.fromEntries(Object.entries(EMAIL_VARIABLES).map(([name, { sample }]) => [name, sample]))
+    );
+
+    const variables = extractTemplateVariables(content);
+    const unknown = getUnknownVariables(variables);
+    const recipient = recipients.find(Boolean);
+    const previewValues = recipient ? { ...values, email: recipient } : values;
+
+    const rendered = {
+        subject: renderTemplateVariables(content.subject || "", previewValues),
+        previewText: renderTemplateVariables(content.previewText || "", previewValues),
+        body: renderTemplateVariables(content.body || "", previewValues, true),
+        buttonText: renderTemplateVariables(content.buttonText || "", previewValues),
+        buttonUrl: renderTemplateVariables(content.buttonUrl || "", previewValues),
+        footerText: renderTemplateVariables(content.footerText || "", previewValues),
+    };
+
+    const themes: EmailPreviewTheme[] = mode === "both" ? ["light", "dark"] : [mode];
+
+    return (
+        <div className="space-y-6">
+            <div className="flex gap-2">
+                {(["light", "dark", "both"] as PreviewMode[]).map((option) => (
+                    <button
+                        key={option}
+                        type="button"
+                        onClick={() => setMode(option)}
+                        className={`px-4 py-2 border-2 border-black text-xs font-bold tracking-widest cursor-pointer ${mode === option ? "bg-black text-white" : "bg-white text-black hover:bg-gray-100"}`}
+                    >
+                        {option === "both" ? "SIDE BY SIDE" : `${option.toUpperCase()} CLIENT`}
+                    </button>
+                ))}
+            </div>
+
+            {variables.length > 0 && (
+                <div className="space-y-3">
+                    <p className="text-sm font-bold tracking-widest">PREVIEW AS</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {variables.filter((name) => name in EMAIL_VARIABLES && !(name === "email" && recipient)).map((name) => (
+                            <label key={name} className="text-xs font-bold tracking-widest">
+                                {EMAIL_VARIABLES[name]!.label.toUpperCase()}
+                                <input
+                                    value={values[name] ?? ""}
+                                    onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                                    placeholder="Empty uses the fallback"
+                                    className="mt-1 w-full px-3 py-2 border-2 border-black focus:outline-none font-medium text-sm"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    {unknown.length > 0 && (
+                        <p className="text-sm font-medium text-red-600">
+                            Not filled in for recipients: {unknown.map((name) => `{{${name}}}`).join(", ")}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            <div className="border-2 border-black p-4 space-y-1">
+                <p className="text-sm font-bold text-black tracking-wide">TO: {recipients.filter(Boolean).join(", ") || "NO RECIPIENTS"}</p>
+                <p className="text-sm font-bold text-black tracking-wide">SUBJECT: {rendered.subject || "NO SUBJECT"}</p>
+                {rendered.previewText && (
+                    <p className="text-sm font-medium text-gray-600 tracking-wide">PREVIEW: {rendered.previewText}</p>
+                )}
+            </div>
+
+            <div className={`grid gap-4 ${themes.length > 1 ? "grid-cols-1 xl:grid-cols-2" : "grid-cols-1"}`}>
+                {themes.map((theme) => (
+                    <div key={theme} className="space-y-2">
+                        {themes.length > 1 && (
+                            <p className="text-xs font-bold tracking-widest text-gray-600">{theme.toUpperCase()}</p>
+                        )}
+                        {/* Sandboxed so pasted HTML can't run scripts in the admin */}
+                        <iframe
+                            title={`Email preview (${theme})`}
+                            sandbox=""
+                            srcDoc={buildEmailDocument(rendered, theme)}
+                            className="w-full h-[520px] border-2 border-black bg-white"
+                        />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
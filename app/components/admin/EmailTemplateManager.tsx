@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+    useDeleteEmailTemplate,
+    useEmailTemplates,
+    useEmailTemplateVersions,
+    useRestoreEmailTemplateVersion,
+    useSaveEmailTemplate,
+} from "@/app/hooks/useEmailTemplates";
+import {
+    EMAIL_VARIABLES,
+    extractTemplateVariables,
+    getUnknownVariables,
+    STARTER_EMAIL_TEMPLATES,
+} from "@/app/lib/emailTemplates";
+import { IEmailTemplate, IEmailTemplateContent } from "@/app/types/admin.type";
+import { Button } from "../ui/button";
+import EmailPreview from "./EmailPreview";
+
+type TemplateForm = IEmailTemplateContent & { name: string };
+
+const EMPTY_FORM: TemplateForm = {
+    name: "",
+    subject: "",
+    body: "",
+    previewText: "",
+    buttonText: "",
+    buttonUrl: "",
+    footerText: "",
+};
+
+const toForm = (template: TemplateForm): TemplateForm => ({
+    name: template.name,
+    subject: template.subject,
+    body: template.body,
+    previewText: template.previewText || "",
+    buttonText: template.buttonText || "",
+    buttonUrl: template.buttonUrl || "",
+    footerText: template.footerText || "",
+});
+
+const inputClass = "w-full px-4 py-3 border-2 border-black focus:outline-none font-medium placeholder:text-gray-500";
+const labelClass = "block text-sm font-bold text-black mb-2 tracking-widest";
+
+export default function EmailTemplateManager() {
+    const { data: templates = [], isLoading } = useEmailTemplates();
+    const saveTemplate = useSaveEmailTemplate();
+    const deleteTemplate = useDeleteEmailTemplate();
+    const restoreVersion = useRestoreEmailTemplateVersion();
+
+    const [isEditorOpen, setIsEditorOpen] = useState(false);
+    const [editing, setEditing] = useState<IEmailTemplate | null>(null);
+    const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+    const { data: versions = [], isLoading: versionsLoading } = useEmailTemplateVersions(editing?.id);
+
+    const openNew = () => {
+        setEditing(null);
+        setForm(EMPTY_FORM);
+        setIsEditorOpen(true);
+    };
+
+    const openEdit = (template: IEmailTemplate) => {
+        setEditing(template);
+        setForm(toForm(template));
+        setIsEditorOpen(true);
+    };
+
+    const closeEditor = () => {
+        setIsEditorOpen(false);
+        setEditing(null);
+        setForm(EMPTY_FORM);
+    };
+
+    const applyStarter = (starterId: string) => {
+        const starter = STARTER_EMAIL_TEMPLATES.find((t) => t.id === starterId);
+        if (starter) {
+            setForm(toForm(starter));
+        }
+    };
+
+    const insertVariable = (name: string) =>
+        setForm((prev) => ({ ...prev, body: `${prev.body}{{${name}}}` }));
+
+    const handleSave = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!form.name.trim() || !form.subject.trim() || !form.body.trim()) {
+            toast.error("Name, subject and body are required");
+            return;
+        }
+        const variables = extractTemplateVariables(form);
+        const unknown = getUnknownVariables(variables);
+        if (unknown.length > 0) {
+            toast.error(`Unknown variables: ${unknown.join(", ")}`);
+            return;
+        }
+
+        saveTemplate.mutate(
+            {
+                templateId: editing?.id,
+                data: {
+                    name: form.name.trim(),
+                    subject: form.subject.trim(),
+                    body: form.body,
+                    previewText: form.previewText?.trim() || undefined,
+                    buttonText: form.buttonText?.trim() || undefined,
+                    buttonUrl: form.buttonUrl?.trim() || undefined,
+                    footerText: form.footerText?.trim() || undefined,
+                    variables,
+                },
+            },
+            { onSuccess: (template) => setEditing(template) }
+        );
+    };
+
+    const handleDelete = (template: IEmailTemplate) => {
+        if (!confirm(`Delete the "${template.name}" template and all its versions?`)) return;
+        deleteTemplate.mutate(template.id, {
+            onSuccess: () => {
+                if (editing?.id === template.id) closeEditor();
+            },
+        });
+    };
+
+    const handleRestore = (version: number) => {
+        if (!editing) return;
+        restoreVersion.mutate(
+            { templateId: editing.id, version },
+            {
+                onSuccess: (template) => {
+                    setEditing(template);
+                    setForm(toForm(template));
+                },
+            }
+        );
+    };
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-6">
+                <div className="bg-white border-2 border-black p-8">
+                    <div className="flex items-center justify-between mb-6">
+                        <h2 className="text-2xl font-bold tracking-tight">TEMPLATES</h2>
+                        <Button onClick={openNew}>NEW TEMPLATE</Button>
+                    </div>
+                    {isLoading ? (
+                        <p className="text-black font-bold tracking-wide py-6">LOADING TEMPLATES...</p>
+                    ) : templates.length === 0 ? (
+                        <p className="text-gray-600 text-sm font-medium tracking-wide">NO TEMPLATES YET</p>
+                    ) : (
+                        <div className="divide-y-2 divide-black border-2 border-black">
+                            {templates.map((template) => (
+                                <div
+                                    key={template.id}
+                                    className={`p-4 flex items-start justify-between gap-4 ${editing?.id === template.id ? "bg-gray-100" : "bg-white"}`}
+                                >
+                                    <div className="min-w-0">
+                                        <p className="font-bold tracking-wide truncate">
+                                            {template.name.toUpperCase()}
+                                            <span className="ml-2 text-xs text-gray-600">V{template.version}</span>
+                                        </p>
+                                        <p className="text-sm text-gray-600 truncate">{template.subject}</p>
+                                        <p className="text-xs text-gray-500 mt-1">
+                                            Updated {new Date(template.updatedAt).toLocaleDateString()}
+                                            {template.variables.length > 0 && ` · ${template.variables.map((name) => `{{${name}}}`).join(" ")}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2 shrink-0">
+                                        <button
+                                            type="button"
+                                            onClick={() => openEdit(template)}
+                                            className="px-3 py-1 border-2 border-black text-xs font-bold tracking-widest hover:bg-black hover:text-white cursor-pointer"
+                                        >
+                                            EDIT
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleDelete(template)}
+                                            disabled={deleteTemplate.isPending}
+                                            className="px-3 py-1 border-2 border-black text-xs font-bold tracking-widest hover:bg-black hover:text-white cursor-pointer disabled:opacity-50"
+                                        >
+                                            DELETE
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {isEditorOpen && (
+                    <form onSubmit={handleSave} className="bg-white border-2 border-black p-8 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h2 className="text-2xl font-bold tracking-tight">
+                                {editing ? `EDIT TEMPLATE · V${editing.version}` : "NEW TEMPLATE"}
+                            </h2>
+                            <button type="button" onClick={closeEditor} className="text-sm font-bold tracking-widest underline cursor-pointer">
+                                CLOSE
+                            </button>
+                        </div>
+                        {!editing && (
+                            <div>
+                                <label className={labelClass}>START FROM</label>
+                                <select defaultValue="" onChange={(e) => applyStarter(e.target.value)} className={inputClass}>
+                                    <option value="">Blank template</option>
+                                    {STARTER_EMAIL_TEMPLATES.map((starter) => (
+                                        <option key={starter.id} value={starter.id}>{starter.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        <div>
+                            <label className={labelClass}>NAME *</label>
+                            <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>SUBJECT *</label>
+                            <input value={form.subject} onChange={(e) => setForm({ ...form, subject: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>PREVIEW TEXT</label>
+                            <input value={form.previewText} onChange={(e) => setForm({ ...form, previewText: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>BODY * (HTML)</label>
+                            <div className="flex flex-wrap gap-2 mb-2">
+                                {Object.entries(EMAIL_VARIABLES).map(([name, { label }]) => (
+                                    <button
+                                        key={name}
+                                        type="button"
+                                        onClick={() => insertVariable(name)}
+                                        title={`Insert ${label.toLowerCase()}`}
+                                        className="px-2 py-1 border-2 border-black text-xs font-mono hover:bg-black hover:text-white cursor-pointer"
+                                    >
+                                        {`{{${name}}}`}
+                                    </button>
+                                ))}
+                            </div>
+                            <textarea
+                                value={form.body}
+                                onChange={(e) => setForm({ ...form, body: e.target.value })}
+                                rows={10}
+                                className={`${inputClass} font-mono text-sm`}
+                            />
+                            <p className="text-xs text-gray-600 mt-1">
+                                Use {"{{firstName|there}}"} to fall back to &quot;there&quot; when a recipient has no name on file.
+                            </p>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className={labelClass}>BUTTON TEXT</label>
+                                <input value={form.buttonText} onChange={(e) => setForm({ ...form, buttonText: e.target.value })} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>BUTTON URL</label>
+                                <input value={form.buttonUrl} onChange={(e) => setForm({ ...form, buttonUrl: e.target.value })} className={inputClass} />
+                            </div>
+                        </div>
+                        <div>
+                            <label className={labelClass}>FOOTER TEXT</label>
+                            <input value={form.footerText} onChange={(e) => setForm({ ...form, footerText: e.target.value })} className={inputClass} />
+                        </div>
+                        <Button type="submit" disabled={saveTemplate.isPending}>
+                            {saveTemplate.isPending ? "SAVING..." : editing ? "SAVE NEW VERSION" : "CREATE TEMPLATE"}
+                        </Button>
+                    </form>
+                )}
+
+                {isEditorOpen && editing && (
+                    <div className="bg-white border-2 border-black p-8">
+                        <h2 className="text-2xl font-bold mb-6 tracking-tight">VERSION HISTORY</h2>
+                        {versionsLoading ? (
+                            <p className="text-black font-bold tracking-wide">LOADING VERSIONS...</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {versions.map((version) => (
+                                    <div key={version.version} className="flex items-center justify-between gap-4 p-3 border-2 border-black">
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-bold tracking-widest">
+                                                V{version.version}
+                                                {version.version === editing.version && " · CURRENT"}
+                                            </p>
+                                            <p className="text-xs text-gray-600 truncate">
+                                                {new Date(version.createdAt).toLocaleString()}
+                                                {version.createdBy && ` · ${version.createdBy}`}
+                                                {` · ${version.subject}`}
+                                            </p>
+                                        </div>
+                                        {version.version !== editing.version && (
+                                            <button
+                                                type="button"
+                                                onClick={() => handleRestore(version.version)}
+                                                disabled={restoreVersion.isPending}
+                                                className="px-3 py-1 border-2 border-black text-xs font-bold tracking-widest hover:bg-black hover:text-white cursor-pointer disabled:opacity-50 shrink-0"
+                                            >
+                                                RESTORE
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {isEditorOpen && (
+                <div className="bg-white border-2 border-black p-8 h-fit">
+                    <h2 className="text-2xl font-bold mb-6 tracking-tight">PREVIEW</h2>
+                    <EmailPreview content={form} />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -16,6 +16,7 @@ import {
   useProduct,
 } from "@/app/hooks/useProducts";
 import { Button } from "../ui/button";
+import Link from "next/link";
 
 interface ProductVariantsManagementProps {
   product: IProduct;
@@ -84,10 +85,9 @@ export default function ProductVariantsManagement({
   const [editingVariant, setEditingVariant] =
     useState<IProductVariant | null>(null);
   const [editForm, setEditForm] = useState<{
-    stock: string;
     price: string;
     color: string;
-  }>({ stock: "", price: "", color: "" });
+  }>({ price: "", color: "" });
 
   const bulkAdd = useBulkAddProductVariants();
   const updateVariant = useUpdateProductVariant();
@@ -148,7 +148,6 @@ export default function ProductVariantsManagement({
   const handleEditOpen = (variant: IProductVariant) => {
     setEditingVariant(variant);
     setEditForm({
-      stock: String(variant.stock ?? ""),
       price: variant.price ? String(variant.price) : "",
       color: variant.color ?? "",
     });
@@ -156,8 +155,8 @@ export default function ProductVariantsManagement({
 
   const handleEditSave = () => {
     if (!editingVariant) return;
+    // Stock changes go through the inventory console so they land in the ledger
     const payload: IUpdateVariantData = {
-      stock: editForm.stock !== "" ? Number(editForm.stock) : undefined,
       price: editForm.price !== "" ? Number(editForm.price) : undefined,
       color: editForm.color || undefined,
     };
@@ -329,15 +328,13 @@ export default function ProductVariantsManagement({
           <div className="grid grid-cols-3 gap-3">
             <div>
               <label className="block text-xs font-medium mb-1">Stock</label>
-              <input
-                type="number"
-                value={editForm.stock}
-                onChange={(e) =>
-                  setEditForm((p) => ({ ...p, stock: e.target.value }))
-                }
-                min="0"
-                className="w-full px-3 py-1.5 border border-gray-300 text-sm focus:outline-none focus:border-black"
-              />
+              <p className="px-3 py-1.5 text-sm">{editingVariant.stock}</p>
+              <Link
+                href="/admin/inventory"
+                className="text-xs underline text-gray-600 hover:text-black"
+              >
+                Adjust in Inventory
+              </Link>
             </div>
             <div>
               <label className="block text-xs font-medium mb-1">
@@ -12,12 +12,19 @@ import { useState } from "react";
 import { 
   FiHome, 
   FiShoppingBag, 
+  FiRotateCcw, 
+  FiCreditCard,
+  FiBox, 
   FiPackage, 
+  FiLayers, 
   FiTag, 
   FiPercent, 
+  FiGift, 
+  FiTruck, 
   FiUsers, 
   FiBarChart2, 
   FiMail, 
+  FiStar, 
   FiLogOut,
   FiMenu
 } from "react-icons/fi";
@@ -25,9 +32,16 @@ import {
 const navigationItems = [
   { name: "Dashboard", href: "/admin", icon: FiHome },
   { name: "Orders", href: "/admin/orders", icon: FiShoppingBag },
+  { name: "Returns", href: "/admin/returns", icon: FiRotateCcw },
+  { name: "Payments", href: "/admin/payments", icon: FiCreditCard },
+  { name: "Shipments", href: "/admin/shipments", icon: FiBox },
   { name: "Products", href: "/admin/products", icon: FiPackage },
+  { name: "Reviews", href: "/admin/reviews", icon: FiStar },
+  { name: "Inventory", href: "/admin/inventory", icon: FiLayers },
   { name: "Categories", href: "/admin/categories", icon: FiTag },
   { name: "Coupons", href: "/admin/coupons", icon: FiPercent },
+  { name: "Promotions", href: "/admin/promotions", icon: FiGift },
+  { name: "Delivery", href: "/admin/delivery", icon: FiTruck },
   { name: "Users", href: "/admin/users", icon: FiUsers },
   { name: "Analytics", href: "/admin/analytics", icon: FiBarChart2 },
   { name: "Email", href: "/admin/email", icon: FiMail },
@@ -59,7 +73,7 @@ export default function AdminLayout({
       
       <nav className="space-y-1 flex-1 mt-4">
         {(user?.role === "DELIVERY_PARTNER"
-          ? navigationItems.filter((i) => i.name === "Orders")
+          ? navigationItems.filter((i) => i.name === "Orders" || i.name === "Shipments")
           : navigationItems
         ).map((item) => {
           const isDashboard = item.href === "/admin";
@@ -13,6 +13,7 @@ import {
   FiMapPin, 
   FiShoppingBag, 
   FiHeart, 
+  FiBell,
   FiMail, 
   FiInfo, 
   FiFileText, 
@@ -26,6 +27,7 @@ const navigationItems = [
   { name: "Address", href: "/profile/address", icon: FiMapPin },
   { name: "My Orders", href: "/profile/orders", icon: FiShoppingBag },
   { name: "My Wishlist", href: "/profile/wishlist", icon: FiHeart },
+  { name: "Notifications", href: "/profile/notifications", icon: FiBell },
   { name: "Contact Us", href: "/profile/contact", icon: FiMail },
   { name: "About Us", href: "/profile/about", icon: FiInfo },
   { name: "Terms of Use", href: "/profile/terms", icon: FiFileText },
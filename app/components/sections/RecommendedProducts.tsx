@@ -1,15 +1,25 @@
 "use client";
 import ProductCard from "@/app/components/ui/ProductCard";
-import { useFeaturedProducts } from "@/app/hooks/useProducts";
 import { IProduct } from "@/app/types/product.type";
 
-export default function RecommendedProducts() {
-  const { data: productsData, isLoading, error } = useFeaturedProducts();
+interface RecommendedProductsProps {
+  title?: string;
+  products?: IProduct[];
+  isLoading?: boolean;
+  limit?: number;
+}
 
+// Recommendations are optional extras, so an empty or failed list renders nothing
+export default function RecommendedProducts({
+  title = "You May Also Like",
+  products = [],
+  isLoading = false,
+  limit = 4,
+}: RecommendedProductsProps) {
   if (isLoading) {
     return (
       <section className="mt-16">
-        <h2 className="text-2xl font-medium mb-6">You May Also Like</h2>
+        <h2 className="text-2xl font-medium mb-6">{title}</h2>
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
           {[1, 2, 3, 4].map((i) => (
             <div key={i} className="animate-pulse">
@@ -23,22 +33,13 @@ export default function RecommendedProducts() {
     );
   }
 
-  if (error) {
-    return (
-      <section className="mt-16">
-        <h2 className="text-2xl font-medium mb-6">You May Also Like</h2>
-        <div className="text-center text-red-500">Failed to load products</div>
-      </section>
-    );
-  }
-
-  const products: IProduct[] = productsData?.data?.slice(0, 4) || [];
+  if (products.length === 0) return null;
 
   return (
     <section className="mt-16">
-      <h2 className="text-2xl font-medium mb-6">You May Also Like</h2>
+      <h2 className="text-2xl font-medium mb-6">{title}</h2>
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-        {products.map((product: IProduct) => (
+        {products.slice(0, limit).map((product: IProduct) => (
           <ProductCard
             key={product.id}
             id={product.id}
@@ -50,9 +51,6 @@ export default function RecommendedProducts() {
           />
         ))}
       </div>
-      {products.length === 0 && (
-        <div className="text-center text-gray-500">No products to recommend</div>
-      )}
     </section>
   );
-}
\ No newline at end of file
+}
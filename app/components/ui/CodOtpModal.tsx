@@ -0,0 +1,143 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AxiosError } from "axios";
+import { useSendCodOtp, useVerifyCodOtp } from "@/app/hooks/useCod";
+import { COD_OTP_LENGTH } from "@/app/lib/cod";
+import { getErrorMessage } from "@/app/lib/utils";
+import { ICodOtpChallenge } from "@/app/types/cod.type";
+import { Button } from "./button";
+import { Input } from "./input";
+import { Label } from "./label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+
+interface CodOtpModalProps {
+  isOpen: boolean;
+  phone: string;
+  onClose: () => void;
+  onVerified: (verificationToken: string) => void;
+}
+
+export default function CodOtpModal({ isOpen, phone, onClose, onVerified }: CodOtpModalProps) {
+  const sendOtp = useSendCodOtp();
+  const verifyOtp = useVerifyCodOtp();
+  const [challenge, setChallenge] = useState<ICodOtpChallenge | null>(null);
+  const [otp, setOtp] = useState("");
+  const [resendIn, setResendIn] = useState(0);
+  const [error, setError] = useState("");
+
+  // mutate is stable across renders, so this only changes with the phone number
+  const { mutate: sendCode } = sendOtp;
+  const requestCode = useCallback(() => {
+    setError("");
+    setOtp("");
+    sendCode(phone, {
+      onSuccess: (next) => {
+        setChallenge(next);
+        setResendIn(next.resendAfterSeconds);
+      },
+    });
+  }, [phone, sendCode]);
+
+  // Text a code as soon as the dialog opens
+  useEffect(() => {
+    if (isOpen && !challenge && !sendOtp.isPending && !sendOtp.isError) {
+      requestCode();
+    }
+  }, [isOpen, challenge, sendOtp.isPending, sendOtp.isError, requestCode]);
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+    const timer = setTimeout(() => setResendIn((s) => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const handleClose = () => {
+    setChallenge(null);
+    setOtp("");
+    setError("");
+    setResendIn(0);
+    sendOtp.reset();
+    verifyOtp.reset();
+    onClose();
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!challenge) return;
+    if (otp.length !== COD_OTP_LENGTH) {
+      setError(`Enter the ${COD_OTP_LENGTH}-digit code`);
+      return;
+    }
+    setError("");
+    verifyOtp.mutate(
+      { requestId: challenge.requestId, otp },
+      {
+        onSuccess: ({ verificationToken }) => {
+          handleClose();
+          onVerified(verificationToken);
+        },
+        onError: (err) => setError(getErrorMessage(err as AxiosError)),
+      }
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Confirm your phone number</DialogTitle>
+          <DialogDescription>
+            {challenge
+              ? `We've sent a ${COD_OTP_LENGTH}-digit code to ${challenge.maskedPhone}. Our delivery partner will call this number.`
+              : "Sending a code to your delivery phone number..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cod-otp">Verification code</Label>
+            <Input
+              id="cod-otp"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={COD_OTP_LENGTH}
+              value={otp}
+              onChange={(e) => setOtp(e.target.value.replace(/\D/g, ""))}
+              disabled={!challenge}
+              className={`tracking-[0.5em] text-center text-lg ${error ? "border-destructive" : ""}`}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Didn&apos;t get it?</span>
+            <button
+              type="button"
+              onClick={requestCode}
+              disabled={resendIn > 0 || sendOtp.isPending}
+              className="underline disabled:no-underline disabled:text-muted-foreground cursor-pointer disabled:cursor-default"
+            >
+              {sendOtp.isPending ? "Sending..." : resendIn > 0 ? `Resend in ${resendIn}s` : "Resend code"}
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!challenge || verifyOtp.isPending}>
+              {verifyOtp.isPending ? "Verifying..." : "Verify & Place Order"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
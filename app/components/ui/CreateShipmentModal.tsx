@@ -0,0 +1,118 @@
+"use client";
+
+import { useCouriers, useCreateShipment } from "@/app/hooks/useShipments";
+import { IOrder } from "@/app/types/order.type";
+import { CourierCode } from "@/app/types/shipment.type";
+import { Button } from "./button";
+import { Input } from "./input";
+import { Label } from "./label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+
+// A folded tee in a standard mailer bag
+const DEFAULT_PACKAGE = { weightGrams: 400, lengthCm: 30, widthCm: 25, heightCm: 4 };
+
+interface CreateShipmentModalProps {
+  order: IOrder | null;
+  onClose: () => void;
+}
+
+export default function CreateShipmentModal({ order, onClose }: CreateShipmentModalProps) {
+  const { data: couriers = [], isLoading: couriersLoading } = useCouriers();
+  const createShipment = useCreateShipment();
+  const isCod = order?.paymentMethod === "COD";
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!order) return;
+    const form = e.currentTarget as HTMLFormElement & {
+      courier: { value: string };
+      weightGrams: { value: string };
+      lengthCm: { value: string };
+      widthCm: { value: string };
+      heightCm: { value: string };
+    };
+    createShipment.mutate(
+      {
+        order,
+        data: {
+          courier: form.courier.value as CourierCode,
+          package: {
+            weightGrams: Number(form.weightGrams.value),
+            lengthCm: Number(form.lengthCm.value),
+            widthCm: Number(form.widthCm.value),
+            heightCm: Number(form.heightCm.value),
+          },
+        },
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Create shipment</DialogTitle>
+          <DialogDescription>
+            Order #{order?.orderNumber} · {isCod ? `COD ₹${order?.totalAmount}` : "Prepaid"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="courier">Courier</Label>
+            <select
+              id="courier"
+              name="courier"
+              required
+              disabled={couriersLoading}
+              className="w-full h-9 rounded-md border border-input bg-background px-3 text-sm"
+            >
+              {couriers.map((c) => (
+                <option key={c.code} value={c.code} disabled={isCod && !c.supportsCod}>
+                  {c.name}
+                  {isCod && !c.supportsCod ? " (no COD)" : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="weightGrams">Weight (grams)</Label>
+            <Input id="weightGrams" name="weightGrams" type="number" min={1} required defaultValue={DEFAULT_PACKAGE.weightGrams} />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="lengthCm">Length (cm)</Label>
+              <Input id="lengthCm" name="lengthCm" type="number" min={1} required defaultValue={DEFAULT_PACKAGE.lengthCm} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="widthCm">Width (cm)</Label>
+              <Input id="widthCm" name="widthCm" type="number" min={1} required defaultValue={DEFAULT_PACKAGE.widthCm} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="heightCm">Height (cm)</Label>
+              <Input id="heightCm" name="heightCm" type="number" min={1} required defaultValue={DEFAULT_PACKAGE.heightCm} />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createShipment.isPending || couriers.length === 0}>
+              {createShipment.isPending ? "Booking..." : "Create Shipment"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FaCheckCircle, FaMoneyBillWave, FaTimesCircle, FaTruck } from "react-icons/fa";
+import { usePincodeServiceability } from "@/app/hooks/useDelivery";
+import { isValidPincode } from "@/app/lib/validation";
+import { formatDate } from "@/app/lib/formatters";
+import { Input } from "./input";
+import { Label } from "./label";
+
+const LAST_PINCODE_KEY = "delivery_pincode";
+
+interface DeliveryEstimatorProps {
+  productId?: string;
+  // Pincode being delivered to; when given, the last checked pincode isn't reused
+  defaultPincode?: string;
+  className?: string;
+}
+
+const formatDeliveryDate = (date: string) =>
+  formatDate(date, { weekday: "short", day: "numeric", month: "short", year: undefined });
+
+export default function DeliveryEstimator({
+  productId,
+  defaultPincode,
+  className = "",
+}: DeliveryEstimatorProps) {
+  const [pincode, setPincode] = useState("");
+  const [debouncedPincode, setDebouncedPincode] = useState("");
+
+  // Prefer the pincode the caller knows about (e.g. the selected address),
+  // otherwise reuse the last one the shopper checked. A caller that passes one,
+  // even half-typed, is showing a specific address, so never swap in the saved one
+  useEffect(() => {
+    if (defaultPincode !== undefined) {
+      setPincode(isValidPincode(defaultPincode) ? defaultPincode : "");
+      return;
+    }
+    const saved = window.localStorage.getItem(LAST_PINCODE_KEY);
+    if (saved && isValidPincode(saved)) {
+      setPincode(saved);
+    }
+  }, [defaultPincode]);
+
+  useEffect(() => {
+    const id = setTimeout(() => setDebouncedPincode(pincode), 500);
+    return () => clearTimeout(id);
+  }, [pincode]);
+
+  const { data: serviceability, isFetching, isError } =
+    usePincodeServiceability(debouncedPincode, productId);
+
+  useEffect(() => {
+    if (serviceability?.serviceable) {
+      window.localStorage.setItem(LAST_PINCODE_KEY, serviceability.pincode);
+    }
+  }, [serviceability]);
+
+  const formatError =
+    pincode.length === 6 && !isValidPincode(pincode)
+      ? "Invalid pincode format. First digit cannot be 0"
+      : "";
+  const isChecking =
+    isValidPincode(pincode) && (isFetching || pincode !== debouncedPincode);
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <Label htmlFor="delivery-pincode">Check delivery</Label>
+      <Input
+        id="delivery-pincode"
+        type="text"
+        inputMode="numeric"
+        placeholder="Enter 6-digit pincode"
+        value={pincode}
+        onChange={(e) => {
+          const value = e.target.value.replace(/\D/g, "");
+          if (value.length <= 6) {
+            setPincode(value);
+          }
+        }}
+        maxLength={6}
+        className={formatError ? "border-destructive" : ""}
+      />
+      {formatError && <p className="text-sm text-destructive">{formatError}</p>}
+      {isChecking && (
+        <p className="text-sm text-muted-foreground">Checking availability...</p>
+      )}
+      {!isChecking && isError && isValidPincode(pincode) && (
+        <p className="text-sm text-destructive">
+          Couldn&apos;t check this pincode. Please try again.
+        </p>
+      )}
+      {!isChecking && serviceability && serviceability.pincode === pincode && (
+        serviceability.serviceable ? (
+          <div className="space-y-2 text-sm">
+            <p className="flex items-center gap-2 font-medium text-green-600">
+              <FaCheckCircle className="w-4 h-4" />
+              Delivery available
+              {serviceability.city && ` to ${serviceability.city}${serviceability.state ? `, ${serviceability.state}` : ""}`}
+            </p>
+            {serviceability.estimatedDeliveryTo && (
+              <p className="flex items-center gap-2 text-muted-foreground">
+                <FaTruck className="w-4 h-4" />
+                {serviceability.estimatedDeliveryFrom &&
+                serviceability.estimatedDeliveryFrom !== serviceability.estimatedDeliveryTo ? (
+                  <span>
+                    Delivery between{" "}
+                    <span className="font-medium text-foreground">
+                      {formatDeliveryDate(serviceability.estimatedDeliveryFrom)}
+                    </span>{" "}
+                    and{" "}
+                    <span className="font-medium text-foreground">
+                      {formatDeliveryDate(serviceability.estimatedDeliveryTo)}
+                    </span>
+                  </span>
+                ) : (
+                  <span>
+                    Get it by{" "}
+                    <span className="font-medium text-foreground">
+                      {formatDeliveryDate(serviceability.estimatedDeliveryTo)}
+                    </span>
+                  </span>
+                )}
+              </p>
+            )}
+            <p className="flex items-center gap-2 text-muted-foreground">
+              <FaMoneyBillWave className="w-4 h-4" />
+              {serviceability.codAvailable
+                ? "Cash on Delivery available"
+                : "Cash on Delivery not available for this pincode"}
+            </p>
+          </div>
+        ) : (
+          <p className="flex items-center gap-2 text-sm font-medium text-destructive">
+            <FaTimesCircle className="w-4 h-4" />
+            {serviceability.message || "Delivery not available for this pincode"}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { FaCheckCircle } from "react-icons/fa";
+import { useAuth } from "@/app/hooks/useAuth";
+import { validatePassword } from "@/app/lib/validation";
+import { ICheckoutFormData } from "@/app/types/checkout.type";
+import { Button } from "./button";
+import { Card, CardContent, CardHeader, CardTitle } from "./card";
+import { Input } from "./input";
+import { Label } from "./label";
+import PendingPaymentNotice from "./PendingPaymentNotice";
+
+interface GuestAccountOfferProps {
+  details: ICheckoutFormData;
+  orderId: string | null;
+  orderNumber: string | null;
+}
+
+export default function GuestAccountOffer({
+  details,
+  orderId,
+  orderNumber,
+}: GuestAccountOfferProps) {
+  const { register, isLoading } = useAuth();
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState("");
+
+  const handleCreateAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { isValid, message } = validatePassword(password);
+    if (!isValid) {
+      setPasswordError(message);
+      return;
+    }
+    setPasswordError("");
+
+    // Land on the order page once the account exists
+    if (orderId) {
+      window.sessionStorage.setItem("postLoginRedirect", `/orders/${orderId}`);
+    }
+
+    register({
+      email: details.email,
+      password,
+      firstName: details.firstName,
+      lastName: details.lastName,
+      phone: details.phone,
+      role: "CUSTOMER",
+      ...(orderId && { guestOrderId: orderId }),
+    });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-xl mt-30 space-y-6">
+      {/* Guests have no orders page, so the payment retry is shown here */}
+      <PendingPaymentNotice
+        description={`Your payment went through but the order hasn't been created yet. Keep this page open and we'll confirm it here, usually within a few minutes. We'll also email ${details.email} once it's placed.`}
+      />
+      <Card>
+        <CardContent className="pt-6 text-center space-y-3">
+          <FaCheckCircle className="w-12 h-12 text-green-600 mx-auto" />
+          <h1 className="text-2xl font-semibold tracking-tight">
+            Thank you for your order!
+          </h1>
+          {orderId ? (
+            <p className="text-sm text-muted-foreground">
+              {orderNumber ? (
+                <>Order <span className="font-medium text-foreground">#{orderNumber}</span> is confirmed.</>
+              ) : (
+                "Your order is confirmed."
+              )}{" "}
+              We&apos;ve sent the details to {details.email}.
+            </p>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Your payment was received and your order is being confirmed.
+              We&apos;ll email the details to {details.email} shortly.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Save your details for next time</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground mb-4">
+            Create an account to track this order, save your address and check
+            out faster. We&apos;ll use {details.email} as your login.
+          </p>
+          <form onSubmit={handleCreateAccount} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="guest-password">Password</Label>
+              <Input
+                id="guest-password"
+                type="password"
+                placeholder="Create a password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={passwordError ? "border-destructive" : ""}
+                required
+              />
+              {passwordError && (
+                <p className="text-sm text-destructive">{passwordError}</p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Creating Account..." : "Create Account"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="text-center">
+        <Link href="/products" className="text-sm underline hover:no-underline">
+          Continue shopping
+        </Link>
+      </div>
+    </div>
+  );
+}
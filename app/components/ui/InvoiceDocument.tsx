@@ -0,0 +1,188 @@
+import { formatCurrency, formatDate } from "@/app/lib/formatters";
+import { IInvoice } from "@/app/types/invoice.type";
+
+interface InvoiceDocumentProps {
+  invoice: IInvoice;
+}
+
+const money = (value: number) =>
+  formatCurrency(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default function InvoiceDocument({ invoice }: InvoiceDocumentProps) {
+  const { seller, billTo } = invoice;
+
+  return (
+    <article className="bg-white text-black text-xs leading-relaxed p-8 border print:border-0 print:p-0">
+      <header className="flex justify-between gap-6 pb-4 border-b-2 border-black">
+        <div>
+          <h1 className="text-xl font-bold tracking-tight">{seller.name}</h1>
+          <p>{seller.legalName}</p>
+          <p>{seller.address}</p>
+          <p>
+            {seller.city}, {seller.state} {seller.pincode}
+          </p>
+          {seller.email && <p>{seller.email}</p>}
+          <p className="mt-1">
+            <span className="font-semibold">GSTIN:</span> {seller.gstin}
+            {seller.pan && (
+              <>
+                {" "}· <span className="font-semibold">PAN:</span> {seller.pan}
+              </>
+            )}
+          </p>
+        </div>
+        <div className="text-right">
+          <h2 className="text-lg font-bold uppercase tracking-widest">Tax Invoice</h2>
+          <p>
+            <span className="font-semibold">Invoice No:</span> {invoice.invoiceNumber}
+          </p>
+          <p>
+            <span className="font-semibold">Invoice Date:</span> {formatDate(invoice.invoiceDate)}
+          </p>
+          <p>
+            <span className="font-semibold">Order No:</span> {invoice.orderNumber}
+          </p>
+          <p>
+            <span className="font-semibold">Order Date:</span> {formatDate(invoice.orderDate)}
+          </p>
+        </div>
+      </header>
+
+      <section className="grid grid-cols-2 gap-6 py-4 border-b border-black">
+        <div>
+          <h3 className="font-semibold uppercase tracking-wider mb-1">Bill To / Ship To</h3>
+          <p className="font-medium">{billTo.name}</p>
+          <p>{billTo.address}</p>
+          <p>
+            {billTo.city}, {billTo.state} {billTo.pincode}
+          </p>
+          {billTo.phone && <p>Phone: {billTo.phone}</p>}
+        </div>
+        <div className="text-right">
+          <p>
+            <span className="font-semibold">Place of Supply:</span> {invoice.placeOfSupply.state} (
+            {invoice.placeOfSupply.stateCode})
+          </p>
+          <p>
+            <span className="font-semibold">Payment:</span> {invoice.paymentMethod} · {invoice.paymentStatus}
+          </p>
+          <p>
+            <span className="font-semibold">Reverse Charge:</span> No
+          </p>
+        </div>
+      </section>
+
+      <table className="w-full mt-4 border-collapse">
+        <thead>
+          <tr className="border-y border-black text-left">
+            <th className="py-2 pr-2">#</th>
+            <th className="py-2 pr-2">Item</th>
+            <th className="py-2 pr-2">HSN</th>
+            <th className="py-2 pr-2 text-right">Qty</th>
+            <th className="py-2 pr-2 text-right">Rate</th>
+            <th className="py-2 pr-2 text-right">Discount</th>
+            <th className="py-2 pr-2 text-right">Taxable</th>
+            {invoice.isInterState ? (
+              <th className="py-2 pr-2 text-right">IGST</th>
+            ) : (
+              <>
+                <th className="py-2 pr-2 text-right">CGST</th>
+                <th className="py-2 pr-2 text-right">SGST</th>
+              </>
+            )}
+            <th className="py-2 text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {invoice.lines.map((line, index) => (
+            <tr key={index} className="border-b border-gray-300 align-top">
+              <td className="py-2 pr-2">{index + 1}</td>
+              <td className="py-2 pr-2">
+                <p className="font-medium">{line.description}</p>
+                {line.variant && <p className="text-gray-600">{line.variant}</p>}
+              </td>
+              <td className="py-2 pr-2">{line.hsnCode}</td>
+              <td className="py-2 pr-2 text-right">{line.quantity}</td>
+              <td className="py-2 pr-2 text-right">{money(line.unitPrice)}</td>
+              <td className="py-2 pr-2 text-right">{line.discount > 0 ? `-${money(line.discount)}` : "—"}</td>
+              <td className="py-2 pr-2 text-right">{money(line.taxableValue)}</td>
+              {invoice.isInterState ? (
+                <td className="py-2 pr-2 text-right">
+                  {money(line.igst)}
+                  <span className="block text-gray-600">@{line.gstRate}%</span>
+                </td>
+              ) : (
+                <>
+                  <td className="py-2 pr-2 text-right">
+                    {money(line.cgst)}
+                    <span className="block text-gray-600">@{line.gstRate / 2}%</span>
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    {money(line.sgst)}
+                    <span className="block text-gray-600">@{line.gstRate / 2}%</span>
+                  </td>
+                </>
+              )}
+              <td className="py-2 text-right font-medium">{money(line.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <section className="flex justify-end mt-4">
+        <dl className="w-72 space-y-1">
+          <div className="flex justify-between">
+            <dt>Subtotal</dt>
+            <dd>{money(invoice.subtotal)}</dd>
+          </div>
+          {invoice.discountAmount > 0 && (
+            <div className="flex justify-between">
+              <dt>Discount{invoice.couponCode ? ` (${invoice.couponCode})` : ""}</dt>
+              <dd>-{money(invoice.discountAmount)}</dd>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <dt>Taxable Value</dt>
+            <dd>{money(invoice.taxableValue)}</dd>
+          </div>
+          {invoice.isInterState ? (
+            <div className="flex justify-between">
+              <dt>IGST</dt>
+              <dd>{money(invoice.igst)}</dd>
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-between">
+                <dt>CGST</dt>
+                <dd>{money(invoice.cgst)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt>SGST</dt>
+                <dd>{money(invoice.sgst)}</dd>
+              </div>
+            </>
+          )}
+          <div className="flex justify-between">
+            <dt>Shipping</dt>
+            <dd>{invoice.shippingFee === 0 ? "FREE" : money(invoice.shippingFee)}</dd>
+          </div>
+          <div className="flex justify-between border-t-2 border-black pt-1 text-sm font-bold">
+            <dt>Grand Total</dt>
+            <dd>{money(invoice.totalAmount)}</dd>
+          </div>
+        </dl>
+      </section>
+
+      <p className="mt-4">
+        <span className="font-semibold">Amount in words:</span> {invoice.amountInWords}
+      </p>
+
+      <footer className="mt-10 pt-4 border-t border-black flex justify-between items-end">
+        <p className="text-gray-600 max-w-sm">
+          This is a computer-generated invoice and does not require a physical signature.
+        </p>
+        <p className="text-right font-semibold">For {seller.legalName}</p>
+      </footer>
+    </article>
+  );
+}
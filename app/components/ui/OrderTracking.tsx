@@ -1,13 +1,20 @@
 "use client";
 
-import { ITrackingHistoryItem } from "@/app/types/order.type";
-import { CheckCircle2, Circle, Package, Truck, Home } from "lucide-react";
+import { IOrderRefund, ITrackingHistoryItem } from "@/app/types/order.type";
+import { CheckCircle2, Circle, Package, Truck, Home, RotateCcw } from "lucide-react";
 
 interface OrderTrackingProps {
   tracking: ITrackingHistoryItem[];
   currentStatus?: string;
+  refunds?: IOrderRefund[];
 }
 
+const REFUND_STATUS_LABELS: Record<IOrderRefund['status'], string> = {
+  'PENDING': 'Refund initiated',
+  'PROCESSED': 'Refunded',
+  'FAILED': 'Refund failed',
+};
+
 const STATUS_ORDER: string[] = [
   'CONFIRMED',
   'PROCESSING',
@@ -43,7 +50,7 @@ const getStatusIcon = (status: string, size: string = "w-5 h-5") => {
   }
 };
 
-export const OrderTrackingComponent = ({ tracking, currentStatus }: OrderTrackingProps) => {
+export const OrderTrackingComponent = ({ tracking, currentStatus, refunds = [] }: OrderTrackingProps) => {
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -136,6 +143,36 @@ export const OrderTrackingComponent = ({ tracking, currentStatus }: OrderTrackin
           })}
         </div>
       </div>
+
+      {/* Refunds sit outside the fulfilment steps, newest first */}
+      {refunds.length > 0 && (
+        <div className="space-y-4 sm:space-y-6 pt-4 border-t">
+          {refunds.map((refund) => (
+            <div key={refund.id} className="flex items-start gap-3 sm:gap-4">
+              <div className={`flex items-center justify-center w-8 h-8 sm:w-10 sm:h-10 rounded-full border-2 flex-shrink-0 ${
+                refund.status === 'FAILED'
+                  ? 'bg-white border-red-300 text-red-500'
+                  : 'bg-white border-gray-300 text-foreground'
+              }`}>
+                <RotateCcw className="w-4 h-4 sm:w-5 sm:h-5" />
+              </div>
+              <div className="flex-1 pt-0.5 sm:pt-1 min-w-0">
+                <div className="font-medium text-sm sm:text-base">
+                  {REFUND_STATUS_LABELS[refund.status]} · ₹{refund.amount.toLocaleString()}
+                </div>
+                <div className="text-xs sm:text-sm text-muted-foreground mt-1">
+                  {formatTimestamp(refund.processedAt || refund.createdAt)}
+                </div>
+                {refund.reason && (
+                  <div className="text-xs sm:text-sm text-muted-foreground mt-1 italic break-words">
+                    {refund.reason}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
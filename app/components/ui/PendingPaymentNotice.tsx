@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { usePendingPaymentReconciliation } from "@/app/hooks/usePaymentReconciliation";
+import { Alert, AlertDescription } from "./alert";
+
+interface PendingPaymentNoticeProps {
+  // Called once the payment turns into an order (or is refunded)
+  onResolved?: () => void;
+  // Replaces the default "it will appear here" text, e.g. for guests who have no orders page
+  description?: string;
+}
+
+export default function PendingPaymentNotice({ onResolved, description }: PendingPaymentNoticeProps) {
+  const { pending, reconciliation } = usePendingPaymentReconciliation();
+  const wasPending = useRef(false);
+
+  useEffect(() => {
+    if (pending) {
+      wasPending.current = true;
+    } else if (wasPending.current) {
+      wasPending.current = false;
+      onResolved?.();
+    }
+  }, [pending, onResolved]);
+
+  if (!pending) return null;
+
+  return (
+    <Alert className="mb-6" role="status">
+      <AlertDescription className="flex items-start gap-3">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary mt-0.5 flex-shrink-0"></div>
+        <div>
+          <p className="font-medium text-foreground">We&apos;re confirming your payment</p>
+          <p className="text-sm">
+            {description ??
+              "Your payment went through but the order hasn't been created yet. It will appear here automatically, usually within a few minutes."}
+            {reconciliation.isError && " We're having trouble reaching our servers and will keep trying."}
+          </p>
+          <p className="text-xs mt-1">
+            Payment ID: <span className="font-mono">{pending.razorpay_payment_id}</span>
+          </p>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
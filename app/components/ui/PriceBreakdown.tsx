@@ -0,0 +1,136 @@
+"use client";
+
+import { formatCurrency } from "@/app/lib/formatters";
+import { IPriceBreakdown } from "@/app/types/pricing.type";
+import { Separator } from "./separator";
+import { Skeleton } from "./skeleton";
+
+interface PriceBreakdownProps {
+  breakdown?: IPriceBreakdown;
+  isLoading?: boolean;
+  itemCount: number;
+}
+
+const formatAmount = (value: number) =>
+  formatCurrency(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default function PriceBreakdown({
+  breakdown,
+  isLoading = false,
+  itemCount,
+}: PriceBreakdownProps) {
+  if (!breakdown) {
+    return (
+      <div className="space-y-3">
+        {isLoading ? (
+          <>
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-2/3" />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Unable to calculate shipping and taxes right now.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const { shipping } = breakdown;
+  // Older quotes only carry the total discount
+  const discountLines = (breakdown.discounts ?? []).filter((d) => !d.freeShipping && d.amount > 0);
+  const freeShippingPromotion = breakdown.discounts?.find((d) => d.freeShipping);
+  const amountToFreeShipping =
+    shipping.freeShippingThreshold !== null && !shipping.isFree
+      ? shipping.freeShippingThreshold - (breakdown.subtotal - breakdown.discount)
+      : 0;
+
+  return (
+    <div className={`space-y-3 ${isLoading ? "opacity-60" : ""}`}>
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">Subtotal ({itemCount} items)</span>
+        <span className="font-medium">{formatAmount(breakdown.subtotal)}</span>
+      </div>
+      {discountLines.length > 0
+        ? discountLines.map((line) => (
+            <div key={line.promotionId ?? line.couponCode ?? line.label} className="text-sm text-green-600">
+              <div className="flex justify-between gap-4">
+                <span>
+                  {line.label}
+                  {line.source === "COUPON" && line.couponCode ? ` (${line.couponCode})` : ""}
+                </span>
+                <span className="font-medium">-{formatAmount(line.amount)}</span>
+              </div>
+              {line.explanation && <p className="text-xs text-muted-foreground">{line.explanation}</p>}
+            </div>
+          ))
+        : breakdown.discount > 0 && (
+            <div className="flex justify-between text-sm text-green-600">
+              <span>Discount{breakdown.couponCode ? ` (${breakdown.couponCode})` : ""}</span>
+              <span className="font-medium">-{formatAmount(breakdown.discount)}</span>
+            </div>
+          )}
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">
+          Shipping{shipping.zone === null && " (estimated)"}
+          {freeShippingPromotion && ` · ${freeShippingPromotion.label}`}
+        </span>
+        {shipping.isFree ? (
+          <span className="font-medium text-green-600">FREE</span>
+        ) : (
+          <span className="font-medium">{formatAmount(shipping.amount)}</span>
+        )}
+      </div>
+      {amountToFreeShipping > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add {formatAmount(amountToFreeShipping)} more for free shipping
+        </p>
+      )}
+      {breakdown.promotionHints?.map((hint) => (
+        <p key={hint.promotionId} className="text-xs text-muted-foreground">
+          {hint.message}
+        </p>
+      ))}
+      {breakdown.paymentAdjustment && breakdown.paymentAdjustment.amount !== 0 && (
+        <div
+          className={`flex justify-between text-sm ${breakdown.paymentAdjustment.amount < 0 ? "text-green-600" : ""}`}
+        >
+          <span className={breakdown.paymentAdjustment.amount < 0 ? "" : "text-muted-foreground"}>
+            {breakdown.paymentAdjustment.label}
+          </span>
+          <span className="font-medium">
+            {breakdown.paymentAdjustment.amount < 0 ? "-" : ""}
+            {formatAmount(Math.abs(breakdown.paymentAdjustment.amount))}
+          </span>
+        </div>
+      )}
+      {!breakdown.taxInclusive &&
+        breakdown.taxLines.map((line) => (
+          <div key={line.categoryId} className="flex justify-between text-sm">
+            <span className="text-muted-foreground">
+              GST {line.gstRate}% ({line.categoryName})
+            </span>
+            <span className="font-medium">{formatAmount(line.amount)}</span>
+          </div>
+        ))}
+      <Separator />
+      <div className="flex justify-between">
+        <span className="font-semibold">Total</span>
+        <span className="font-bold text-lg">{formatAmount(breakdown.total)}</span>
+      </div>
+      {breakdown.taxInclusive && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            Including {formatAmount(breakdown.tax)} GST
+          </p>
+          {breakdown.taxLines.map((line) => (
+            <p key={line.categoryId} className="text-xs text-muted-foreground">
+              {line.categoryName}: {line.gstRate}% on {formatAmount(line.taxableAmount)}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
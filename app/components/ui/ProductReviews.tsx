@@ -1,20 +1,31 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
 import {
   useReviews,
   useCreateReview,
   useUpdateReview,
   useDeleteReview,
+  useReviewMedia,
+  useMyReview,
 } from "@/app/hooks/useReviews";
+import { getFitScore, REVIEW_FIT_LABELS, REVIEW_SORT_LABELS } from "@/app/lib/reviews";
 import { useAuth } from "@/app/hooks/useAuth";
 import { FaStar, FaEdit, FaTrash } from "react-icons/fa";
 import { Button } from "./button";
 import ReviewModal from "./ReviewModal";
+import ReviewSummary from "./ReviewSummary";
+import ReviewFeedback from "./ReviewFeedback";
 import {
   ICreateReviewData,
   IUpdateReviewData,
   IReview,
+  IReviewMedia,
+  IReviewReply,
+  ReviewSortBy,
 } from "@/app/types/review.type";
 import { Card, CardContent, CardHeader } from "./card";
 import { Badge } from "./badge";
@@ -31,19 +42,87 @@ import {
   AlertDialogTitle,
 } from "./alert-dialog";
 
+function BrandReply({ reply }: { reply: IReviewReply }) {
+  return (
+    <div className="ml-4 pl-4 border-l-2 border-primary/40 space-y-1">
+      <p className="text-sm font-semibold text-foreground">
+        Response from Kulangara
+        <span className="ml-2 text-xs font-normal text-muted-foreground">
+          {new Date(reply.createdAt).toLocaleDateString()}
+        </span>
+      </p>
+      <p className="text-sm text-muted-foreground leading-relaxed">{reply.body}</p>
+    </div>
+  );
+}
+
+function ReviewDetails({ review }: { review: IReview }) {
+  const media: IReviewMedia[] = review.media ?? [];
+  if (!review.purchasedSize && !review.fit && media.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {(review.purchasedSize || review.fit) && (
+        <p className="text-xs text-muted-foreground">
+          {review.purchasedSize && `Bought size ${review.purchasedSize}`}
+          {review.purchasedSize && review.fit && " · "}
+          {review.fit && REVIEW_FIT_LABELS[review.fit]}
+        </p>
+      )}
+      {media.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {media.map((item, index) => (
+            <a
+              key={item.url}
+              href={item.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="relative block h-16 w-16 overflow-hidden rounded-md bg-muted"
+              aria-label={`Open ${item.type === "VIDEO" ? "video" : "photo"} ${index + 1}`}
+            >
+              {item.type === "VIDEO" ? (
+                <video src={item.url} muted playsInline preload="metadata" className="h-full w-full object-cover" />
+              ) : (
+                <Image src={item.url} alt={`Review photo ${index + 1}`} fill sizes="64px" className="object-cover" />
+              )}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface ProductReviewsProps {
   productId: string;
   showSummary?: boolean;
   showAddButton?: boolean;
+  // Set when the shopper arrives from a star link in a review request email
+  requestedRating?: number | null;
+  reviewRequestToken?: string;
 }
 
 export default function ProductReviews({
   productId,
   showSummary = true,
   showAddButton = true,
+  requestedRating,
+  reviewRequestToken,
 }: ProductReviewsProps) {
-  const { user, isAuthenticated } = useAuth();
-  const { data: reviewsData, isLoading, error } = useReviews(productId);
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const [sortBy, setSortBy] = useState<ReviewSortBy>("helpful");
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const { data: reviewsData, isLoading, error } = useReviews(productId, {
+    sortBy,
+    verified: verifiedOnly || undefined,
+  });
+  const { data: reviewMedia = [] } = useReviewMedia(productId);
+  // Only needed to answer an emailed review link
+  const { data: myReview, isLoading: myReviewLoading } = useMyReview(
+    productId,
+    !!requestedRating && isAuthenticated
+  );
 
   const createReviewMutation = useCreateReview();
   const updateReviewMutation = useUpdateReview();
@@ -53,6 +132,28 @@ export default function ProductReviews({
   const [editingReview, setEditingReview] = useState<IReview | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [reviewToDelete, setReviewToDelete] = useState<IReview | null>(null);
+  const [initialRating, setInitialRating] = useState<number | undefined>(undefined);
+  const handledRequest = useRef(false);
+
+  // Open the review form with the emailed star already picked, once per visit
+  useEffect(() => {
+    if (!requestedRating || handledRequest.current || authLoading || myReviewLoading) return;
+    handledRequest.current = true;
+
+    if (!isAuthenticated) {
+      window.sessionStorage.setItem("postLoginRedirect", `${window.location.pathname}${window.location.search}`);
+      toast("Sign in to finish your review");
+      router.push("/login");
+      return;
+    }
+    if (myReview) {
+      toast.success("You've already reviewed this product");
+      return;
+    }
+    setEditingReview(null);
+    setInitialRating(requestedRating);
+    setIsModalOpen(true);
+  }, [requestedRating, authLoading, myReviewLoading, isAuthenticated, myReview, router]);
 
   if (isLoading) {
     return (
@@ -152,16 +253,21 @@ export default function ProductReviews({
     } else {
       createReviewMutation.mutate({
         productId,
-        data: data as ICreateReviewData,
+        data: {
+          ...(data as ICreateReviewData),
+          reviewRequestToken: initialRating ? reviewRequestToken : undefined,
+        },
       });
     }
     setIsModalOpen(false);
     setEditingReview(null);
+    setInitialRating(undefined);
   };
 
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingReview(null);
+    setInitialRating(undefined);
   };
 
   const userReview = reviews.find(
@@ -245,6 +351,17 @@ export default function ProductReviews({
                 })}
               </div>
             </div>
+
+            {(getFitScore(meta.stats.fitDistribution) || reviewMedia.length > 0) && (
+              <ReviewSummary
+                averageRating={meta.stats.averageRating}
+                totalReviews={meta.total}
+                fitDistribution={meta.stats.fitDistribution}
+                media={reviewMedia}
+                showRating={false}
+                className="mt-8 pt-6 border-t"
+              />
+            )}
           </CardContent>
         </Card>
       )}
@@ -257,6 +374,17 @@ export default function ProductReviews({
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
                   <Badge variant="secondary">Your Review</Badge>
+                  {userReview.isVerified && (
+                    <Badge variant="secondary" className="text-xs">
+                      ✓ Verified Purchase
+                    </Badge>
+                  )}
+                  {userReview.status === "PENDING" && (
+                    <span className="text-xs text-muted-foreground">Awaiting approval</span>
+                  )}
+                  {userReview.status === "REJECTED" && (
+                    <span className="text-xs text-muted-foreground">Not published</span>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   <Button
@@ -291,11 +419,44 @@ export default function ProductReviews({
               <p className="text-muted-foreground leading-relaxed">
                 {userReview.comment}
               </p>
+              <ReviewDetails review={userReview} />
+              {userReview.reply && <BrandReply reply={userReview.reply} />}
             </div>
           </CardContent>
         </Card>
       )}
 
+      {/* Sort and filter */}
+      {meta && (meta.total > 0 || verifiedOnly) && (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <label htmlFor="review-sort" className="text-sm text-muted-foreground">
+              Sort by
+            </label>
+            <select
+              id="review-sort"
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as ReviewSortBy)}
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+            >
+              {(Object.keys(REVIEW_SORT_LABELS) as ReviewSortBy[]).map((option) => (
+                <option key={option} value={option}>
+                  {REVIEW_SORT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={verifiedOnly}
+              onChange={(e) => setVerifiedOnly(e.target.checked)}
+            />
+            Verified purchases only
+          </label>
+        </div>
+      )}
+
       {/* Other Reviews */}
       <div className="space-y-4">
         {otherReviews.map((review: IReview) => (
@@ -344,12 +505,33 @@ export default function ProductReviews({
                 <p className="text-muted-foreground leading-relaxed">
                   {review.comment}
                 </p>
+
+                <ReviewDetails review={review} />
+
+                {review.reply && <BrandReply reply={review.reply} />}
+
+                <ReviewFeedback
+                  productId={productId}
+                  review={review}
+                  isAuthenticated={isAuthenticated}
+                />
               </div>
             </CardContent>
           </Card>
         ))}
 
-        {reviews.length === 0 && (
+        {reviews.length === 0 && verifiedOnly && (
+          <Card>
+            <CardContent className="text-center py-12">
+              <p className="text-foreground font-medium mb-2">No verified-purchase reviews yet</p>
+              <Button onClick={() => setVerifiedOnly(false)} variant="outline">
+                Show all reviews
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {reviews.length === 0 && !verifiedOnly && (
           <Card>
             <CardContent className="text-center py-12">
               <p className="text-4xl mb-4">📝</p>
@@ -373,6 +555,7 @@ export default function ProductReviews({
         onClose={handleCloseModal}
         productId={productId}
         review={editingReview}
+        initialRating={initialRating}
         onSubmit={handleSubmitReview}
         isLoading={
           createReviewMutation.isPending || updateReviewMutation.isPending
@@ -0,0 +1,232 @@
+"use client";
+
+import { useState } from "react";
+import { useCreateRefund } from "@/app/hooks/useOrders";
+import { getLineKey } from "@/app/lib/returns";
+import { estimateItemsRefund, getRefundableAmount, getRefundedQuantities } from "@/app/lib/refunds";
+import { formatCurrency } from "@/app/lib/formatters";
+import { IOrder } from "@/app/types/order.type";
+import { Button } from "./button";
+import { Checkbox } from "./checkbox";
+import { Input } from "./input";
+import { Label } from "./label";
+import { Textarea } from "./textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+
+type RefundMode = "ITEMS" | "AMOUNT";
+
+interface RefundOrderModalProps {
+  order: IOrder | null;
+  onClose: () => void;
+}
+
+export default function RefundOrderModal({ order, onClose }: RefundOrderModalProps) {
+  const createRefund = useCreateRefund();
+  const [mode, setMode] = useState<RefundMode>("ITEMS");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [restock, setRestock] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const refundable = order ? getRefundableAmount(order) : 0;
+  const refundedQuantities = order ? getRefundedQuantities(order) : {};
+  const lines = (order?.items ?? []).map((item) => {
+    const key = getLineKey(item);
+    return { item, key, available: item.quantity - (refundedQuantities[key] || 0) };
+  });
+
+  const handleClose = () => {
+    setMode("ITEMS");
+    setQuantities({});
+    setAmount("");
+    setReason("");
+    setRestock(false);
+    setErrors({});
+    onClose();
+  };
+
+  // Picking lines suggests an amount; the admin can still adjust it before confirming
+  const updateQuantities = (next: Record<string, number>) => {
+    setQuantities(next);
+    if (order) {
+      const estimate = estimateItemsRefund(order, next);
+      setAmount(estimate > 0 ? String(estimate) : "");
+    }
+  };
+
+  const setLineQuantity = (key: string, quantity: number) => {
+    const next = { ...quantities };
+    if (quantity > 0) {
+      next[key] = quantity;
+    } else {
+      delete next[key];
+    }
+    updateQuantities(next);
+  };
+
+  const selectAll = () => {
+    updateQuantities(
+      Object.fromEntries(lines.filter((l) => l.available > 0).map((l) => [l.key, l.available]))
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!order) return;
+
+    const value = Number(amount);
+    const items = mode === "ITEMS"
+      ? lines
+          .filter((l) => quantities[l.key])
+          .map((l) => ({ productId: l.item.productId, variantId: l.item.variantId, quantity: quantities[l.key] ?? 0 }))
+      : [];
+
+    const nextErrors: Record<string, string> = {};
+    if (mode === "ITEMS" && items.length === 0) nextErrors["items"] = "Select at least one item";
+    if (!value || value <= 0) nextErrors["amount"] = "Enter an amount";
+    else if (value > refundable) nextErrors["amount"] = `At most ${formatCurrency(refundable, { maximumFractionDigits: 2 })} can be refunded`;
+    if (!reason.trim()) nextErrors["reason"] = "Enter a reason";
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    createRefund.mutate(
+      {
+        orderId: order.id,
+        data: {
+          amount: value,
+          items: items.length > 0 ? items : undefined,
+          reason: reason.trim(),
+          restock: items.length > 0 && restock,
+        },
+      },
+      { onSuccess: handleClose }
+    );
+  };
+
+  return (
+    <Dialog open={!!order} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Issue refund</DialogTitle>
+          <DialogDescription>
+            Order #{order?.orderNumber} · {formatCurrency(refundable, { maximumFractionDigits: 2 })} refundable to the
+            original Razorpay payment
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            {(["ITEMS", "AMOUNT"] as RefundMode[]).map((option) => (
+              <Button
+                key={option}
+                type="button"
+                variant={mode === option ? "default" : "outline"}
+                onClick={() => {
+                  setMode(option);
+                  setErrors({});
+                }}
+              >
+                {option === "ITEMS" ? "Refund items" : "Custom amount"}
+              </Button>
+            ))}
+          </div>
+
+          {mode === "ITEMS" && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Items</Label>
+                <button type="button" onClick={selectAll} className="text-xs underline cursor-pointer">
+                  Refund everything
+                </button>
+              </div>
+              {lines.map(({ item, key, available }) => (
+                <div key={key} className="flex items-center gap-3 rounded-lg border p-3">
+                  <Checkbox
+                    checked={!!quantities[key]}
+                    disabled={available <= 0}
+                    onCheckedChange={(checked) => setLineQuantity(key, checked === true ? available : 0)}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">{item.product?.name || item.productId}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Size {item.size ?? item.variant?.size ?? "N/A"} · ₹{item.price.toLocaleString()} each
+                      {available < item.quantity && ` · ${item.quantity - available} already refunded`}
+                    </p>
+                  </div>
+                  {quantities[key] && available > 1 ? (
+                    <select
+                      value={quantities[key]}
+                      onChange={(e) => setLineQuantity(key, Number(e.target.value))}
+                      className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                    >
+                      {Array.from({ length: available }, (_, i) => i + 1).map((q) => (
+                        <option key={q} value={q}>
+                          Qty {q}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
+                </div>
+              ))}
+              {errors["items"] && <p className="text-sm text-destructive">{errors["items"]}</p>}
+
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox checked={restock} onCheckedChange={(checked) => setRestock(checked === true)} />
+                Return these items to stock
+              </label>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Amount (₹)</Label>
+            <Input
+              id="refund-amount"
+              type="number"
+              step="0.01"
+              min="1"
+              max={refundable}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={errors["amount"] ? "border-destructive" : ""}
+            />
+            {mode === "ITEMS" && (
+              <p className="text-xs text-muted-foreground">
+                Suggested from the selected items, including their share of discounts and tax.
+              </p>
+            )}
+            {errors["amount"] && <p className="text-sm text-destructive">{errors["amount"]}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Shown to the customer on their order"
+              className={errors["reason"] ? "border-destructive" : ""}
+            />
+            {errors["reason"] && <p className="text-sm text-destructive">{errors["reason"]}</p>}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createRefund.isPending || refundable <= 0}>
+              {createRefund.isPending ? "Refunding..." : "Issue Refund"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
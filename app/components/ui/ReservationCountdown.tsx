@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FiClock } from "react-icons/fi";
+import { Alert, AlertDescription } from "./alert";
+
+interface ReservationCountdownProps {
+  // Epoch ms when the held stock is released
+  expiresAt: number;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+};
+
+export default function ReservationCountdown({ expiresAt }: ReservationCountdownProps) {
+  const [remaining, setRemaining] = useState(() => expiresAt - Date.now());
+
+  useEffect(() => {
+    setRemaining(expiresAt - Date.now());
+    const id = setInterval(() => setRemaining(expiresAt - Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [expiresAt]);
+
+  const isEnding = remaining <= 60 * 1000;
+
+  return (
+    <Alert variant={isEnding ? "destructive" : "default"} role="timer" aria-live="polite">
+      <FiClock className="h-4 w-4" />
+      <AlertDescription>
+        Your items are reserved for{" "}
+        <span className="font-semibold tabular-nums">{formatRemaining(remaining)}</span>. Complete payment before
+        then or they&apos;ll be released to other shoppers.
+      </AlertDescription>
+    </Alert>
+  );
+}
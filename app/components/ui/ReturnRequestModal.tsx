@@ -0,0 +1,385 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { toast } from "react-hot-toast";
+import { useProduct } from "@/app/hooks/useProducts";
+import { useCreateReturn } from "@/app/hooks/useReturns";
+import returnService from "@/app/services/return.service";
+import { MAX_RETURN_PHOTOS, RETURN_REASON_LABELS, getLineKey } from "@/app/lib/returns";
+import { IOrder, IOrderItem } from "@/app/types/order.type";
+import { ICreateReturnData, ReturnReason, ReturnRequestType } from "@/app/types/return.type";
+import { Button } from "./button";
+import { Checkbox } from "./checkbox";
+import { Label } from "./label";
+import { Textarea } from "./textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+
+// Reasons where we need to see the problem before approving
+const PHOTO_REQUIRED_REASONS: ReturnReason[] = ["DAMAGED", "DEFECTIVE", "WRONG_ITEM"];
+
+interface ReturnRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  order: IOrder;
+  // Quantities already covered by open return requests, keyed by getLineKey
+  returnedQuantities?: Record<string, number>;
+}
+
+interface ISelectedLine {
+  quantity: number;
+  exchangeVariantId: string;
+}
+
+function ExchangeSizeSelect({
+  item,
+  value,
+  onChange,
+}: {
+  item: IOrderItem;
+  value: string;
+  onChange: (variantId: string) => void;
+}) {
+  const { data: product, isLoading } = useProduct(item.productId);
+  const currentVariantId = item.variantId || item.variant?.id;
+  const currentVariant = product?.variants?.find((v) => v.id === currentVariantId);
+
+  // Same colour and fit, different size, and actually in stock
+  const options = (product?.variants || []).filter(
+    (v) =>
+      v.id !== currentVariantId &&
+      v.isActive &&
+      v.stock > 0 &&
+      (!currentVariant || (v.color === currentVariant.color && v.fit === currentVariant.fit))
+  );
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading sizes...</p>;
+  }
+
+  if (options.length === 0) {
+    return (
+      <p className="text-xs text-destructive">
+        No other sizes are in stock for this item right now.
+      </p>
+    );
+  }
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full h-9 rounded-md border border-input bg-background px-3 text-sm"
+    >
+      <option value="">Select new size</option>
+      {options.map((v) => (
+        <option key={v.id} value={v.id}>
+          {v.size}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function ReturnRequestModal({
+  isOpen,
+  onClose,
+  order,
+  returnedQuantities = {},
+}: ReturnRequestModalProps) {
+  const createReturn = useCreateReturn();
+  const [type, setType] = useState<ReturnRequestType>("RETURN");
+  const [reason, setReason] = useState<ReturnReason | "">("");
+  const [comments, setComments] = useState("");
+  const [selected, setSelected] = useState<Record<string, ISelectedLine>>({});
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+
+  const returnableItems = order.items
+    .map((item) => ({
+      item,
+      key: getLineKey(item),
+      available: item.quantity - (returnedQuantities[getLineKey(item)] || 0),
+    }))
+    .filter(({ available }) => available > 0);
+
+  const resetForm = () => {
+    setType("RETURN");
+    setReason("");
+    setComments("");
+    setSelected({});
+    setPhotos([]);
+    setErrors({});
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const toggleItem = (key: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[key] = { quantity: 1, exchangeVariantId: "" };
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  const updateLine = (key: string, patch: Partial<ISelectedLine>) => {
+    setSelected((prev) => {
+      const line = prev[key];
+      return line ? { ...prev, [key]: { ...line, ...patch } } : prev;
+    });
+  };
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter((f) => f.type.startsWith("image/"));
+    setPhotos((prev) => [...prev, ...files].slice(0, MAX_RETURN_PHOTOS));
+    e.target.value = "";
+  };
+
+  const validateForm = () => {
+    const newErrors: { [key: string]: string } = {};
+    const lines = Object.values(selected);
+
+    if (lines.length === 0) {
+      newErrors["items"] = "Select at least one item";
+    }
+    if (type === "EXCHANGE" && lines.some((line) => !line.exchangeVariantId)) {
+      newErrors["items"] = "Pick a new size for each item you want to exchange";
+    }
+    if (!reason) {
+      newErrors["reason"] = "Please select a reason";
+    } else if (reason === "OTHER" && comments.trim().length < 10) {
+      newErrors["comments"] = "Please tell us a little more (at least 10 characters)";
+    }
+    if (reason && PHOTO_REQUIRED_REASONS.includes(reason) && photos.length === 0) {
+      newErrors["photos"] = "Please add at least one photo showing the issue";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const uploadPhotos = async (): Promise<string[]> => {
+    if (photos.length === 0) return [];
+
+    const { uploadUrls } = await returnService.getPhotoUploadUrls(
+      order.id,
+      photos.map((f) => f.type)
+    );
+    if (!uploadUrls || uploadUrls.length !== photos.length) {
+      throw new Error("Could not prepare photo upload");
+    }
+
+    return Promise.all(
+      photos.map(async (file, index) => {
+        const target = uploadUrls[index]!;
+        const res = await fetch(target.uploadURL, {
+          method: "PUT",
+          headers: { "Content-Type": file.type },
+          body: file,
+        });
+        if (!res.ok) {
+          throw new Error(`Failed to upload ${file.name}`);
+        }
+        return target.url;
+      })
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm() || !reason) return;
+
+    let photoUrls: string[];
+    try {
+      setIsUploading(true);
+      photoUrls = await uploadPhotos();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Photo upload failed");
+      return;
+    } finally {
+      setIsUploading(false);
+    }
+
+    const payload: ICreateReturnData = {
+      orderId: order.id,
+      type,
+      reason,
+      comments: comments.trim() || undefined,
+      photos: photoUrls,
+      items: returnableItems
+        .filter(({ key }) => selected[key])
+        .map(({ item, key }) => ({
+          productId: item.productId,
+          variantId: item.variantId || item.variant?.id,
+          quantity: selected[key]!.quantity,
+          ...(type === "EXCHANGE" && { exchangeVariantId: selected[key]!.exchangeVariantId }),
+        })),
+    };
+
+    createReturn.mutate(payload, { onSuccess: handleClose });
+  };
+
+  const isSubmitting = isUploading || createReturn.isPending;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return or exchange items</DialogTitle>
+          <DialogDescription>Order #{order.orderNumber}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            {(["RETURN", "EXCHANGE"] as ReturnRequestType[]).map((option) => (
+              <Button
+                key={option}
+                type="button"
+                variant={type === option ? "default" : "outline"}
+                onClick={() => setType(option)}
+              >
+                {option === "RETURN" ? "Return for refund" : "Exchange size"}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Items</Label>
+            {returnableItems.map(({ item, key, available }) => {
+              const line = selected[key];
+              return (
+                <div key={key} className="rounded-lg border p-3 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <Checkbox
+                      checked={!!line}
+                      onCheckedChange={(checked) => toggleItem(key, checked === true)}
+                    />
+                    <div className="relative w-12 h-12 rounded-md overflow-hidden bg-muted flex-shrink-0">
+                      <Image
+                        src={item.product?.images?.[0]?.url || "/images/coming-soon.jpg"}
+                        alt={item.product?.name || "Product"}
+                        fill
+                        className="object-cover"
+                      />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium truncate">{item.product?.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Size: {item.size ?? item.variant?.size ?? "N/A"}
+                      </p>
+                    </div>
+                    {line && available > 1 && (
+                      <select
+                        value={line.quantity}
+                        onChange={(e) => updateLine(key, { quantity: Number(e.target.value) })}
+                        className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      >
+                        {Array.from({ length: available }, (_, i) => i + 1).map((q) => (
+                          <option key={q} value={q}>
+                            Qty {q}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                  {line && type === "EXCHANGE" && (
+                    <ExchangeSizeSelect
+                      item={item}
+                      value={line.exchangeVariantId}
+                      onChange={(variantId) => updateLine(key, { exchangeVariantId: variantId })}
+                    />
+                  )}
+                </div>
+              );
+            })}
+            {errors["items"] && <p className="text-sm text-destructive">{errors["items"]}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return-reason">Reason</Label>
+            <select
+              id="return-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as ReturnReason)}
+              className={`w-full h-9 rounded-md border bg-background px-3 text-sm ${errors["reason"] ? "border-destructive" : "border-input"}`}
+            >
+              <option value="">Select a reason</option>
+              {Object.entries(RETURN_REASON_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {errors["reason"] && <p className="text-sm text-destructive">{errors["reason"]}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return-comments">Comments (optional)</Label>
+            <Textarea
+              id="return-comments"
+              rows={3}
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="Anything we should know?"
+              className={errors["comments"] ? "border-destructive" : ""}
+            />
+            {errors["comments"] && <p className="text-sm text-destructive">{errors["comments"]}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return-photos">
+              Photos ({photos.length}/{MAX_RETURN_PHOTOS})
+            </Label>
+            <input
+              id="return-photos"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={handlePhotoChange}
+              disabled={photos.length >= MAX_RETURN_PHOTOS}
+              className="block w-full text-sm"
+            />
+            {photos.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {photos.map((file, index) => (
+                  <button
+                    key={`${file.name}-${index}`}
+                    type="button"
+                    onClick={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+                    className="text-xs rounded border px-2 py-1 hover:bg-muted"
+                  >
+                    {file.name} ✕
+                  </button>
+                ))}
+              </div>
+            )}
+            {errors["photos"] && <p className="text-sm text-destructive">{errors["photos"]}</p>}
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <Button type="submit" className="flex-1" disabled={isSubmitting}>
+              {isUploading ? "Uploading photos..." : createReturn.isPending ? "Submitting..." : "Submit request"}
+            </Button>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { FaFlag, FaRegThumbsDown, FaRegThumbsUp, FaThumbsDown, FaThumbsUp } from "react-icons/fa";
+import { useReportReview, useVoteReview } from "@/app/hooks/useReviews";
+import { REVIEW_REPORT_REASON_LABELS } from "@/app/lib/reviews";
+import { IReview, ReviewReportReason, ReviewVote } from "@/app/types/review.type";
+import { Button } from "./button";
+import { Label } from "./label";
+import { Textarea } from "./textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./dialog";
+
+interface ReviewFeedbackProps {
+  productId: string;
+  review: IReview;
+  isAuthenticated: boolean;
+}
+
+export default function ReviewFeedback({ productId, review, isAuthenticated }: ReviewFeedbackProps) {
+  const voteReview = useVoteReview();
+  const reportReview = useReportReview();
+  const [reportOpen, setReportOpen] = useState(false);
+  const [reason, setReason] = useState<ReviewReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [error, setError] = useState("");
+
+  const requireSignIn = () => {
+    if (!isAuthenticated) {
+      toast.error("Sign in to rate or report reviews");
+      return true;
+    }
+    return false;
+  };
+
+  // Clicking the vote you already cast takes it back
+  const handleVote = (vote: ReviewVote) => {
+    if (requireSignIn()) return;
+    voteReview.mutate({
+      productId,
+      reviewId: review.id,
+      vote: review.myVote === vote ? null : vote,
+    });
+  };
+
+  const closeReport = () => {
+    setReportOpen(false);
+    setReason(null);
+    setDetails("");
+    setError("");
+  };
+
+  const handleReport = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!reason) {
+      setError("Please choose a reason");
+      return;
+    }
+    if (reason === "OTHER" && details.trim().length < 10) {
+      setError("Please tell us a little more (at least 10 characters)");
+      return;
+    }
+    reportReview.mutate(
+      {
+        productId,
+        reviewId: review.id,
+        data: { reason, details: details.trim() || undefined },
+      },
+      { onSuccess: closeReport }
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+      <span>Was this helpful?</span>
+      <button
+        type="button"
+        onClick={() => handleVote("HELPFUL")}
+        disabled={voteReview.isPending}
+        aria-pressed={review.myVote === "HELPFUL"}
+        className="flex items-center gap-1 hover:text-foreground disabled:opacity-50 cursor-pointer"
+      >
+        {review.myVote === "HELPFUL" ? <FaThumbsUp className="w-3.5 h-3.5 text-foreground" /> : <FaRegThumbsUp className="w-3.5 h-3.5" />}
+        {review.helpfulCount ?? 0}
+      </button>
+      <button
+        type="button"
+        onClick={() => handleVote("NOT_HELPFUL")}
+        disabled={voteReview.isPending}
+        aria-pressed={review.myVote === "NOT_HELPFUL"}
+        className="flex items-center gap-1 hover:text-foreground disabled:opacity-50 cursor-pointer"
+      >
+        {review.myVote === "NOT_HELPFUL" ? <FaThumbsDown className="w-3.5 h-3.5 text-foreground" /> : <FaRegThumbsDown className="w-3.5 h-3.5" />}
+        {review.notHelpfulCount ?? 0}
+      </button>
+      {review.reportedByMe ? (
+        <span className="ml-auto text-xs">Reported</span>
+      ) : (
+        <button
+          type="button"
+          onClick={() => !requireSignIn() && setReportOpen(true)}
+          className="ml-auto flex items-center gap-1 text-xs hover:text-foreground cursor-pointer"
+        >
+          <FaFlag className="w-3 h-3" />
+          Report
+        </button>
+      )}
+
+      <Dialog open={reportOpen} onOpenChange={(open) => !open && closeReport()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Report review</DialogTitle>
+            <DialogDescription>
+              Our team checks every report. The review stays up until it has been looked at.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReport} className="space-y-4">
+            <div className="space-y-2">
+              {(Object.keys(REVIEW_REPORT_REASON_LABELS) as ReviewReportReason[]).map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    checked={reason === option}
+                    onChange={() => setReason(option)}
+                  />
+                  {REVIEW_REPORT_REASON_LABELS[option]}
+                </label>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-details">Details (optional)</Label>
+              <Textarea
+                id="report-details"
+                rows={3}
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                className="resize-none"
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={closeReport}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={reportReview.isPending}>
+                {reportReview.isPending ? "Reporting..." : "Report"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
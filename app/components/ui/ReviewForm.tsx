@@ -2,6 +2,14 @@
 
 import { useState } from "react";
 import { FaStar } from "react-icons/fa";
+import { toast } from "react-hot-toast";
+import reviewService from "@/app/services/review.service";
+import {
+  MAX_REVIEW_MEDIA,
+  MAX_REVIEW_VIDEO_BYTES,
+  REVIEW_FIT_LABELS,
+} from "@/app/lib/reviews";
+import { PRODUCT_SIZES } from "@/app/types/product.type";
 import { Button } from "./button";
 import { Input } from "./input";
 import { Label } from "./label";
@@ -10,28 +18,43 @@ import {
   ICreateReviewData,
   IUpdateReviewData,
   IReview,
+  IReviewMedia,
+  ReviewFit,
 } from "@/app/types/review.type";
 
 interface ReviewFormProps {
   productId: string;
   review?: IReview | null;
+  // Star picked from a review request email
+  initialRating?: number;
   onSubmit: (data: ICreateReviewData | IUpdateReviewData) => void;
   onCancel: () => void;
   isLoading?: boolean;
 }
 
+const FIT_OPTIONS: ReviewFit[] = ["RUNS_SMALL", "TRUE_TO_SIZE", "RUNS_LARGE"];
+
 export default function ReviewForm({
+  productId,
   review,
+  initialRating = 0,
   onSubmit,
   onCancel,
   isLoading = false,
 }: ReviewFormProps) {
-  const [rating, setRating] = useState(review?.rating || 0);
+  const [rating, setRating] = useState(review?.rating || initialRating);
   const [hoverRating, setHoverRating] = useState(0);
   const [title, setTitle] = useState(review?.title || "");
   const [comment, setComment] = useState(review?.comment || "");
+  const [purchasedSize, setPurchasedSize] = useState(review?.purchasedSize || "");
+  const [fit, setFit] = useState<ReviewFit | null>(review?.fit || null);
+  const [existingMedia, setExistingMedia] = useState<IReviewMedia[]>(review?.media || []);
+  const [files, setFiles] = useState<File[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
 
+  const mediaCount = existingMedia.length + files.length;
+
   const isEditing = !!review;
 
   const validateForm = () => {
@@ -55,17 +78,72 @@ export default function ReviewForm({
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []).filter(
+      (f) => f.type.startsWith("image/") || f.type.startsWith("video/")
+    );
+    const tooLarge = picked.filter((f) => f.type.startsWith("video/") && f.size > MAX_REVIEW_VIDEO_BYTES);
+    if (tooLarge.length > 0) {
+      toast.error(`Videos must be under ${MAX_REVIEW_VIDEO_BYTES / (1024 * 1024)} MB`);
+    }
+    setFiles((prev) =>
+      [...prev, ...picked.filter((f) => !tooLarge.includes(f))].slice(0, MAX_REVIEW_MEDIA - existingMedia.length)
+    );
+    e.target.value = "";
+  };
+
+  const uploadMedia = async (): Promise<IReviewMedia[]> => {
+    if (files.length === 0) return [];
+
+    const { uploadUrls } = await reviewService.getMediaUploadUrls(
+      productId,
+      files.map((f) => f.type)
+    );
+    if (!uploadUrls || uploadUrls.length !== files.length) {
+      throw new Error("Could not prepare photo upload");
+    }
+
+    return Promise.all(
+      files.map(async (file, index) => {
+        const target = uploadUrls[index]!;
+        const res = await fetch(target.uploadURL, {
+          method: "PUT",
+          headers: { "Content-Type": file.type },
+          body: file,
+        });
+        if (!res.ok) {
+          throw new Error(`Failed to upload ${file.name}`);
+        }
+        return { url: target.url, type: file.type.startsWith("video/") ? "VIDEO" : "IMAGE" } as IReviewMedia;
+      })
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!validateForm()) {
       return;
     }
 
+    let uploaded: IReviewMedia[];
+    try {
+      setIsUploading(true);
+      uploaded = await uploadMedia();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Photo upload failed");
+      return;
+    } finally {
+      setIsUploading(false);
+    }
+
     const formData = {
       rating,
       comment: comment.trim(),
       ...(title.trim() && { title: title.trim() }),
+      ...(purchasedSize && { purchasedSize }),
+      ...(fit && { fit }),
+      media: [...existingMedia, ...uploaded],
     };
 
     onSubmit(formData);
@@ -153,18 +231,98 @@ export default function ReviewForm({
         )}
       </div>
 
+      {/* Fit */}
+      <div className="grid grid-cols-1 sm:grid-cols-[120px_1fr] gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="purchasedSize">Size bought</Label>
+          <select
+            id="purchasedSize"
+            value={purchasedSize}
+            onChange={(e) => setPurchasedSize(e.target.value)}
+            disabled={isLoading}
+            className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+          >
+            <option value="">—</option>
+            {PRODUCT_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label>How did it fit?</Label>
+          <div className="grid grid-cols-3 gap-2">
+            {FIT_OPTIONS.map((option) => (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={fit === option ? "default" : "outline"}
+                onClick={() => setFit(fit === option ? null : option)}
+                disabled={isLoading}
+              >
+                {REVIEW_FIT_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Photos and videos */}
+      <div className="space-y-2">
+        <Label htmlFor="review-media">
+          Photos or videos ({mediaCount}/{MAX_REVIEW_MEDIA})
+        </Label>
+        <input
+          id="review-media"
+          type="file"
+          accept="image/*,video/mp4,video/quicktime,video/webm"
+          multiple
+          onChange={handleFileChange}
+          disabled={isLoading || mediaCount >= MAX_REVIEW_MEDIA}
+          className="block w-full text-sm"
+        />
+        {mediaCount > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {existingMedia.map((media, index) => (
+              <button
+                key={media.url}
+                type="button"
+                onClick={() => setExistingMedia((prev) => prev.filter((_, i) => i !== index))}
+                className="text-xs rounded border px-2 py-1 hover:bg-muted"
+              >
+                {media.type === "VIDEO" ? "Video" : "Photo"} {index + 1} ✕
+              </button>
+            ))}
+            {files.map((file, index) => (
+              <button
+                key={`${file.name}-${index}`}
+                type="button"
+                onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                className="text-xs rounded border px-2 py-1 hover:bg-muted"
+              >
+                {file.name} ✕
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Action Buttons */}
       <div className="flex justify-end gap-3">
         <Button
           type="button"
           variant="outline"
           onClick={onCancel}
-          disabled={isLoading}
+          disabled={isLoading || isUploading}
         >
           Cancel
         </Button>
-        <Button type="submit" disabled={isLoading}>
-          {isLoading
+        <Button type="submit" disabled={isLoading || isUploading}>
+          {isUploading
+            ? "Uploading..."
+            : isLoading
             ? "Submitting..."
             : isEditing
             ? "Update Review"
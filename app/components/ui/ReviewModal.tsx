@@ -19,6 +19,7 @@ interface ReviewModalProps {
   onClose: () => void;
   productId: string;
   review?: IReview | null;
+  initialRating?: number;
   onSubmit: (data: ICreateReviewData | IUpdateReviewData) => void;
   isLoading?: boolean;
 }
@@ -28,6 +29,7 @@ export default function ReviewModal({
   onClose,
   productId,
   review,
+  initialRating,
   onSubmit,
   isLoading = false,
 }: ReviewModalProps) {
@@ -49,6 +51,7 @@ export default function ReviewModal({
         <ReviewForm
           productId={productId}
           review={review}
+          initialRating={initialRating}
           onSubmit={onSubmit}
           onCancel={onClose}
           isLoading={isLoading}
@@ -1,18 +1,34 @@
 "use client";
 
-import { FaStar } from "react-icons/fa";
+import { useState } from "react";
+import Image from "next/image";
+import { FaPlay, FaStar } from "react-icons/fa";
+import { getFitScore, REVIEW_FIT_LABELS } from "@/app/lib/reviews";
+import { IReviewMediaItem, ReviewFit } from "@/app/types/review.type";
+import { Dialog, DialogContent, DialogTitle } from "./dialog";
 
 interface ReviewSummaryProps {
   averageRating: number;
   totalReviews: number;
+  // Product page extras; the compact star row is shown on its own without them
+  fitDistribution?: Record<ReviewFit, number>;
+  media?: IReviewMediaItem[];
+  showRating?: boolean;
   className?: string;
 }
 
 export default function ReviewSummary({
   averageRating,
   totalReviews,
+  fitDistribution,
+  media = [],
+  showRating = true,
   className = "",
 }: ReviewSummaryProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const fitScore = getFitScore(fitDistribution);
+  const openItem = openIndex !== null ? media[openIndex] : undefined;
+
   const renderStars = (rating: number) => {
     return [...Array(5)].map((_, i) => (
       <FaStar
@@ -24,8 +40,8 @@ export default function ReviewSummary({
     ));
   };
 
-  return (
-    <div className={`flex items-center gap-1 ${className}`}>
+  const ratingRow = showRating && (
+    <div className="flex items-center gap-1">
       <div className="flex items-center">
         {renderStars(Math.round(averageRating))}
       </div>
@@ -34,4 +50,94 @@ export default function ReviewSummary({
       </span>
     </div>
   );
-} 
\ No newline at end of file
+
+  if (!fitScore && media.length === 0) {
+    return <div className={className}>{ratingRow}</div>;
+  }
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {ratingRow}
+
+      {/* Fit meter */}
+      {fitScore && fitDistribution && (
+        <div className="space-y-2">
+          <div className="flex items-baseline justify-between">
+            <p className="text-sm font-semibold">How it fits</p>
+            <p className="text-xs text-muted-foreground">
+              From {fitScore.total} {fitScore.total === 1 ? "review" : "reviews"}
+            </p>
+          </div>
+          <div className="relative h-2 rounded-full bg-muted">
+            <div
+              className="absolute top-1/2 h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-background bg-primary"
+              style={{ left: `${fitScore.position}%` }}
+            />
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground">
+            {(["RUNS_SMALL", "TRUE_TO_SIZE", "RUNS_LARGE"] as ReviewFit[]).map((fit) => (
+              <span key={fit}>
+                {REVIEW_FIT_LABELS[fit]} ({Math.round((fitDistribution[fit] / fitScore.total) * 100)}%)
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Customer photos */}
+      {media.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-semibold">Customer photos</p>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {media.map((item, index) => (
+              <button
+                key={item.url}
+                type="button"
+                onClick={() => setOpenIndex(index)}
+                className="relative h-20 w-20 flex-shrink-0 overflow-hidden rounded-md bg-muted cursor-pointer"
+                aria-label={`Open customer ${item.type === "VIDEO" ? "video" : "photo"} ${index + 1}`}
+              >
+                {item.type === "VIDEO" ? (
+                  <>
+                    <video src={item.url} muted playsInline preload="metadata" className="h-full w-full object-cover" />
+                    <FaPlay className="absolute inset-0 m-auto h-5 w-5 text-white drop-shadow" />
+                  </>
+                ) : (
+                  <Image src={item.url} alt={`Photo from ${item.authorName}`} fill sizes="80px" className="object-cover" />
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!openItem} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="max-w-2xl">
+          {openItem && (
+            <div className="space-y-3">
+              <DialogTitle className="text-base">{openItem.authorName}</DialogTitle>
+              <div className="relative aspect-square w-full overflow-hidden rounded-md bg-muted">
+                {openItem.type === "VIDEO" ? (
+                  <video src={openItem.url} controls autoPlay playsInline className="h-full w-full object-contain" />
+                ) : (
+                  <Image
+                    src={openItem.url}
+                    alt={`Photo from ${openItem.authorName}`}
+                    fill
+                    sizes="(max-width: 768px) 100vw, 672px"
+                    className="object-contain"
+                  />
+                )}
+              </div>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <div className="flex items-center">{renderStars(openItem.rating)}</div>
+                {openItem.purchasedSize && <span>· Bought {openItem.purchasedSize}</span>}
+                {openItem.fit && <span>· {REVIEW_FIT_LABELS[openItem.fit]}</span>}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,25 +1,30 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
 import { IoSearch } from "react-icons/io5";
-import { useSearchProducts } from "@/app/hooks/useProducts";
-import Link from "next/link";
+import { FiClock, FiTrendingUp } from "react-icons/fi";
+import { useRecentSearches, useSearchSuggestions, useTrendingSearches } from "@/app/hooks/useSearch";
 import Image from "next/image";
 import { Input } from "./input";
 import {
   Command,
-  CommandEmpty,
   CommandGroup,
   CommandItem,
   CommandList,
+  CommandSeparator,
 } from "./command";
 
 export default function Search() {
+  const router = useRouter();
   const [query, setQuery] = useState("");
   const [isOpen, setIsOpen] = useState(false);
   const [debouncedQuery, setDebouncedQuery] = useState("");
   const searchRef = useRef<HTMLDivElement>(null);
-  const { data: searchResults, isLoading } = useSearchProducts(debouncedQuery);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { data: suggestions, isLoading } = useSearchSuggestions(debouncedQuery);
+  const { data: trending = [] } = useTrendingSearches();
+  const { recent, add: addRecent, clear: clearRecent } = useRecentSearches();
 
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -35,107 +40,189 @@ export default function Search() {
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
+  // Debounce query to avoid excessive API calls
+  useEffect(() => {
+    const id = setTimeout(() => {
+      setDebouncedQuery(query.trim());
+    }, 300);
+    return () => clearTimeout(id);
+  }, [query]);
+
+  const runSearch = (value: string) => {
+    const q = value.trim();
+    if (!q) return;
+    addRecent(q);
+    setQuery(q);
+    setIsOpen(false);
+    inputRef.current?.blur();
+    router.push(`/search?q=${encodeURIComponent(q)}`);
+  };
+
+  const openProduct = (productId: string) => {
+    if (query.trim()) addRecent(query);
+    setIsOpen(false);
+    router.push(`/products/${productId}`);
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (query.trim()) {
-      setIsOpen(true);
-    }
+    runSearch(query);
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setQuery(e.target.value);
-    if (e.target.value.trim()) {
-      setIsOpen(true);
-    } else {
+  // While the palette is open cmdk turns Enter into selecting the highlighted item
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && !isOpen) {
+      runSearch(query);
+    } else if (e.key === "Escape") {
       setIsOpen(false);
+      inputRef.current?.blur();
     }
   };
 
-  // Debounce query to avoid excessive API calls
-  useEffect(() => {
-    const id = setTimeout(() => {
-      setDebouncedQuery(query.trim());
-    }, 300);
-    return () => clearTimeout(id);
-  }, [query]);
+  const hasQuery = debouncedQuery.length >= 2;
+  const products = hasQuery ? suggestions?.products ?? [] : [];
+  const completions = hasQuery
+    ? (suggestions?.completions ?? []).filter((c) => c.toLowerCase() !== debouncedQuery.toLowerCase())
+    : [];
+  const didYouMean = hasQuery ? suggestions?.didYouMean : null;
+  const showIdleGroups = !query.trim() && (recent.length > 0 || trending.length > 0);
 
   return (
     <div className="relative" ref={searchRef}>
-      <form onSubmit={handleSearch} className="relative">
-        <Input
-          type="text"
-          placeholder="Search products..."
-          value={query}
-          onChange={handleInputChange}
-          className="pl-10"
-          aria-label="Search products"
-        />
-        <IoSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-      </form>
+      <Command shouldFilter={false} loop onKeyDown={handleKeyDown} className="overflow-visible bg-transparent">
+        <form onSubmit={handleSearch} className="relative">
+          <Input
+            ref={inputRef}
+            type="text"
+            placeholder="Search products..."
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setIsOpen(true);
+            }}
+            onFocus={() => setIsOpen(true)}
+            className="pl-10"
+            aria-label="Search products"
+          />
+          <IoSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+        </form>
 
-      {/* Search Results Dropdown */}
-      {isOpen && debouncedQuery.trim() && (
-        <div className="absolute top-full left-0 right-0 mt-1 bg-popover border border-border rounded-md shadow-md z-50 max-h-96 overflow-hidden">
-          <Command className="rounded-md border-0">
-            <CommandList>
-              {isLoading ? (
-                <div className="p-4 text-center text-muted-foreground">Searching...</div>
-              ) : searchResults && searchResults.length > 0 ? (
+        {/* Search Palette */}
+        {isOpen && (query.trim() || showIdleGroups) && (
+          <div className="absolute top-full left-0 right-0 mt-1 bg-popover border border-border rounded-md shadow-md z-50 max-h-[28rem] overflow-hidden">
+            <CommandList className="max-h-[28rem]">
+              {!query.trim() ? (
+                <>
+                  {recent.length > 0 && (
+                    <CommandGroup
+                      heading={
+                        <div className="flex items-center justify-between">
+                          <span>Recent searches</span>
+                          <button
+                            type="button"
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={clearRecent}
+                            className="hover:underline cursor-pointer"
+                          >
+                            Clear
+                          </button>
+                        </div>
+                      }
+                    >
+                      {recent.map((q) => (
+                        <CommandItem key={q} value={`recent:${q}`} onSelect={() => runSearch(q)} className="cursor-pointer">
+                          <FiClock />
+                          {q}
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  )}
+                  {recent.length > 0 && trending.length > 0 && <CommandSeparator />}
+                  {trending.length > 0 && (
+                    <CommandGroup heading="Trending">
+                      {trending.slice(0, 6).map((t) => (
+                        <CommandItem key={t.query} value={`trending:${t.query}`} onSelect={() => runSearch(t.query)} className="cursor-pointer">
+                          <FiTrendingUp />
+                          {t.query}
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  )}
+                </>
+              ) : (
                 <>
                   <CommandGroup>
-                    {searchResults.map((product) => (
-                      <CommandItem key={product.id} value={product.id} asChild>
-                        <Link
-                          href={`/products/${product.id}`}
-                          onClick={() => setIsOpen(false)}
-                          className="flex items-center p-3 cursor-pointer"
-                        >
-                          <div className="w-12 h-12 relative mr-4 flex-shrink-0">
-                            <Image
-                              src={product.images?.[0]?.url || "/images/coming-soon.jpg"}
-                              alt={product.name}
-                              fill
-                              className="object-cover rounded"
-                            />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <h3 className="font-medium text-sm truncate">{product.name}</h3>
-                            <p className="text-sm text-muted-foreground">
-                              {product.discountedPrice && product.discountedPrice < product.price ? (
-                                <>
-                                  ₹{product.discountedPrice.toLocaleString()}{" "}
-                                  <span className="line-through text-xs">
-                                    ₹{product.price.toLocaleString()}
-                                  </span>
-                                </>
-                              ) : (
-                                <>₹{product.price.toLocaleString()}</>
-                              )}
-                            </p>
-                          </div>
-                        </Link>
+                    <CommandItem value={`search:${query}`} onSelect={() => runSearch(query)} className="cursor-pointer">
+                      <IoSearch />
+                      Search for &ldquo;{query.trim()}&rdquo;
+                    </CommandItem>
+                    {didYouMean && (
+                      <CommandItem value={`didyoumean:${didYouMean}`} onSelect={() => runSearch(didYouMean)} className="cursor-pointer">
+                        <IoSearch />
+                        <span>
+                          Did you mean <span className="font-semibold italic">{didYouMean}</span>?
+                        </span>
+                      </CommandItem>
+                    )}
+                    {completions.slice(0, 4).map((c) => (
+                      <CommandItem key={c} value={`completion:${c}`} onSelect={() => runSearch(c)} className="cursor-pointer">
+                        <IoSearch />
+                        {c}
                       </CommandItem>
                     ))}
                   </CommandGroup>
-                  <div className="p-3 text-center border-t border-border">
-                    <Link
-                      href={`/products?search=${encodeURIComponent(query)}`}
-                      onClick={() => setIsOpen(false)}
-                      className="text-sm text-primary hover:underline"
-                    >
-                      View all results
-                    </Link>
-                  </div>
+
+                  {isLoading && hasQuery ? (
+                    <div className="p-4 text-center text-sm text-muted-foreground">Searching...</div>
+                  ) : products.length > 0 ? (
+                    <>
+                      <CommandSeparator />
+                      <CommandGroup heading="Products">
+                        {products.map((product) => (
+                          <CommandItem
+                            key={product.id}
+                            value={`product:${product.id}`}
+                            onSelect={() => openProduct(product.id)}
+                            className="flex items-center p-3 cursor-pointer"
+                          >
+                            <div className="w-12 h-12 relative mr-4 flex-shrink-0">
+                              <Image
+                                src={product.images?.[0]?.url || "/images/coming-soon.jpg"}
+                                alt={product.name}
+                                fill
+                                className="object-cover rounded"
+                              />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <h3 className="font-medium text-sm truncate">{product.name}</h3>
+                              <p className="text-sm text-muted-foreground">
+                                {product.discountedPrice && product.discountedPrice < product.price ? (
+                                  <>
+                                    ₹{product.discountedPrice.toLocaleString()}{" "}
+                                    <span className="line-through text-xs">
+                                      ₹{product.price.toLocaleString()}
+                                    </span>
+                                  </>
+                                ) : (
+                                  <>₹{product.price.toLocaleString()}</>
+                                )}
+                              </p>
+                            </div>
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    </>
+                  ) : hasQuery && suggestions ? (
+                    <div className="py-4 text-center text-sm text-muted-foreground">
+                      No products found for &ldquo;{debouncedQuery}&rdquo;
+                    </div>
+                  ) : null}
                 </>
-              ) : (
-                <CommandEmpty>
-                  No products found for &ldquo;{query}&rdquo;
-                </CommandEmpty>
               )}
             </CommandList>
-          </Command>
-        </div>
-      )}
+          </div>
+        )}
+      </Command>
     </div>
   );
 }
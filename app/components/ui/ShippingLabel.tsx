@@ -0,0 +1,74 @@
+import { formatCurrency, formatDate } from "@/app/lib/formatters";
+import { IShipment, IShipmentAddress } from "@/app/types/shipment.type";
+
+interface ShippingLabelProps {
+  shipment: IShipment;
+}
+
+function Address({ title, address }: { title: string; address: IShipmentAddress }) {
+  return (
+    <div>
+      <h3 className="font-bold uppercase tracking-wider text-[10px] mb-1">{title}</h3>
+      <p className="font-semibold">{address.name}</p>
+      <p>{address.address}</p>
+      <p>
+        {address.city}, {address.state}
+      </p>
+      <p className="font-bold text-sm">{address.pincode}</p>
+      <p>Phone: {address.phone}</p>
+    </div>
+  );
+}
+
+// Sized for a 4x6 inch thermal label
+export default function ShippingLabel({ shipment }: ShippingLabelProps) {
+  const isCod = shipment.codAmount > 0;
+  const { package: pkg } = shipment;
+
+  return (
+    <article className="bg-white text-black text-xs leading-snug w-[4in] min-h-[6in] border-2 border-black mx-auto break-after-page">
+      <header className="flex justify-between items-center px-3 py-2 border-b-2 border-black">
+        <span className="font-bold text-sm uppercase">{shipment.courier}</span>
+        <span className={`px-2 py-0.5 font-bold text-sm ${isCod ? "bg-black text-white" : "border-2 border-black"}`}>
+          {isCod ? `COD ${formatCurrency(shipment.codAmount)}` : "PREPAID"}
+        </span>
+      </header>
+
+      <section className="px-3 py-3 border-b-2 border-black text-center">
+        <p className="text-[10px] uppercase tracking-widest">AWB</p>
+        <p className="font-mono font-bold text-2xl tracking-[0.2em]">{shipment.trackingNumber}</p>
+        {shipment.routingCode && <p className="font-mono font-bold text-lg">{shipment.routingCode}</p>}
+      </section>
+
+      <section className="px-3 py-3 border-b-2 border-black">
+        <Address title="Ship To" address={shipment.shipTo} />
+      </section>
+
+      <section className="grid grid-cols-2 gap-2 px-3 py-2 border-b-2 border-black">
+        <div>
+          <p>
+            <span className="font-semibold">Order:</span> {shipment.orderNumber}
+          </p>
+          <p>
+            <span className="font-semibold">Items:</span> {shipment.itemCount}
+          </p>
+          <p>
+            <span className="font-semibold">Date:</span> {formatDate(shipment.createdAt)}
+          </p>
+        </div>
+        <div className="text-right">
+          <p>
+            <span className="font-semibold">Weight:</span> {(pkg.weightGrams / 1000).toFixed(2)} kg
+          </p>
+          <p>
+            <span className="font-semibold">Dims:</span> {pkg.lengthCm}×{pkg.widthCm}×{pkg.heightCm} cm
+          </p>
+        </div>
+      </section>
+
+      <section className="px-3 py-2">
+        <Address title="Return To" address={shipment.returnTo} />
+      </section>
+    </article>
+  );
+}
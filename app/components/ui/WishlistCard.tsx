@@ -12,10 +12,12 @@ const PLACEHOLDER_IMAGE =
 
 export default function WishlistCard({
   item,
+  priceWhenAdded,
   removeFromWishlist,
   moveToCart,
 }: {
   item: IProduct;
+  priceWhenAdded?: number | null;
   removeFromWishlist: (id: string) => void;
   moveToCart: (id: string, variantId?: string) => void;
 }) {
@@ -46,6 +48,10 @@ export default function WishlistCard({
     displayImage = item.image;
   }
 
+  const currentPrice =
+    item.discountedPrice && item.discountedPrice < item.price ? item.discountedPrice : item.price;
+  const priceDrop = priceWhenAdded ? priceWhenAdded - currentPrice : 0;
+
   const sizeOptions = (productData.sizes && productData.sizes.length > 0)
     ? productData.sizes
     : Array.from(
@@ -81,6 +87,11 @@ export default function WishlistCard({
             <>Rs. {item.price.toLocaleString()}.00</>
           )}
         </p>
+        {priceDrop > 0 && (
+          <p className="text-sm text-green-700 mt-1">
+            Price dropped by Rs. {priceDrop.toLocaleString()} since you saved it
+          </p>
+        )}
 
         {sizeOptions.length > 0 && (
           <div className="mt-3">
@@ -1,120 +1,200 @@
-import { useState } from "react";
+import { formatCurrency } from "@/app/lib/formatters";
+import { countActiveFilters } from "@/app/lib/productFilters";
+import { IFacetValue, IPriceBucket, IProductFacets, IProductSearchParams } from "@/app/types/product.type";
 
-const CATEGORIES = ["Men", "Women", "Unisex"];
-const SIZES = ["S", "M", "L", "XL", "XXL"];
-const GENDERS = ["Men", "Women", "Unisex"];
+type ListFilterKey = "sizes" | "colors" | "fits" | "genders";
 
+interface SidebarProps {
+  facets?: IProductFacets;
+  filters: IProductSearchParams;
+  onChange: (patch: Partial<IProductSearchParams>) => void;
+  onClear: () => void;
+}
+
+const priceBucketLabel = (bucket: IPriceBucket) =>
+  bucket.max === null
+    ? `${formatCurrency(bucket.min)} & above`
+    : `${formatCurrency(bucket.min)} – ${formatCurrency(bucket.max)}`;
+
+// Hide values nothing matches any more, unless they're part of the selection
+const visibleValues = (values: IFacetValue[], selected: string[] = []) =>
+  values.filter((v) => v.count > 0 || selected.includes(v.value));
 
-export default function Sidebar() {
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
-  const [priceRange, setPriceRange] = useState<[number, number]>([399, 999]);
-  const [selectedGenders, setSelectedGenders] = useState<string[]>([]);
-  const [selectedSizes, setSelectedSizes] = useState<string[]>([]);
+function FacetCheckboxes({
+  title,
+  values,
+  selected = [],
+  onToggle,
+}: {
+  title: string;
+  values: IFacetValue[];
+  selected?: string[];
+  onToggle: (value: string, checked: boolean) => void;
+}) {
+  const options = visibleValues(values, selected);
+  if (options.length === 0) return null;
 
   return (
-<div className="w-64 flex-shrink-0 px-4">
-  {/* Categories */}
-  <div className="mb-8">
-    <h2 className="text-xl font-semibold mb-4">Categories</h2>
-    <div className="space-y-2">
-      {CATEGORIES.map((category) => (
-        <label key={category} className="flex items-center gap-2">
-          <input
-            type="checkbox"
-            checked={selectedCategories.includes(category)}
-            onChange={(e) => {
-              if (e.target.checked) {
-                setSelectedCategories([...selectedCategories, category]);
-              } else {
-                setSelectedCategories(
-                  selectedCategories.filter((c) => c !== category)
-                );
-              }
-            }}
-            className="border-gray-300 text-black"
-          />
-          {category}
-        </label>
-      ))}
-    </div>
-  </div>
-
-  {/* Price Range */}
-  <div className="mb-8">
-    <h2 className="text-xl font-semibold mb-4">Pricing</h2>
-    <div className="px-2">
-      <input
-        type="range"
-        min="399"
-        max="999"
-        value={priceRange[1]}
-        onChange={(e) =>
-          setPriceRange([priceRange[0], parseInt(e.target.value)])
-        }
-        className="w-full accent-black"
-      />
-      <div className="flex justify-between mt-2">
-        <span>₹{priceRange[0]}</span>
-        <span>₹{priceRange[1]}</span>
+    <div className="mb-8">
+      <h2 className="text-xl font-semibold mb-4">{title}</h2>
+      <div className="space-y-2">
+        {options.map((option) => (
+          <label key={option.value} className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.includes(option.value)}
+              onChange={(e) => onToggle(option.value, e.target.checked)}
+              className="border-gray-300 text-black"
+            />
+            <span className="flex-1">{option.label}</span>
+            <span className="text-xs text-muted-foreground">{option.count}</span>
+          </label>
+        ))}
       </div>
     </div>
-  </div>
-
-  {/* Gender */}
-  <div className="mb-8">
-    <h2 className="text-xl font-semibold mb-4">Gender</h2>
-    <div className="space-y-2">
-      {GENDERS.map((gender) => (
-        <label key={gender} className="flex items-center gap-2">
-          <input
-            type="checkbox"
-            checked={selectedGenders.includes(gender)}
-            onChange={(e) => {
-              if (e.target.checked) {
-                setSelectedGenders([...selectedGenders, gender]);
-              } else {
-                setSelectedGenders(selectedGenders.filter((g) => g !== gender));
-              }
-            }}
-            className="border-gray-300 text-black"
-          />
-          {gender}
-        </label>
-      ))}
-    </div>
-  </div>
-
-  {/* Size */}
-  <div className="mb-8">
-    <h2 className="text-xl font-semibold mb-4">Size</h2>
-    <div className="grid grid-cols-4 gap-2">
-      {SIZES.map((size) => (
-        <label
-          key={size}
-          className={`flex items-center justify-center p-2 border cursor-pointer
-          ${
-            selectedSizes.includes(size)
-              ? "border-primary bg-primary text-primary-foreground"
-              : "border-border"
-          }`}
-        >
-          <input
-            type="checkbox"
-            checked={selectedSizes.includes(size)}
-            onChange={(e) => {
-              if (e.target.checked) {
-                setSelectedSizes([...selectedSizes, size]);
-              } else {
-                setSelectedSizes(selectedSizes.filter((s) => s !== size));
-              }
-            }}
-            className="sr-only"
-          />
-          {size}
-        </label>
+  );
+}
+
+export default function Sidebar({ facets, filters, onChange, onClear }: SidebarProps) {
+  const activeCount = countActiveFilters(filters);
+
+  const toggleValue = (key: ListFilterKey, value: string, checked: boolean) => {
+    const current = (filters[key] as string[] | undefined) ?? [];
+    const next = checked ? [...current, value] : current.filter((v) => v !== value);
+    onChange({ [key]: next.length > 0 ? next : undefined });
+  };
+
+  if (!facets) {
+    return (
+      <div className="w-64 flex-shrink-0 px-4 space-y-6">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="animate-pulse space-y-2">
+            <div className="h-5 bg-gray-200 w-1/2"></div>
+            <div className="h-4 bg-gray-200"></div>
+            <div className="h-4 bg-gray-200"></div>
+          </div>
         ))}
       </div>
+    );
+  }
+
+  const categories = visibleValues(facets.categories, filters.category ? [filters.category] : []);
+  const sizes = visibleValues(facets.sizes, filters.sizes);
+
+  return (
+    <div className="w-64 flex-shrink-0 px-4">
+      {activeCount > 0 && (
+        <button onClick={onClear} className="mb-6 text-sm font-medium underline cursor-pointer">
+          Clear all filters ({activeCount})
+        </button>
+      )}
+
+      {/* Categories */}
+      {categories.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Categories</h2>
+          <div className="space-y-2">
+            {categories.map((category) => (
+              <label key={category.value} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="category"
+                  checked={filters.category === category.value}
+                  onChange={() => onChange({ category: category.value })}
+                  className="border-gray-300 text-black"
+                />
+                <span className="flex-1">{category.label}</span>
+                <span className="text-xs text-muted-foreground">{category.count}</span>
+              </label>
+            ))}
+            {filters.category && (
+              <button onClick={() => onChange({ category: undefined })} className="text-sm underline cursor-pointer">
+                All categories
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Price */}
+      {facets.priceBuckets.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Pricing</h2>
+          <div className="space-y-2">
+            {facets.priceBuckets.map((bucket) => {
+              const checked = filters.minPrice === bucket.min && (filters.maxPrice ?? null) === bucket.max;
+              return (
+                <label key={bucket.min} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    disabled={bucket.count === 0 && !checked}
+                    onChange={(e) =>
+                      onChange(
+                        e.target.checked
+                          ? { minPrice: bucket.min, maxPrice: bucket.max ?? undefined }
+                          : { minPrice: undefined, maxPrice: undefined }
+                      )
+                    }
+                    className="border-gray-300 text-black"
+                  />
+                  <span className="flex-1">{priceBucketLabel(bucket)}</span>
+                  <span className="text-xs text-muted-foreground">{bucket.count}</span>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <FacetCheckboxes
+        title="Gender"
+        values={facets.genders}
+        selected={filters.genders}
+        onToggle={(value, checked) => toggleValue("genders", value, checked)}
+      />
+
+      {/* Size */}
+      {sizes.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Size</h2>
+          <div className="grid grid-cols-4 gap-2">
+            {sizes.map((size) => {
+              const checked = (filters.sizes as string[] | undefined)?.includes(size.value) ?? false;
+              return (
+                <label
+                  key={size.value}
+                  title={`${size.count} products`}
+                  className={`flex items-center justify-center p-2 border cursor-pointer
+                  ${checked ? "border-primary bg-primary text-primary-foreground" : "border-border"}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={(e) => toggleValue("sizes", size.value, e.target.checked)}
+                    className="sr-only"
+                  />
+                  {size.label}
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <FacetCheckboxes
+        title="Fit"
+        values={facets.fits}
+        selected={filters.fits}
+        onToggle={(value, checked) => toggleValue("fits", value, checked)}
+      />
+
+      <FacetCheckboxes
+        title="Color"
+        values={facets.colors}
+        selected={filters.colors}
+        onToggle={(value, checked) => toggleValue("colors", value, checked)}
+      />
     </div>
-  </div>
-);
+  );
 }
@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from "@/app/hooks/useProfile";
+import { useCancelStockAlert, useStockAlerts } from "@/app/hooks/useWishlist";
+import { INotificationPreferences } from "@/app/types/profile.type";
+import { formatDate } from "@/app/lib/formatters";
+import { Button } from "../button";
+import { Checkbox } from "../checkbox";
+import { Label } from "../label";
+import { Card, CardContent, CardHeader, CardTitle } from "../card";
+import { Alert, AlertDescription } from "../alert";
+
+const PRICE_DROP_THRESHOLDS = [5, 10, 20, 30];
+
+const DEFAULT_PREFERENCES: INotificationPreferences = {
+  backInStock: true,
+  priceDrop: true,
+  priceDropMinPercent: 10,
+  email: true,
+  sms: false,
+};
+
+export const NotificationsSection = () => {
+  const { data: preferences, isLoading, error } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+  const { data: stockAlertsResponse } = useStockAlerts();
+  const cancelStockAlert = useCancelStockAlert();
+  const [formData, setFormData] = useState<INotificationPreferences>(DEFAULT_PREFERENCES);
+
+  useEffect(() => {
+    if (preferences) {
+      setFormData(preferences);
+    }
+  }, [preferences]);
+
+  const waitingAlerts = (stockAlertsResponse?.data || []).filter((alert) => alert.status === "WAITING");
+  const isDirty = !!preferences && JSON.stringify(preferences) !== JSON.stringify(formData);
+
+  const setField = <K extends keyof INotificationPreferences>(key: K, value: INotificationPreferences[K]) => {
+    setFormData((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updatePreferences.mutate(formData);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading preferences...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 lg:pt-1">
+        <h1 className="text-2xl font-normal mb-8">Notifications</h1>
+        <Alert variant="destructive">
+          <AlertDescription>
+            Error loading notification preferences. Please try again later.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 lg:pt-1">
+      <h1 className="text-2xl font-normal mb-8">Notifications</h1>
+
+      <div className="space-y-8">
+        <form onSubmit={handleSubmit} className="space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Product Alerts</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  id="backInStock"
+                  checked={formData.backInStock}
+                  onCheckedChange={(checked) => setField("backInStock", checked === true)}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="backInStock">Back in stock</Label>
+                  <p className="text-sm text-muted-foreground">
+                    When a size you asked about on a product page is available again
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-start gap-3">
+                <Checkbox
+                  id="priceDrop"
+                  checked={formData.priceDrop}
+                  onCheckedChange={(checked) => setField("priceDrop", checked === true)}
+                />
+                <div className="space-y-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="priceDrop">Price drops on my wishlist</Label>
+                    <p className="text-sm text-muted-foreground">
+                      When something you saved gets cheaper than it was when you saved it
+                    </p>
+                  </div>
+                  {formData.priceDrop && (
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="priceDropMinPercent" className="text-sm font-normal">
+                        Only for drops of at least
+                      </Label>
+                      <select
+                        id="priceDropMinPercent"
+                        value={formData.priceDropMinPercent}
+                        onChange={(e) => setField("priceDropMinPercent", Number(e.target.value))}
+                        className="border border-border rounded-md px-2 py-1 text-sm bg-background"
+                      >
+                        {PRICE_DROP_THRESHOLDS.map((percent) => (
+                          <option key={percent} value={percent}>
+                            {percent}%
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Send Alerts By</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  id="email"
+                  checked={formData.email}
+                  onCheckedChange={(checked) => setField("email", checked === true)}
+                />
+                <Label htmlFor="email">Email</Label>
+              </div>
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  id="sms"
+                  checked={formData.sms}
+                  onCheckedChange={(checked) => setField("sms", checked === true)}
+                />
+                <Label htmlFor="sms">SMS</Label>
+              </div>
+              {!formData.email && !formData.sms && (formData.backInStock || formData.priceDrop) && (
+                <p className="text-sm text-destructive">
+                  Choose at least one channel, or you won&apos;t receive any alerts.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Button type="submit" disabled={!isDirty || updatePreferences.isPending}>
+            {updatePreferences.isPending ? "Saving..." : "Save Preferences"}
+          </Button>
+        </form>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Waiting for Restock</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {waitingAlerts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                You haven&apos;t asked to be notified about any sold-out sizes.
+              </p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {waitingAlerts.map((alert) => (
+                  <li key={alert.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <Link href={`/products/${alert.productId}`} className="font-medium hover:underline truncate block">
+                        {alert.product.name}
+                      </Link>
+                      <p className="text-sm text-muted-foreground">
+                        {alert.variant
+                          ? `Size ${alert.variant.size}${alert.variant.fit === "OVERSIZED" ? " · Oversized" : ""}`
+                          : "Any size"}
+                        {" · "}Requested {formatDate(alert.createdAt)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => cancelStockAlert.mutate(alert.id)}
+                      disabled={cancelStockAlert.isPending}
+                    >
+                      Cancel
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
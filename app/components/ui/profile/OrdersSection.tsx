@@ -1,15 +1,17 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { IOrder } from "@/app/types/order.type";
 import orderService from "@/app/services/order.service";
+import { getReturnWindow } from "@/app/lib/returns";
 import { Button } from "@/app/components/ui/button";
 import { Card, CardContent } from "@/app/components/ui/card";
 import { Badge } from "@/app/components/ui/badge";
 import { Separator } from "@/app/components/ui/separator";
 import { Alert, AlertDescription } from "@/app/components/ui/alert";
+import PendingPaymentNotice from "@/app/components/ui/PendingPaymentNotice";
 import { FiPackage, FiShoppingBag } from "react-icons/fi";
 
 export const OrdersSection = () => {
@@ -17,26 +19,26 @@ export const OrdersSection = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
 
-  useEffect(() => {
-    const fetchOrders = async () => {
-      try {
-        setLoading(true);
-        const response = await orderService.getUserOrders();
-        if (response.data && response.data.data) {
-          setOrders(response.data.data);
-        } else {
-          setOrders([]);
-        }
-      } catch (err) {
-        console.error("Error fetching orders:", err);
-        setError("Failed to fetch your orders. Please try again later.");
-      } finally {
-        setLoading(false);
+  const fetchOrders = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await orderService.getUserOrders();
+      if (response.data && response.data.data) {
+        setOrders(response.data.data);
+      } else {
+        setOrders([]);
       }
-    };
+    } catch (err) {
+      console.error("Error fetching orders:", err);
+      setError("Failed to fetch your orders. Please try again later.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
+  useEffect(() => {
     fetchOrders();
-  }, []);
+  }, [fetchOrders]);
 
   const getStatusConfig = (status: string) => {
     switch (status) {
@@ -88,6 +90,7 @@ export const OrdersSection = () => {
   if (orders.length === 0) {
     return (
       <div className="pt-30">
+        <PendingPaymentNotice onResolved={fetchOrders} />
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-16">
             <div className="rounded-full bg-muted p-6 mb-4">
@@ -117,11 +120,14 @@ export const OrdersSection = () => {
         </div>
       </div>
 
+      <PendingPaymentNotice onResolved={fetchOrders} />
+
       <div className="space-y-4">
         {orders.map((order: IOrder) => {
           const statusConfig = getStatusConfig(order.status);
           const firstThreeItems = order.items?.slice(0, 3) || [];
           const remainingCount = (order.items?.length || 0) - 3;
+          const returnWindow = getReturnWindow(order);
 
           return (
             // <Card key={order.id} className="overflow-hidden hover:shadow-lg transition-shadow duration-300">
@@ -321,6 +327,14 @@ export const OrdersSection = () => {
         ) : (
           <div></div> // keeps symmetry when button is missing
         )}
+
+        {returnWindow.isEligible && (
+          <Link href={`/orders/${order.id}?action=return`} className="col-span-2">
+            <Button variant="outline" className="w-full" size="sm">
+              Return / Exchange ({returnWindow.daysLeft} {returnWindow.daysLeft === 1 ? "day" : "days"} left)
+            </Button>
+          </Link>
+        )}
       </div>
 
     </div>
@@ -2,6 +2,7 @@
 
 import { useWishlist, useDeleteWishlistItems } from "@/app/hooks/useWishlist";
 import { toast } from "react-hot-toast";
+import Link from "next/link";
 import WishlistCard from "../WishlistCard";
 import { useAddToCart } from "@/app/hooks/useCart";
 import productsService from "@/app/services/products.service";
@@ -97,7 +98,12 @@ export const WishlistSection = () => {
 
   return (
     <div className="p-4 lg:pt-1">
-      <h1 className="text-2xl font-normal mb-8">My Wishlist</h1>
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-2xl font-normal">My Wishlist</h1>
+        <Link href="/profile/notifications" className="text-sm underline text-muted-foreground hover:text-foreground">
+          Price-drop alerts
+        </Link>
+      </div>
       {wishlistItems.length === 0 ? (
         <Card>
           <CardContent className="text-center py-12">
@@ -110,6 +116,7 @@ export const WishlistSection = () => {
             <WishlistCard
               key={item.product.id}
               item={item.product}
+              priceWhenAdded={item.priceWhenAdded}
               removeFromWishlist={handleRemoveFromWishlist}
               moveToCart={handleMoveToCart}
             />
@@ -0,0 +1,55 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import promotionService from '../services/promotion.service';
+import { AxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import { ICreatePromotionData, IPromotionFilters, IUpdatePromotionData } from '../types/promotion.type';
+import { getErrorMessage } from '../lib/utils';
+
+export function useAdminPromotions(filters?: IPromotionFilters) {
+  return useQuery({
+    queryKey: ['admin-promotions', filters],
+    queryFn: () => promotionService.getPromotions(filters),
+    staleTime: 2 * 60 * 1000,
+  });
+}
+
+// Any change can alter what open carts are quoted, so price quotes are refetched too
+export function useCreatePromotion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: ICreatePromotionData) => promotionService.createPromotion(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-promotions'] });
+      queryClient.invalidateQueries({ queryKey: ['price-quote'] });
+      toast.success('Promotion created');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useUpdatePromotion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: IUpdatePromotionData }) =>
+      promotionService.updatePromotion(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-promotions'] });
+      queryClient.invalidateQueries({ queryKey: ['price-quote'] });
+      toast.success('Promotion updated');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useDeletePromotion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => promotionService.deletePromotion(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-promotions'] });
+      queryClient.invalidateQueries({ queryKey: ['price-quote'] });
+      toast.success('Promotion deleted');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
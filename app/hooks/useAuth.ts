@@ -5,12 +5,33 @@ import { toast } from 'react-hot-toast';
 import { AxiosError } from 'axios';
 import { IAuthResponse } from '../types/auth.type';
 import { getErrorMessage } from '../lib/utils';
+import { useAppDispatch } from '../store/hooks';
+import { mergeGuestCart, resetCart } from '../store/slices/cartSlice';
 
 type IUser = IAuthResponse['user'] | null;
 
 export const useAuth = () => {
     const queryClient = useQueryClient();
     const router = useRouter();
+    const dispatch = useAppDispatch();
+
+    // Fold anything added to the cart while signed out into the server cart
+    const mergeCartAfterSignIn = () => {
+        dispatch(mergeGuestCart())
+            .unwrap()
+            .then(({ adjustments }) => {
+                adjustments.forEach((adjustment) => {
+                    toast.error(
+                        adjustment.availableQuantity > 0
+                            ? `Only ${adjustment.availableQuantity} of ${adjustment.productName} available. Your cart was updated.`
+                            : `${adjustment.productName} is out of stock and was removed from your cart.`
+                    );
+                });
+            })
+            .catch(() => {
+                toast.error("We couldn't add your guest cart items yet. They're saved and we'll try again shortly.");
+            });
+    };
 
     const cachedUser = queryClient.getQueryData<IUser>(['user']);
     const { data: user, isLoading: isLoadingUser } = useQuery<IUser>({
@@ -38,6 +59,7 @@ export const useAuth = () => {
         mutationFn: authService.login,
         onSuccess: (data) => {
             queryClient.setQueryData(['user'], data.user);
+            mergeCartAfterSignIn();
             toast.success('Login successful!');
             // Avoid overriding admin-specific redirects; only push if not on admin login pages
             if (typeof window !== 'undefined' && !window.location.pathname.startsWith('/admin')) {
@@ -65,6 +87,7 @@ export const useAuth = () => {
         mutationFn: authService.register,
         onSuccess: (data) => {
             queryClient.setQueryData(['user'], data.user);
+            mergeCartAfterSignIn();
             toast.success('Registration successful!');
             // Check sessionStorage first, then URL query param for redirect
             if (typeof window !== 'undefined') {
@@ -93,6 +116,7 @@ export const useAuth = () => {
         mutationFn: authService.logout,
         onSuccess: () => {
             queryClient.clear();
+            dispatch(resetCart());
             toast.success('Logged out successfully');
             router.push('/login');
         },
@@ -115,6 +139,7 @@ export const useAuth = () => {
         mutationFn: authService.googleAuth,
         onSuccess: (data) => {
             queryClient.setQueryData(['user'], data.user);
+            mergeCartAfterSignIn();
             toast.success('Google authentication successful!');
             // Check sessionStorage first, then URL query param for redirect
             if (typeof window !== 'undefined') {
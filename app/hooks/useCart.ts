@@ -12,16 +12,20 @@ import {
 } from '../store/slices/cartSlice';
 import { IAddToCartRequest, IUpdateCartItemRequest } from '../types/cart.type';
 import { toast } from 'react-hot-toast';
+import { useAuth } from './useAuth';
 
 // Hook to get cart state
 export const useCart = () => {
     const dispatch = useAppDispatch();
     const cart = useAppSelector((state) => state.cart);
+    const { isAuthenticated, isLoading: authLoading } = useAuth();
 
-    // Fetch cart on mount
+    // Fetch cart once the session is known so guests stay on the local cart
     useEffect(() => {
-        dispatch(fetchCart());
-    }, [dispatch]);
+        if (!authLoading) {
+            dispatch(fetchCart());
+        }
+    }, [dispatch, authLoading, isAuthenticated]);
 
     return cart;
 };
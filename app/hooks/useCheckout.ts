@@ -2,9 +2,9 @@ import { useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { IAddress } from "@/app/types/profile.type";
 import { ICoupon } from "@/app/types/coupon.type";
-import { ICheckoutFormData } from "@/app/types/checkout.type";
+import { ICheckoutFormData, PaymentMethod } from "@/app/types/checkout.type";
 import cartService from "@/app/services/cart.service";
-import productsService from "@/app/services/products.service";
+import pricingService from "@/app/services/pricing.service";
 import { ProfileService } from "@/app/services/profile.service";
 import couponService from "@/app/services/coupon.service";
 import orderService from "@/app/services/order.service";
@@ -12,24 +12,68 @@ import { IOrder } from "@/app/types/order.type";
 import { toast } from "react-hot-toast";
 import { AxiosError } from "axios";
 import { getErrorMessage } from "@/app/lib/utils";
+import { isValidEmail, isValidPhone, isValidPincode } from "@/app/lib/validation";
+import { COD_INELIGIBLE_MESSAGES } from "@/app/lib/cod";
+import { IGuestCheckoutDetails } from "@/app/services/payment.service";
 import { useRazorpayPayment } from "./useRazorpayPayment";
+import { useAuth } from "./useAuth";
+import { usePriceQuote, toPriceQuoteRequest } from "./usePricing";
+import { useCodEligibility } from "./useCod";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
 import {
   clearCart as clearCartThunk,
   fetchCart as fetchCartThunk,
 } from "../store/slices/cartSlice";
 
+// Guests have no saved addresses, so every contact and delivery field is required
+const getGuestCheckoutDetails = (
+  formData?: ICheckoutFormData
+): IGuestCheckoutDetails => {
+  if (!formData) {
+    throw new Error("Please fill in your contact and delivery details");
+  }
+  const { email, ...shippingAddress } = formData;
+  if (!isValidEmail(email.trim())) {
+    throw new Error("Please enter a valid email address");
+  }
+  if (!isValidPhone(formData.phone)) {
+    throw new Error("Please enter a valid 10-digit phone number");
+  }
+  if (
+    !formData.firstName.trim() ||
+    !formData.lastName.trim() ||
+    !formData.address.trim() ||
+    !formData.city.trim() ||
+    !formData.state.trim()
+  ) {
+    throw new Error("Please complete your delivery address");
+  }
+  if (!isValidPincode(formData.pincode)) {
+    throw new Error("Please enter a valid 6-digit pincode");
+  }
+  return {
+    email: email.trim(),
+    phone: formData.phone.trim(),
+    shippingAddress,
+  };
+};
+
 export const useCheckout = () => {
   const queryClient = useQueryClient();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const isGuest = !authLoading && !isAuthenticated;
   const {
     processRazorpayPaymentFromCart,
     paymentStatus,
+    reservation,
     resetPaymentStatus,
   } = useRazorpayPayment();
   const dispatch = useAppDispatch();
 
   const [selectedAddressId, setSelectedAddressId] = useState<string>("");
   const [couponCode, setCouponCode] = useState("");
+  const [guestPincode, setGuestPincode] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("razorpay");
 
   // Use Redux cart state instead of duplicate React Query
   // This prevents double API calls and state sync issues
@@ -48,6 +92,7 @@ export const useCheckout = () => {
       const response = await ProfileService.getAddresses();
       return response.data.addresses;
     },
+    enabled: isAuthenticated,
   });
   const addresses: IAddress[] = useMemo(
     () => addressesData || [],
@@ -108,9 +153,11 @@ export const useCheckout = () => {
     mutationFn: async ({
       paymentMethod,
       formData,
+      codVerificationToken,
     }: {
       paymentMethod: string;
       formData?: ICheckoutFormData;
+      codVerificationToken?: string;
     }) => {
       if (!selectedAddressId && !formData?.firstName) {
         throw new Error(
@@ -167,6 +214,7 @@ export const useCheckout = () => {
           return orderItem;
         }),
         couponCode: appliedCoupon?.code,
+        ...(codVerificationToken && { codVerificationToken }),
         ...(paymentMethod.toUpperCase() === 'COD' ? {
           status: 'CONFIRMED' as const,
           paymentStatus: 'PENDING' as const
@@ -202,9 +250,36 @@ export const useCheckout = () => {
     },
   });
 
+  // Checks a COD order has to pass before the phone is confirmed and the order placed
+  const validateCodOrder = (formData?: ICheckoutFormData) => {
+    if (isGuest) {
+      throw new Error(
+        "Cash on Delivery is only available for signed-in customers."
+      );
+    }
+    if (!selectedAddressId && !formData?.firstName) {
+      throw new Error(
+        "Please select a shipping address or fill in address details"
+      );
+    }
+    if (cartItems.length === 0) {
+      throw new Error("Your cart is empty");
+    }
+
+    // The backend enforces the same rules; checking here saves a round trip
+    if (!codEligibility?.eligible) {
+      throw new Error(
+        codEligibility?.message ||
+          (codEligibility?.reason && COD_INELIGIBLE_MESSAGES[codEligibility.reason]) ||
+          "Cash on Delivery is not available for this order."
+      );
+    }
+  };
+
   const createOrder = async (
     paymentMethod: string,
-    formData?: ICheckoutFormData
+    formData?: ICheckoutFormData,
+    options?: { codVerificationToken?: string }
   ) => {
     orderMutation.reset();
     resetPaymentStatus();
@@ -213,7 +288,10 @@ export const useCheckout = () => {
       const normalizedMethod = paymentMethod.toLowerCase();
 
       if (normalizedMethod === "razorpay") {
-        if (!selectedAddressId && !formData?.firstName) {
+        const guestDetails = isGuest
+          ? getGuestCheckoutDetails(formData)
+          : undefined;
+        if (!guestDetails && !selectedAddressId && !formData?.firstName) {
           throw new Error(
             "Please select a shipping address or fill in address details"
           );
@@ -222,8 +300,8 @@ export const useCheckout = () => {
           throw new Error("Your cart is empty");
         }
 
-        const userEmail = formData?.email || "";
-        let userPhone = formData?.phone || "";
+        const userEmail = guestDetails?.email || formData?.email || "";
+        let userPhone = guestDetails?.phone || formData?.phone || "";
 
         if (!userPhone && selectedAddressId) {
           const selectedAddr = addresses.find(
@@ -234,88 +312,51 @@ export const useCheckout = () => {
           }
         }
 
+        // Guest carts only exist locally, so there is nothing to refetch
         let currentCartItems = cartItems;
-        try {
-          const response = await cartService.getCart();
-          if (response.data && response.data.items) {
-            currentCartItems = response.data.items;
+        if (!guestDetails) {
+          try {
+            const response = await cartService.getCart();
+            if (response.data && response.data.items) {
+              currentCartItems = response.data.items;
+            }
+          } catch {
+            // Silently fall back to current cart data
+            currentCartItems = cartItems;
           }
-        } catch {
-          // Silently fall back to current cart data
-          currentCartItems = cartItems;
         }
 
         await queryClient.invalidateQueries({ queryKey: ["cart"] });
 
-        // SECURITY NOTE: Price fetching on the frontend is a security risk
-        // The backend MUST validate prices during payment creation to prevent manipulation
-        // This frontend price fetch is for display purposes only
-        // TODO: Backend should be the single source of truth for prices during checkout
-        const cartItemsWithCurrentPrices = await Promise.all(
-          currentCartItems.map(async (item, index) => {
-            let currentPrice = item.price; // fallback to cart price
-
-            try {
-              const product = await productsService.getProductById(
-                item.productId
-              );
-
-              if (item.variantId && product.variants) {
-                const variant = product.variants.find((v) => v.id === item.variantId);
-
-                if (variant && typeof variant.price === "number") {
-                  currentPrice = variant.price;
-                } else if (typeof product.price === "number") {
-                  currentPrice = product.price;
-                } else if (typeof product.discountedPrice === "number") {
-                  currentPrice = product.discountedPrice;
-                }
-              } else {
-                if (typeof product.discountedPrice === "number") {
-                  currentPrice = product.discountedPrice;
-                } else if (typeof product.price === "number") {
-                  currentPrice = product.price;
-                }
-              }
-            } catch (priceError) {
-              // Silently fall back to cart price
-              // In development, log the error for debugging
-              if (process.env["NODE_ENV"] === 'development') {
-                console.error(`Failed to fetch price for item ${index}:`, priceError);
-              }
-            }
-
-            if (typeof currentPrice !== "number" || currentPrice <= 0) {
-              throw new Error(
-                `Invalid price for item: ${
-                  item.product?.name || "Unknown product"
-                }`
-              );
-            }
-
-            return {
-              productId: item.productId,
-              variantId: item.variantId,
-              quantity: item.quantity,
-              price: currentPrice,
-            };
-          })
+        // Re-quote the latest cart so the amount charged is exactly the
+        // breakdown the server will verify against
+        const freshQuote = await pricingService.getQuote(
+          toPriceQuoteRequest(currentCartItems, shippingPincode, appliedCoupon?.code, "RAZORPAY")
         );
-
-        const freshSubtotal = cartItemsWithCurrentPrices.reduce(
-          (sum, item) => sum + item.price * item.quantity,
-          0
-        );
-        const freshTotal = freshSubtotal + shipping + tax - discount;
+        if (priceQuote && Math.abs(freshQuote.total - priceQuote.total) >= 0.01) {
+          await queryClient.invalidateQueries({ queryKey: ["price-quote"] });
+          throw new Error(
+            "Prices or shipping changed since you opened checkout. Please review the updated total and try again."
+          );
+        }
 
         const cartData = {
-          items: cartItemsWithCurrentPrices,
-          subtotal: freshSubtotal,
-          tax,
-          discount,
-          total: freshTotal,
+          items: freshQuote.items.map((line) => ({
+            productId: line.productId,
+            variantId: line.variantId,
+            quantity: line.quantity,
+            price: line.unitPrice,
+          })),
+          subtotal: freshQuote.subtotal,
+          shipping: freshQuote.shipping.amount,
+          tax: freshQuote.tax,
+          discount: freshQuote.discount,
+          total: freshQuote.total,
+          quoteId: freshQuote.quoteId,
           couponCode: appliedCoupon?.code,
-          shippingAddressId: selectedAddressId,
+          ...(guestDetails
+            ? { guest: guestDetails }
+            : { shippingAddressId: selectedAddressId }),
         };
 
         const paymentResult = await processRazorpayPaymentFromCart(
@@ -345,17 +386,26 @@ export const useCheckout = () => {
 
         return {
           id: paymentResult.orderId,
+          orderNumber: paymentResult.orderNumber,
           status: "CONFIRMED",
           paymentStatus: "COMPLETED",
         };
       }
 
       if (normalizedMethod === "cod") {
+        validateCodOrder(formData);
+        if (codEligibility?.requiresOtp && !options?.codVerificationToken) {
+          throw new Error("Please confirm your phone number to use Cash on Delivery.");
+        }
+
         // COD: order is created with CONFIRMED status and PENDING payment status
         const order = await orderMutation.mutateAsync({
           paymentMethod,
           formData,
+          codVerificationToken: options?.codVerificationToken,
         });
+        // One more open COD order counts against the per-customer limit
+        queryClient.invalidateQueries({ queryKey: ["cod-eligibility"] });
 
         try {
           await dispatch(clearCartThunk()).unwrap();
@@ -377,39 +427,61 @@ export const useCheckout = () => {
     }
   };
 
+  // Shipping and GST depend on the delivery pincode, so quote against
+  // the selected address (or the pincode a guest has typed in)
+  const shippingPincode = isGuest
+    ? guestPincode
+    : addresses.find((addr) => addr.id === selectedAddressId)?.pincode;
+  const {
+    data: priceQuote,
+    isFetching: quoteLoading,
+    error: quoteError,
+  } = usePriceQuote(cartItems, {
+    pincode: shippingPincode,
+    couponCode: appliedCoupon?.code,
+    paymentMethod: paymentMethod === "cod" ? "COD" : "RAZORPAY",
+  });
+
   const subtotal = useMemo(
-    () => cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0),
-    [cartItems]
+    () =>
+      priceQuote?.subtotal ??
+      cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0),
+    [priceQuote, cartItems]
   );
-  const shipping = 0;
-  const tax = 0;
-  const discount = useMemo(() => {
-    if (!appliedCoupon) return 0;
-    const subtotal = cartItems.reduce(
-      (sum, item) => sum + item.price * item.quantity,
-      0
-    );
-    if (appliedCoupon.type === "PERCENTAGE") {
-      const d = (subtotal * appliedCoupon.value) / 100;
-      return appliedCoupon.maxDiscount
-        ? Math.min(d, appliedCoupon.maxDiscount)
-        : d;
-    } else {
-      return appliedCoupon.value;
+  const shipping = priceQuote?.shipping.amount ?? 0;
+  const tax = priceQuote?.tax ?? 0;
+  const discount = priceQuote?.discount ?? 0;
+  const total = priceQuote?.total ?? subtotal;
+
+  // Judged on the goods value so switching payment method doesn't re-check
+  const {
+    data: codEligibility,
+    isFetching: codEligibilityLoading,
+  } = useCodEligibility(shippingPincode, subtotal - discount, !isGuest);
+  const prepaidSavings =
+    priceQuote?.prepaidSavings ?? codEligibility?.prepaidSavings ?? 0;
+
+  // Fall back to paying online if the address or cart stops qualifying
+  useEffect(() => {
+    if (paymentMethod === "cod" && (isGuest || codEligibility?.eligible === false)) {
+      setPaymentMethod("razorpay");
     }
-  }, [appliedCoupon, cartItems]);
-  const total = subtotal + shipping + tax - discount;
+  }, [paymentMethod, isGuest, codEligibility]);
 
   const loading =
     cartLoading ||
     addressesLoading ||
     couponMutation.isPending ||
     orderMutation.isPending;
+  const pricingError = quoteError
+    ? "Unable to calculate shipping and taxes. Please try again."
+    : "";
   const error =
     cartError?.message ||
     addressesError?.message ||
     couponMutation.error?.message ||
     orderMutation.error?.message ||
+    pricingError ||
     "";
 
   return {
@@ -422,17 +494,28 @@ export const useCheckout = () => {
     error,
     couponMutation,
     paymentStatus,
+    reservation,
+    isGuest,
+    paymentMethod,
+    codEligibility,
+    codEligibilityLoading,
+    prepaidSavings,
 
     setSelectedAddressId,
+    setPaymentMethod,
     setCouponCode,
+    setGuestPincode,
     applyCoupon,
     removeCoupon,
     createOrder,
+    validateCodOrder,
     loadCart: () => queryClient.invalidateQueries({ queryKey: ["cart"] }),
     loadAddresses: () =>
       queryClient.invalidateQueries({ queryKey: ["addresses"] }),
     resetPaymentStatus,
 
+    priceQuote,
+    quoteLoading,
     subtotal,
     shipping,
     tax,
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import codService from '../services/cod.service';
+import { getErrorMessage } from '../lib/utils';
+import { isValidPincode } from '../lib/validation';
+import { ICodRtoFilters, IUpdateCodRulesData, IVerifyCodOtpData } from '../types/cod.type';
+
+export function useCodEligibility(pincode: string | undefined, orderValue: number, enabled = true) {
+  return useQuery({
+    queryKey: ['cod-eligibility', pincode, orderValue],
+    queryFn: () => codService.checkEligibility({ pincode: pincode as string, orderValue }),
+    enabled: enabled && !!pincode && isValidPincode(pincode) && orderValue > 0,
+    staleTime: 60 * 1000,
+    retry: false,
+  });
+}
+
+export function useSendCodOtp() {
+  return useMutation({
+    mutationFn: (phone: string) => codService.sendOtp({ phone }),
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useVerifyCodOtp() {
+  return useMutation({
+    mutationFn: (data: IVerifyCodOtpData) => codService.verifyOtp(data),
+  });
+}
+
+export function useCodRules() {
+  return useQuery({
+    queryKey: ['admin-cod-rules'],
+    queryFn: () => codService.getRules(),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useUpdateCodRules() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: IUpdateCodRulesData) => codService.updateRules(data),
+    onSuccess: (rules) => {
+      queryClient.setQueryData(['admin-cod-rules'], rules);
+      queryClient.invalidateQueries({ queryKey: ['admin-cod-rto'] });
+      queryClient.invalidateQueries({ queryKey: ['cod-eligibility'] });
+      toast.success('COD rules saved');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useCodRtoAnalytics(filters?: ICodRtoFilters) {
+  return useQuery({
+    queryKey: ['admin-cod-rto', filters],
+    queryFn: () => codService.getRtoAnalytics(filters),
+    staleTime: 5 * 60 * 1000,
+  });
+}
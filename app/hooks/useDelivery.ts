@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import deliveryService from '../services/delivery.service';
+import { AxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import { ICreatePincodeZoneData, IPincodeZoneFilters, IUpdatePincodeZoneData } from '../types/delivery.type';
+import { getErrorMessage } from '../lib/utils';
+import { isValidPincode } from '../lib/validation';
+
+export function usePincodeServiceability(pincode: string, productId?: string) {
+  return useQuery({
+    queryKey: ['pincode-serviceability', pincode, productId],
+    queryFn: () => deliveryService.checkPincode(pincode, productId),
+    enabled: isValidPincode(pincode),
+    staleTime: 30 * 60 * 1000,
+    retry: false,
+  });
+}
+
+export function useAdminPincodeZones(filters?: IPincodeZoneFilters) {
+  return useQuery({
+    queryKey: ['admin-pincode-zones', filters],
+    queryFn: () => deliveryService.getPincodeZones(filters),
+    staleTime: 2 * 60 * 1000,
+  });
+}
+
+export function useCreatePincodeZone() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: ICreatePincodeZoneData) => deliveryService.createPincodeZone(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-pincode-zones'] });
+      queryClient.invalidateQueries({ queryKey: ['pincode-serviceability'] });
+      toast.success('Pincode zone created');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useUpdatePincodeZone() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: IUpdatePincodeZoneData }) => deliveryService.updatePincodeZone(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-pincode-zones'] });
+      queryClient.invalidateQueries({ queryKey: ['pincode-serviceability'] });
+      toast.success('Pincode zone updated');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useDeletePincodeZone() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => deliveryService.deletePincodeZone(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-pincode-zones'] });
+      queryClient.invalidateQueries({ queryKey: ['pincode-serviceability'] });
+      toast.success('Pincode zone deleted');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
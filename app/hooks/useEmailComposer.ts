@@ -1,57 +1,36 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import adminService from "@/app/services/admin.service";
-import { IEmailData } from "@/app/types/admin.type";
+import { useEmailTemplates, useSaveEmailDraft } from "@/app/hooks/useEmailTemplates";
+import { IEmailData, IEmailDraft, ITestEmailData } from "@/app/types/admin.type";
 import toast from "react-hot-toast";
 
-export const EMAIL_TEMPLATES = [
-    {
-        id: "notification",
-        name: "General Notification",
-        subject: "Important Update",
-        body: `<p>Dear Customer,</p>\n<p>We hope this email finds you well. We wanted to inform you about an important update regarding your account.</p>\n<p>If you have any questions, please don't hesitate to contact our support team.</p>\n<p>Best regards,<br>The Team</p>`,
-    },
-    {
-        id: "promotional",
-        name: "Promotional Offer",
-        subject: "Special Offer Just for You!",
-        body: `<p>Dear Customer,</p>\n<p>We're excited to offer you an exclusive discount on our latest collection!</p>\n<p>Use code <strong>SPECIAL20</strong> to get 20% off your next purchase.</p>\n<p>This offer is valid for a limited time only.</p>\n<p>Happy shopping!<br>The Team</p>`,
-    },
-    {
-        id: "order_update",
-        name: "Order Update",
-        subject: "Your Order Status Update",
-        body: `<p>Dear Customer,</p>\n<p>We wanted to update you on the status of your recent order.</p>\n<p>Your order is currently being processed and will be shipped soon.</p>\n<p>You'll receive a tracking number once it's shipped.</p>\n<p>Thank you for your patience!<br>The Team</p>`,
-    },
-];
+const EMPTY_EMAIL: IEmailData = {
+    to: [],
+    subject: "",
+    body: "",
+    template: "",
+    buttonText: "",
+    buttonUrl: "",
+    footerText: "",
+    previewText: "",
+};
 
 export default function useEmailComposer() {
     const [showPreview, setShowPreview] = useState(false);
-    const [emailData, setEmailData] = useState<IEmailData>({
-        to: [],
-        subject: "",
-        body: "",
-        template: "",
-        buttonText: "",
-        buttonUrl: "",
-        footerText: "",
-        previewText: "",
-    });
+    const queryClient = useQueryClient();
+    const [emailData, setEmailData] = useState<IEmailData>(EMPTY_EMAIL);
+    const { data: templates = [] } = useEmailTemplates();
+    const saveDraftMutation = useSaveEmailDraft();
 
     const sendEmailMutation = useMutation({
         mutationFn: (data: IEmailData) => adminService.sendEmail(data),
-        onSuccess: () => {
+        onSuccess: (_, data) => {
             toast.success("Email sent successfully!");
-            setEmailData({
-                to: [],
-                subject: "",
-                body: "",
-                template: "",
-                buttonText: "",
-                buttonUrl: "",
-                footerText: "",
-                previewText: "",
-            });
+            if (data.draftId) {
+                queryClient.invalidateQueries({ queryKey: ["admin-email-drafts"] });
+            }
+            setEmailData(EMPTY_EMAIL);
         },
         onError: (error) => {
             toast.error("Failed to send email. Please try again.");
@@ -60,17 +39,77 @@ export default function useEmailComposer() {
     });
 
     const handleTemplateChange = (templateId: string) => {
-        const template = EMAIL_TEMPLATES.find((t) => t.id === templateId);
+        const template = templates.find((t) => t.id === templateId);
         if (template) {
             setEmailData((prev) => ({
                 ...prev,
                 template: templateId,
                 subject: template.subject,
                 body: template.body,
+                previewText: template.previewText || "",
+                buttonText: template.buttonText || "",
+                buttonUrl: template.buttonUrl || "",
+                footerText: template.footerText || "",
             }));
         }
     };
 
+    const sendTestMutation = useMutation({
+        mutationFn: (data: ITestEmailData) => adminService.sendTestEmail(data),
+        onSuccess: () => {
+            toast.success("Test email sent to your inbox");
+        },
+        onError: (error) => {
+            toast.error("Failed to send test email. Please try again.");
+            console.error("Test email error:", error);
+        },
+    });
+
+    // Keeps working on the same draft after the first save
+    const saveDraft = () => {
+        if (!emailData.subject && !emailData.body) {
+            toast.error("Add a subject or body before saving a draft");
+            return;
+        }
+        const { draftId, ...data } = emailData;
+        saveDraftMutation.mutate(
+            { draftId, data },
+            { onSuccess: (draft) => setEmailData((prev) => ({ ...prev, draftId: draft.id })) }
+        );
+    };
+
+    const loadDraft = (draft: IEmailDraft) => {
+        setEmailData({
+            to: draft.to,
+            subject: draft.subject,
+            body: draft.body,
+            template: draft.template || "",
+            buttonText: draft.buttonText || "",
+            buttonUrl: draft.buttonUrl || "",
+            footerText: draft.footerText || "",
+            previewText: draft.previewText || "",
+            draftId: draft.id,
+        });
+    };
+
+    const startNewEmail = () => setEmailData(EMPTY_EMAIL);
+
+    const handleSendTest = () => {
+        if (!emailData.subject || !emailData.body) {
+            toast.error("Please add a subject and body first");
+            return;
+        }
+        sendTestMutation.mutate({
+            subject: emailData.subject,
+            body: emailData.body,
+            template: emailData.template,
+            buttonText: emailData.buttonText,
+            buttonUrl: emailData.buttonUrl,
+            footerText: emailData.footerText,
+            previewText: emailData.previewText,
+        });
+    };
+
     const addRecipient = () => {
         setEmailData((prev) => ({
             ...prev,
@@ -115,6 +154,12 @@ export default function useEmailComposer() {
         updateRecipient,
         handleSendEmail,
         sendEmailMutation,
-        EMAIL_TEMPLATES,
+        templates,
+        saveDraft,
+        saveDraftMutation,
+        loadDraft,
+        startNewEmail,
+        handleSendTest,
+        sendTestMutation,
     };
 }
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import adminService from '../services/admin.service';
+import { ISaveEmailDraftData, ISaveEmailTemplateData } from '../types/admin.type';
+import { getErrorMessage } from '../lib/utils';
+
+export function useEmailTemplates() {
+  return useQuery({
+    queryKey: ['admin-email-templates'],
+    queryFn: () => adminService.getEmailTemplates(),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useEmailTemplateVersions(templateId: string | undefined) {
+  return useQuery({
+    queryKey: ['admin-email-templates', templateId, 'versions'],
+    queryFn: () => adminService.getEmailTemplateVersions(templateId as string),
+    enabled: !!templateId,
+  });
+}
+
+// Creates the template, or saves a new version when an id is given
+export function useSaveEmailTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ templateId, data }: { templateId?: string; data: ISaveEmailTemplateData }) =>
+      templateId ? adminService.updateEmailTemplate(templateId, data) : adminService.createEmailTemplate(data),
+    onSuccess: (template, { templateId }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-email-templates'] });
+      toast.success(templateId ? `Saved as version ${template.version}` : 'Template created');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useRestoreEmailTemplateVersion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ templateId, version }: { templateId: string; version: number }) =>
+      adminService.restoreEmailTemplateVersion(templateId, version),
+    onSuccess: (template, { version }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-email-templates'] });
+      toast.success(`Version ${version} restored as version ${template.version}`);
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useDeleteEmailTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (templateId: string) => adminService.deleteEmailTemplate(templateId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-email-templates'] });
+      toast.success('Template deleted');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useEmailDrafts() {
+  return useQuery({
+    queryKey: ['admin-email-drafts'],
+    queryFn: () => adminService.getEmailDrafts(),
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useSaveEmailDraft() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ draftId, data }: { draftId?: string; data: ISaveEmailDraftData }) =>
+      adminService.saveEmailDraft(data, draftId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-email-drafts'] });
+      toast.success('Draft saved');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useDeleteEmailDraft() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (draftId: string) => adminService.deleteEmailDraft(draftId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-email-drafts'] });
+      toast.success('Draft deleted');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
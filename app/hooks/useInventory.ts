@@ -0,0 +1,39 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import inventoryService from '../services/inventory.service';
+import { getErrorMessage } from '../lib/utils';
+import { IBulkStockAdjustmentData, IInventoryFilters, IStockMovementFilters } from '../types/inventory.type';
+
+export function useInventory(filters?: IInventoryFilters) {
+  return useQuery({
+    queryKey: ['admin-inventory', filters],
+    queryFn: () => inventoryService.getInventory(filters),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useStockMovements(variantId: string | null, filters?: IStockMovementFilters) {
+  return useQuery({
+    queryKey: ['stock-movements', variantId, filters],
+    queryFn: () => inventoryService.getMovements(variantId as string, filters),
+    enabled: !!variantId,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useAdjustStock() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: IBulkStockAdjustmentData) => inventoryService.adjustStock(data),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-inventory'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+      // Variant stock is also shown on the products screens
+      queryClient.invalidateQueries({ queryKey: ['admin-products'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['product'] });
+      toast.success(`Stock adjusted for ${result.adjusted} SKU${result.adjusted === 1 ? '' : 's'}`);
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
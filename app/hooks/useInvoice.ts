@@ -0,0 +1,36 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import invoiceService from '../services/invoice.service';
+import { AxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import { downloadBlob, getErrorMessage } from '../lib/utils';
+
+export function useInvoiceMeta(orderId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['invoice', orderId],
+    queryFn: () => invoiceService.getInvoiceMeta(orderId),
+    enabled: !!orderId && enabled,
+    // Invoice numbers never change once issued
+    staleTime: Infinity,
+  });
+}
+
+export function useDownloadInvoice() {
+  return useMutation({
+    mutationFn: async ({ orderId, orderNumber }: { orderId: string; orderNumber: string }) => {
+      const blob = await invoiceService.downloadInvoicePdf(orderId);
+      downloadBlob(blob, `invoice-${orderNumber}.pdf`);
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useBulkDownloadInvoices() {
+  return useMutation({
+    mutationFn: async (orderIds: string[]) => {
+      const blob = await invoiceService.bulkDownloadInvoices(orderIds);
+      downloadBlob(blob, `invoices-${new Date().toISOString().slice(0, 10)}.zip`);
+    },
+    onSuccess: (_data, orderIds) => toast.success(`Downloaded ${orderIds.length} invoice${orderIds.length === 1 ? '' : 's'}`),
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
@@ -1,10 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "react-hot-toast";
 import orderService from "@/app/services/order.service";
-import { getErrorMessage } from "@/app/lib/utils";
+import { downloadBlob, getErrorMessage } from "@/app/lib/utils";
+import { createAttemptLimiter } from "@/app/lib/rateLimit";
 import { AxiosError } from "axios";
-import { useEffect } from "react";
-import { IOrderFilters } from "@/app/types/order.type";
+import { useEffect, useState } from "react";
+import { ICreateRefundData, IOrderFilters, ITrackOrderLookupData, OrderExportFormat } from "@/app/types/order.type";
 
 
 // Fetch all orders
@@ -162,6 +163,32 @@ export function useUpdatePaymentStatus() {
     });
 }
 
+// Issue a full or partial refund (admin)
+export function useCreateRefund() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: async ({ orderId, data }: { orderId: string; data: ICreateRefundData }) => {
+            const response = await orderService.createRefund(orderId, data);
+            if (response.status === "success" || response.success) {
+                return response.data;
+            } else {
+                throw new Error(response.message || "Failed to issue refund");
+            }
+        },
+        onSuccess: (_, { orderId, data }) => {
+            queryClient.invalidateQueries({ queryKey: ["admin-orders"] });
+            queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+            if (data.restock) {
+                queryClient.invalidateQueries({ queryKey: ["admin-inventory"] });
+            }
+            toast.success("Refund issued");
+        },
+        onError: (error: Error | AxiosError) => {
+            toast.error(getErrorMessage(error as AxiosError));
+        },
+    });
+}
+
 // Fetch admin analytics
 export function useAdminAnalytics() {
     const query = useQuery({
@@ -204,4 +231,64 @@ export function useAdminOrderAnalytics() {
         }
     }, [query.error]);
     return query;
-}
\ No newline at end of file
+}
+
+// Export orders matching the current filters (admin)
+export function useExportOrders() {
+    const [bytesLoaded, setBytesLoaded] = useState(0);
+    const mutation = useMutation({
+        mutationFn: async ({ filters, format }: { filters: IOrderFilters; format: OrderExportFormat }) => {
+            setBytesLoaded(0);
+            const blob = await orderService.exportOrders(filters, format, setBytesLoaded);
+            downloadBlob(blob, `orders-${new Date().toISOString().slice(0, 10)}.${format}`);
+        },
+        onSuccess: () => {
+            toast.success("Orders exported");
+        },
+        onError: (error: Error | AxiosError) => {
+            toast.error(getErrorMessage(error as AxiosError));
+        },
+    });
+    return { ...mutation, bytesLoaded };
+}
+
+const trackOrderLimiter = createAttemptLimiter("track_order_attempts", 5, 15 * 60 * 1000);
+
+// Track an order by order number and email/phone (no login needed)
+export function useTrackOrderLookup() {
+    const [lockedFor, setLockedFor] = useState(0);
+
+    useEffect(() => {
+        setLockedFor(trackOrderLimiter.getLockRemaining());
+    }, []);
+
+    useEffect(() => {
+        if (lockedFor <= 0) return;
+        const timer = setTimeout(() => setLockedFor(trackOrderLimiter.getLockRemaining()), 1000);
+        return () => clearTimeout(timer);
+    }, [lockedFor]);
+
+    const mutation = useMutation({
+        mutationFn: async (data: ITrackOrderLookupData) => {
+            if (trackOrderLimiter.getLockRemaining() > 0) {
+                throw new Error("Too many attempts. Please wait before trying again.");
+            }
+            setLockedFor(trackOrderLimiter.recordAttempt());
+            const response = await orderService.lookupOrderTracking(data);
+            if (response.status === "success") {
+                return response.data;
+            } else {
+                throw new Error("Failed to track order");
+            }
+        },
+        onError: (error: Error | AxiosError) => {
+            const axiosError = error as AxiosError;
+            toast.error(
+                axiosError.response?.status === 404
+                    ? "We couldn't find an order matching those details."
+                    : getErrorMessage(axiosError)
+            );
+        },
+    });
+    return { ...mutation, lockedFor };
+}
@@ -0,0 +1,104 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import paymentService from '../services/payment.service';
+import { clearPendingPayment, getPendingPayment } from '../lib/pendingPayment';
+import { getErrorMessage } from '../lib/utils';
+import { IPaymentReconciliationResult, IUnmatchedPaymentFilters } from '../types/payment.type';
+
+const isClientError = (error: unknown) => {
+  const status = (error as AxiosError)?.response?.status;
+  return !!status && status >= 400 && status < 500;
+};
+
+/**
+ * Retries confirming a captured payment whose order wasn't created at checkout.
+ * Safe to mount in several places: the record and the retry are shared queries.
+ */
+export function usePendingPaymentReconciliation() {
+  const queryClient = useQueryClient();
+
+  const { data: pending = null } = useQuery({
+    queryKey: ['pending-payment'],
+    queryFn: () => getPendingPayment(),
+    staleTime: Infinity,
+  });
+
+  const reconciliation = useQuery({
+    queryKey: ['payment-reconciliation', pending?.razorpay_payment_id],
+    queryFn: async () => {
+      if (!pending) return null;
+      let result: IPaymentReconciliationResult;
+      try {
+        result = await paymentService.reconcilePayment(
+          pending.verification ?? {
+            razorpay_order_id: pending.razorpay_order_id,
+            razorpay_payment_id: pending.razorpay_payment_id,
+          }
+        );
+      } catch (error) {
+        // The server rejected the record itself, so retrying it would never succeed
+        if (isClientError(error)) {
+          clearPendingPayment();
+          queryClient.setQueryData(['pending-payment'], null);
+        }
+        throw error;
+      }
+
+      if (result.state === 'ORDER_CREATED') {
+        toast.success(
+          result.orderNumber ? `Payment confirmed — order #${result.orderNumber} placed` : 'Payment confirmed — your order is placed'
+        );
+      } else if (result.state === 'REFUNDED') {
+        toast.error("We couldn't create your order, so your payment has been refunded");
+      }
+      if (result.state !== 'PENDING') {
+        clearPendingPayment();
+        queryClient.setQueryData(['pending-payment'], null);
+        queryClient.invalidateQueries({ queryKey: ['orders'] });
+        queryClient.invalidateQueries({ queryKey: ['cart'] });
+      }
+      return result;
+    },
+    enabled: !!pending,
+    // The webhook may still be on its way, so keep checking while the shopper waits
+    refetchInterval: (query) => (query.state.error ? false : 30 * 1000),
+    retry: (failureCount, error) => !isClientError(error) && failureCount < 2,
+  });
+
+  return { pending, reconciliation };
+}
+
+export function useUnmatchedPayments(filters?: IUnmatchedPaymentFilters) {
+  return useQuery({
+    queryKey: ['admin-unmatched-payments', filters],
+    queryFn: () => paymentService.getUnmatchedPayments(filters),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useCreateOrderFromPayment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (paymentId: string) => paymentService.createOrderFromPayment(paymentId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-unmatched-payments'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+      toast.success(result.orderNumber ? `Order #${result.orderNumber} created` : 'Order created');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useRefundUnmatchedPayment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ paymentId, note }: { paymentId: string; note?: string }) =>
+      paymentService.refundUnmatchedPayment(paymentId, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-unmatched-payments'] });
+      toast.success('Refund initiated');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
@@ -0,0 +1,46 @@
+import { useMemo } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import pricingService from '../services/pricing.service';
+import { ICartItem } from '../types/cart.type';
+import { IPriceQuoteRequest, QuotePaymentMethod } from '../types/pricing.type';
+import { isValidPincode } from '../lib/validation';
+
+// Build the quote payload from cart lines; an incomplete pincode is left out
+// so the server falls back to its default zone estimate
+export const toPriceQuoteRequest = (
+    items: ICartItem[],
+    pincode?: string,
+    couponCode?: string,
+    paymentMethod?: QuotePaymentMethod
+): IPriceQuoteRequest => ({
+    items: items.map((item) => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+    })),
+    ...(pincode && isValidPincode(pincode) && { pincode }),
+    ...(couponCode && { couponCode }),
+    ...(paymentMethod && { paymentMethod }),
+});
+
+export function usePriceQuote(
+    items: ICartItem[],
+    {
+        pincode,
+        couponCode,
+        paymentMethod,
+    }: { pincode?: string; couponCode?: string; paymentMethod?: QuotePaymentMethod } = {}
+) {
+    const request = useMemo(
+        () => toPriceQuoteRequest(items, pincode, couponCode, paymentMethod),
+        [items, pincode, couponCode, paymentMethod]
+    );
+
+    return useQuery({
+        queryKey: ['price-quote', request],
+        queryFn: () => pricingService.getQuote(request),
+        enabled: request.items.length > 0,
+        placeholderData: keepPreviousData,
+        staleTime: 1000 * 60, // 1 minute
+    });
+}
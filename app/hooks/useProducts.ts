@@ -1,9 +1,9 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { toast } from 'react-hot-toast';
 import { AxiosError } from 'axios';
 import productsService from '../services/products.service';
-import { IProductSearchParams, IUpdateProductData, ICreateVariantData, IUpdateVariantData } from '../types/product.type';
-import { getErrorMessage } from '../lib/utils';
+import { IProductSearchParams, IUpdateProductData, ICreateVariantData, IUpdateVariantData, CatalogFileFormat } from '../types/product.type';
+import { downloadBlob, getErrorMessage } from '../lib/utils';
 
 export function useProducts(params?: IProductSearchParams) {
     return useQuery({
@@ -13,6 +13,17 @@ export function useProducts(params?: IProductSearchParams) {
     });
 }
 
+export function useProductFacets(params?: IProductSearchParams) {
+    // Paging and sorting don't change the counts
+    const filters = { ...params, page: undefined, limit: undefined, sortBy: undefined, sortOrder: undefined };
+    return useQuery({
+        queryKey: ['product-facets', filters],
+        queryFn: () => productsService.getProductFacets(filters),
+        placeholderData: keepPreviousData,
+        staleTime: 1000 * 60 * 5, // 5 minutes
+    });
+}
+
 export function useProduct(id: string) {
     return useQuery({
         queryKey: ['product', id],
@@ -39,15 +50,6 @@ export function useFeaturedProducts() {
     });
 }
 
-export function useSearchProducts(query: string) {
-    return useQuery({
-        queryKey: ['products', 'search', query],
-        queryFn: () => productsService.searchProducts(query),
-        enabled: !!query && query.length >= 1,
-        staleTime: 1000 * 60 * 2, // 2 minutes
-    });
-}
-
 export function useAdminProducts(params?: IProductSearchParams) {
     return useQuery({
         queryKey: ['admin-products', params],
@@ -224,4 +226,44 @@ export function useDeleteProductVariant() {
             toast.error(getErrorMessage(error));
         },
     });
-}
\ No newline at end of file
+}
+
+export function usePreviewProductImport() {
+    return useMutation({
+        mutationFn: (file: File) => productsService.previewProductImport(file),
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    });
+}
+
+export function useCommitProductImport() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (importId: string) => productsService.commitProductImport(importId),
+        onSuccess: ({ summary }) => {
+            queryClient.invalidateQueries({ queryKey: ['products'], exact: false });
+            queryClient.invalidateQueries({ queryKey: ['admin-products'], exact: false });
+            queryClient.invalidateQueries({ queryKey: ['product'], exact: false });
+            toast.success(
+                `Import complete: ${summary.productsCreated + summary.productsUpdated} products, ${summary.variantsCreated + summary.variantsUpdated} variants`
+            );
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    });
+}
+
+export function useExportProducts() {
+    return useMutation({
+        mutationFn: async (format: CatalogFileFormat) => {
+            const blob = await productsService.exportProducts(format);
+            downloadBlob(blob, `catalog-${new Date().toISOString().slice(0, 10)}.${format}`);
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    });
+}
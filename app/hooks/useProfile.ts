@@ -8,14 +8,17 @@ import {
   IAddress,
   IAddressCreateRequest,
   IAddressUpdateRequest,
-  IAddressResponse
+  IAddressResponse,
+  INotificationPreferences
 } from '../types/profile.type';
 import { toast } from 'react-hot-toast';
 import { AxiosError } from 'axios';
 import { getErrorMessage } from '../lib/utils';
 import { useEffect } from 'react';
 
-export const useProfile = () => {
+// Pass `enabled: false` on pages that guests can reach, so the profile
+// queries don't trip the 401 login redirect
+export const useProfile = ({ enabled = true }: { enabled?: boolean } = {}) => {
   const queryClient = useQueryClient();
   const [isChangePasswordModalOpen, setIsChangePasswordModalOpen] = useState(false);
   const [isDeleteAccountModalOpen, setIsDeleteAccountModalOpen] = useState(false);
@@ -26,6 +29,7 @@ export const useProfile = () => {
       const response = await ProfileService.getProfile();
       return response.data;
     },
+    enabled,
   });
 
   const {
@@ -39,6 +43,7 @@ export const useProfile = () => {
       // Normalize to return just the array of addresses regardless of server envelope shape
       return response.data?.addresses ?? [];
     },
+    enabled,
   });
 
   const { mutate: updateProfile, isPending: isUpdating } = useMutation({
@@ -252,4 +257,29 @@ export function useSendAdminEmail() {
       toast.error(getErrorMessage(error as AxiosError));
     },
   });
-}
\ No newline at end of file
+}
+
+// Back-in-stock and price-drop alert settings
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: ['notification-preferences'],
+    queryFn: async () => {
+      const response = await ProfileService.getNotificationPreferences();
+      return response.data;
+    },
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: Partial<INotificationPreferences>) => ProfileService.updateNotificationPreferences(data),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['notification-preferences'], response.data);
+      toast.success('Notification preferences saved');
+    },
+    onError: (error: AxiosError) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
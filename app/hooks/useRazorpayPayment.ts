@@ -1,13 +1,35 @@
 import { useState, useCallback } from 'react';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'react-hot-toast';
 import paymentService, { IRazorpayOrderRequest, IRazorpayCartOrderRequest, IRazorpayVerifyWithCartRequest } from '@/app/services/payment.service';
-import { IRazorpayOptions, IRazorpayResponse, PaymentStatus } from '@/app/types/payment.type';
+import {
+    IRazorpay,
+    IRazorpayOptions,
+    IRazorpayResponse,
+    IStockReservation,
+    PaymentStatus,
+    ReservationReleaseReason,
+} from '@/app/types/payment.type';
 import { getErrorMessage } from '@/app/lib/utils';
+import { savePendingPayment } from '@/app/lib/pendingPayment';
 import { AxiosError } from 'axios';
 
+// Used when the backend doesn't say how long it is holding stock
+const DEFAULT_RESERVATION_SECONDS = 10 * 60;
+
+// Best effort: the server also releases holds once they expire
+const releaseReservation = (razorpayOrderId: string, reason: ReservationReleaseReason) => {
+    paymentService.releaseStockReservation(razorpayOrderId, reason).catch((error) => {
+        if (process.env["NODE_ENV"] === 'development') {
+            console.error('releaseStockReservation failed:', error);
+        }
+    });
+};
+
 export const useRazorpayPayment = () => {
+    const queryClient = useQueryClient();
     const [paymentStatus, setPaymentStatus] = useState<PaymentStatus>('idle');
+    const [reservation, setReservation] = useState<IStockReservation | null>(null);
 
     // Create Razorpay order mutation (legacy - for existing orders)
     const createOrderMutation = useMutation({
@@ -93,7 +115,7 @@ export const useRazorpayPayment = () => {
         cartData: IRazorpayCartOrderRequest['cartData'],
         userEmail: string = '',
         userPhone: string = ''
-    ): Promise<{ success: boolean; orderId?: string; paymentCaptured?: boolean }> => {
+    ): Promise<{ success: boolean; orderId?: string; orderNumber?: string; paymentCaptured?: boolean }> => {
         try {
             // Check if Razorpay is loaded
             if (!window.Razorpay) {
@@ -125,8 +147,38 @@ export const useRazorpayPayment = () => {
 
             setPaymentStatus('payment_pending');
 
+            const razorpayOrderId = orderResponse.data.orderId;
+            const ttlSeconds = orderResponse.data.reservation?.ttlSeconds ?? DEFAULT_RESERVATION_SECONDS;
+            setReservation({ razorpayOrderId, expiresAt: Date.now() + ttlSeconds * 1000 });
+
             // Return a promise that resolves based on verification or dismissal
-            return new Promise<{ success: boolean; orderId?: string; paymentCaptured?: boolean }>((resolve) => {
+            return new Promise<{ success: boolean; orderId?: string; orderNumber?: string; paymentCaptured?: boolean }>((resolve) => {
+                let razorpay: IRazorpay | null = null;
+                let settled = false;
+
+                // Dismissal, failure and expiry can race each other, so only the first one counts
+                const settle = (
+                    result: { success: boolean; orderId?: string; orderNumber?: string; paymentCaptured?: boolean },
+                    release?: ReservationReleaseReason
+                ) => {
+                    if (settled) return;
+                    settled = true;
+                    clearTimeout(expiryTimer);
+                    setReservation(null);
+                    if (release) {
+                        releaseReservation(razorpayOrderId, release);
+                    }
+                    resolve(result);
+                };
+
+                const expiryTimer = setTimeout(() => {
+                    if (settled) return;
+                    setPaymentStatus('failed');
+                    toast.error('Your reserved items were released because payment took too long. Please try again.');
+                    settle({ success: false }, 'EXPIRED');
+                    razorpay?.close();
+                }, ttlSeconds * 1000);
+
                 // Configure Razorpay options
                 const options: IRazorpayOptions = {
                     key: orderResponse.data.key,
@@ -134,7 +186,8 @@ export const useRazorpayPayment = () => {
                     currency: orderResponse.data.currency,
                     name: orderResponse.data.name,
                     description: orderResponse.data.description,
-                    order_id: orderResponse.data.orderId,
+                    order_id: razorpayOrderId,
+                    timeout: ttlSeconds,
                     prefill: {
                         email: userEmail || orderResponse.data.prefill?.email || '',
                         contact: userPhone || orderResponse.data.prefill?.contact || '',
@@ -143,77 +196,96 @@ export const useRazorpayPayment = () => {
                         color: orderResponse.data.theme?.color || '#000000',
                     },
                     handler: async (response: IRazorpayResponse) => {
+                        // Money has been taken, so this always goes to verification. If expiry or a
+                        // failure event settled first, the hold is already gone and only the cleanup is skipped;
+                        // the server re-checks stock when it creates the order.
+                        const lateCapture = settled;
+                        if (!lateCapture) {
+                            clearTimeout(expiryTimer);
+                            setReservation(null);
+                        }
                         setPaymentStatus('verifying');
+                        // Build cart data for verification
+                        const verificationData: IRazorpayVerifyWithCartRequest = {
+                            razorpay_order_id: response.razorpay_order_id,
+                            razorpay_payment_id: response.razorpay_payment_id,
+                            razorpay_signature: response.razorpay_signature,
+                            cartData: {
+                                items: cartData.items.map(item => ({
+                                    productId: item.productId,
+                                    variantId: item.variantId,
+                                    quantity: item.quantity
+                                })),
+                                shippingAddressId: cartData.shippingAddressId,
+                                guest: cartData.guest,
+                                quoteId: cartData.quoteId,
+                                paymentMethod: 'RAZORPAY',
+                                couponCode: cartData.couponCode
+                            }
+                        };
                         try {
-                            // Build cart data for verification
-                            const verificationData: IRazorpayVerifyWithCartRequest = {
-                                razorpay_order_id: response.razorpay_order_id,
-                                razorpay_payment_id: response.razorpay_payment_id,
-                                razorpay_signature: response.razorpay_signature,
-                                cartData: {
-                                    items: cartData.items.map(item => ({
-                                        productId: item.productId,
-                                        variantId: item.variantId,
-                                        quantity: item.quantity
-                                    })),
-                                    shippingAddressId: cartData.shippingAddressId,
-                                    paymentMethod: 'RAZORPAY',
-                                    couponCode: cartData.couponCode
-                                }
-                            };
-
                             const verifyResponse = await verifyPaymentAndCreateOrderMutation.mutateAsync(verificationData);
                             
                             if (verifyResponse.status === 'success' || verifyResponse.data?.verified) {
-                                resolve({ success: true, orderId: verifyResponse.data?.orderId });
+                                if (lateCapture) {
+                                    // The checkout page already gave up on this payment
+                                    queryClient.invalidateQueries({ queryKey: ['orders'] });
+                                    toast.success(
+                                        `Your payment went through after all and your order${verifyResponse.data?.orderNumber ? ` #${verifyResponse.data.orderNumber}` : ''} has been placed.`
+                                    );
+                                }
+                                settle({
+                                    success: true,
+                                    orderId: verifyResponse.data?.orderId,
+                                    orderNumber: verifyResponse.data?.orderNumber,
+                                });
                             } else {
-                                resolve({ success: false });
+                                settle({ success: false });
                             }
                         } catch (verifyError) {
                             // Payment was captured by Razorpay but our verify call failed.
-                            // The server-side webhook will create the order as a fallback.
-                            // Save the payment ID so support can look it up if needed.
-                            try {
-                                localStorage.setItem(
-                                    'pending_razorpay_payment',
-                                    JSON.stringify({
-                                        razorpay_payment_id: response.razorpay_payment_id,
-                                        razorpay_order_id: response.razorpay_order_id,
-                                        timestamp: new Date().toISOString(),
-                                    })
-                                );
-                            } catch {
-                                // localStorage unavailable — ignore
-                            }
+                            // Save the full payload so the next page load can retry it;
+                            // the server-side webhook will also create the order as a fallback.
+                            savePendingPayment(verificationData);
+                            queryClient.invalidateQueries({ queryKey: ['pending-payment'] });
                             toast.error(
-                                `Payment was successful but order confirmation failed. Your order will appear shortly. If it doesn't, contact support with payment ID: ${response.razorpay_payment_id}`
+                                `Payment was successful but we couldn't confirm your order yet. We'll keep trying — ${cartData.guest ? "we'll email you once it's placed" : 'check My Orders in a few minutes'}. Payment ID: ${response.razorpay_payment_id}`
                             );
                             if (process.env['NODE_ENV'] === 'development') {
                                 console.error('verifyPaymentAndCreateOrder failed:', verifyError);
                             }
                             // paymentCaptured=true tells the caller that money was taken
                             // and the webhook will recover the order in the background.
-                            resolve({ success: false, paymentCaptured: true });
+                            settle({ success: false, paymentCaptured: true });
                         }
                     },
                     modal: {
                         ondismiss: () => {
+                            if (settled) return;
                             setPaymentStatus('failed');
                             toast.error('Payment cancelled');
-                            resolve({ success: false });
+                            settle({ success: false }, 'DISMISSED');
                         },
                     },
                 };
 
                 // Open Razorpay checkout
                 try {
-                    const razorpay = new window.Razorpay(options);
+                    razorpay = new window.Razorpay(options);
+                    // Razorpay keeps its modal open for retries; we release the hold and close it instead
+                    razorpay.on('payment.failed', (failure) => {
+                        if (settled) return;
+                        setPaymentStatus('failed');
+                        toast.error(failure.error?.description || 'Payment failed');
+                        settle({ success: false }, 'PAYMENT_FAILED');
+                        razorpay?.close();
+                    });
                     razorpay.open();
                 } catch (razorpayError) {
                     if (process.env["NODE_ENV"] === 'development') {
                         console.error('Error creating/opening Razorpay:', razorpayError);
                     }
-                    resolve({ success: false });
+                    settle({ success: false }, 'PAYMENT_FAILED');
                 }
             });
         } catch (error) {
@@ -224,7 +296,7 @@ export const useRazorpayPayment = () => {
             toast.error(getErrorMessage(error as AxiosError));
             return { success: false };
         }
-    }, [createCartOrderMutation, verifyPaymentAndCreateOrderMutation]);
+    }, [createCartOrderMutation, verifyPaymentAndCreateOrderMutation, queryClient]);
 
     // Process payment with order ID (legacy approach)
     const processRazorpayPayment = useCallback(async (
@@ -325,6 +397,7 @@ export const useRazorpayPayment = () => {
 
     const resetPaymentStatus = useCallback(() => {
         setPaymentStatus('idle');
+        setReservation(null);
         createOrderMutation.reset();
         createCartOrderMutation.reset();
         verifyPaymentMutation.reset();
@@ -333,6 +406,7 @@ export const useRazorpayPayment = () => {
 
     return {
         paymentStatus,
+        reservation,
         processRazorpayPayment, // Legacy - for existing order
         processRazorpayPaymentFromCart, // New - for cart-based payment
         resetPaymentStatus,
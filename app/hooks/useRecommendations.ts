@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import recommendationService from '../services/recommendation.service';
+import { addRecentlyViewed, getRecentlyViewedIds } from '../lib/recentlyViewed';
+import { useAuth } from './useAuth';
+
+// Recommendations are recomputed from order history in batches, so they can be cached for a while
+const RECOMMENDATIONS_STALE_TIME = 30 * 60 * 1000;
+
+export function useFrequentlyBoughtTogether(productId: string) {
+  return useQuery({
+    queryKey: ['recommendations', 'bought-together', productId],
+    queryFn: () => recommendationService.getFrequentlyBoughtTogether(productId),
+    enabled: !!productId,
+    staleTime: RECOMMENDATIONS_STALE_TIME,
+  });
+}
+
+export function useSimilarProducts(productId: string) {
+  return useQuery({
+    queryKey: ['recommendations', 'similar', productId],
+    queryFn: () => recommendationService.getSimilarProducts(productId),
+    enabled: !!productId,
+    staleTime: RECOMMENDATIONS_STALE_TIME,
+  });
+}
+
+export function useCartRecommendations(productIds: string[]) {
+  // Sorted so reordering or changing quantities doesn't refetch
+  const ids = [...new Set(productIds)].sort();
+  return useQuery({
+    queryKey: ['recommendations', 'cart', ids],
+    queryFn: () => recommendationService.getCartRecommendations(ids),
+    enabled: ids.length > 0,
+    staleTime: RECOMMENDATIONS_STALE_TIME,
+    select: (products) => products.filter((p) => !ids.includes(p.id)),
+  });
+}
+
+/**
+ * Recently viewed products for the current shopper. Pass the product being
+ * viewed to record it; it is left out of the returned list.
+ */
+export function useRecentlyViewed(currentProductId?: string) {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [guestIds, setGuestIds] = useState<string[]>([]);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    if (authLoading) return;
+    if (!currentProductId) {
+      setGuestIds(getRecentlyViewedIds());
+      return;
+    }
+    setGuestIds(addRecentlyViewed(currentProductId));
+    if (isAuthenticated) {
+      // Best effort: a lost view shouldn't surface as an error on the product page
+      recommendationService
+        .recordProductView(currentProductId)
+        .then(() => queryClient.invalidateQueries({ queryKey: ['recently-viewed', 'user'] }))
+        .catch(() => undefined);
+    }
+  }, [currentProductId, isAuthenticated, authLoading, queryClient]);
+
+  const otherIds = guestIds.filter((id) => id !== currentProductId);
+
+  return useQuery({
+    queryKey: isAuthenticated ? ['recently-viewed', 'user'] : ['recently-viewed', 'guest', otherIds],
+    queryFn: () =>
+      isAuthenticated
+        ? recommendationService.getRecentlyViewed()
+        : recommendationService.resolveRecentlyViewed(otherIds),
+    enabled: !authLoading && (isAuthenticated || otherIds.length > 0),
+    staleTime: RECOMMENDATIONS_STALE_TIME,
+    select: (products) => products.filter((p) => p.id !== currentProductId),
+  });
+}
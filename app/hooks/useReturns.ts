@@ -0,0 +1,107 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import returnService from '../services/return.service';
+import { AxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import {
+  ICreateReturnData,
+  IIssueReturnRefundData,
+  IReturnFilters,
+  ISchedulePickupData,
+} from '../types/return.type';
+import { getErrorMessage } from '../lib/utils';
+
+export function useOrderReturns(orderId: string) {
+  return useQuery({
+    queryKey: ['order-returns', orderId],
+    queryFn: () => returnService.getOrderReturns(orderId),
+    enabled: !!orderId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCreateReturn() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: ICreateReturnData) => returnService.createReturn(data),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['order-returns', variables.orderId] });
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      toast.success(variables.type === 'EXCHANGE' ? 'Exchange requested' : 'Return requested');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useCancelReturn() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => returnService.cancelReturn(id),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['order-returns', data.orderId] });
+      toast.success('Return request cancelled');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useAdminReturns(filters?: IReturnFilters) {
+  return useQuery({
+    queryKey: ['admin-returns', filters],
+    queryFn: () => returnService.getAllReturns(filters),
+    staleTime: 60 * 1000,
+  });
+}
+
+// Every admin action moves the request along, so they share the same invalidation
+function useAdminReturnAction<TVariables>(
+  mutationFn: (variables: TVariables) => ReturnType<typeof returnService.approveReturn>,
+  successMessage: string
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-returns'] });
+      queryClient.invalidateQueries({ queryKey: ['order-returns', data.orderId] });
+      queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+      toast.success(successMessage);
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useApproveReturn() {
+  return useAdminReturnAction(
+    ({ id, note }: { id: string; note?: string }) => returnService.approveReturn(id, note),
+    'Return approved'
+  );
+}
+
+export function useRejectReturn() {
+  return useAdminReturnAction(
+    ({ id, note }: { id: string; note: string }) => returnService.rejectReturn(id, note),
+    'Return rejected'
+  );
+}
+
+export function useScheduleReturnPickup() {
+  return useAdminReturnAction(
+    ({ id, data }: { id: string; data: ISchedulePickupData }) => returnService.schedulePickup(id, data),
+    'Pickup scheduled'
+  );
+}
+
+export function useMarkReturnPickedUp() {
+  return useAdminReturnAction((id: string) => returnService.markPickedUp(id), 'Marked as picked up');
+}
+
+export function useIssueReturnRefund() {
+  return useAdminReturnAction(
+    ({ id, data }: { id: string; data: IIssueReturnRefundData }) => returnService.issueRefund(id, data),
+    'Refund issued'
+  );
+}
+
+export function useCompleteExchange() {
+  return useAdminReturnAction((id: string) => returnService.completeExchange(id), 'Replacement dispatched');
+}
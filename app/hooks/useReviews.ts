@@ -1,8 +1,18 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { toast } from 'react-hot-toast';
 import { AxiosError } from 'axios';
 import reviewService from '../services/review.service';
-import { ICreateReviewData, IUpdateReviewData, IReviewFilters } from '../types/review.type';
+import {
+    ICreateReviewData,
+    IUpdateReviewData,
+    IReviewFilters,
+    IAdminReviewFilters,
+    IModerateReviewsData,
+    IReviewReplyData,
+    IReportReviewData,
+    ReviewVote,
+    IUpdateReviewRequestSettingsData,
+} from '../types/review.type';
 import { getErrorMessage } from '../lib/utils';
 
 export function useReviews(productId: string, filters?: IReviewFilters) {
@@ -10,10 +20,28 @@ export function useReviews(productId: string, filters?: IReviewFilters) {
         queryKey: ['reviews', productId, filters],
         queryFn: () => reviewService.getReviews(productId, filters),
         enabled: !!productId,
+        placeholderData: keepPreviousData,
         staleTime: 1000 * 60 * 5, // 5 minutes
     });
 }
 
+export function useReviewMedia(productId: string) {
+    return useQuery({
+        queryKey: ['reviews', productId, 'media'],
+        queryFn: () => reviewService.getReviewMedia(productId),
+        enabled: !!productId,
+        staleTime: 1000 * 60 * 5, // 5 minutes
+    });
+}
+
+export function useMyReview(productId: string, enabled = true) {
+    return useQuery({
+        queryKey: ['reviews', productId, 'mine'],
+        queryFn: () => reviewService.getMyReview(productId),
+        enabled: !!productId && enabled,
+    });
+}
+
 export function useCreateReview() {
     const queryClient = useQueryClient();
 
@@ -60,4 +88,129 @@ export function useDeleteReview() {
             toast.error(getErrorMessage(error));
         },
     });
-}
\ No newline at end of file
+}
+
+export function useVoteReview() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ productId, reviewId, vote }: { productId: string; reviewId: string; vote: ReviewVote | null }) =>
+            reviewService.voteReview(productId, reviewId, vote),
+        onSuccess: (_, { productId }) => {
+            queryClient.invalidateQueries({ queryKey: ['reviews', productId] });
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    });
+}
+
+export function useReportReview() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ productId, reviewId, data }: { productId: string; reviewId: string; data: IReportReviewData }) =>
+            reviewService.reportReview(productId, reviewId, data),
+        onSuccess: (_, { productId }) => {
+            queryClient.invalidateQueries({ queryKey: ['reviews', productId] });
+            toast.success('Thanks, our team will take a look');
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    });
+}
+
+//------------------------------Admin hooks--------------------------------------------
+export function useAdminReviews(filters?: IAdminReviewFilters) {
+    return useQuery({
+        queryKey: ['admin-reviews', filters],
+        queryFn: () => reviewService.getAdminReviews(filters),
+        staleTime: 60 * 1000,
+    });
+}
+
+// Moderation changes what shoppers see, so product review lists are refetched too
+export function useModerateReviews() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (data: IModerateReviewsData) => reviewService.moderateReviews(data),
+        onSuccess: ({ updated }, { status }) => {
+            queryClient.invalidateQueries({ queryKey: ['admin-reviews'] });
+            queryClient.invalidateQueries({ queryKey: ['reviews'] });
+            toast.success(`${updated} ${updated === 1 ? 'review' : 'reviews'} ${status === 'APPROVED' ? 'approved' : 'rejected'}`);
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    });
+}
+
+export function useReplyToReview() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ reviewId, data }: { reviewId: string; data: IReviewReplyData }) =>
+            reviewService.replyToReview(reviewId, data),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-reviews'] });
+            queryClient.invalidateQueries({ queryKey: ['reviews'] });
+            toast.success('Reply posted');
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    });
+}
+
+export function useDeleteReviewReply() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (reviewId: string) => reviewService.deleteReviewReply(reviewId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-reviews'] });
+            queryClient.invalidateQueries({ queryKey: ['reviews'] });
+            toast.success('Reply removed');
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    });
+}
+
+export function useReviewRequestSettings() {
+    return useQuery({
+        queryKey: ['admin-review-request-settings'],
+        queryFn: () => reviewService.getReviewRequestSettings(),
+        staleTime: 5 * 60 * 1000,
+    });
+}
+
+export function useUpdateReviewRequestSettings() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (data: IUpdateReviewRequestSettingsData) => reviewService.updateReviewRequestSettings(data),
+        onSuccess: (settings) => {
+            queryClient.setQueryData(['admin-review-request-settings'], settings);
+            toast.success('Review request emails saved');
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    });
+}
+
+export function useSendTestReviewRequest() {
+    return useMutation({
+        mutationFn: () => reviewService.sendTestReviewRequest(),
+        onSuccess: () => {
+            toast.success('Test email sent to your inbox');
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    });
+}
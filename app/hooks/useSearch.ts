@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import searchService from '../services/search.service';
+import { addRecentSearch, clearRecentSearches, getRecentSearches } from '../lib/recentSearches';
+import { ISearchAnalyticsFilters, ISearchParams } from '../types/search.type';
+
+export function useSearchSuggestions(q: string) {
+  return useQuery({
+    queryKey: ['search-suggestions', q],
+    queryFn: () => searchService.getSuggestions(q),
+    enabled: q.length >= 2,
+    placeholderData: keepPreviousData,
+    staleTime: 2 * 60 * 1000,
+  });
+}
+
+export function useSearchResults(params: ISearchParams) {
+  return useQuery({
+    queryKey: ['search-results', params],
+    queryFn: () => searchService.search(params),
+    enabled: !!params.q,
+    placeholderData: keepPreviousData,
+    staleTime: 2 * 60 * 1000,
+  });
+}
+
+export function useTrendingSearches() {
+  return useQuery({
+    queryKey: ['trending-searches'],
+    queryFn: () => searchService.getTrending(),
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+export function useSearchAnalytics(filters?: ISearchAnalyticsFilters) {
+  return useQuery({
+    queryKey: ['admin-search-analytics', filters],
+    queryFn: () => searchService.getAnalytics(filters),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useRecentSearches() {
+  const [recent, setRecent] = useState<string[]>([]);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setRecent(getRecentSearches());
+  }, []);
+
+  const add = useCallback((query: string) => setRecent(addRecentSearch(query)), []);
+  const clear = useCallback(() => {
+    clearRecentSearches();
+    setRecent([]);
+  }, []);
+
+  return { recent, add, clear };
+}
@@ -0,0 +1,101 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AxiosError } from 'axios';
+import { toast } from 'react-hot-toast';
+import { getCourierProvider } from '../lib/couriers';
+import { getErrorMessage } from '../lib/utils';
+import { IOrder } from '../types/order.type';
+import { ICreateShipmentData, IShipmentFilters } from '../types/shipment.type';
+
+const courier = getCourierProvider();
+
+export function useCouriers() {
+  return useQuery({
+    queryKey: ['couriers', courier.name],
+    queryFn: () => courier.getCouriers(),
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+export function useAdminShipments(filters?: IShipmentFilters) {
+  return useQuery({
+    queryKey: ['admin-shipments', filters],
+    queryFn: () => courier.getShipments(filters),
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useShipment(shipmentId: string) {
+  return useQuery({
+    queryKey: ['shipment', shipmentId],
+    queryFn: () => courier.getShipment(shipmentId),
+    enabled: !!shipmentId,
+  });
+}
+
+export function useShipmentManifest(manifestId: string) {
+  return useQuery({
+    queryKey: ['shipment-manifest', manifestId],
+    queryFn: () => courier.getManifest(manifestId),
+    enabled: !!manifestId,
+  });
+}
+
+// Shipment changes also touch the order's status, AWB and tracking history
+function useInvalidateShipments() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-shipments'] });
+    queryClient.invalidateQueries({ queryKey: ['shipment'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+    queryClient.invalidateQueries({ queryKey: ['order'] });
+  };
+}
+
+export function useCreateShipment() {
+  const invalidate = useInvalidateShipments();
+  return useMutation({
+    mutationFn: ({ order, data }: { order: IOrder; data: ICreateShipmentData }) =>
+      courier.createShipment(order, data),
+    onSuccess: (shipment) => {
+      invalidate();
+      toast.success(`Shipment created (AWB ${shipment.trackingNumber})`);
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useCancelShipment() {
+  const invalidate = useInvalidateShipments();
+  return useMutation({
+    mutationFn: (shipmentId: string) => courier.cancelShipment(shipmentId),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Shipment cancelled');
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useSyncShipmentTracking() {
+  const invalidate = useInvalidateShipments();
+  return useMutation({
+    mutationFn: (shipmentId: string) => courier.syncTracking(shipmentId),
+    onSuccess: (shipment) => {
+      invalidate();
+      toast.success(`Tracking updated: ${shipment.status.replace(/_/g, ' ')}`);
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
+
+export function useCreateManifest() {
+  const invalidate = useInvalidateShipments();
+  return useMutation({
+    mutationFn: (shipmentIds: string[]) => courier.createManifest(shipmentIds),
+    onSuccess: (manifest) => {
+      invalidate();
+      toast.success(`Manifest ${manifest.manifestNumber} created`);
+    },
+    onError: (error: AxiosError) => toast.error(getErrorMessage(error)),
+  });
+}
@@ -1,9 +1,10 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import wishlistService from '../services/wishlist.service';
 import { getErrorMessage } from '../lib/utils';
 import { toast } from 'react-hot-toast';
 import { AxiosError } from 'axios';
 import { useAuth } from './useAuth';
+import { ICreateStockAlertData, IStockWaitlistFilters } from '../types/wishlist.type';
 
 export const useWishlist = () => {
     const { isAuthenticated } = useAuth();
@@ -43,3 +44,48 @@ export function useDeleteWishlistItems() {
         },
     })
 }
+
+export const useStockAlerts = () => {
+    const { isAuthenticated } = useAuth();
+    return useQuery({
+        queryKey: ['stock-alerts'],
+        queryFn: () => wishlistService.getStockAlerts(),
+        enabled: isAuthenticated,
+    });
+};
+
+export function useCreateStockAlert() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (data: ICreateStockAlertData) => wishlistService.createStockAlert(data),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['stock-alerts'] });
+            toast.success("We'll let you know when it's back in stock");
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    })
+}
+
+export function useCancelStockAlert() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (alertId: string) => wishlistService.cancelStockAlert(alertId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['stock-alerts'] });
+        },
+        onError: (error: AxiosError) => {
+            toast.error(getErrorMessage(error));
+        },
+    })
+}
+
+// Admin: Waiting shoppers per SKU, for restock planning
+export const useStockWaitlist = (filters?: IStockWaitlistFilters) => {
+    return useQuery({
+        queryKey: ['admin-stock-waitlist', filters],
+        queryFn: () => wishlistService.getStockWaitlist(filters),
+        placeholderData: keepPreviousData,
+    });
+};
@@ -7,6 +7,7 @@ import { defaultItems } from "./data/marquee";
 import Marquee from "./components/layout/Marquee";
 import { Providers } from "./providers";
 import { Toaster } from "react-hot-toast";
+import { PaymentReconciler } from "./components/PaymentReconciler";
 
 const josefin = Josefin_Sans({ subsets: ["latin"] });
 
@@ -25,10 +26,15 @@ export default function RootLayout({
       <body className={josefin.className}>
         <Providers>
           <Toaster position="top-right" reverseOrder={false} />
-          <Marquee items={defaultItems} />
-          <Header />
+          <PaymentReconciler />
+          <div className="print:hidden">
+            <Marquee items={defaultItems} />
+            <Header />
+          </div>
           {children}
-          <Footer />
+          <div className="print:hidden">
+            <Footer />
+          </div>
         </Providers>
       </body>
     </html>
@@ -0,0 +1,35 @@
+/**
+ * Cash-on-delivery helpers shared by checkout and the admin COD screens
+ */
+
+import { CodIneligibleReason } from '../types/cod.type';
+import { isValidPincode } from './validation';
+
+export const COD_OTP_LENGTH = 6;
+
+// Pincodes at or above this return-to-origin rate are flagged in analytics
+export const HIGH_RTO_RATE = 0.3;
+
+// Shown when the backend doesn't send its own message
+export const COD_INELIGIBLE_MESSAGES: Record<CodIneligibleReason, string> = {
+  DISABLED: 'Cash on Delivery is currently unavailable.',
+  GUEST: 'Sign in to pay with Cash on Delivery.',
+  ORDER_VALUE_TOO_LOW: 'Cash on Delivery is not available for orders this small.',
+  ORDER_VALUE_TOO_HIGH: 'Cash on Delivery is not available for orders this large.',
+  PINCODE_BLOCKED: 'Cash on Delivery is not available at this pincode.',
+  PINCODE_NOT_SERVICEABLE: 'Cash on Delivery is not available at this pincode.',
+  TOO_MANY_OPEN_ORDERS: 'You already have Cash on Delivery orders on the way. Please pay online for this one.',
+};
+
+/**
+ * Split a pasted list of pincodes on commas, spaces or new lines
+ * @param text - Raw textarea value
+ * @returns Unique valid pincodes and any entries that aren't 6-digit pincodes
+ */
+export function parsePincodeList(text: string): { pincodes: string[]; invalid: string[] } {
+  const entries = text.split(/[\s,]+/).filter(Boolean);
+  return {
+    pincodes: [...new Set(entries.filter(isValidPincode))],
+    invalid: entries.filter((entry) => !isValidPincode(entry)),
+  };
+}
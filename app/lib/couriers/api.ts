@@ -0,0 +1,19 @@
+import shipmentService from '@/app/services/shipment.service';
+import { ICourierProvider } from '@/app/types/shipment.type';
+
+/**
+ * Courier provider backed by the shipments API. Booking, labels and tracking
+ * go through the backend, which also writes courier scans into the order's
+ * tracking history.
+ */
+export const apiCourierProvider: ICourierProvider = {
+  name: 'api',
+  getCouriers: () => shipmentService.getCouriers(),
+  getShipments: (filters) => shipmentService.getShipments(filters),
+  getShipment: (shipmentId) => shipmentService.getShipment(shipmentId),
+  createShipment: (order, data) => shipmentService.createShipment(order.id, data),
+  cancelShipment: (shipmentId) => shipmentService.cancelShipment(shipmentId),
+  syncTracking: (shipmentId) => shipmentService.syncTracking(shipmentId),
+  createManifest: (shipmentIds) => shipmentService.createManifest(shipmentIds),
+  getManifest: (manifestId) => shipmentService.getManifest(manifestId),
+};
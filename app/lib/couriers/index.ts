@@ -0,0 +1,17 @@
+import { ICourierProvider } from '@/app/types/shipment.type';
+import { apiCourierProvider } from './api';
+import { mockCourierProvider } from './mock';
+
+const providers: Record<string, ICourierProvider> = {
+  api: apiCourierProvider,
+  mock: mockCourierProvider,
+};
+
+/**
+ * Returns the courier provider selected by NEXT_PUBLIC_COURIER_PROVIDER
+ * ("api" or "mock"), falling back to the API provider.
+ * @returns The active courier provider
+ */
+export function getCourierProvider(): ICourierProvider {
+  return providers[process.env["NEXT_PUBLIC_COURIER_PROVIDER"] || 'api'] ?? apiCourierProvider;
+}
@@ -0,0 +1,232 @@
+import orderService from '@/app/services/order.service';
+import { IOrder } from '@/app/types/order.type';
+import {
+  ICourierOption,
+  ICourierProvider,
+  IShipment,
+  IShipmentAddress,
+  IShipmentManifest,
+  ShipmentStatus,
+} from '@/app/types/shipment.type';
+
+const SHIPMENTS_KEY = 'mock_courier_shipments';
+const MANIFESTS_KEY = 'mock_courier_manifests';
+const TRANSIT_DAYS = 4;
+
+const MOCK_COURIERS: ICourierOption[] = [
+  { code: 'MOCK', name: 'Mock Courier', supportsCod: true },
+];
+
+const MOCK_WAREHOUSE: IShipmentAddress = {
+  name: 'Kulangara Warehouse',
+  address: 'Warehouse 1, Industrial Estate',
+  city: 'Kochi',
+  state: 'Kerala',
+  pincode: '682030',
+  phone: '0000000000',
+};
+
+// Each sync moves a shipment one scan further along this route
+const SCAN_ROUTE: Array<{ status: ShipmentStatus; note: string; location: (s: IShipment) => string }> = [
+  { status: 'PICKED_UP', note: 'Shipment picked up', location: () => MOCK_WAREHOUSE.city },
+  { status: 'IN_TRANSIT', note: 'Arrived at destination hub', location: (s) => s.shipTo.city },
+  { status: 'OUT_FOR_DELIVERY', note: 'Out for delivery', location: (s) => s.shipTo.city },
+  { status: 'DELIVERED', note: 'Delivered', location: (s) => s.shipTo.city },
+];
+
+const ORDER_STATUS_FOR_SCAN: Partial<Record<ShipmentStatus, IOrder['status']>> = {
+  PICKED_UP: 'SHIPPED',
+  OUT_FOR_DELIVERY: 'OUT_FOR_DELIVERY',
+  DELIVERED: 'DELIVERED',
+};
+
+function read<T>(key: string): T[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]') as T[];
+  } catch {
+    return [];
+  }
+}
+
+function write<T>(key: string, items: T[]) {
+  localStorage.setItem(key, JSON.stringify(items));
+}
+
+function findShipment(shipmentId: string): IShipment {
+  const shipment = read<IShipment>(SHIPMENTS_KEY).find((s) => s.id === shipmentId);
+  if (!shipment) {
+    throw new Error('Shipment not found');
+  }
+  return shipment;
+}
+
+function saveShipment(shipment: IShipment): IShipment {
+  const shipments = read<IShipment>(SHIPMENTS_KEY).filter((s) => s.id !== shipment.id);
+  write(SHIPMENTS_KEY, [shipment, ...shipments]);
+  return shipment;
+}
+
+function randomDigits(length: number): string {
+  return Array.from({ length }, () => Math.floor(Math.random() * 10)).join('');
+}
+
+/**
+ * In-browser courier for local development, enabled with
+ * NEXT_PUBLIC_COURIER_PROVIDER=mock. Shipments and manifests live in
+ * localStorage, and each tracking sync advances a shipment by one scan and
+ * records it in the order's tracking history.
+ */
+export const mockCourierProvider: ICourierProvider = {
+  name: 'mock',
+
+  getCouriers: async () => MOCK_COURIERS,
+
+  getShipments: async (filters = {}) => {
+    const page = filters.page ?? 1;
+    const limit = filters.limit ?? 20;
+    const search = filters.search?.trim().toLowerCase();
+    const shipments = read<IShipment>(SHIPMENTS_KEY).filter(
+      (s) =>
+        (!filters.status || s.status === filters.status) &&
+        (!filters.courier || s.courier === filters.courier) &&
+        (!search ||
+          s.orderNumber.toLowerCase().includes(search) ||
+          s.trackingNumber.toLowerCase().includes(search))
+    );
+    return {
+      data: shipments.slice((page - 1) * limit, page * limit),
+      meta: {
+        total: shipments.length,
+        page,
+        limit,
+        totalPages: Math.max(1, Math.ceil(shipments.length / limit)),
+      },
+    };
+  },
+
+  getShipment: async (shipmentId) => findShipment(shipmentId),
+
+  createShipment: async (order, data) => {
+    const active = read<IShipment>(SHIPMENTS_KEY).find(
+      (s) => s.orderId === order.id && s.status !== 'CANCELLED'
+    );
+    if (active) {
+      throw new Error(`Order already has shipment ${active.trackingNumber}`);
+    }
+
+    const now = new Date();
+    const estimatedDelivery = new Date(now.getTime() + TRANSIT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { shippingAddress } = order;
+    const shipment: IShipment = {
+      id: `mock_${now.getTime()}`,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      courier: data.courier,
+      trackingNumber: `MK${randomDigits(10)}`,
+      routingCode: `${shippingAddress.state.slice(0, 3).toUpperCase()}/${shippingAddress.pincode.slice(0, 3)}`,
+      status: 'CREATED',
+      package: data.package,
+      paymentMethod: order.paymentMethod,
+      codAmount: order.paymentMethod === 'COD' ? order.totalAmount : 0,
+      itemCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+      shipTo: {
+        name: `${shippingAddress.firstName} ${shippingAddress.lastName}`.trim(),
+        address: [shippingAddress.address, shippingAddress.apartment].filter(Boolean).join(', '),
+        city: shippingAddress.city,
+        state: shippingAddress.state,
+        pincode: shippingAddress.pincode,
+        phone: shippingAddress.phone,
+      },
+      returnTo: MOCK_WAREHOUSE,
+      estimatedDelivery,
+      events: [{ status: 'CREATED', note: 'Shipment booked', location: MOCK_WAREHOUSE.city, occurredAt: now.toISOString() }],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    await orderService.addTrackingEvent(order.id, {
+      status: 'PROCESSING',
+      note: `Shipment booked with Mock Courier (AWB ${shipment.trackingNumber})`,
+      trackingNumber: shipment.trackingNumber,
+      estimatedDelivery,
+    });
+    return saveShipment(shipment);
+  },
+
+  cancelShipment: async (shipmentId) => {
+    const shipment = findShipment(shipmentId);
+    if (shipment.status !== 'CREATED' && shipment.status !== 'MANIFESTED') {
+      throw new Error('Only shipments that have not been picked up can be cancelled');
+    }
+
+    await orderService.addTrackingEvent(shipment.orderId, {
+      note: `Shipment ${shipment.trackingNumber} cancelled`,
+      // Frees the order for a new shipment
+      trackingNumber: null,
+      estimatedDelivery: null,
+    });
+    const now = new Date().toISOString();
+    return saveShipment({
+      ...shipment,
+      status: 'CANCELLED',
+      events: [...shipment.events, { status: 'CANCELLED', note: 'Shipment cancelled', occurredAt: now }],
+      updatedAt: now,
+    });
+  },
+
+  syncTracking: async (shipmentId) => {
+    const shipment = findShipment(shipmentId);
+    const lastScan = SCAN_ROUTE.findIndex((scan) => scan.status === shipment.status);
+    const nextScan = shipment.status === 'CANCELLED' ? undefined : SCAN_ROUTE[lastScan + 1];
+    if (!nextScan) {
+      return shipment;
+    }
+
+    const now = new Date().toISOString();
+    const location = nextScan.location(shipment);
+    await orderService.addTrackingEvent(shipment.orderId, {
+      status: ORDER_STATUS_FOR_SCAN[nextScan.status],
+      note: `${nextScan.note} (${location})`,
+    });
+    return saveShipment({
+      ...shipment,
+      status: nextScan.status,
+      events: [...shipment.events, { status: nextScan.status, note: nextScan.note, location, occurredAt: now }],
+      updatedAt: now,
+    });
+  },
+
+  createManifest: async (shipmentIds) => {
+    const shipments = shipmentIds.map(findShipment);
+    if (shipments.some((s) => s.status !== 'CREATED')) {
+      throw new Error('Only newly created shipments can be manifested');
+    }
+    if (new Set(shipments.map((s) => s.courier)).size > 1) {
+      throw new Error('A manifest can only contain shipments for one courier');
+    }
+
+    const now = new Date();
+    const manifestId = `mock_manifest_${now.getTime()}`;
+    const manifested = shipments.map((s) =>
+      saveShipment({ ...s, status: 'MANIFESTED', manifestId, updatedAt: now.toISOString() })
+    );
+    const manifest: IShipmentManifest = {
+      id: manifestId,
+      manifestNumber: `MF${now.toISOString().slice(0, 10).replace(/-/g, '')}${randomDigits(4)}`,
+      courier: manifested[0]?.courier ?? 'MOCK',
+      shipments: manifested,
+      createdAt: now.toISOString(),
+    };
+    write(MANIFESTS_KEY, [manifest, ...read<IShipmentManifest>(MANIFESTS_KEY)]);
+    return manifest;
+  },
+
+  getManifest: async (manifestId) => {
+    const manifest = read<IShipmentManifest>(MANIFESTS_KEY).find((m) => m.id === manifestId);
+    if (!manifest) {
+      throw new Error('Manifest not found');
+    }
+    return manifest;
+  },
+};
@@ -0,0 +1,125 @@
+/**
+ * Email template variables, starter content and the preview renderer for the admin email screen
+ */
+
+import { IEmailTemplateContent } from '../types/admin.type';
+
+// Variables the backend can fill in for each recipient, with the sample used in previews
+export const EMAIL_VARIABLES: Record<string, { label: string; sample: string }> = {
+  firstName: { label: 'First name', sample: 'Anjali' },
+  lastName: { label: 'Last name', sample: 'Menon' },
+  fullName: { label: 'Full name', sample: 'Anjali Menon' },
+  email: { label: 'Email address', sample: 'anjali@example.com' },
+};
+
+// Starting points offered when creating a template
+export const STARTER_EMAIL_TEMPLATES: Array<IEmailTemplateContent & { id: string; name: string }> = [
+  {
+    id: 'notification',
+    name: 'General Notification',
+    subject: 'Important Update',
+    body: `<p>Dear {{firstName|Customer}},</p>\n<p>We hope this email finds you well. We wanted to inform you about an important update regarding your account.</p>\n<p>If you have any questions, please don't hesitate to contact our support team.</p>\n<p>Best regards,<br>The Team</p>`,
+  },
+  {
+    id: 'promotional',
+    name: 'Promotional Offer',
+    subject: 'Special Offer Just for You, {{firstName|friend}}!',
+    body: `<p>Dear {{firstName|Customer}},</p>\n<p>We're excited to offer you an exclusive discount on our latest collection!</p>\n<p>Use code <strong>SPECIAL20</strong> to get 20% off your next purchase.</p>\n<p>This offer is valid for a limited time only.</p>\n<p>Happy shopping!<br>The Team</p>`,
+  },
+  {
+    id: 'order_update',
+    name: 'Order Update',
+    subject: 'Your Order Status Update',
+    body: `<p>Dear {{firstName|Customer}},</p>\n<p>We wanted to update you on the status of your recent order.</p>\n<p>Your order is currently being processed and will be shipped soon.</p>\n<p>You'll receive a tracking number once it's shipped.</p>\n<p>Thank you for your patience!<br>The Team</p>`,
+  },
+  {
+    id: 'review_request',
+    name: 'Review Request',
+    subject: 'How are you liking your order?',
+    body: `<p>Dear {{firstName|Customer}},</p>\n<p>Your order arrived a few days ago and we'd love to know what you think.</p>\n<p>Tap a star next to each item to rate it. It only takes a moment and helps other shoppers choose.</p>\n<p>Thank you!<br>The Team</p>`,
+  },
+];
+
+// {{name}} or {{name|fallback}}
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z]\w*)\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * List the variables used across an email's text fields
+ * @param content - Subject, body and other text fields
+ * @returns Unique variable names in order of first use
+ */
+export function extractTemplateVariables(content: Partial<IEmailTemplateContent>): string[] {
+  const text = [content.subject, content.previewText, content.body, content.buttonText, content.buttonUrl, content.footerText]
+    .filter(Boolean)
+    .join('\n');
+  return [...new Set([...text.matchAll(VARIABLE_PATTERN)].map((match) => match[1]!))];
+}
+
+/**
+ * Variables the backend doesn't know how to fill in
+ * @param variables - Names from extractTemplateVariables
+ * @returns Names missing from EMAIL_VARIABLES
+ */
+export function getUnknownVariables(variables: string[]): string[] {
+  return variables.filter((name) => !(name in EMAIL_VARIABLES));
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Fill in variables the same way the backend does for each recipient
+ * @param text - Text containing {{variable}} placeholders
+ * @param values - Values for this recipient; missing ones use the fallback or become empty
+ * @param html - Escape values for use inside HTML
+ * @returns The text with every placeholder replaced
+ */
+export function renderTemplateVariables(text: string, values: Record<string, string>, html = false): string {
+  return text.replace(VARIABLE_PATTERN, (_, name: string, fallback?: string) => {
+    const value = values[name] || fallback?.trim() || '';
+    return html ? escapeHtml(value) : value;
+  });
+}
+
+export type EmailPreviewTheme = 'light' | 'dark';
+
+// Dark mode follows what Apple Mail and Gmail apps do with the backend's dark stylesheet
+const PREVIEW_PALETTES: Record<EmailPreviewTheme, Record<'page' | 'card' | 'text' | 'muted' | 'border' | 'button' | 'buttonText', string>> = {
+  light: { page: '#f4f4f4', card: '#ffffff', text: '#111111', muted: '#666666', border: '#111111', button: '#111111', buttonText: '#ffffff' },
+  dark: { page: '#121212', card: '#1e1e1e', text: '#eeeeee', muted: '#a0a0a0', border: '#eeeeee', button: '#eeeeee', buttonText: '#111111' },
+};
+
+/**
+ * Build a standalone HTML document that mirrors the layout of sent emails, for an iframe preview
+ * @param content - Email fields with variables already filled in
+ * @param theme - Client colour scheme to imitate
+ * @returns Full HTML document
+ */
+export function buildEmailDocument(content: Partial<IEmailTemplateContent>, theme: EmailPreviewTheme): string {
+  const palette = PREVIEW_PALETTES[theme];
+  const button = content.buttonText && content.buttonUrl
+    ? `<p style="margin:32px 0 0"><a href="${escapeHtml(content.buttonUrl)}" style="display:inline-block;padding:12px 24px;background:${palette.button};color:${palette.buttonText};font-weight:700;letter-spacing:0.1em;text-decoration:none">${escapeHtml(content.buttonText.toUpperCase())}</a></p>`
+    : '';
+  const footer = content.footerText
+    ? `<p style="margin:32px 0 0;padding-top:16px;border-top:2px solid ${palette.border};font-size:13px;color:${palette.muted}">${escapeHtml(content.footerText)}</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="color-scheme" content="${theme}">
+<style>body{margin:0}a{color:${palette.text}}img{max-width:100%}</style>
+</head>
+<body style="background:${palette.page};color:${palette.text};font-family:Helvetica,Arial,sans-serif;line-height:1.6">
+<div style="max-width:600px;margin:0 auto;padding:24px">
+<div style="background:${palette.card};border:2px solid ${palette.border};padding:32px">
+<p style="margin:0 0 24px;font-size:20px;font-weight:700;letter-spacing:0.2em">KULANGARA</p>
+${content.body || '<p>No content</p>'}
+${button}
+${footer}
+</div>
+</div>
+</body>
+</html>`;
+}
@@ -0,0 +1,89 @@
+/**
+ * Helpers for the local cart kept for shoppers who are not signed in.
+ * Guest items mirror the server ICartItem shape so the cart UI and
+ * checkout can treat both carts the same way.
+ */
+
+import { IProduct } from '../types/product.type';
+import { ICartItem, ICartResponse } from '../types/cart.type';
+
+export const GUEST_CART_ITEM_PREFIX = 'guest_';
+
+/**
+ * Build a stable local id for a product/variant pair
+ * @param productId - Product id
+ * @param variantId - Optional variant id
+ * @returns Guest cart item id
+ */
+export function getGuestCartItemId(productId: string, variantId?: string): string {
+  return `${GUEST_CART_ITEM_PREFIX}${productId}_${variantId || 'default'}`;
+}
+
+/**
+ * Check whether a cart item only exists in the local guest cart
+ * @param itemId - Cart item id
+ * @returns True if the item was created locally
+ */
+export function isGuestCartItem(itemId: string): boolean {
+  return itemId.startsWith(GUEST_CART_ITEM_PREFIX);
+}
+
+/**
+ * Create a guest cart item from product details
+ * @param product - Product fetched from the public catalogue
+ * @param quantity - Quantity to add
+ * @param variantId - Optional selected variant id
+ * @returns Cart item in the same shape as the server cart
+ */
+export function buildGuestCartItem(product: IProduct, quantity: number, variantId?: string): ICartItem {
+  const variant = variantId ? product.variants?.find((v) => v.id === variantId) : undefined;
+  const price =
+    typeof variant?.price === 'number'
+      ? variant.price
+      : typeof product.discountedPrice === 'number'
+        ? product.discountedPrice
+        : product.price;
+  const now = new Date().toISOString();
+
+  return {
+    id: getGuestCartItemId(product.id, variant?.id),
+    productId: product.id,
+    product,
+    ...(variant && {
+      variantId: variant.id,
+      variant: {
+        id: variant.id,
+        size: variant.size,
+        color: variant.color,
+        price,
+        sku: variant.sku,
+        stock: variant.stock,
+      },
+    }),
+    quantity,
+    price,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Wrap guest items in the server cart response envelope
+ * @param items - Guest cart items
+ * @returns Cart response with computed totals
+ */
+export function toGuestCartResponse(items: ICartItem[]): ICartResponse {
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  return {
+    success: true,
+    message: 'Guest cart',
+    data: {
+      items,
+      totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+      subtotal,
+      shipping: 0,
+      total: subtotal,
+    },
+  };
+}
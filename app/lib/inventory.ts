@@ -0,0 +1,49 @@
+/**
+ * Stock adjustment rules shared by the inventory console
+ */
+
+import { IInventoryItem, StockAdjustmentReason, StockMovementReason } from '../types/inventory.type';
+
+export const STOCK_ADJUSTMENT_REASONS: StockAdjustmentReason[] = ['RESTOCK', 'RETURN', 'DAMAGE', 'CORRECTION'];
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementReason, string> = {
+  RESTOCK: 'Restock',
+  DAMAGE: 'Damage / write-off',
+  RETURN: 'Customer return',
+  CORRECTION: 'Stock count correction',
+  ORDER: 'Order',
+  ORDER_CANCELLED: 'Order cancelled',
+  REFUND: 'Refunded and restocked',
+  IMPORT: 'Catalog import',
+};
+
+// Below this many days of cover a SKU is flagged for reordering
+export const LOW_COVER_DAYS = 14;
+
+/**
+ * Check a single adjustment before it is sent
+ * @param reason - Reason picked for the batch
+ * @param quantity - Signed change to on-hand stock
+ * @param item - SKU being adjusted
+ * @returns Error message, or null when the adjustment is allowed
+ */
+export function validateStockAdjustment(
+  reason: StockAdjustmentReason,
+  quantity: number,
+  item: IInventoryItem
+): string | null {
+  if (!Number.isInteger(quantity) || quantity === 0) {
+    return 'Enter a whole number other than zero';
+  }
+  if ((reason === 'RESTOCK' || reason === 'RETURN') && quantity < 0) {
+    return `${STOCK_MOVEMENT_LABELS[reason]} can only add stock`;
+  }
+  if (reason === 'DAMAGE' && quantity > 0) {
+    return 'Damage can only remove stock';
+  }
+  // Reserved units belong to orders, so only free stock can be written off
+  if (quantity < 0 && -quantity > item.available) {
+    return `Only ${item.available} unreserved in stock`;
+  }
+  return null;
+}
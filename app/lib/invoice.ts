@@ -0,0 +1,165 @@
+/**
+ * Builds a GST tax invoice from an order and the backend-issued invoice meta
+ */
+
+import { IOrder } from '../types/order.type';
+import { IInvoice, IInvoiceLine, IInvoiceMeta } from '../types/invoice.type';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+function twoDigitsInWords(n: number): string {
+  if (n < 20) return ONES[n] ?? '';
+  return `${TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ONES[n % 10]}` : ''}`;
+}
+
+function integerInWords(n: number): string {
+  if (n === 0) return 'Zero';
+
+  // Indian grouping: crore, lakh, thousand, hundred
+  const parts: string[] = [];
+  const units: Array<[number, string]> = [
+    [10000000, 'Crore'],
+    [100000, 'Lakh'],
+    [1000, 'Thousand'],
+    [100, 'Hundred'],
+  ];
+  let rest = n;
+  for (const [size, label] of units) {
+    if (rest >= size) {
+      const count = Math.floor(rest / size);
+      parts.push(`${size === 10000000 ? integerInWords(count) : twoDigitsInWords(count)} ${label}`);
+      rest %= size;
+    }
+  }
+  if (rest > 0) {
+    parts.push(twoDigitsInWords(rest));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Spell out a rupee amount the way Indian invoices do
+ * @param amount - Amount in rupees
+ * @returns e.g. "Rupees One Thousand Two Hundred and Fifty Paise Only"
+ */
+export function amountInWords(amount: number): string {
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+  return `Rupees ${integerInWords(rupees)}${paise ? ` and ${twoDigitsInWords(paise)} Paise` : ''} Only`;
+}
+
+/**
+ * Combine an order with its invoice meta into a printable GST invoice.
+ * The order discount is spread across lines in proportion to their value and
+ * line taxes are reconciled so they add up to the order's taxAmount.
+ * @param order - Order to invoice
+ * @param meta - Invoice number, seller and HSN codes from the backend
+ * @returns Invoice with per-line CGST/SGST or IGST
+ */
+export function buildInvoice(order: IOrder, meta: IInvoiceMeta): IInvoice {
+  const isInterState = meta.seller.stateCode !== meta.placeOfSupply.stateCode;
+  const grossTotal = order.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  let discountLeft = order.discountAmount;
+  const lines: IInvoiceLine[] = order.items.map((item, index) => {
+    const classification =
+      meta.lines.find((l) => l.productId === item.productId && (l.variantId || null) === (item.variantId || null)) ||
+      meta.lines.find((l) => l.productId === item.productId);
+    const gstRate = classification?.gstRate ?? 0;
+    const gross = item.price * item.quantity;
+
+    const isLast = index === order.items.length - 1;
+    const discount = isLast
+      ? round2(discountLeft)
+      : round2(grossTotal > 0 ? (order.discountAmount * gross) / grossTotal : 0);
+    discountLeft -= discount;
+
+    const net = gross - discount;
+    const taxableValue = round2(meta.taxInclusive ? net / (1 + gstRate / 100) : net);
+    const tax = round2((taxableValue * gstRate) / 100);
+    const size = item.size ?? item.variant?.size;
+    const color = item.variant?.color;
+
+    return {
+      description: item.product?.name || 'Item',
+      variant: [size && `Size ${size}`, color].filter(Boolean).join(', ') || undefined,
+      hsnCode: classification?.hsnCode || '—',
+      quantity: item.quantity,
+      unitPrice: item.price,
+      discount,
+      taxableValue,
+      gstRate,
+      cgst: isInterState ? 0 : round2(tax / 2),
+      sgst: isInterState ? 0 : round2(tax - round2(tax / 2)),
+      igst: isInterState ? tax : 0,
+      total: round2(taxableValue + tax),
+    };
+  });
+
+  // Absorb rounding differences in the last line so totals match the order
+  const lineTax = lines.reduce((sum, l) => sum + l.cgst + l.sgst + l.igst, 0);
+  const drift = round2(order.taxAmount - lineTax);
+  const lastLine = lines[lines.length - 1];
+  if (lastLine && drift !== 0 && Math.abs(drift) < 1) {
+    if (isInterState) {
+      lastLine.igst = round2(lastLine.igst + drift);
+    } else {
+      lastLine.sgst = round2(lastLine.sgst + drift);
+    }
+    lastLine.total = round2(lastLine.total + drift);
+  }
+
+  const sum = (key: 'taxableValue' | 'cgst' | 'sgst' | 'igst') =>
+    round2(lines.reduce((acc, l) => acc + l[key], 0));
+
+  const { shippingAddress } = order;
+
+  return {
+    invoiceNumber: meta.invoiceNumber,
+    invoiceDate: meta.invoiceDate,
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    orderDate: order.createdAt,
+    seller: meta.seller,
+    billTo: {
+      name: `${shippingAddress.firstName} ${shippingAddress.lastName}`.trim(),
+      address: [shippingAddress.address, shippingAddress.apartment].filter(Boolean).join(', '),
+      city: shippingAddress.city,
+      state: shippingAddress.state,
+      stateCode: meta.placeOfSupply.stateCode,
+      pincode: shippingAddress.pincode,
+      phone: shippingAddress.phone,
+    },
+    placeOfSupply: meta.placeOfSupply,
+    isInterState,
+    lines,
+    subtotal: order.subtotal,
+    discountAmount: order.discountAmount,
+    couponCode: order.couponCode,
+    shippingFee: order.shippingFee,
+    taxableValue: sum('taxableValue'),
+    cgst: sum('cgst'),
+    sgst: sum('sgst'),
+    igst: sum('igst'),
+    taxAmount: order.taxAmount,
+    totalAmount: order.totalAmount,
+    amountInWords: amountInWords(order.totalAmount),
+    paymentMethod: order.paymentMethod,
+    paymentStatus: order.paymentStatus,
+  };
+}
+
+/**
+ * Invoices are only issued once an order is confirmed
+ * @param order - Order to check
+ * @returns True if an invoice can be shown for the order
+ */
+export function isInvoiceAvailable(order: Pick<IOrder, 'status'>): boolean {
+  return order.status !== 'PENDING' && order.status !== 'CANCELLED';
+}
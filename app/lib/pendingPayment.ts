@@ -0,0 +1,57 @@
+import { IRazorpayVerifyWithCartRequest } from '../services/payment.service';
+
+const PENDING_PAYMENT_KEY = 'pending_razorpay_payment';
+// Past this the webhook or an admin will have dealt with it, so stop retrying
+const PENDING_PAYMENT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface IPendingPayment {
+  razorpay_payment_id: string;
+  razorpay_order_id: string;
+  timestamp: string;
+  // Full verify payload so the client can retry. Missing on records saved by older builds.
+  verification?: IRazorpayVerifyWithCartRequest;
+}
+
+/**
+ * Read the captured payment whose order confirmation failed, if any
+ * @returns The saved record, or null when there is none or it is too old
+ */
+export function getPendingPayment(): IPendingPayment | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = JSON.parse(localStorage.getItem(PENDING_PAYMENT_KEY) || 'null');
+    if (!stored?.razorpay_payment_id || !stored?.razorpay_order_id) return null;
+    if (Date.now() - new Date(stored.timestamp).getTime() > PENDING_PAYMENT_MAX_AGE_MS) {
+      clearPendingPayment();
+      return null;
+    }
+    return stored as IPendingPayment;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember a captured payment so the next page load can retry confirming it
+ * @param verification - Payload that failed to verify
+ */
+export function savePendingPayment(verification: IRazorpayVerifyWithCartRequest): void {
+  try {
+    const record: IPendingPayment = {
+      razorpay_payment_id: verification.razorpay_payment_id,
+      razorpay_order_id: verification.razorpay_order_id,
+      timestamp: new Date().toISOString(),
+      verification,
+    };
+    localStorage.setItem(PENDING_PAYMENT_KEY, JSON.stringify(record));
+  } catch {
+    // localStorage unavailable — the webhook still recovers the order
+  }
+}
+
+/**
+ * Forget the pending payment once it has been reconciled
+ */
+export function clearPendingPayment(): void {
+  localStorage.removeItem(PENDING_PAYMENT_KEY);
+}
@@ -0,0 +1,96 @@
+import { IProductSearchParams, PRODUCT_SIZES, ProductFit, ProductSize } from '@/app/types/product.type';
+
+export const DEFAULT_PRODUCT_FILTERS: IProductSearchParams = {
+  page: 1,
+  limit: 12,
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+};
+
+const LIST_KEYS = ['sizes', 'colors', 'fits', 'genders'] as const;
+const FITS: ProductFit[] = ['NORMAL', 'OVERSIZED'];
+
+const readList = (query: URLSearchParams, key: string): string[] =>
+  (query.get(key) || '').split(',').map((v) => v.trim()).filter(Boolean);
+
+const readNumber = (query: URLSearchParams, key: string): number | undefined => {
+  const value = Number(query.get(key));
+  return query.has(key) && Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * Read storefront product filters from the URL query string
+ * @param query - Current search params
+ * @returns Filters merged over the defaults
+ */
+export function parseProductFilters(query: URLSearchParams): IProductSearchParams {
+  const sizes = readList(query, 'sizes').filter((s): s is ProductSize => PRODUCT_SIZES.includes(s as ProductSize));
+  const fits = readList(query, 'fits').filter((f): f is ProductFit => FITS.includes(f as ProductFit));
+  const colors = readList(query, 'colors');
+  const genders = readList(query, 'genders');
+  const sortOrder = query.get('sortOrder');
+
+  return {
+    ...DEFAULT_PRODUCT_FILTERS,
+    page: readNumber(query, 'page') ?? DEFAULT_PRODUCT_FILTERS.page,
+    search: query.get('search') || undefined,
+    category: query.get('category') || undefined,
+    minPrice: readNumber(query, 'minPrice'),
+    maxPrice: readNumber(query, 'maxPrice'),
+    sortBy: query.get('sortBy') || DEFAULT_PRODUCT_FILTERS.sortBy,
+    sortOrder: sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : DEFAULT_PRODUCT_FILTERS.sortOrder,
+    sizes: sizes.length ? sizes : undefined,
+    fits: fits.length ? fits : undefined,
+    colors: colors.length ? colors : undefined,
+    genders: genders.length ? genders : undefined,
+  };
+}
+
+/**
+ * Serialize filters into a shareable query string, leaving out defaults
+ * @param filters - Filters to serialize
+ * @returns Query string without the leading "?"
+ */
+export function productFiltersToQuery(filters: IProductSearchParams): string {
+  const query = new URLSearchParams();
+  const apiParams = toProductApiParams(filters);
+
+  Object.entries(apiParams).forEach(([key, value]) => {
+    if (value === undefined || key === 'limit') return;
+    if (DEFAULT_PRODUCT_FILTERS[key as keyof IProductSearchParams] === value) return;
+    query.set(key, String(value));
+  });
+  return query.toString();
+}
+
+/**
+ * Flatten list filters into comma-separated values for the products API
+ * @param params - Product search params
+ * @returns Params safe to pass to axios
+ */
+export function toProductApiParams(
+  params: IProductSearchParams = {}
+): Record<string, string | number | boolean | undefined> {
+  const { sizes, colors, fits, genders, ...rest } = params;
+  const lists = { sizes, colors, fits, genders };
+  const flattened: Record<string, string | number | boolean | undefined> = { ...rest };
+
+  LIST_KEYS.forEach((key) => {
+    const values = lists[key];
+    flattened[key] = values && values.length > 0 ? values.join(',') : undefined;
+  });
+  return flattened;
+}
+
+/**
+ * Count the filters a shopper has applied (ignores paging and sorting)
+ * @param filters - Current filters
+ * @returns Number of active facet selections
+ */
+export function countActiveFilters(filters: IProductSearchParams): number {
+  return (
+    (filters.category ? 1 : 0) +
+    (filters.minPrice !== undefined || filters.maxPrice !== undefined ? 1 : 0) +
+    LIST_KEYS.reduce((sum, key) => sum + (filters[key]?.length ?? 0), 0)
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Labels and form helpers for the admin promotions screen
+ */
+
+import { IPromotion, IPromotionTier, PromotionType, PromotionValueType } from '../types/promotion.type';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  DISCOUNT: 'Discount',
+  BUY_X_GET_Y: 'Buy X get Y',
+  TIERED_SPEND: 'Spend tiers',
+  FREE_SHIPPING: 'Free shipping',
+  FIRST_ORDER: 'First order',
+};
+
+const formatValue = (valueType: PromotionValueType | undefined, value: number | undefined) =>
+  valueType === 'FIXED' ? `₹${value ?? 0} off` : `${value ?? 0}% off`;
+
+/**
+ * One-line summary of what a promotion gives, for tables
+ * @param promotion - Promotion to describe
+ * @returns e.g. "Buy 2 get 1 free" or "₹2999+: 10% off"
+ */
+export function describePromotion(promotion: IPromotion): string {
+  switch (promotion.type) {
+    case 'BUY_X_GET_Y': {
+      const reward = promotion.getDiscountPercent === 100 || promotion.getDiscountPercent === undefined
+        ? 'free'
+        : `${promotion.getDiscountPercent}% off`;
+      return `Buy ${promotion.buyQuantity ?? 0} get ${promotion.getQuantity ?? 0} ${reward}`;
+    }
+    case 'TIERED_SPEND':
+      return (promotion.tiers ?? [])
+        .map((tier) => `₹${tier.minSpend}+: ${formatValue(tier.valueType, tier.value)}`)
+        .join(' · ');
+    case 'FREE_SHIPPING':
+      return promotion.minOrderValue > 0 ? `Free shipping over ₹${promotion.minOrderValue}` : 'Free shipping';
+    default:
+      return formatValue(promotion.valueType, promotion.value);
+  }
+}
+
+/**
+ * Render tiers back into the textarea format read by parseTierList
+ * @param tiers - Saved tiers
+ * @returns One "minSpend: value" line per tier
+ */
+export function formatTierList(tiers: IPromotionTier[] = []): string {
+  return tiers
+    .map((tier) => `${tier.minSpend}: ${tier.valueType === 'PERCENTAGE' ? `${tier.value}%` : tier.value}`)
+    .join('\n');
+}
+
+/**
+ * Read spend tiers typed one per line, e.g. "2999: 10%" or "4999: 500"
+ * @param text - Raw textarea value
+ * @returns Tiers sorted by spend, and any lines that couldn't be read
+ */
+export function parseTierList(text: string): { tiers: IPromotionTier[]; invalid: string[] } {
+  const tiers: IPromotionTier[] = [];
+  const invalid: string[] = [];
+
+  for (const line of text.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    const match = line.match(/^₹?\s*(\d+(?:\.\d+)?)\s*[:=]\s*₹?\s*(\d+(?:\.\d+)?)\s*(%)?$/);
+    if (!match) {
+      invalid.push(line);
+      continue;
+    }
+    tiers.push({
+      minSpend: Number(match[1]),
+      valueType: match[3] ? 'PERCENTAGE' : 'FIXED',
+      value: Number(match[2]),
+    });
+  }
+
+  return { tiers: tiers.sort((a, b) => a.minSpend - b.minSpend), invalid };
+}
@@ -0,0 +1,45 @@
+/**
+ * Client-side attempt limiter backed by localStorage. It only slows down
+ * casual retries in the browser; the API enforces the real limit.
+ */
+export interface AttemptLimiter {
+  /** Milliseconds until another attempt is allowed, 0 when not locked */
+  getLockRemaining(): number;
+  /** Record an attempt and return the new lock time in milliseconds */
+  recordAttempt(): number;
+}
+
+/**
+ * Create a limiter allowing maxAttempts within a sliding window
+ * @param key - localStorage key for the attempt timestamps
+ * @param maxAttempts - Attempts allowed per window
+ * @param windowMs - Window length in milliseconds
+ * @returns Limiter for the given key
+ */
+export function createAttemptLimiter(key: string, maxAttempts: number, windowMs: number): AttemptLimiter {
+  const readAttempts = (): number[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+      const attempts = JSON.parse(localStorage.getItem(key) || '[]') as number[];
+      const cutoff = Date.now() - windowMs;
+      return attempts.filter((time) => time > cutoff);
+    } catch {
+      return [];
+    }
+  };
+
+  const getLockRemaining = () => {
+    const attempts = readAttempts();
+    const oldest = attempts[attempts.length - maxAttempts];
+    if (attempts.length < maxAttempts || oldest === undefined) return 0;
+    return Math.max(0, oldest + windowMs - Date.now());
+  };
+
+  return {
+    getLockRemaining,
+    recordAttempt: () => {
+      localStorage.setItem(key, JSON.stringify([...readAttempts(), Date.now()]));
+      return getLockRemaining();
+    },
+  };
+}
@@ -0,0 +1,39 @@
+const RECENT_SEARCHES_KEY = 'recent_searches';
+const MAX_RECENT_SEARCHES = 8;
+
+/**
+ * Read the shopper's recent search queries, newest first
+ * @returns Recent queries
+ */
+export function getRecentSearches(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((q): q is string => typeof q === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Move a query to the front of the recent searches list
+ * @param query - Query the shopper searched for
+ * @returns Updated recent queries
+ */
+export function addRecentSearch(query: string): string[] {
+  const trimmed = query.trim();
+  if (!trimmed) return getRecentSearches();
+  const next = [
+    trimmed,
+    ...getRecentSearches().filter((q) => q.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(next));
+  return next;
+}
+
+/**
+ * Forget all recent searches
+ */
+export function clearRecentSearches(): void {
+  localStorage.removeItem(RECENT_SEARCHES_KEY);
+}
@@ -0,0 +1,30 @@
+const RECENTLY_VIEWED_KEY = 'recently_viewed_products';
+const MAX_RECENTLY_VIEWED = 12;
+
+/**
+ * Read the ids of products viewed on this device, newest first
+ * @returns Product ids
+ */
+export function getRecentlyViewedIds(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENTLY_VIEWED_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Move a product to the front of the recently viewed list
+ * @param productId - Product the shopper opened
+ * @returns Updated product ids
+ */
+export function addRecentlyViewed(productId: string): string[] {
+  const next = [productId, ...getRecentlyViewedIds().filter((id) => id !== productId)].slice(
+    0,
+    MAX_RECENTLY_VIEWED
+  );
+  localStorage.setItem(RECENTLY_VIEWED_KEY, JSON.stringify(next));
+  return next;
+}
@@ -0,0 +1,86 @@
+/**
+ * Refund amounts and limits shared by the admin refund dialog and the order pages
+ */
+
+import { IOrder, IOrderRefund } from '../types/order.type';
+import { getLineKey } from './returns';
+
+// Money can only go back on orders that were actually paid
+export const REFUNDABLE_PAYMENT_STATUSES: IOrder['paymentStatus'][] = ['PAID', 'PARTIAL_REFUND'];
+
+// Refunds go back through the payment gateway; COD orders have no gateway payment to refund
+export const REFUNDABLE_PAYMENT_METHODS = ['RAZORPAY'];
+
+// Moving money is limited to admins, even where other roles can see the order
+export const REFUND_ROLES = ['SUPER_ADMIN', 'ADMIN'];
+
+/**
+ * Refunds that count against the order, i.e. everything except failed attempts
+ * @param order - Order to read refunds from
+ * @returns Pending and processed refunds, newest first
+ */
+export function getActiveRefunds(order: IOrder): IOrderRefund[] {
+  return (order.refunds ?? [])
+    .filter((r) => r.status !== 'FAILED')
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/**
+ * Total refunded so far, preferring the backend's figure
+ * @param order - Order to check
+ * @returns Amount already refunded in rupees
+ */
+export function getRefundedAmount(order: IOrder): number {
+  return order.refundedAmount ?? getActiveRefunds(order).reduce((sum, r) => sum + r.amount, 0);
+}
+
+/**
+ * How much can still be refunded on an order
+ * @param order - Order to check
+ * @returns Remaining refundable amount in rupees, 0 when the order isn't refundable through the gateway
+ */
+export function getRefundableAmount(order: IOrder): number {
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) return 0;
+  if (!REFUNDABLE_PAYMENT_METHODS.includes(order.paymentMethod)) return 0;
+  return Math.max(0, Math.round((order.totalAmount - getRefundedAmount(order)) * 100) / 100);
+}
+
+/**
+ * Sum the quantities already refunded per order line
+ * @param order - Order to check
+ * @returns Quantity per line key
+ */
+export function getRefundedQuantities(order: IOrder): Record<string, number> {
+  return getActiveRefunds(order)
+    .flatMap((r) => r.items)
+    .reduce<Record<string, number>>((acc, item) => {
+      const key = getLineKey(item);
+      acc[key] = (acc[key] || 0) + item.quantity;
+      return acc;
+    }, {});
+}
+
+/**
+ * Estimate the refund for a set of order lines. Discounts and tax are spread
+ * across lines in proportion to their value; shipping is only returned once
+ * every line has been refunded in full.
+ * @param order - Order being refunded
+ * @param quantities - Quantity to refund per line key
+ * @returns Suggested refund in rupees, capped at what is still refundable
+ */
+export function estimateItemsRefund(order: IOrder, quantities: Record<string, number>): number {
+  const refundable = getRefundableAmount(order);
+  const refunded = getRefundedQuantities(order);
+  const coversEverything = order.items.every(
+    (item) => (refunded[getLineKey(item)] || 0) + (quantities[getLineKey(item)] || 0) >= item.quantity
+  );
+  if (coversEverything) return refundable;
+  if (order.subtotal <= 0) return 0;
+
+  const linesValue = order.items.reduce(
+    (sum, item) => sum + item.price * (quantities[getLineKey(item)] || 0),
+    0
+  );
+  const ratio = (order.totalAmount - order.shippingFee) / order.subtotal;
+  return Math.min(refundable, Math.round(linesValue * ratio * 100) / 100);
+}
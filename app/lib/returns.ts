@@ -0,0 +1,77 @@
+/**
+ * Return/exchange eligibility rules shared by the order pages
+ */
+
+import { IOrder, IOrderItem } from '../types/order.type';
+import { IReturnRequest, ReturnReason, ReturnStatus } from '../types/return.type';
+
+export const RETURN_WINDOW_DAYS = 7;
+export const MAX_RETURN_PHOTOS = 5;
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  SIZE_TOO_SMALL: 'Size too small',
+  SIZE_TOO_LARGE: 'Size too large',
+  DAMAGED: 'Arrived damaged',
+  DEFECTIVE: 'Defective product',
+  WRONG_ITEM: 'Received the wrong item',
+  NOT_AS_DESCRIBED: 'Not as described',
+  CHANGED_MIND: 'Changed my mind',
+  OTHER: 'Other',
+};
+
+// Requests in these states still hold the order's items
+export const OPEN_RETURN_STATUSES: ReturnStatus[] = ['REQUESTED', 'APPROVED', 'PICKUP_SCHEDULED', 'PICKED_UP'];
+
+export interface IReturnWindow {
+  isEligible: boolean;
+  deadline: Date | null;
+  daysLeft: number;
+}
+
+/**
+ * Work out whether an order can still be returned or exchanged
+ * @param order - Order to check
+ * @param deliveredAt - Delivery timestamp, falls back to order.deliveredAt
+ * @returns Eligibility, last day of the window and whole days remaining
+ */
+export function getReturnWindow(order: IOrder, deliveredAt?: string | null): IReturnWindow {
+  const delivered = deliveredAt || order.deliveredAt;
+  if (order.status !== 'DELIVERED' || !delivered) {
+    return { isEligible: false, deadline: null, daysLeft: 0 };
+  }
+
+  const deadline = new Date(delivered);
+  deadline.setDate(deadline.getDate() + RETURN_WINDOW_DAYS);
+  const msLeft = deadline.getTime() - Date.now();
+
+  return {
+    isEligible: msLeft > 0,
+    deadline,
+    daysLeft: msLeft > 0 ? Math.ceil(msLeft / (1000 * 60 * 60 * 24)) : 0,
+  };
+}
+
+/**
+ * Key an order line by product and variant, since order items carry no id
+ * @param item - Order or return line
+ * @returns Stable line key
+ */
+export function getLineKey(item: Pick<IOrderItem, 'productId' | 'variantId'>): string {
+  return `${item.productId}_${item.variantId || 'default'}`;
+}
+
+/**
+ * Sum the quantities already claimed by open or completed return requests per order line
+ * @param returns - Return requests raised for one order
+ * @returns Quantity per line key
+ */
+export function getReturnedQuantities(returns: IReturnRequest[]): Record<string, number> {
+  return returns
+    .filter((r) => OPEN_RETURN_STATUSES.includes(r.status) || r.status === 'REFUNDED' || r.status === 'EXCHANGED')
+    .flatMap((r) => r.items)
+    .reduce<Record<string, number>>((acc, item) => {
+      const key = getLineKey(item);
+      acc[key] = (acc[key] || 0) + item.quantity;
+      return acc;
+    }, {});
+}
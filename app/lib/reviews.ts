@@ -0,0 +1,72 @@
+/**
+ * Review labels and helpers shared by the product page and the admin queue
+ */
+
+import { ReviewFit, ReviewFlag, ReviewReportReason, ReviewSortBy, ReviewStatus } from '../types/review.type';
+
+export const REVIEW_FLAG_LABELS: Record<ReviewFlag, string> = {
+  PROFANITY: 'Profanity',
+  SPAM: 'Looks like spam',
+  LINKS: 'Contains links',
+  DUPLICATE: 'Duplicate text',
+  SHOUTING: 'All caps',
+};
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  PENDING: 'Pending',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+};
+
+export const REVIEW_FIT_LABELS: Record<ReviewFit, string> = {
+  RUNS_SMALL: 'Runs small',
+  TRUE_TO_SIZE: 'True to size',
+  RUNS_LARGE: 'Runs large',
+};
+
+export const MAX_REVIEW_MEDIA = 5;
+// Videos go straight to S3, so keep them short enough to upload on mobile data
+export const MAX_REVIEW_VIDEO_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Where the fit answers lean, as a position on a small-to-large scale
+ * @param distribution - Count of each fit answer
+ * @returns Total answers and a 0-100 position (50 is true to size), or null with no answers
+ */
+export function getFitScore(distribution?: Record<ReviewFit, number>): { total: number; position: number } | null {
+  if (!distribution) return null;
+  const total = distribution.RUNS_SMALL + distribution.TRUE_TO_SIZE + distribution.RUNS_LARGE;
+  if (total === 0) return null;
+  return {
+    total,
+    position: Math.round(((distribution.TRUE_TO_SIZE * 50 + distribution.RUNS_LARGE * 100) / total)),
+  };
+}
+
+export const REVIEW_REPORT_REASON_LABELS: Record<ReviewReportReason, string> = {
+  SPAM: 'Spam or advertising',
+  OFFENSIVE: 'Offensive or abusive',
+  IRRELEVANT: 'Not about this product',
+  FAKE: 'Looks fake',
+  OTHER: 'Something else',
+};
+
+export const REVIEW_SORT_LABELS: Record<ReviewSortBy, string> = {
+  helpful: 'Most helpful',
+  recent: 'Most recent',
+  media: 'With photos',
+};
+
+// Query params on the star links in review request emails, e.g. /products/:id?rate=4&request=<token>
+export const REVIEW_REQUEST_RATING_PARAM = 'rate';
+export const REVIEW_REQUEST_TOKEN_PARAM = 'request';
+
+/**
+ * Read the star rating picked in a review request email
+ * @param value - Raw query param value
+ * @returns A whole rating from 1 to 5, or null when missing or out of range
+ */
+export function parseRequestedRating(value: string | string[] | undefined): number | null {
+  const rating = Number(Array.isArray(value) ? value[0] : value);
+  return Number.isInteger(rating) && rating >= 1 && rating <= 5 ? rating : null;
+}
@@ -107,3 +107,34 @@ export function getRequestId(error: AxiosError): string | undefined {
   
   return undefined;
 }
+
+/**
+ * Make an error from a `responseType: 'blob'` request readable by getErrorMessage.
+ * The error body arrives as a Blob too, so parse the JSON back out of it.
+ * @param error - Error thrown by the request
+ * @returns The same error, to rethrow
+ */
+export async function parseBlobError(error: unknown): Promise<unknown> {
+  if (error instanceof AxiosError && error.response?.data instanceof Blob) {
+    try {
+      error.response.data = JSON.parse(await error.response.data.text());
+    } catch {
+      // Not JSON, so the generic message is the best we have
+    }
+  }
+  return error;
+}
+
+/**
+ * Save a Blob returned by the API as a file download
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { useMemo } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { FiArrowLeft, FiDownload, FiPrinter } from "react-icons/fi";
+import { Button } from "@/app/components/ui/button";
+import { Card, CardContent } from "@/app/components/ui/card";
+import InvoiceDocument from "@/app/components/ui/InvoiceDocument";
+import { useDownloadInvoice, useInvoiceMeta } from "@/app/hooks/useInvoice";
+import { buildInvoice, isInvoiceAvailable } from "@/app/lib/invoice";
+import orderService from "@/app/services/order.service";
+import { IOrder } from "@/app/types/order.type";
+
+interface ActualOrderApiResponse {
+  data: {
+    data: IOrder;
+  };
+}
+
+export default function OrderInvoicePage() {
+  const params = useParams();
+  const router = useRouter();
+  const orderId = params["id"] as string;
+
+  const { data: order, isLoading: orderLoading } = useQuery({
+    queryKey: ["order", orderId, "detail"],
+    queryFn: async () => {
+      const response = await orderService.getOrder(orderId);
+      return (response as unknown as ActualOrderApiResponse).data.data;
+    },
+    enabled: !!orderId,
+  });
+  const canInvoice = !!order && isInvoiceAvailable(order);
+  const { data: meta, isLoading: metaLoading, isError } = useInvoiceMeta(orderId, canInvoice);
+  const downloadInvoice = useDownloadInvoice();
+
+  const invoice = useMemo(
+    () => (order && meta ? buildInvoice(order, meta) : null),
+    [order, meta]
+  );
+
+  if (orderLoading || (canInvoice && metaLoading)) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl mt-16 sm:mt-30">
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary mx-auto"></div>
+            <p className="mt-4 text-sm text-muted-foreground">Preparing invoice...</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!invoice) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl mt-16 sm:mt-30">
+        <Card>
+          <CardContent className="text-center py-12 px-4">
+            <h1 className="text-xl font-semibold mb-4">Invoice Not Available</h1>
+            <p className="text-sm text-muted-foreground mb-6">
+              {order && !canInvoice
+                ? "An invoice is issued once your order is confirmed."
+                : isError
+                  ? "We couldn't load the invoice for this order. Please try again later."
+                  : "The order you're looking for doesn't exist."}
+            </p>
+            <Button onClick={() => router.back()}>Go Back</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl mt-16 sm:mt-24 print:m-0 print:p-0 print:max-w-none">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6 print:hidden">
+        <Button variant="ghost" onClick={() => router.back()} className="-ml-2">
+          <FiArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => window.print()}>
+            <FiPrinter className="mr-2 h-4 w-4" />
+            Print
+          </Button>
+          <Button
+            onClick={() => downloadInvoice.mutate({ orderId, orderNumber: invoice.orderNumber })}
+            disabled={downloadInvoice.isPending}
+          >
+            <FiDownload className="mr-2 h-4 w-4" />
+            {downloadInvoice.isPending ? "Downloading..." : "Download PDF"}
+          </Button>
+        </div>
+      </div>
+      <InvoiceDocument invoice={invoice} />
+    </div>
+  );
+}
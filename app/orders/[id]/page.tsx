@@ -14,7 +14,20 @@ import ReviewModal from "@/app/components/ui/ReviewModal";
 import reviewService from "@/app/services/review.service";
 import { ICreateReviewData, IUpdateReviewData } from "@/app/types/review.type";
 import orderService from "@/app/services/order.service";
-import { FiArrowLeft } from "react-icons/fi";
+import ReturnRequestModal from "@/app/components/ui/ReturnRequestModal";
+import { useCancelReturn, useOrderReturns } from "@/app/hooks/useReturns";
+import {
+  RETURN_REASON_LABELS,
+  RETURN_WINDOW_DAYS,
+  getLineKey,
+  getReturnWindow,
+  getReturnedQuantities,
+} from "@/app/lib/returns";
+import { useDownloadInvoice } from "@/app/hooks/useInvoice";
+import { isInvoiceAvailable } from "@/app/lib/invoice";
+import { getRefundedAmount, getRefundedQuantities } from "@/app/lib/refunds";
+import Link from "next/link";
+import { FiArrowLeft, FiDownload, FiFileText } from "react-icons/fi";
 import { useRouter } from "next/navigation";
 
 interface ActualOrderApiResponse {
@@ -35,6 +48,10 @@ export default function OrderConfirmationPage() {
   const [ratingModalOpen, setRatingModalOpen] = useState(false);
   const [ratingProductId, setRatingProductId] = useState<string | null>(null);
   const [isSubmittingReview, setIsSubmittingReview] = useState(false);
+  const [returnModalOpen, setReturnModalOpen] = useState(false);
+  const { data: returns = [] } = useOrderReturns(orderId);
+  const cancelReturn = useCancelReturn();
+  const downloadInvoice = useDownloadInvoice();
 
   const loadOrder = useCallback(async () => {
     try {
@@ -67,6 +84,13 @@ export default function OrderConfirmationPage() {
     }
   }, [orderId, loadOrder, loadTracking]);
 
+  // The orders list links here with ?action=return
+  useEffect(() => {
+    if (order && new URLSearchParams(window.location.search).get("action") === "return") {
+      setReturnModalOpen(true);
+    }
+  }, [order]);
+
   const handleCancelOrder = async () => {
     if (!order) return;
 
@@ -128,6 +152,9 @@ export default function OrderConfirmationPage() {
         return "default";
       case "PENDING":
         return "outline";
+      case "REFUNDED":
+      case "PARTIAL_REFUND":
+        return "secondary";
       default:
         return "destructive";
     }
@@ -165,9 +192,17 @@ export default function OrderConfirmationPage() {
   // compute delivered date for messaging
   const deliveredAt = order.deliveredAt || tracking.find(t => t.status === 'DELIVERED')?.createdAt || null;
   const deliveredDate = deliveredAt ? new Date(deliveredAt) : null;
-  const today = new Date();
-  const diffDays = deliveredDate ? Math.floor((today.getTime() - deliveredDate.getTime()) / (1000 * 60 * 60 * 24)) : null;
-  const isReturnEligible = deliveredDate ? diffDays !== null && diffDays <= 30 : false;
+  const returnWindow = getReturnWindow(order, deliveredAt);
+  const isReturnEligible = returnWindow.isEligible;
+  const returnedQuantities = getReturnedQuantities(returns);
+  const hasReturnableItems = order.items.some(
+    (item) => item.quantity > (returnedQuantities[getLineKey(item)] || 0)
+  );
+  const refundedAmount = getRefundedAmount(order);
+  const refundedQuantities = getRefundedQuantities(order);
+  const refunds = [...(order.refunds ?? [])].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
 
   return (
     <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 max-w-7xl mt-16 sm:mt-24">
@@ -213,11 +248,14 @@ export default function OrderConfirmationPage() {
                       day: 'numeric',
                       year: 'numeric'
                     })}
-                    {/* {isReturnEligible ? (
-                      <span className="ml-2 text-blue-700">• Eligible for return/exchange (30 days)</span>
+                    {isReturnEligible ? (
+                      <span className="ml-2 text-blue-700">
+                        • Eligible for return/exchange until{" "}
+                        {returnWindow.deadline?.toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}
+                      </span>
                     ) : (
-                      <span className="ml-2 text-orange-700">• Return/exchange period expired</span>
-                    )} */}
+                      <span className="ml-2 text-orange-700">• Return/exchange period ({RETURN_WINDOW_DAYS} days) expired</span>
+                    )}
                   </AlertDescription>
                 </Alert>
               )}
@@ -252,6 +290,9 @@ export default function OrderConfirmationPage() {
                           <span>Color: {item.variant?.color || "Standard"}</span>
                           <span className="hidden sm:inline">•</span>
                           <span>Qty: {item.quantity}</span>
+                          {refundedQuantities[getLineKey(item)] ? (
+                            <span className="text-green-600">{refundedQuantities[getLineKey(item)]} refunded</span>
+                          ) : null}
                         </div>
                         {order.status === 'DELIVERED' && (
                           <Button 
@@ -308,9 +349,21 @@ export default function OrderConfirmationPage() {
                 <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-1 sm:gap-0">
                   <span className="text-xs sm:text-sm text-muted-foreground">Payment Status</span>
                   <Badge variant={getPaymentStatusVariant(order.paymentStatus)} className="w-fit text-xs">
-                    {order.paymentStatus}
+                    {order.paymentStatus.replace(/_/g, " ")}
                   </Badge>
                 </div>
+                {refundedAmount > 0 && (
+                  <>
+                    <Separator />
+                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-1 sm:gap-0">
+                      <span className="text-xs sm:text-sm text-muted-foreground">Refunded</span>
+                      <span className="font-medium text-xs sm:text-sm text-green-600">₹{refundedAmount.toLocaleString()}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Refunds reach your original payment method in 5–7 working days.
+                    </p>
+                  </>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -350,6 +403,20 @@ export default function OrderConfirmationPage() {
                   <span className="font-semibold text-base sm:text-lg">Total</span>
                   <span className="font-bold text-xl sm:text-2xl">₹{order.totalAmount.toLocaleString()}</span>
                 </div>
+                {refundedAmount > 0 && (
+                  <>
+                    <div className="flex justify-between text-xs sm:text-sm text-green-600">
+                      <span>Refunded</span>
+                      <span className="font-medium">-₹{refundedAmount.toLocaleString()}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="font-semibold text-sm sm:text-base">Net paid</span>
+                      <span className="font-bold text-base sm:text-lg">
+                        ₹{Math.max(0, order.totalAmount - refundedAmount).toLocaleString()}
+                      </span>
+                    </div>
+                  </>
+                )}
               </div>
 
               <Separator />
@@ -359,6 +426,34 @@ export default function OrderConfirmationPage() {
                 <Button onClick={handleTrackOrder} variant="outline" className="w-full text-sm sm:text-base">
                   Refresh Tracking
                 </Button>
+                {isInvoiceAvailable(order) && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button asChild variant="outline" className="w-full text-sm sm:text-base">
+                      <Link href={`/orders/${order.id}/invoice`}>
+                        <FiFileText className="mr-2 h-4 w-4" />
+                        Invoice
+                      </Link>
+                    </Button>
+                    <Button
+                      onClick={() => downloadInvoice.mutate({ orderId: order.id, orderNumber: order.orderNumber })}
+                      variant="outline"
+                      disabled={downloadInvoice.isPending}
+                      className="w-full text-sm sm:text-base"
+                    >
+                      <FiDownload className="mr-2 h-4 w-4" />
+                      {downloadInvoice.isPending ? "Downloading..." : "PDF"}
+                    </Button>
+                  </div>
+                )}
+                {isReturnEligible && hasReturnableItems && (
+                  <Button
+                    onClick={() => setReturnModalOpen(true)}
+                    variant="outline"
+                    className="w-full text-sm sm:text-base"
+                  >
+                    Return / Exchange
+                  </Button>
+                )}
                 {order.status === "PENDING" && (
                   <Button 
                     onClick={handleCancelOrder} 
@@ -380,18 +475,80 @@ export default function OrderConfirmationPage() {
             </CardContent>
           </Card>
 
+          {/* Returns & Exchanges */}
+          {returns.length > 0 && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base sm:text-lg">Returns & Exchanges</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 space-y-4">
+                {returns.map((ret, index) => (
+                  <div key={ret.id} className="space-y-2">
+                    {index > 0 && <Separator className="mb-4" />}
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">
+                        {ret.type === "EXCHANGE" ? "Exchange" : "Return"} · {RETURN_REASON_LABELS[ret.reason]}
+                      </span>
+                      <Badge variant={ret.status === "REJECTED" || ret.status === "CANCELLED" ? "destructive" : "secondary"} className="text-xs">
+                        {ret.status.replace(/_/g, " ")}
+                      </Badge>
+                    </div>
+                    <ul className="text-xs text-muted-foreground space-y-1">
+                      {ret.items.map((item) => (
+                        <li key={`${item.productId}_${item.variantId}`}>
+                          {item.product?.name || "Item"} × {item.quantity}
+                          {item.exchangeVariant && ` → size ${item.exchangeVariant.size}`}
+                        </li>
+                      ))}
+                    </ul>
+                    {ret.pickup && (
+                      <p className="text-xs text-muted-foreground">
+                        Pickup on {new Date(ret.pickup.scheduledFor).toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}
+                        {ret.pickup.courier && ` via ${ret.pickup.courier}`}
+                      </p>
+                    )}
+                    {ret.refundAmount ? (
+                      <p className="text-xs text-green-600">Refunded ₹{ret.refundAmount.toLocaleString()}</p>
+                    ) : null}
+                    {ret.adminNote && (
+                      <p className="text-xs text-muted-foreground italic">{ret.adminNote}</p>
+                    )}
+                    {ret.status === "REQUESTED" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="px-0 h-auto text-xs text-destructive hover:bg-transparent"
+                        onClick={() => cancelReturn.mutate(ret.id)}
+                        disabled={cancelReturn.isPending}
+                      >
+                        Cancel request
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Order Tracking */}
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-base sm:text-lg">Order Tracking</CardTitle>
             </CardHeader>
             <CardContent className="pt-0">
-              <OrderTrackingComponent tracking={tracking} currentStatus={order.status} />
+              <OrderTrackingComponent tracking={tracking} currentStatus={order.status} refunds={refunds} />
             </CardContent>
           </Card>
         </div>
       </div>
 
+      <ReturnRequestModal
+        isOpen={returnModalOpen && isReturnEligible && hasReturnableItems}
+        onClose={() => setReturnModalOpen(false)}
+        order={order}
+        returnedQuantities={returnedQuantities}
+      />
+
       {/* Review Modal */}
       <ReviewModal
         isOpen={ratingModalOpen}
@@ -5,11 +5,18 @@ import { use, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useProduct } from "@/app/hooks/useProducts";
 import { useReviews } from "@/app/hooks/useReviews";
+import {
+  parseRequestedRating,
+  REVIEW_REQUEST_RATING_PARAM,
+  REVIEW_REQUEST_TOKEN_PARAM,
+} from "@/app/lib/reviews";
 import { useAddToCart } from "@/app/hooks/useCart";
+import { useAuth } from "@/app/hooks/useAuth";
 import { useAppDispatch } from "@/app/store/hooks";
 import { fetchCart, clearCart } from "@/app/store/slices/cartSlice";
 import { Button } from "@/app/components/ui/button";
 import ProductReviews from "@/app/components/ui/ProductReviews";
+import RecommendedProducts from "@/app/components/sections/RecommendedProducts";
 import {
   FaTruck,
   FaCreditCard,
@@ -24,17 +31,27 @@ import {
   FaPlus,
   FaShoppingBag,
   FaBolt,
+  FaBell,
 } from "react-icons/fa";
 import Image from "next/image";
 import {
   useWishlist,
   useCreateWishlistItems,
   useDeleteWishlistItems,
+  useStockAlerts,
+  useCreateStockAlert,
+  useCancelStockAlert,
 } from "@/app/hooks/useWishlist";
 import { useSingleProductStock } from "@/app/hooks/useCartValidation";
+import {
+  useFrequentlyBoughtTogether,
+  useRecentlyViewed,
+  useSimilarProducts,
+} from "@/app/hooks/useRecommendations";
 import { toast } from "react-hot-toast";
 import { IWishlistItem } from "@/app/types/wishlist.type";
 import SizeGuideModal from "@/app/components/ui/SizeGuideModal";
+import DeliveryEstimator from "@/app/components/ui/DeliveryEstimator";
 import { Badge } from "@/app/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/app/components/ui/card";
 import { Separator } from "@/app/components/ui/separator";
@@ -47,9 +64,19 @@ import {
 } from "@/app/components/ui/accordion";
 
 type Params = { id: string };
-
-export default function ProductPage({ params }: { params: Promise<Params> }) {
+type SearchParams = { [key: string]: string | string[] | undefined };
+
+export default function ProductPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<Params>;
+  searchParams: Promise<SearchParams>;
+}) {
   const { id } = use(params);
+  const query = use(searchParams);
+  const requestedRating = parseRequestedRating(query[REVIEW_REQUEST_RATING_PARAM]);
+  const reviewRequestToken = query[REVIEW_REQUEST_TOKEN_PARAM];
   const router = useRouter();
   const dispatch = useAppDispatch();
   const { data: product, isLoading, error } = useProduct(id);
@@ -57,9 +84,18 @@ export default function ProductPage({ params }: { params: Promise<Params> }) {
   const { data: wishlistResponse } = useWishlist();
   const createWishlistMutation = useCreateWishlistItems();
   const deleteWishlistMutation = useDeleteWishlistItems();
+  const { isAuthenticated } = useAuth();
+  const { data: stockAlertsResponse } = useStockAlerts();
+  const createStockAlert = useCreateStockAlert();
+  const cancelStockAlert = useCancelStockAlert();
   const { addItemToCart, loading: cartLoading } = useAddToCart();
   const { data: stockInfo, isLoading: stockLoading } =
     useSingleProductStock(id);
+  const { data: boughtTogether, isLoading: boughtTogetherLoading } =
+    useFrequentlyBoughtTogether(id);
+  const { data: similarProducts, isLoading: similarLoading } =
+    useSimilarProducts(id);
+  const { data: recentlyViewed } = useRecentlyViewed(id);
 
   // State management
   const [selectedFit, setSelectedFit] = useState<string>("");
@@ -111,6 +147,22 @@ export default function ProductPage({ params }: { params: Promise<Params> }) {
 
   const sizes = sizesForFit;
 
+  const variantForSize = (size: string) =>
+    product?.variants?.find(
+      (v) => v.size === size && (!selectedFit || v.fit === selectedFit)
+    );
+  const selectedVariant = selectedSize ? variantForSize(selectedSize) : undefined;
+  const isOutOfStock =
+    stockInfo?.stockQuantity === 0 || selectedVariant?.stock === 0;
+
+  // An open "notify me" request for exactly this selection
+  const activeStockAlert = (stockAlertsResponse?.data || []).find(
+    (alert) =>
+      alert.status === "WAITING" &&
+      alert.productId === id &&
+      alert.variantId === (selectedVariant?.id ?? null)
+  );
+
   // Fallback data for missing properties
   const companyFeatures = product?.companyFeatures || [
     {
@@ -162,6 +214,14 @@ export default function ProductPage({ params }: { params: Promise<Params> }) {
     }
   };
 
+  const handleNotifyMe = () => {
+    if (!isAuthenticated) {
+      router.push(`/login?next=/products/${id}`);
+      return;
+    }
+    createStockAlert.mutate({ productId: id, variantId: selectedVariant?.id });
+  };
+
   const handleQuantityChange = (newQuantity: number) => {
     if (newQuantity >= 1 && newQuantity <= 10) {
       setQuantity(newQuantity);
@@ -632,7 +692,8 @@ export default function ProductPage({ params }: { params: Promise<Params> }) {
                     selectedSize === size
                       ? "ring-2 ring-primary/20 shadow-md"
                       : "hover:border-primary/50"
-                  }`}
+                  } ${variantForSize(size)?.stock === 0 ? "line-through opacity-60" : ""}`}
+                  title={variantForSize(size)?.stock === 0 ? "Sold out" : undefined}
                 >
                   {size}
                 </Button>
@@ -695,13 +756,13 @@ export default function ProductPage({ params }: { params: Promise<Params> }) {
                 size="lg"
                 className="flex-1 h-14 p-2 text-base font-semibold shadow-lg shadow-primary/20 hover:shadow-xl hover:shadow-primary/30 transition-all"
                 disabled={
-                  (hasFits && !selectedFit) || !selectedSize || cartLoading || stockInfo?.stockQuantity === 0
+                  (hasFits && !selectedFit) || !selectedSize || cartLoading || isOutOfStock
                 }
               >
                 <FaShoppingBag className="mr-2 h-5 w-5" />
                 {cartLoading
                   ? "Adding..."
-                  : stockInfo?.stockQuantity === 0
+                  : isOutOfStock
                   ? "Out of Stock"
                   : "Add to Cart"}
               </Button>
@@ -711,17 +772,48 @@ export default function ProductPage({ params }: { params: Promise<Params> }) {
                 onClick={handleBuyNow}
                 className="flex-1 h-14 p-2 text-base font-semibold border-2 hover:bg-primary  hover:border-primary transition-all"
                 disabled={
-                  (hasFits && !selectedFit) || !selectedSize || cartLoading || stockInfo?.stockQuantity === 0
+                  (hasFits && !selectedFit) || !selectedSize || cartLoading || isOutOfStock
                 }
               >
                 <FaBolt className="mr-2 h-5 w-5" />
                 {cartLoading
                   ? "Processing..."
-                  : stockInfo?.stockQuantity === 0
+                  : isOutOfStock
                   ? "Out of Stock"
                   : "Buy Now"}
               </Button>
             </div>
+            {isOutOfStock && (!hasFits || selectedFit) && (selectedSize || sizes.length === 0) && (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-border/60 px-4 py-3">
+                <p className="text-sm text-muted-foreground">
+                  {activeStockAlert
+                    ? "We'll email you as soon as this is back in stock."
+                    : selectedSize
+                    ? `Size ${selectedSize} is sold out. Get an email when it's back.`
+                    : "Sold out. Get an email when it's back."}
+                </p>
+                {activeStockAlert ? (
+                  <Button
+                    variant="link"
+                    size="sm"
+                    onClick={() => cancelStockAlert.mutate(activeStockAlert.id)}
+                    disabled={cancelStockAlert.isPending}
+                    className="h-auto p-0"
+                  >
+                    Cancel alert
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    onClick={handleNotifyMe}
+                    disabled={createStockAlert.isPending}
+                  >
+                    <FaBell className="mr-2 h-4 w-4" />
+                    Notify Me
+                  </Button>
+                )}
+              </div>
+            )}
             {(hasFits && !selectedFit) || !selectedSize ? (
               <div className="bg-destructive/10 border border-destructive/30 rounded-lg px-4 py-3 text-center">
                 <p className="text-sm font-medium text-destructive">
@@ -733,6 +825,11 @@ export default function ProductPage({ params }: { params: Promise<Params> }) {
             ) : null}
           </div>
 
+          {/* Pincode serviceability */}
+          <div className="rounded-xl border border-border/60 p-4">
+            <DeliveryEstimator productId={product.id} />
+          </div>
+
           <Separator />
 
           {/* Company Features */}
@@ -780,7 +877,8 @@ export default function ProductPage({ params }: { params: Promise<Params> }) {
                     <div>
                       <h4 className="font-semibold text-sm mb-1">Estimated Delivery</h4>
                       <p className="text-sm text-muted-foreground">
-                        {deliveryInfo.estimatedDays} business days
+                        {deliveryInfo.estimatedDays} business days. Enter your pincode
+                        above for an exact date.
                       </p>
                     </div>
                   </div>
@@ -877,6 +975,12 @@ export default function ProductPage({ params }: { params: Promise<Params> }) {
         </div>
       </div>
 
+      <RecommendedProducts
+        title="Frequently Bought Together"
+        products={boughtTogether}
+        isLoading={boughtTogetherLoading}
+      />
+
       {/* Reviews Section - Full Width */}
       <div className="mt-16">
         <Separator className="mb-12" />
@@ -895,10 +999,19 @@ export default function ProductPage({ params }: { params: Promise<Params> }) {
             productId={product.id}
             showSummary={true}
             showAddButton={true}
+            requestedRating={requestedRating}
+            reviewRequestToken={typeof reviewRequestToken === "string" ? reviewRequestToken : undefined}
           />
         </div>
       </div>
 
+      <RecommendedProducts
+        title="Similar Items"
+        products={similarProducts}
+        isLoading={similarLoading}
+      />
+      <RecommendedProducts title="Recently Viewed" products={recentlyViewed} />
+
       {/* Size Guide Modal */}
       <SizeGuideModal
         isOpen={isSizeGuideOpen}
@@ -1,20 +1,52 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useMemo, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import ProductCard from "@/app/components/ui/ProductCard";
+import Sidebar from "@/app/components/ui/products/Sidebar";
+import { Sheet, SheetContent, SheetTitle } from "@/app/components/ui/sheet";
 import { IoMdArrowDropdown } from "react-icons/io";
-import { useProducts } from "../hooks/useProducts";
+import { FiFilter, FiX } from "react-icons/fi";
+import { useProductFacets, useProducts } from "../hooks/useProducts";
 import { IProductSearchParams } from "../types/product.type";
+import {
+  DEFAULT_PRODUCT_FILTERS,
+  countActiveFilters,
+  parseProductFilters,
+  productFiltersToQuery,
+} from "../lib/productFilters";
+import { formatCurrency } from "../lib/formatters";
 
-export default function ProductsPage() {
-  const [searchParams, setSearchParams] = useState<IProductSearchParams>({
-    page: 1,
-    limit: 12,
-    sortBy: "createdAt",
-    sortOrder: "desc",
-  });
+function ProductsContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const query = useSearchParams();
+  const [showFilters, setShowFilters] = useState(false);
+
+  // The URL is the source of truth so filtered views can be shared
+  const searchParams = useMemo(() => parseProductFilters(new URLSearchParams(query.toString())), [query]);
 
   const { data: productsData, isLoading, error } = useProducts(searchParams);
+  const { data: facets } = useProductFacets(searchParams);
+  const activeFilterCount = countActiveFilters(searchParams);
+
+  const setSearchParams = (update: (prev: IProductSearchParams) => IProductSearchParams) => {
+    const queryString = productFiltersToQuery(update(searchParams));
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
+  };
+
+  const handleFilterChange = (patch: Partial<IProductSearchParams>) => {
+    setSearchParams((prev) => ({ ...prev, ...patch, page: 1 }));
+  };
+
+  const clearFilters = () => {
+    setSearchParams((prev) => ({
+      ...DEFAULT_PRODUCT_FILTERS,
+      search: prev.search,
+      sortBy: prev.sortBy,
+      sortOrder: prev.sortOrder,
+    }));
+  };
 
   const handleSortChange = (sortBy: string) => {
     let actualSortBy = sortBy;
@@ -35,46 +67,52 @@ export default function ProductsPage() {
     }));
   };
 
-  if (isLoading) {
-    return (
-      <div className="container mx-auto px-4 py-8 mt-30">
-        <div className="flex justify-end items-center mb-6">
-          <div className="relative">
-            <select
-              className="appearance-none px-4 py-2 pr-8 border border-gray-300"
-              disabled
-            >
-              <option>Loading...</option>
-            </select>
-            <IoMdArrowDropdown className="absolute right-2 top-1/2 transform -translate-y-1/2" />
-          </div>
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {[1, 2, 3, 4, 5, 6].map((i) => (
-            <div key={i} className="animate-pulse">
-              <div className="bg-gray-200 aspect-square mb-4"></div>
-              <div className="h-4 bg-gray-200 mb-2"></div>
-              <div className="h-4 bg-gray-200 w-1/2"></div>
-            </div>
-          ))}
-        </div>
-      </div>
-    );
-  }
+  const products = productsData?.data || [];
 
-  if (error) {
-    return (
-      <div className="container mx-auto px-4 py-8 mt-30">
-        <div className="text-center text-red-500">Error loading products</div>
-      </div>
-    );
-  }
+  // Removable chips for everything currently applied
+  const activeChips: Array<{ key: string; label: string; patch: Partial<IProductSearchParams> }> = [
+    ...(searchParams.category
+      ? [{
+          key: "category",
+          label: facets?.categories.find((c) => c.value === searchParams.category)?.label ?? searchParams.category,
+          patch: { category: undefined },
+        }]
+      : []),
+    ...(searchParams.minPrice !== undefined || searchParams.maxPrice !== undefined
+      ? [{
+          key: "price",
+          label: searchParams.maxPrice !== undefined
+            ? `${formatCurrency(searchParams.minPrice ?? 0)} – ${formatCurrency(searchParams.maxPrice)}`
+            : `${formatCurrency(searchParams.minPrice ?? 0)} & above`,
+          patch: { minPrice: undefined, maxPrice: undefined },
+        }]
+      : []),
+    ...(["genders", "sizes", "fits", "colors"] as const).flatMap((key) =>
+      ((searchParams[key] as string[] | undefined) ?? []).map((value) => {
+        const remaining = (searchParams[key] as string[]).filter((v) => v !== value);
+        return {
+          key: `${key}-${value}`,
+          label: facets?.[key].find((f) => f.value === value)?.label ?? value,
+          patch: { [key]: remaining.length > 0 ? remaining : undefined },
+        };
+      })
+    ),
+  ];
 
-  const products = productsData?.data || [];
+  const sidebar = (
+    <Sidebar facets={facets} filters={searchParams} onChange={handleFilterChange} onClear={clearFilters} />
+  );
 
   return (
     <div className="container mx-auto px-4 py-8 mt-30 max-w-7xl">
-      <div className="flex justify-end items-center mb-6">
+      <div className="flex justify-between lg:justify-end items-center mb-6 gap-4">
+        <button
+          onClick={() => setShowFilters(true)}
+          className="lg:hidden flex items-center gap-2 px-4 py-2 border border-gray-300 cursor-pointer"
+        >
+          <FiFilter />
+          Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+        </button>
         <div className="relative">
           <select
             value={
@@ -98,45 +136,112 @@ export default function ProductsPage() {
         </div>
       </div>
 
-      {/* Products Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {products.map((product) => (
-          <ProductCard key={product.id} {...product} images={product.images || []} discountedPrice={product.discountedPrice} />
-        ))}
-      </div>
+      <div className="flex gap-8">
+        <aside className="hidden lg:block">{sidebar}</aside>
 
-      {/* No Results Message */}
-      {products.length === 0 && (
-        <div className="text-center py-8">
-          <p className="text-gray-500">
-            No products found matching your criteria.
-          </p>
-        </div>
-      )}
-
-      {/* Pagination */}
-      {productsData && productsData.meta.totalPages > 1 && (
-        <div className="flex justify-center mt-8">
-          <div className="flex space-x-2">
-            {Array.from(
-              { length: productsData.meta.totalPages },
-              (_, i) => i + 1
-            ).map((page) => (
-              <button
-                key={page}
-                onClick={() => setSearchParams((prev: IProductSearchParams) => ({ ...prev, page }))}
-                className={`px-3 py-2 border ${
-                  searchParams.page === page
-                    ? "bg-black text-white border-black cursor-pointer"
-                    : "bg-white text-black border-gray-300 hover:bg-gray-50 cursor-pointer"
-                }`}
-              >
-                {page}
+        <div className="flex-1 min-w-0">
+          {activeChips.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+              {activeChips.map((chip) => (
+                <button
+                  key={chip.key}
+                  onClick={() => handleFilterChange(chip.patch)}
+                  className="flex items-center gap-1 px-3 py-1 text-sm border border-black cursor-pointer"
+                >
+                  {chip.label}
+                  <FiX className="w-3 h-3" />
+                </button>
+              ))}
+              <button onClick={clearFilters} className="text-sm underline cursor-pointer">
+                Clear all
               </button>
-            ))}
-          </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {[1, 2, 3, 4, 5, 6].map((i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="bg-gray-200 aspect-square mb-4"></div>
+                  <div className="h-4 bg-gray-200 mb-2"></div>
+                  <div className="h-4 bg-gray-200 w-1/2"></div>
+                </div>
+              ))}
+            </div>
+          ) : error ? (
+            <div className="text-center text-red-500">Error loading products</div>
+          ) : (
+            <>
+              {/* Products Grid */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {products.map((product) => (
+                  <ProductCard key={product.id} {...product} images={product.images || []} discountedPrice={product.discountedPrice} />
+                ))}
+              </div>
+
+              {/* No Results Message */}
+              {products.length === 0 && (
+                <div className="text-center py-8">
+                  <p className="text-gray-500">
+                    No products found matching your criteria.
+                  </p>
+                  {activeFilterCount > 0 && (
+                    <button onClick={clearFilters} className="mt-2 text-sm underline cursor-pointer">
+                      Clear all filters
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Pagination */}
+              {productsData && productsData.meta.totalPages > 1 && (
+                <div className="flex justify-center mt-8">
+                  <div className="flex space-x-2">
+                    {Array.from(
+                      { length: productsData.meta.totalPages },
+                      (_, i) => i + 1
+                    ).map((page) => (
+                      <button
+                        key={page}
+                        onClick={() => setSearchParams((prev: IProductSearchParams) => ({ ...prev, page }))}
+                        className={`px-3 py-2 border ${
+                          searchParams.page === page
+                            ? "bg-black text-white border-black cursor-pointer"
+                            : "bg-white text-black border-gray-300 hover:bg-gray-50 cursor-pointer"
+                        }`}
+                      >
+                        {page}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
         </div>
-      )}
+      </div>
+
+      {/* Mobile filters */}
+      <Sheet open={showFilters} onOpenChange={setShowFilters}>
+        <SheetContent side="left" className="w-72 overflow-y-auto py-6">
+          <SheetTitle className="px-4 mb-4">Filters</SheetTitle>
+          {sidebar}
+        </SheetContent>
+      </Sheet>
     </div>
   );
 }
+
+export default function ProductsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="container mx-auto px-4 py-8 mt-30">
+          <p className="text-center text-gray-500">Loading...</p>
+        </div>
+      }
+    >
+      <ProductsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,12 @@
+"use client";
+
+import ProfileLayout from "@/app/components/layout/ProfileLayout";
+import { NotificationsSection } from "@/app/components/ui/profile/NotificationsSection";
+
+export default function NotificationsPage() {
+  return (
+    <ProfileLayout>
+      <NotificationsSection />
+    </ProfileLayout>
+  );
+}
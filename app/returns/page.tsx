@@ -42,20 +42,28 @@ export default function ReturnsPage() {
           <h2 className="text-2xl font-semibold mb-4">How to Initiate a Return</h2>
           <ol className="list-decimal pl-6 text-gray-700 space-y-2">
             <li>
-              Visit our{" "}
-              <a href="/contact" className="text-black font-medium hover:underline">
-                Contact Page
+              Go to{" "}
+              <a href="/profile/orders" className="text-black font-medium hover:underline">
+                My Orders
               </a>{" "}
-              or email us at{" "}
-              <span className="font-semibold">contact.kulangara@gmail.com</span>.
+              and open the delivered order.
+            </li>
+            <li>
+              Choose <span className="font-semibold">Return / Exchange</span>,
+              select the items, tell us why and add photos if anything arrived
+              damaged. For an exchange, pick the new size.
             </li>
             <li>
-              Provide your order number and details of the item you wish to
-              return/exchange.
+              Once approved, we&apos;ll schedule a pickup from your address.
+              You can follow the status on the order page.
             </li>
             <li>
-              Our team will guide you with the return process and shipping
-              instructions.
+              Can&apos;t find your order? Visit our{" "}
+              <a href="/contact" className="text-black font-medium hover:underline">
+                Contact Page
+              </a>{" "}
+              or email us at{" "}
+              <span className="font-semibold">contact.kulangara@gmail.com</span>.
             </li>
           </ol>
         </section>
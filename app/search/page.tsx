@@ -0,0 +1,265 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { FiFilter } from "react-icons/fi";
+import { IoMdArrowDropdown } from "react-icons/io";
+import ProductCard from "@/app/components/ui/ProductCard";
+import Sidebar from "@/app/components/ui/products/Sidebar";
+import { Sheet, SheetContent, SheetTitle } from "@/app/components/ui/sheet";
+import { useProductFacets } from "@/app/hooks/useProducts";
+import { useRecentSearches, useSearchResults, useTrendingSearches } from "@/app/hooks/useSearch";
+import {
+  DEFAULT_PRODUCT_FILTERS,
+  countActiveFilters,
+  parseProductFilters,
+  productFiltersToQuery,
+} from "@/app/lib/productFilters";
+import { IProductSearchParams } from "@/app/types/product.type";
+
+const searchHref = (q: string, exact?: boolean) =>
+  `/search?q=${encodeURIComponent(q)}${exact ? "&exact=1" : ""}`;
+
+function SearchContent() {
+  const router = useRouter();
+  const query = useSearchParams();
+  const [showFilters, setShowFilters] = useState(false);
+  const q = (query.get("q") || "").trim();
+  const exact = query.get("exact") === "1";
+
+  // Search results default to relevance rather than the catalog's newest-first
+  const filters = useMemo(() => {
+    const parsed = parseProductFilters(new URLSearchParams(query.toString()));
+    return query.has("sortBy") ? parsed : { ...parsed, sortBy: "relevance", sortOrder: undefined };
+  }, [query]);
+  const { data: results, isLoading, error } = useSearchResults({ ...filters, q, exact });
+  // Facets follow whichever spelling the results are for
+  const { data: facets } = useProductFacets({ ...filters, search: results?.correctedQuery ?? q });
+  const { data: trending = [] } = useTrendingSearches();
+  const { recent, add: addRecent } = useRecentSearches();
+  const activeFilterCount = countActiveFilters(filters);
+
+  useEffect(() => {
+    if (q) addRecent(q);
+  }, [q, addRecent]);
+
+  const setFilters = (next: IProductSearchParams) => {
+    const params = new URLSearchParams(productFiltersToQuery(next));
+    if (next.sortBy === "relevance") {
+      params.delete("sortBy");
+      params.delete("sortOrder");
+    } else {
+      params.set("sortBy", next.sortBy ?? "createdAt");
+    }
+    params.set("q", q);
+    if (exact) params.set("exact", "1");
+    router.replace(`/search?${params.toString()}`, { scroll: false });
+  };
+
+  const handleFilterChange = (patch: Partial<IProductSearchParams>) => {
+    setFilters({ ...filters, ...patch, page: 1 });
+  };
+
+  const clearFilters = () => {
+    setFilters({ ...DEFAULT_PRODUCT_FILTERS, sortBy: filters.sortBy, sortOrder: filters.sortOrder });
+  };
+
+  const handleSortChange = (value: string) => {
+    const [sortBy, sortOrder] = value === "price-asc" ? ["price", "asc"] : value === "price-desc" ? ["price", "desc"] : [value, "desc"];
+    setFilters({ ...filters, sortBy, sortOrder: sortOrder as "asc" | "desc", page: 1 });
+  };
+
+  if (!q) {
+    return (
+      <div className="container mx-auto px-4 py-8 mt-30 max-w-3xl">
+        <h1 className="text-2xl font-bold mb-6">Search</h1>
+        <SearchIdeas recent={recent} trending={trending.map((t) => t.query)} />
+      </div>
+    );
+  }
+
+  const products = results?.data || [];
+  const total = results?.meta.total ?? 0;
+  const sidebar = (
+    <Sidebar facets={facets} filters={filters} onChange={handleFilterChange} onClear={clearFilters} />
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8 mt-30 max-w-7xl">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">
+          {results?.correctedQuery ? (
+            <>Showing results for &ldquo;{results.correctedQuery}&rdquo;</>
+          ) : (
+            <>Results for &ldquo;{q}&rdquo;</>
+          )}
+        </h1>
+        {results?.correctedQuery && (
+          <p className="text-sm text-gray-600 mt-1">
+            Search instead for{" "}
+            <Link href={searchHref(q, true)} className="underline">
+              {q}
+            </Link>
+          </p>
+        )}
+        {!results?.correctedQuery && results?.didYouMean && (
+          <p className="text-sm text-gray-600 mt-1">
+            Did you mean{" "}
+            <Link href={searchHref(results.didYouMean)} className="font-semibold italic underline">
+              {results.didYouMean}
+            </Link>
+            ?
+          </p>
+        )}
+        {results && <p className="text-sm text-gray-500 mt-1">{total} product{total === 1 ? "" : "s"}</p>}
+      </div>
+
+      <div className="flex justify-between lg:justify-end items-center mb-6 gap-4">
+        <button
+          onClick={() => setShowFilters(true)}
+          className="lg:hidden flex items-center gap-2 px-4 py-2 border border-gray-300 cursor-pointer"
+        >
+          <FiFilter />
+          Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+        </button>
+        <div className="relative">
+          <select
+            value={
+              filters.sortBy === "price"
+                ? `price-${filters.sortOrder}`
+                : filters.sortBy
+            }
+            onChange={(e) => handleSortChange(e.target.value)}
+            className="appearance-none px-4 py-2 pr-8 border border-gray-300 cursor-pointer"
+          >
+            <option value="relevance">Relevance</option>
+            <option value="createdAt">Newest</option>
+            <option value="price-asc">Price: Low to High</option>
+            <option value="price-desc">Price: High to Low</option>
+            <option value="name">Name: A to Z</option>
+          </select>
+          <IoMdArrowDropdown className="absolute right-2 top-1/2 transform -translate-y-1/2" />
+        </div>
+      </div>
+
+      <div className="flex gap-8">
+        <aside className="hidden lg:block">{sidebar}</aside>
+
+        <div className="flex-1 min-w-0">
+          {isLoading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {[1, 2, 3, 4, 5, 6].map((i) => (
+                <div key={i} className="animate-pulse">
+                  <div className="bg-gray-200 aspect-square mb-4"></div>
+                  <div className="h-4 bg-gray-200 mb-2"></div>
+                  <div className="h-4 bg-gray-200 w-1/2"></div>
+                </div>
+              ))}
+            </div>
+          ) : error ? (
+            <div className="text-center text-red-500">Error loading search results</div>
+          ) : products.length === 0 ? (
+            <div className="py-8">
+              <p className="text-gray-600 mb-6">
+                No products found for &ldquo;{q}&rdquo;
+                {activeFilterCount > 0 && (
+                  <>
+                    {" "}with these filters.{" "}
+                    <button onClick={clearFilters} className="underline cursor-pointer">
+                      Clear filters
+                    </button>
+                  </>
+                )}
+              </p>
+              <SearchIdeas recent={recent.filter((r) => r !== q)} trending={trending.map((t) => t.query)} />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {products.map((product) => (
+                  <ProductCard key={product.id} {...product} images={product.images || []} discountedPrice={product.discountedPrice} />
+                ))}
+              </div>
+
+              {/* Pagination */}
+              {results && results.meta.totalPages > 1 && (
+                <div className="flex justify-center mt-8">
+                  <div className="flex space-x-2">
+                    {Array.from({ length: results.meta.totalPages }, (_, i) => i + 1).map((page) => (
+                      <button
+                        key={page}
+                        onClick={() => setFilters({ ...filters, page })}
+                        className={`px-3 py-2 border ${
+                          filters.page === page
+                            ? "bg-black text-white border-black cursor-pointer"
+                            : "bg-white text-black border-gray-300 hover:bg-gray-50 cursor-pointer"
+                        }`}
+                      >
+                        {page}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Mobile filters */}
+      <Sheet open={showFilters} onOpenChange={setShowFilters}>
+        <SheetContent side="left" className="w-72 overflow-y-auto py-6">
+          <SheetTitle className="px-4 mb-4">Filters</SheetTitle>
+          {sidebar}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
+
+function SearchIdeas({ recent, trending }: { recent: string[]; trending: string[] }) {
+  if (recent.length === 0 && trending.length === 0) {
+    return (
+      <Link href="/products" className="underline">
+        Browse all products
+      </Link>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {[
+        { title: "Recent searches", queries: recent },
+        { title: "Trending searches", queries: trending },
+      ]
+        .filter((group) => group.queries.length > 0)
+        .map((group) => (
+          <div key={group.title}>
+            <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">{group.title}</h2>
+            <div className="flex flex-wrap gap-2">
+              {group.queries.slice(0, 8).map((term) => (
+                <Link key={term} href={searchHref(term)} className="px-3 py-1 text-sm border border-gray-300 hover:border-black">
+                  {term}
+                </Link>
+              ))}
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
+
+export default function SearchPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="container mx-auto px-4 py-8 mt-30">
+          <p className="text-center text-gray-500">Loading...</p>
+        </div>
+      }
+    >
+      <SearchContent />
+    </Suspense>
+  );
+}
@@ -7,7 +7,13 @@ import {
   IUserListResponse,
   IUserFilters,
   IEmailData,
-  IAnalyticsFilters
+  IAnalyticsFilters,
+  IEmailTemplate,
+  IEmailTemplateVersion,
+  ISaveEmailTemplateData,
+  IEmailDraft,
+  ISaveEmailDraftData,
+  ITestEmailData
 } from '../types/admin.type';
 
 const adminService = {
@@ -58,6 +64,60 @@ const adminService = {
     await axiosInstance.post('/api/v1/admin/emails/send', emailData);
   },
 
+  // Send to the signed-in admin only
+  sendTestEmail: async (emailData: ITestEmailData): Promise<void> => {
+    await axiosInstance.post('/api/v1/admin/emails/test', emailData);
+  },
+
+  // Email Templates
+  getEmailTemplates: async (): Promise<IEmailTemplate[]> => {
+    const response = await axiosInstance.get('/api/v1/admin/emails/templates');
+    return response.data.data;
+  },
+
+  createEmailTemplate: async (data: ISaveEmailTemplateData): Promise<IEmailTemplate> => {
+    const response = await axiosInstance.post('/api/v1/admin/emails/templates', data);
+    return response.data.data;
+  },
+
+  // Saves a new version; the previous one is kept in the history
+  updateEmailTemplate: async (templateId: string, data: ISaveEmailTemplateData): Promise<IEmailTemplate> => {
+    const response = await axiosInstance.put(`/api/v1/admin/emails/templates/${templateId}`, data);
+    return response.data.data;
+  },
+
+  deleteEmailTemplate: async (templateId: string): Promise<void> => {
+    await axiosInstance.delete(`/api/v1/admin/emails/templates/${templateId}`);
+  },
+
+  getEmailTemplateVersions: async (templateId: string): Promise<IEmailTemplateVersion[]> => {
+    const response = await axiosInstance.get(`/api/v1/admin/emails/templates/${templateId}/versions`);
+    return response.data.data;
+  },
+
+  // Copies an old version forward as the newest one
+  restoreEmailTemplateVersion: async (templateId: string, version: number): Promise<IEmailTemplate> => {
+    const response = await axiosInstance.post(`/api/v1/admin/emails/templates/${templateId}/versions/${version}/restore`);
+    return response.data.data;
+  },
+
+  // Email Drafts
+  getEmailDrafts: async (): Promise<IEmailDraft[]> => {
+    const response = await axiosInstance.get('/api/v1/admin/emails/drafts');
+    return response.data.data;
+  },
+
+  saveEmailDraft: async (data: ISaveEmailDraftData, draftId?: string): Promise<IEmailDraft> => {
+    const response = draftId
+      ? await axiosInstance.put(`/api/v1/admin/emails/drafts/${draftId}`, data)
+      : await axiosInstance.post('/api/v1/admin/emails/drafts', data);
+    return response.data.data;
+  },
+
+  deleteEmailDraft: async (draftId: string): Promise<void> => {
+    await axiosInstance.delete(`/api/v1/admin/emails/drafts/${draftId}`);
+  },
+
   // Analytics with caching
   getAnalytics: async (filters?: IAnalyticsFilters): Promise<Record<string, unknown>> => {
     const response = await axiosInstance.get('/api/v1/admin/analytics', { params: filters });
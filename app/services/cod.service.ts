@@ -0,0 +1,48 @@
+import axiosInstance from '../lib/axios';
+import {
+    ICodEligibility,
+    ICodEligibilityRequest,
+    ICodOtpChallenge,
+    ICodOtpVerification,
+    ICodRtoAnalytics,
+    ICodRtoFilters,
+    ICodRules,
+    ISendCodOtpData,
+    IUpdateCodRulesData,
+    IVerifyCodOtpData,
+} from '../types/cod.type';
+
+const codService = {
+    // Check the COD rules against the signed-in customer's cart and pincode
+    checkEligibility: async (data: ICodEligibilityRequest): Promise<ICodEligibility> => {
+        const response = await axiosInstance.post('/api/v1/cod/eligibility', data);
+        return response.data.data;
+    },
+    // Text a one-time code to the delivery phone number
+    sendOtp: async (data: ISendCodOtpData): Promise<ICodOtpChallenge> => {
+        const response = await axiosInstance.post('/api/v1/cod/otp/send', data);
+        return response.data.data;
+    },
+    // Exchange the code for a token to place the COD order with
+    verifyOtp: async (data: IVerifyCodOtpData): Promise<ICodOtpVerification> => {
+        const response = await axiosInstance.post('/api/v1/cod/otp/verify', data);
+        return response.data.data;
+    },
+    // Admin: Get COD rules
+    getRules: async (): Promise<ICodRules> => {
+        const response = await axiosInstance.get('/api/v1/cod/admin/rules');
+        return response.data.data;
+    },
+    // Admin: Update COD rules
+    updateRules: async (data: IUpdateCodRulesData): Promise<ICodRules> => {
+        const response = await axiosInstance.put('/api/v1/cod/admin/rules', data);
+        return response.data.data;
+    },
+    // Admin: Return-to-origin rate of COD orders per delivery pincode, worst first
+    getRtoAnalytics: async (filters?: ICodRtoFilters): Promise<ICodRtoAnalytics> => {
+        const response = await axiosInstance.get('/api/v1/admin/analytics/cod-rto', { params: filters });
+        return response.data.data;
+    },
+};
+
+export default codService;
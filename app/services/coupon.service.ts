@@ -1,10 +1,10 @@
-import axiosInstance from '../lib/axios';
+import axiosInstance, { publicAxios } from '../lib/axios';
 import { ICoupon, ICouponFilters, ICouponListResponse, ICouponValidationResponse, ICreateCouponData, IUpdateCouponData } from '../types/coupon.type';
 
 const couponService = {
-    // Validate coupon code
+    // Validate coupon code. Guests can apply coupons too; signed-in shoppers send cookies for per-customer limits
     validateCoupon: async (code: string): Promise<ICouponValidationResponse> => {
-        const response = await axiosInstance.get(`/api/v1/coupons/validate/${code}`);
+        const response = await publicAxios.get(`/api/v1/coupons/validate/${code}`, { withCredentials: true });
         return response.data;
     },
     // Admin: List coupons
@@ -0,0 +1,43 @@
+import axiosInstance, { publicAxios } from '../lib/axios';
+import {
+    IPincodeServiceability,
+    IPincodeZone,
+    IPincodeZoneFilters,
+    IPincodeZoneListResponse,
+    ICreatePincodeZoneData,
+    IUpdatePincodeZoneData,
+} from '../types/delivery.type';
+
+const deliveryService = {
+    // Check serviceability, COD and delivery dates for a pincode
+    checkPincode: async (pincode: string, productId?: string): Promise<IPincodeServiceability> => {
+        const response = await publicAxios.get(`/api/v1/delivery/check-pincode/${pincode}`, {
+            params: productId ? { productId } : undefined,
+        });
+        return response.data.data;
+    },
+    // Admin: List pincode zones
+    getPincodeZones: async (filters?: IPincodeZoneFilters): Promise<IPincodeZoneListResponse> => {
+        const response = await axiosInstance.get('/api/v1/delivery/admin/zones', { params: filters });
+        return {
+            data: response.data.data,
+            meta: response.data.meta,
+        };
+    },
+    // Admin: Create pincode zone
+    createPincodeZone: async (data: ICreatePincodeZoneData): Promise<IPincodeZone> => {
+        const response = await axiosInstance.post('/api/v1/delivery/admin/zones', data);
+        return response.data.data;
+    },
+    // Admin: Update pincode zone
+    updatePincodeZone: async (id: string, data: IUpdatePincodeZoneData): Promise<IPincodeZone> => {
+        const response = await axiosInstance.put(`/api/v1/delivery/admin/zones/${id}`, data);
+        return response.data.data;
+    },
+    // Admin: Delete pincode zone
+    deletePincodeZone: async (id: string): Promise<void> => {
+        await axiosInstance.delete(`/api/v1/delivery/admin/zones/${id}`);
+    },
+};
+
+export default deliveryService;
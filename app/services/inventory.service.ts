@@ -0,0 +1,29 @@
+import axiosInstance from '../lib/axios';
+import {
+    IBulkStockAdjustmentData,
+    IBulkStockAdjustmentResult,
+    IInventoryFilters,
+    IInventoryListResponse,
+    IStockMovementFilters,
+    IStockMovementListResponse,
+} from '../types/inventory.type';
+
+const inventoryService = {
+    // Admin: Every variant with on-hand, reserved and days of cover
+    getInventory: async (filters?: IInventoryFilters): Promise<IInventoryListResponse> => {
+        const response = await axiosInstance.get('/api/v1/inventory', { params: filters });
+        return response.data;
+    },
+    // Admin: Apply one reason to many SKUs. Each item writes a ledger entry.
+    adjustStock: async (data: IBulkStockAdjustmentData): Promise<IBulkStockAdjustmentResult> => {
+        const response = await axiosInstance.post('/api/v1/inventory/adjustments', data);
+        return response.data.data;
+    },
+    // Admin: Movement ledger for one SKU, newest first
+    getMovements: async (variantId: string, filters?: IStockMovementFilters): Promise<IStockMovementListResponse> => {
+        const response = await axiosInstance.get(`/api/v1/inventory/variants/${variantId}/movements`, { params: filters });
+        return response.data;
+    },
+};
+
+export default inventoryService;
@@ -0,0 +1,35 @@
+import axiosInstance from '../lib/axios';
+import { parseBlobError } from '../lib/utils';
+import { IInvoiceMeta } from '../types/invoice.type';
+
+const invoiceService = {
+    // Get invoice number, seller details and HSN codes for an order
+    getInvoiceMeta: async (orderId: string): Promise<IInvoiceMeta> => {
+        const response = await axiosInstance.get(`/api/v1/orders/${orderId}/invoice`);
+        return response.data.data;
+    },
+    // Download the invoice as a PDF
+    downloadInvoicePdf: async (orderId: string): Promise<Blob> => {
+        try {
+            const response = await axiosInstance.get(`/api/v1/orders/${orderId}/invoice/pdf`, {
+                responseType: 'blob',
+            });
+            return response.data;
+        } catch (error) {
+            throw await parseBlobError(error);
+        }
+    },
+    // Admin: Download invoices for several orders as a zip of PDFs
+    bulkDownloadInvoices: async (orderIds: string[]): Promise<Blob> => {
+        try {
+            const response = await axiosInstance.post('/api/v1/orders/admin/invoices/download', { orderIds }, {
+                responseType: 'blob',
+            });
+            return response.data;
+        } catch (error) {
+            throw await parseBlobError(error);
+        }
+    },
+};
+
+export default invoiceService;
@@ -1,5 +1,6 @@
-import axiosInstance from '../lib/axios';
-import { IOrderRequest, IOrderResponse, IOrderListResponse, IOrderTrackingServiceResponse, IOrderFilters } from '../types/order.type';
+import axiosInstance, { publicAxios } from '../lib/axios';
+import { parseBlobError } from '../lib/utils';
+import { ICreateRefundData, IOrderRequest, IOrderResponse, IOrderListResponse, IOrderTrackingServiceResponse, IOrderFilters, IOrderTrackingEventData, ITrackOrderLookupData, OrderExportFormat } from '../types/order.type';
 
 const orderService = {
     // Create a new order
@@ -26,6 +27,13 @@ const orderService = {
         return response.data;
     },
 
+    // Track an order without logging in. The backend rate limits this per IP
+    // and answers 404 for any mismatch so order numbers cannot be probed.
+    lookupOrderTracking: async (data: ITrackOrderLookupData): Promise<IOrderTrackingServiceResponse> => {
+        const response = await publicAxios.post('/api/v1/orders/track', data);
+        return response.data;
+    },
+
     // Get user orders (for customers)
     getUserOrders: async (): Promise<IOrderListResponse> => {
         const response = await axiosInstance.get('/api/v1/orders/list');
@@ -38,18 +46,52 @@ const orderService = {
         return response.data;
     },
 
+    // Export every order matching the filters (for admin). The backend pages
+    // through the results and streams one row per line item, with the
+    // shipping address split into columns.
+    exportOrders: async (
+        filters: IOrderFilters,
+        format: OrderExportFormat,
+        onProgress?: (bytesLoaded: number) => void
+    ): Promise<Blob> => {
+        try {
+            const response = await axiosInstance.get('/api/v1/orders/admin/export', {
+                params: { ...filters, page: undefined, limit: undefined, format },
+                responseType: 'blob',
+                onDownloadProgress: (event) => onProgress?.(event.loaded),
+            });
+            return response.data;
+        } catch (error) {
+            throw await parseBlobError(error);
+        }
+    },
+
     // Update order status (for admin)
     updateOrderStatus: async (orderId: string, status: string): Promise<IOrderResponse> => {
         const response = await axiosInstance.put(`/api/v1/orders/admin/${orderId}/status`, { status });
         return response.data;
     },
 
+    // Append an entry to the order's tracking history (for admin)
+    addTrackingEvent: async (orderId: string, data: IOrderTrackingEventData): Promise<IOrderResponse> => {
+        const response = await axiosInstance.post(`/api/v1/orders/admin/${orderId}/tracking`, data);
+        return response.data;
+    },
+
     // Update payment status (for admin)
     updatePaymentStatus: async (orderId: string, paymentStatus: string): Promise<IOrderResponse> => {
         const response = await axiosInstance.put(`/api/v1/orders/admin/${orderId}/payment-status`, { paymentStatus });
         return response.data;
     },
 
+    // Refund through the payment gateway (for admin). The backend records the
+    // refund on the order timeline, recomputes the totals and sets the payment
+    // status to PARTIAL_REFUND or REFUNDED.
+    createRefund: async (orderId: string, data: ICreateRefundData): Promise<IOrderResponse> => {
+        const response = await axiosInstance.post(`/api/v1/orders/admin/${orderId}/refunds`, data);
+        return response.data;
+    },
+
     // Get analytics (for admin)
     getAnalytics: async () => {
         const response = await axiosInstance.get('/api/v1/admin/analytics');
@@ -1,9 +1,23 @@
-import axiosInstance from '../lib/axios';
+import axiosInstance, { publicAxios } from '../lib/axios';
+import { ICheckoutFormData } from '../types/checkout.type';
+import {
+    IPaymentReconciliationResult,
+    IUnmatchedPaymentFilters,
+    IUnmatchedPaymentListResponse,
+    ReservationReleaseReason,
+} from '../types/payment.type';
 
 export interface IRazorpayOrderRequest {
     orderId: string;
 }
 
+// Contact and shipping details sent instead of a saved address for guest checkout
+export interface IGuestCheckoutDetails {
+    email: string;
+    phone: string;
+    shippingAddress: Omit<ICheckoutFormData, 'email'>;
+}
+
 export interface IRazorpayCartOrderRequest {
     cartData: {
         items: Array<{
@@ -13,11 +27,14 @@ export interface IRazorpayCartOrderRequest {
             price: number;
         }>;
         subtotal: number;
+        shipping: number;
         tax: number;
         discount: number;
         total: number;
+        quoteId: string; // price quote the totals came from
         couponCode?: string;
-        shippingAddressId: string;
+        shippingAddressId?: string;
+        guest?: IGuestCheckoutDetails;
     };
     userEmail?: string;
     userPhone?: string;
@@ -39,6 +56,11 @@ export interface IRazorpayOrderResponse {
         theme: {
             color: string;
         };
+        // Cart units are held against orderId until payment is verified or this runs out
+        reservation?: {
+            expiresAt: string;
+            ttlSeconds: number;
+        };
     };
 }
 
@@ -58,12 +80,18 @@ export interface IRazorpayVerifyWithCartRequest {
             variantId?: string;
             quantity: number;
         }>;
-        shippingAddressId: string;
+        shippingAddressId?: string;
+        guest?: IGuestCheckoutDetails;
+        quoteId?: string;
         paymentMethod: string;
         couponCode?: string;
     };
 }
 
+// Records saved by older builds only have the ids, so the rest is optional
+export type IPaymentReconcileRequest = Pick<IRazorpayVerifyWithCartRequest, 'razorpay_order_id' | 'razorpay_payment_id'> &
+    Partial<IRazorpayVerifyWithCartRequest>;
+
 export interface IRazorpayVerifyResponse {
     status: string;
     message: string;
@@ -71,6 +99,7 @@ export interface IRazorpayVerifyResponse {
         verified: boolean;
         paymentId: string;
         orderId: string;
+        orderNumber?: string;
     };
 }
 
@@ -81,9 +110,10 @@ const paymentService = {
         return response.data;
     },
 
-    // Create Razorpay order from cart (new - no database order required)
+    // Create Razorpay order from cart (new - no database order required).
+    // Guests can check out too, so a 401 mustn't bounce them to login; signed-in shoppers send cookies.
     createRazorpayOrderFromCart: async (data: IRazorpayCartOrderRequest): Promise<IRazorpayOrderResponse> => {
-        const response = await axiosInstance.post('/api/v1/payments/create-cart-order', data);
+        const response = await publicAxios.post('/api/v1/payments/create-cart-order', data, { withCredentials: true });
         return response.data;
     },
 
@@ -93,10 +123,45 @@ const paymentService = {
         return response.data;
     },
 
-    // Verify payment and create order from cart (new)
+    // Verify payment and create order from cart (new). Consumes the stock reservation.
+    // Runs after the money is captured, so guests must never be sent to login here.
     verifyRazorpayPaymentAndCreateOrder: async (data: IRazorpayVerifyWithCartRequest): Promise<IRazorpayVerifyResponse> => {
-        const response = await axiosInstance.post('/api/v1/payments/verify-and-create', data);
+        const response = await publicAxios.post('/api/v1/payments/verify-and-create', data, { withCredentials: true });
         return response.data;
+    },
+
+    // Give reserved units back to stock when the shopper doesn't complete payment. Guests reach this too.
+    releaseStockReservation: async (razorpayOrderId: string, reason: ReservationReleaseReason): Promise<void> => {
+        await publicAxios.post(
+            `/api/v1/payments/reservations/${razorpayOrderId}/release`,
+            { reason },
+            { withCredentials: true }
+        );
+    },
+
+    // Retry a captured payment whose verify call failed. Idempotent: returns the existing order if there is one.
+    // Runs on every page, including for guests, so a 401 mustn't redirect to login.
+    reconcilePayment: async (data: IPaymentReconcileRequest): Promise<IPaymentReconciliationResult> => {
+        const response = await publicAxios.post('/api/v1/payments/reconcile', data, { withCredentials: true });
+        return response.data.data;
+    },
+
+    // Admin: Captured payments with no matching order
+    getUnmatchedPayments: async (filters?: IUnmatchedPaymentFilters): Promise<IUnmatchedPaymentListResponse> => {
+        const response = await axiosInstance.get('/api/v1/payments/admin/unmatched', { params: filters });
+        return response.data;
+    },
+
+    // Admin: Build the order from the cart saved with the Razorpay order
+    createOrderFromPayment: async (paymentId: string): Promise<IPaymentReconciliationResult> => {
+        const response = await axiosInstance.post(`/api/v1/payments/admin/unmatched/${paymentId}/create-order`);
+        return response.data.data;
+    },
+
+    // Admin: Refund the full captured amount
+    refundUnmatchedPayment: async (paymentId: string, note?: string): Promise<IPaymentReconciliationResult> => {
+        const response = await axiosInstance.post(`/api/v1/payments/admin/unmatched/${paymentId}/refund`, { note });
+        return response.data.data;
     }
 };
 
@@ -0,0 +1,16 @@
+import { publicAxios } from '../lib/axios';
+import { IPriceBreakdown, IPriceQuoteRequest, IPriceQuoteResponse } from '../types/pricing.type';
+
+const pricingService = {
+    // Get shipping, GST, promotions and totals for a set of cart lines.
+    // Public so that guest carts get the same breakdown as signed-in ones;
+    // cookies are still sent so first-order offers can see who is signed in.
+    getQuote: async (data: IPriceQuoteRequest): Promise<IPriceBreakdown> => {
+        const response = await publicAxios.post<IPriceQuoteResponse>('/api/v1/pricing/quote', data, {
+            withCredentials: true,
+        });
+        return response.data.data;
+    },
+};
+
+export default pricingService;
@@ -1,17 +1,25 @@
 import axiosInstance, { publicAxios } from '../lib/axios';
-import { IProduct, IProductListResponse, IProductSearchParams, ICreateProductData, IUpdateProductData, ICreateVariantData, IUpdateVariantData } from '../types/product.type';
+import { toProductApiParams } from '../lib/productFilters';
+import { parseBlobError } from '../lib/utils';
+import { IProduct, IProductListResponse, IProductSearchParams, ICreateProductData, IUpdateProductData, ICreateVariantData, IUpdateVariantData, CatalogFileFormat, IProductImportPreview, IProductImportResult, IProductFacets } from '../types/product.type';
 import { ICategoryListResponse } from '../types/category.type';
 
 const productsService = {
     // Get all products
     getProducts: async (params?: IProductSearchParams): Promise<IProductListResponse> => {
-        const response = await publicAxios.get('/api/v1/products/list', { params });
+        const response = await publicAxios.get('/api/v1/products/list', { params: toProductApiParams(params) });
+        return response.data.data;
+    },
+
+    // Get facet values and counts for the storefront filters
+    getProductFacets: async (params?: IProductSearchParams): Promise<IProductFacets> => {
+        const response = await publicAxios.get('/api/v1/products/facets', { params: toProductApiParams(params) });
         return response.data.data;
     },
 
     // Get all products for admin (includes complete details, images, variants, metadata)
     getAdminProducts: async (params?: IProductSearchParams): Promise<IProductListResponse> => {
-        const response = await axiosInstance.get('/api/v1/products/admin/list', { params });
+        const response = await axiosInstance.get('/api/v1/products/admin/list', { params: toProductApiParams(params) });
         return response.data.data;
     },
 
@@ -27,12 +35,6 @@ const productsService = {
         return response.data.data;
     },
 
-    // Search products
-    searchProducts: async (query: string): Promise<IProduct[]> => {
-        const response = await publicAxios.get(`/api/v1/products/search?q=${encodeURIComponent(query)}`);
-        return response.data.data;
-    },
-
     // Admin: Create product
     createProduct: async (productData: ICreateProductData): Promise<IProduct> => {
         const response = await axiosInstance.post('/api/v1/products', productData);
@@ -97,6 +99,35 @@ const productsService = {
         await axiosInstance.delete(`/api/v1/products/${productId}/variants/${variantId}`);
     },
 
+    // Admin: Validate a catalog CSV/XLSX without writing anything
+    previewProductImport: async (file: File): Promise<IProductImportPreview> => {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await axiosInstance.post('/api/v1/products/admin/import/preview', formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
+        return response.data.data;
+    },
+
+    // Admin: Apply a previewed import
+    commitProductImport: async (importId: string): Promise<IProductImportResult> => {
+        const response = await axiosInstance.post(`/api/v1/products/admin/import/${importId}/commit`);
+        return response.data.data;
+    },
+
+    // Admin: Export the catalog (one row per variant) in the import format
+    exportProducts: async (format: CatalogFileFormat): Promise<Blob> => {
+        try {
+            const response = await axiosInstance.get('/api/v1/products/admin/export', {
+                params: { format },
+                responseType: 'blob',
+            });
+            return response.data;
+        } catch (error) {
+            throw await parseBlobError(error);
+        }
+    },
+
     // Categories
     getCategories: async (): Promise<ICategoryListResponse> => {
         const response = await publicAxios.get('/api/v1/categories');
@@ -1,5 +1,5 @@
 import axiosInstance from '../lib/axios';
-import { IProfileResponse, IProfileUpdateRequest, IChangePasswordRequest, IChangePasswordResponse, IAddressResponse, IAddressCreateRequest, IAddressUpdateRequest, ISingleAddressResponse } from '../types/profile.type';
+import { IProfileResponse, IProfileUpdateRequest, IChangePasswordRequest, IChangePasswordResponse, IAddressResponse, IAddressCreateRequest, IAddressUpdateRequest, ISingleAddressResponse, INotificationPreferences, INotificationPreferencesResponse } from '../types/profile.type';
 
 // Admin: List users
 const listUsers = async (search?: string) => {
@@ -86,6 +86,16 @@ export const ProfileService = {
         return response.data;
     },
 
+    getNotificationPreferences: async (): Promise<INotificationPreferencesResponse> => {
+        const response = await axiosInstance.get('/api/v1/users/notification-preferences');
+        return response.data;
+    },
+
+    updateNotificationPreferences: async (data: Partial<INotificationPreferences>): Promise<INotificationPreferencesResponse> => {
+        const response = await axiosInstance.put('/api/v1/users/notification-preferences', data);
+        return response.data;
+    },
+
     listUsers,
     updateUserRole,
     updateUserStatus,
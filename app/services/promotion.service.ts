@@ -0,0 +1,35 @@
+import axiosInstance from '../lib/axios';
+import {
+    ICreatePromotionData,
+    IPromotion,
+    IPromotionFilters,
+    IPromotionListResponse,
+    IUpdatePromotionData,
+} from '../types/promotion.type';
+
+const promotionService = {
+    // Admin: List promotions, highest priority first
+    getPromotions: async (filters?: IPromotionFilters): Promise<IPromotionListResponse> => {
+        const response = await axiosInstance.get('/api/v1/promotions/admin/promotions', { params: filters });
+        return {
+            data: response.data.data,
+            meta: response.data.meta,
+        };
+    },
+    // Admin: Create promotion
+    createPromotion: async (data: ICreatePromotionData): Promise<IPromotion> => {
+        const response = await axiosInstance.post('/api/v1/promotions/admin/promotions', data);
+        return response.data.data;
+    },
+    // Admin: Update promotion
+    updatePromotion: async (id: string, data: IUpdatePromotionData): Promise<IPromotion> => {
+        const response = await axiosInstance.put(`/api/v1/promotions/admin/promotions/${id}`, data);
+        return response.data.data;
+    },
+    // Admin: Delete promotion
+    deletePromotion: async (id: string): Promise<void> => {
+        await axiosInstance.delete(`/api/v1/promotions/admin/promotions/${id}`);
+    },
+};
+
+export default promotionService;
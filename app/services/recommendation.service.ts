@@ -0,0 +1,40 @@
+import axiosInstance, { publicAxios } from '../lib/axios';
+import { IProduct } from '../types/product.type';
+
+const recommendationService = {
+    // Products most often ordered together with this one (co-purchase pairs from order history)
+    getFrequentlyBoughtTogether: async (productId: string, limit = 4): Promise<IProduct[]> => {
+        const response = await publicAxios.get(`/api/v1/recommendations/products/${productId}/bought-together`, { params: { limit } });
+        return response.data.data;
+    },
+    // Products close to this one by category, material, gender and price band
+    getSimilarProducts: async (productId: string, limit = 4): Promise<IProduct[]> => {
+        const response = await publicAxios.get(`/api/v1/recommendations/products/${productId}/similar`, { params: { limit } });
+        return response.data.data;
+    },
+    // Co-purchases across every item in the cart, excluding what's already in it
+    getCartRecommendations: async (productIds: string[], limit = 4): Promise<IProduct[]> => {
+        const response = await publicAxios.get('/api/v1/recommendations/cart', {
+            params: { productIds: productIds.join(','), limit },
+        });
+        return response.data.data;
+    },
+    // Signed-in shopper's view history, newest first
+    getRecentlyViewed: async (limit = 8): Promise<IProduct[]> => {
+        const response = await axiosInstance.get('/api/v1/recommendations/recently-viewed', { params: { limit } });
+        return response.data.data;
+    },
+    // Guests keep their history locally, so resolve those ids to active products (order preserved)
+    resolveRecentlyViewed: async (productIds: string[]): Promise<IProduct[]> => {
+        const response = await publicAxios.get('/api/v1/recommendations/recently-viewed/resolve', {
+            params: { productIds: productIds.join(',') },
+        });
+        return response.data.data;
+    },
+    // Record a product view against the signed-in shopper
+    recordProductView: async (productId: string): Promise<void> => {
+        await axiosInstance.post('/api/v1/recommendations/recently-viewed', { productId });
+    },
+};
+
+export default recommendationService;
@@ -0,0 +1,72 @@
+import axiosInstance from '../lib/axios';
+import {
+    ICreateReturnData,
+    IIssueReturnRefundData,
+    IReturnFilters,
+    IReturnListResponse,
+    IReturnRequest,
+    ISchedulePickupData,
+} from '../types/return.type';
+
+const returnService = {
+    // Get presigned URLs for return photos
+    getPhotoUploadUrls: async (orderId: string, fileTypes: string[]): Promise<{ uploadUrls: Array<{ uploadURL: string; key: string; url: string }> }> => {
+        const response = await axiosInstance.post('/api/v1/returns/photos/upload-urls', { orderId, fileTypes });
+        return response.data.data;
+    },
+    // Create a return or exchange request
+    createReturn: async (data: ICreateReturnData): Promise<IReturnRequest> => {
+        const response = await axiosInstance.post('/api/v1/returns', data);
+        return response.data.data;
+    },
+    // Get return requests raised for an order
+    getOrderReturns: async (orderId: string): Promise<IReturnRequest[]> => {
+        const response = await axiosInstance.get(`/api/v1/returns/order/${orderId}`);
+        return response.data.data;
+    },
+    // Cancel a return request that has not been picked up yet
+    cancelReturn: async (id: string): Promise<IReturnRequest> => {
+        const response = await axiosInstance.post(`/api/v1/returns/${id}/cancel`);
+        return response.data.data;
+    },
+    // Admin: List return requests
+    getAllReturns: async (filters?: IReturnFilters): Promise<IReturnListResponse> => {
+        const response = await axiosInstance.get('/api/v1/returns/admin/list', { params: filters });
+        return {
+            data: response.data.data,
+            meta: response.data.meta,
+        };
+    },
+    // Admin: Approve a return request
+    approveReturn: async (id: string, note?: string): Promise<IReturnRequest> => {
+        const response = await axiosInstance.post(`/api/v1/returns/admin/${id}/approve`, { note });
+        return response.data.data;
+    },
+    // Admin: Reject a return request
+    rejectReturn: async (id: string, note: string): Promise<IReturnRequest> => {
+        const response = await axiosInstance.post(`/api/v1/returns/admin/${id}/reject`, { note });
+        return response.data.data;
+    },
+    // Admin: Schedule reverse pickup
+    schedulePickup: async (id: string, data: ISchedulePickupData): Promise<IReturnRequest> => {
+        const response = await axiosInstance.post(`/api/v1/returns/admin/${id}/pickup`, data);
+        return response.data.data;
+    },
+    // Admin: Mark the parcel as received back
+    markPickedUp: async (id: string): Promise<IReturnRequest> => {
+        const response = await axiosInstance.post(`/api/v1/returns/admin/${id}/picked-up`);
+        return response.data.data;
+    },
+    // Admin: Refund a returned item
+    issueRefund: async (id: string, data: IIssueReturnRefundData): Promise<IReturnRequest> => {
+        const response = await axiosInstance.post(`/api/v1/returns/admin/${id}/refund`, data);
+        return response.data.data;
+    },
+    // Admin: Dispatch the replacement for an exchange
+    completeExchange: async (id: string): Promise<IReturnRequest> => {
+        const response = await axiosInstance.post(`/api/v1/returns/admin/${id}/exchange`);
+        return response.data.data;
+    },
+};
+
+export default returnService;
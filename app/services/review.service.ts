@@ -1,12 +1,37 @@
 import axiosInstance, { publicAxios } from '../lib/axios';
-import { IReview, ICreateReviewData, IUpdateReviewData, IReviewListResponse, IReviewFilters } from '../types/review.type';
+import {
+    IReview,
+    ICreateReviewData,
+    IUpdateReviewData,
+    IReviewListResponse,
+    IReviewFilters,
+    IAdminReviewFilters,
+    IAdminReviewListResponse,
+    IModerateReviewsData,
+    IReviewReplyData,
+    IReviewMediaItem,
+    IReportReviewData,
+    ReviewVote,
+    IReviewRequestSettings,
+    IUpdateReviewRequestSettingsData,
+} from '../types/review.type';
 
 const reviewService = {
+    // Cookies are sent so the list can include the shopper's own votes and reports
     getReviews: async (productId: string, filters?: IReviewFilters): Promise<IReviewListResponse> => {
-        const response = await publicAxios.get(`/api/v1/products/${productId}/reviews`, { params: filters });
+        const response = await publicAxios.get(`/api/v1/products/${productId}/reviews`, {
+            params: filters,
+            withCredentials: true,
+        });
         return response.data.data;
     },
 
+    // The signed-in shopper's own review of a product, or null if they haven't written one
+    getMyReview: async (productId: string): Promise<IReview | null> => {
+        const response = await axiosInstance.get(`/api/v1/products/${productId}/reviews/mine`);
+        return response.data.data.review ?? null;
+    },
+
     createReview: async (productId: string, reviewData: ICreateReviewData): Promise<IReview> => {
         const response = await axiosInstance.post(`/api/v1/products/${productId}/reviews`, reviewData);
         return response.data.data.review;
@@ -20,6 +45,75 @@ const reviewService = {
     deleteReview: async (productId: string, reviewId: string): Promise<void> => {
         await axiosInstance.delete(`/api/v1/products/${productId}/reviews/${reviewId}`);
     },
+
+    // Mark a review helpful or not; null clears the shopper's vote
+    voteReview: async (productId: string, reviewId: string, vote: ReviewVote | null): Promise<void> => {
+        if (vote) {
+            await axiosInstance.put(`/api/v1/products/${productId}/reviews/${reviewId}/vote`, { vote });
+        } else {
+            await axiosInstance.delete(`/api/v1/products/${productId}/reviews/${reviewId}/vote`);
+        }
+    },
+
+    // Report a review to the moderation queue
+    reportReview: async (productId: string, reviewId: string, data: IReportReviewData): Promise<void> => {
+        await axiosInstance.post(`/api/v1/products/${productId}/reviews/${reviewId}/report`, data);
+    },
+
+    // Customer photos and videos from approved reviews, newest first
+    getReviewMedia: async (productId: string): Promise<IReviewMediaItem[]> => {
+        const response = await publicAxios.get(`/api/v1/products/${productId}/reviews/media`);
+        return response.data.data;
+    },
+
+    // Get presigned URLs for review photos and videos
+    getMediaUploadUrls: async (productId: string, fileTypes: string[]): Promise<{ uploadUrls: Array<{ uploadURL: string; key: string; url: string }> }> => {
+        const response = await axiosInstance.post(`/api/v1/products/${productId}/reviews/media/upload-urls`, { fileTypes });
+        return response.data.data;
+    },
+
+    // Admin: Moderation queue across all products
+    getAdminReviews: async (filters?: IAdminReviewFilters): Promise<IAdminReviewListResponse> => {
+        const response = await axiosInstance.get('/api/v1/reviews/admin', { params: filters });
+        return {
+            data: response.data.data,
+            meta: response.data.meta,
+        };
+    },
+
+    // Admin: Approve or reject several reviews at once
+    moderateReviews: async (data: IModerateReviewsData): Promise<{ updated: number }> => {
+        const response = await axiosInstance.post('/api/v1/reviews/admin/moderate', data);
+        return response.data.data;
+    },
+
+    // Admin: Add or replace the brand's public reply
+    replyToReview: async (reviewId: string, data: IReviewReplyData): Promise<IReview> => {
+        const response = await axiosInstance.put(`/api/v1/reviews/admin/${reviewId}/reply`, data);
+        return response.data.data;
+    },
+
+    // Admin: Remove the brand's reply
+    deleteReviewReply: async (reviewId: string): Promise<void> => {
+        await axiosInstance.delete(`/api/v1/reviews/admin/${reviewId}/reply`);
+    },
+
+    // Admin: Post-delivery review request email settings
+    getReviewRequestSettings: async (): Promise<IReviewRequestSettings> => {
+        const response = await axiosInstance.get('/api/v1/reviews/admin/request-emails');
+        return response.data.data;
+    },
+
+    // Admin: Update the review request schedule and email content
+    updateReviewRequestSettings: async (data: IUpdateReviewRequestSettingsData): Promise<IReviewRequestSettings> => {
+        const response = await axiosInstance.put('/api/v1/reviews/admin/request-emails', data);
+        return response.data.data;
+    },
+
+    // Admin: Send the review request email to the signed-in admin using their latest delivered order
+    sendTestReviewRequest: async (): Promise<void> => {
+        await axiosInstance.post('/api/v1/reviews/admin/request-emails/test');
+    },
 };
 
 export default reviewService;
\ No newline at end of file
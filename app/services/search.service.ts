@@ -0,0 +1,35 @@
+import axiosInstance, { publicAxios } from '../lib/axios';
+import { toProductApiParams } from '../lib/productFilters';
+import {
+    ISearchAnalytics,
+    ISearchAnalyticsFilters,
+    ISearchParams,
+    ISearchResultsResponse,
+    ISearchSuggestions,
+    ITrendingSearch,
+} from '../types/search.type';
+
+const searchService = {
+    // Typeahead: spelling correction, query completions and top products
+    getSuggestions: async (q: string): Promise<ISearchSuggestions> => {
+        const response = await publicAxios.get('/api/v1/search/suggest', { params: { q } });
+        return response.data.data;
+    },
+    // Full results page. The backend logs each search with its result count.
+    search: async ({ q, ...params }: ISearchParams): Promise<ISearchResultsResponse> => {
+        const response = await publicAxios.get('/api/v1/search', { params: { q, ...toProductApiParams(params) } });
+        return response.data.data;
+    },
+    // Most searched queries over the last few days
+    getTrending: async (): Promise<ITrendingSearch[]> => {
+        const response = await publicAxios.get('/api/v1/search/trending');
+        return response.data.data;
+    },
+    // Admin: Query volume and searches that returned nothing
+    getAnalytics: async (filters?: ISearchAnalyticsFilters): Promise<ISearchAnalytics> => {
+        const response = await axiosInstance.get('/api/v1/search/admin/analytics', { params: filters });
+        return response.data.data;
+    },
+};
+
+export default searchService;
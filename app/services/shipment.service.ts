@@ -0,0 +1,57 @@
+import axiosInstance from '../lib/axios';
+import {
+    ICourierOption,
+    ICreateShipmentData,
+    IShipment,
+    IShipmentFilters,
+    IShipmentListResponse,
+    IShipmentManifest,
+} from '../types/shipment.type';
+
+const shipmentService = {
+    // Admin: List couriers configured on the backend
+    getCouriers: async (): Promise<ICourierOption[]> => {
+        const response = await axiosInstance.get('/api/v1/shipments/couriers');
+        return response.data.data;
+    },
+    // Admin: List shipments
+    getShipments: async (filters?: IShipmentFilters): Promise<IShipmentListResponse> => {
+        const response = await axiosInstance.get('/api/v1/shipments/admin/list', { params: filters });
+        return {
+            data: response.data.data,
+            meta: response.data.meta,
+        };
+    },
+    // Admin: Get a shipment with its tracking events
+    getShipment: async (shipmentId: string): Promise<IShipment> => {
+        const response = await axiosInstance.get(`/api/v1/shipments/${shipmentId}`);
+        return response.data.data;
+    },
+    // Admin: Book a shipment with the courier and get the tracking number back
+    createShipment: async (orderId: string, data: ICreateShipmentData): Promise<IShipment> => {
+        const response = await axiosInstance.post('/api/v1/shipments', { orderId, ...data });
+        return response.data.data;
+    },
+    // Admin: Cancel a shipment that has not been picked up yet; also clears the order's tracking number
+    cancelShipment: async (shipmentId: string): Promise<IShipment> => {
+        const response = await axiosInstance.post(`/api/v1/shipments/${shipmentId}/cancel`);
+        return response.data.data;
+    },
+    // Admin: Pull the latest courier scans into the order's tracking history
+    syncTracking: async (shipmentId: string): Promise<IShipment> => {
+        const response = await axiosInstance.post(`/api/v1/shipments/${shipmentId}/sync`);
+        return response.data.data;
+    },
+    // Admin: Hand over shipments to the courier in one pickup manifest
+    createManifest: async (shipmentIds: string[]): Promise<IShipmentManifest> => {
+        const response = await axiosInstance.post('/api/v1/shipments/manifests', { shipmentIds });
+        return response.data.data;
+    },
+    // Admin: Get a manifest
+    getManifest: async (manifestId: string): Promise<IShipmentManifest> => {
+        const response = await axiosInstance.get(`/api/v1/shipments/manifests/${manifestId}`);
+        return response.data.data;
+    },
+};
+
+export default shipmentService;
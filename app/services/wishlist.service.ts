@@ -1,5 +1,13 @@
 import axiosInstance from '../lib/axios';
-import { IWishlist, IWishlistListResponse } from '../types/wishlist.type';
+import {
+    ICreateStockAlertData,
+    IStockAlert,
+    IStockAlertListResponse,
+    IStockWaitlistFilters,
+    IStockWaitlistResponse,
+    IWishlist,
+    IWishlistListResponse,
+} from '../types/wishlist.type';
 
 const wishlistService = {
     getWishlist: async (): Promise<IWishlistListResponse> => {
@@ -16,7 +24,29 @@ const wishlistService = {
 
     deleteWishlistItems: async (productId: string): Promise<void> => {
         await axiosInstance.delete(`/api/v1/wishlist/items/${productId}`);
+    },
+
+    // "Notify me" requests the shopper has made for out-of-stock sizes
+    getStockAlerts: async (): Promise<IStockAlertListResponse> => {
+        const response = await axiosInstance.get('/api/v1/wishlist/stock-alerts');
+        return response.data;
+    },
+
+    // Subscribe to a back-in-stock alert for a product or one of its variants
+    createStockAlert: async (data: ICreateStockAlertData): Promise<IStockAlert> => {
+        const response = await axiosInstance.post('/api/v1/wishlist/stock-alerts', data);
+        return response.data.data;
+    },
+
+    cancelStockAlert: async (alertId: string): Promise<void> => {
+        await axiosInstance.delete(`/api/v1/wishlist/stock-alerts/${alertId}`);
+    },
+
+    // Admin: How many shoppers are waiting on each SKU
+    getStockWaitlist: async (filters?: IStockWaitlistFilters): Promise<IStockWaitlistResponse> => {
+        const response = await axiosInstance.get('/api/v1/wishlist/admin/stock-alerts', { params: filters });
+        return response.data;
     }
 }
 
-export default wishlistService;
\ No newline at end of file
+export default wishlistService;
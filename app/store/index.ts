@@ -1,18 +1,58 @@
 import { configureStore } from '@reduxjs/toolkit';
+import {
+    persistReducer,
+    persistStore,
+    createTransform,
+    FLUSH,
+    REHYDRATE,
+    PAUSE,
+    PERSIST,
+    PURGE,
+    REGISTER,
+    PersistConfig,
+} from 'redux-persist';
+import createWebStorage from 'redux-persist/lib/storage/createWebStorage';
 import cartReducer from './slices/cartSlice';
+import { ICartItem, ICartState } from '../types/cart.type';
+import { isGuestCartItem } from '../lib/guestCart';
+
+// localStorage does not exist during SSR, so fall back to a no-op storage there
+const createNoopStorage = () => ({
+    getItem: () => Promise.resolve(null),
+    setItem: (_key: string, value: string) => Promise.resolve(value),
+    removeItem: () => Promise.resolve(),
+});
+
+const storage = typeof window !== 'undefined' ? createWebStorage('local') : createNoopStorage();
+
+// Only guest items are persisted; signed-in carts always come from /api/v1/cart
+const guestItemsTransform = createTransform(
+    (items: ICartItem[]) => items.filter((item) => isGuestCartItem(item.id)),
+    (items: ICartItem[]) => items,
+    { whitelist: ['items'] }
+);
+
+const cartPersistConfig: PersistConfig<ICartState> = {
+    key: 'cart',
+    storage,
+    whitelist: ['items', 'pendingGuestItems'],
+    transforms: [guestItemsTransform],
+};
 
 export const store = configureStore({
     reducer: {
-        cart: cartReducer,
+        cart: persistReducer<ICartState>(cartPersistConfig, cartReducer),
     },
     middleware: (getDefaultMiddleware) =>
         getDefaultMiddleware({
             serializableCheck: {
                 // Ignore these action types
-                ignoredActions: ['persist/PERSIST'],
+                ignoredActions: [FLUSH, REHYDRATE, PAUSE, PERSIST, PURGE, REGISTER],
             },
         }),
 });
 
+export const persistor = persistStore(store);
+
 export type RootState = ReturnType<typeof store.getState>;
-export type AppDispatch = typeof store.dispatch;
\ No newline at end of file
+export type AppDispatch = typeof store.dispatch;
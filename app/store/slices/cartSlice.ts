@@ -1,13 +1,27 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { REHYDRATE } from 'redux-persist';
 import cartService from '../../services/cart.service';
-import { ICartState, IAddToCartRequest, IUpdateCartItemRequest, ICartItem, ICartResponse } from '../../types/cart.type';
+import productsService from '../../services/products.service';
+import stockService from '../../services/stock.service';
+import {
+    ICartState,
+    IAddToCartRequest,
+    IUpdateCartItemRequest,
+    ICartItem,
+    ICartResponse,
+    IGuestCartMergeAdjustment,
+    IGuestCartMergeResult,
+} from '../../types/cart.type';
 import { RootState } from '..';
 import { AxiosError } from 'axios';
 import { getErrorMessage } from '../../lib/utils';
+import { queryClient } from '../../lib/queryClient';
+import { buildGuestCartItem, isGuestCartItem, toGuestCartResponse } from '../../lib/guestCart';
 
 // Initial state
 const initialState: ICartState = {
     items: [],
+    pendingGuestItems: [],
     totalItems: 0,
     subtotal: 0,
     shipping: 0,
@@ -25,27 +39,39 @@ function applyCartTotals(state: ICartState, items: ICartItem[], shipping?: numbe
     state.total = state.subtotal + state.shipping;
 }
 
+// The user query settles to null once the session refresh fails, so a null
+// user means a guest whose cart only lives in this slice
+const isGuestSession = () => queryClient.getQueryData(['user']) === null;
+
+const getGuestItems = (state: RootState): ICartItem[] => state.cart.items.filter(item => isGuestCartItem(item.id));
+
+const isSameLine = (a: { productId: string; variantId?: string }, b: { productId: string; variantId?: string }) =>
+    a.productId === b.productId && (a.variantId || undefined) === (b.variantId || undefined);
+
 // Async thunks
 export const fetchCart = createAsyncThunk(
     'cart/fetchCart',
-    async (_, { rejectWithValue }) => {
+    async (_, { getState, dispatch, rejectWithValue }) => {
+        const state = getState() as RootState;
+        if (isGuestSession()) {
+            return toGuestCartResponse(getGuestItems(state));
+        }
+
+        // Retry a guest cart merge that failed at sign-in
+        if (state.cart.pendingGuestItems.length > 0) {
+            const merged = await dispatch(mergeGuestCart());
+            if (mergeGuestCart.fulfilled.match(merged)) {
+                return merged.payload.cart;
+            }
+        }
+
         try {
             const response = await cartService.getCart();
             return response; // ICartResponse
         } catch (error: unknown) {
-            // Don't treat 401/403 as errors - just return empty cart
+            // Don't treat 401/403 as errors - keep the local guest cart instead
             if (error instanceof AxiosError && (error.response?.status === 401 || error.response?.status === 403)) {
-                return {
-                    success: true,
-                    message: 'Please log in to view your cart',
-                    data: {
-                        items: [],
-                        totalItems: 0,
-                        subtotal: 0,
-                        shipping: 0,
-                        total: 0
-                    }
-                };
+                return toGuestCartResponse(getGuestItems(state));
             }
             const errorMessage = error instanceof AxiosError ? getErrorMessage(error) : 'Failed to fetch cart';
             return rejectWithValue(errorMessage);
@@ -55,8 +81,19 @@ export const fetchCart = createAsyncThunk(
 
 export const addToCart = createAsyncThunk(
     'cart/addToCart',
-    async (data: IAddToCartRequest, { rejectWithValue }) => {
+    async (data: IAddToCartRequest, { getState, rejectWithValue }) => {
         try {
+            if (isGuestSession()) {
+                const state = getState() as RootState;
+                const product = await productsService.getProductById(data.productId);
+                const newItem = buildGuestCartItem(product, data.quantity || 1, data.variantId);
+                const existingItem = state.cart.items.find(item => item.id === newItem.id);
+                const items = existingItem
+                    ? state.cart.items.map(item => item.id === newItem.id ? { ...item, quantity: item.quantity + newItem.quantity } : item)
+                    : [...state.cart.items, newItem];
+                return toGuestCartResponse(items);
+            }
+
             const response = await cartService.addToCart(data);
             return response; // ICartResponse
         } catch (error: unknown) {
@@ -68,8 +105,15 @@ export const addToCart = createAsyncThunk(
 
 export const updateCartItem = createAsyncThunk(
     'cart/updateCartItem',
-    async ({ itemId, data }: { itemId: string; data: IUpdateCartItemRequest }, { rejectWithValue }) => {
+    async ({ itemId, data }: { itemId: string; data: IUpdateCartItemRequest }, { getState, rejectWithValue }) => {
         try {
+            if (isGuestSession()) {
+                const state = getState() as RootState;
+                return toGuestCartResponse(
+                    state.cart.items.map(item => item.id === itemId ? { ...item, quantity: data.quantity } : item)
+                );
+            }
+
             const response = await cartService.updateCartItem(itemId, data);
             return response; // ICartResponse
         } catch (error: unknown) {
@@ -81,8 +125,13 @@ export const updateCartItem = createAsyncThunk(
 
 export const removeFromCart = createAsyncThunk(
     'cart/removeFromCart',
-    async (itemId: string, { rejectWithValue }) => {
+    async (itemId: string, { getState, rejectWithValue }) => {
         try {
+            if (isGuestSession()) {
+                const state = getState() as RootState;
+                return toGuestCartResponse(state.cart.items.filter(item => item.id !== itemId));
+            }
+
             const response = await cartService.removeFromCart(itemId);
             return response; // ICartResponse
         } catch (error: unknown) {
@@ -96,6 +145,10 @@ export const clearCart = createAsyncThunk(
     'cart/clearCart',
     async (_, { rejectWithValue }) => {
         try {
+            if (isGuestSession()) {
+                return toGuestCartResponse([]);
+            }
+
             const response = await cartService.clearCart();
             return response; // ICartResponse
         } catch (error: unknown) {
@@ -123,6 +176,79 @@ export const handleAddToCart = createAsyncThunk(
     }
 );
 
+// Merge the persisted guest cart into the server cart after sign-in.
+// Lines already in the server cart keep the larger of the two quantities
+// instead of adding them up, so an item re-added while signed out isn't doubled,
+// and a merge that failed halfway can safely be run again.
+export const mergeGuestCart = createAsyncThunk<IGuestCartMergeResult, void, { rejectValue: string }>(
+    'cart/mergeGuestCart',
+    async (_, { getState, dispatch, rejectWithValue }) => {
+        // Park the guest lines first so loading the server cart can't drop them
+        dispatch(cartSlice.actions.queueGuestItems());
+        const guestItems = (getState() as RootState).cart.pendingGuestItems;
+
+        try {
+            const serverCart = await cartService.getCart();
+            if (guestItems.length === 0) {
+                return { cart: serverCart, adjustments: [] };
+            }
+
+            const serverItems = serverCart.data?.items ?? [];
+            const lines = guestItems.map(item => {
+                const serverItem = serverItems.find(s => isSameLine(s, item));
+                return {
+                    item,
+                    serverItem,
+                    quantity: Math.max(item.quantity, serverItem?.quantity ?? 0),
+                };
+            });
+
+            // Clamp anything the stock check rejects to what is actually available
+            const validation = await stockService.validateCart(
+                lines.map(({ item, quantity }) => ({
+                    productId: item.productId,
+                    variantId: item.variantId,
+                    quantity,
+                }))
+            );
+            const adjustments: IGuestCartMergeAdjustment[] = [];
+            lines.forEach(line => {
+                const invalid = validation.data?.invalidItems.find(i => isSameLine(i, line.item));
+                if (invalid) {
+                    adjustments.push({
+                        productId: line.item.productId,
+                        variantId: line.item.variantId,
+                        productName: line.item.product?.name || 'Item',
+                        requestedQuantity: line.quantity,
+                        availableQuantity: invalid.availableQuantity,
+                    });
+                    line.quantity = Math.min(line.quantity, invalid.availableQuantity);
+                }
+            });
+
+            for (const { item, serverItem, quantity } of lines) {
+                if (serverItem) {
+                    if (quantity > serverItem.quantity) {
+                        await cartService.updateCartItem(serverItem.id, { quantity });
+                    }
+                } else if (quantity > 0) {
+                    await cartService.addToCart({
+                        productId: item.productId,
+                        variantId: item.variantId,
+                        quantity,
+                    });
+                }
+            }
+
+            const cart = await cartService.getCart();
+            return { cart, adjustments };
+        } catch (error: unknown) {
+            const errorMessage = error instanceof AxiosError ? getErrorMessage(error) : 'Failed to merge your cart';
+            return rejectWithValue(errorMessage);
+        }
+    }
+);
+
 // Cart slice
 const cartSlice = createSlice({
     name: 'cart',
@@ -135,6 +261,22 @@ const cartSlice = createSlice({
         clearError: (state) => {
             state.error = null;
         },
+        // Drop the local cart on logout so the next guest doesn't inherit it
+        resetCart: () => initialState,
+        // Move guest lines out of the visible cart until the merge succeeds
+        queueGuestItems: (state) => {
+            const guestItems = state.items.filter(item => isGuestCartItem(item.id));
+            if (guestItems.length === 0) return;
+            guestItems.forEach(item => {
+                const pending = state.pendingGuestItems.find(p => isSameLine(p, item));
+                if (pending) {
+                    pending.quantity = Math.max(pending.quantity, item.quantity);
+                } else {
+                    state.pendingGuestItems.push(item);
+                }
+            });
+            applyCartTotals(state, state.items.filter(item => !isGuestCartItem(item.id)));
+        },
         // Optimistic updates
         incrementQuantity: (state, action: PayloadAction<string>) => {
             const item = state.items.find(item => item.id === action.payload);
@@ -238,12 +380,35 @@ const cartSlice = createSlice({
                 state.loading = false;
             })
             .addCase(clearCart.rejected, handleRejected);
+
+        builder
+            .addCase(mergeGuestCart.pending, handlePending)
+            .addCase(mergeGuestCart.fulfilled, (state, action) => {
+                const { cart } = action.payload;
+                const items = Array.isArray(cart?.data?.items) ? cart.data.items : [];
+                applyCartTotals(state, items, cart?.data?.shipping);
+                state.pendingGuestItems = [];
+                state.loading = false;
+            })
+            // Pending guest items stay persisted and are merged on the next cart fetch
+            .addCase(mergeGuestCart.rejected, handleRejected);
+
+        // Only items are persisted, so rebuild the totals from the restored guest cart
+        builder.addMatcher(
+            (action): action is PayloadAction<Partial<ICartState> | undefined> => action.type === REHYDRATE,
+            (state, action) => {
+                if (action.payload?.items) {
+                    applyCartTotals(state, action.payload.items);
+                }
+            }
+        );
     },
 });
 
 export const {
     setLoading,
     clearError,
+    resetCart,
     incrementQuantity,
     decrementQuantity
 } = cartSlice.actions;
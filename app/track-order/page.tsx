@@ -1,33 +1,154 @@
 "use client";
 
-import { useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
 import { useAuth } from "@/app/hooks/useAuth";
+import { useTrackOrderLookup } from "@/app/hooks/useOrders";
+import { OrderTrackingComponent } from "@/app/components/ui/OrderTracking";
+import { Button } from "@/app/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/app/components/ui/card";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { Alert, AlertDescription } from "@/app/components/ui/alert";
+import { Badge } from "@/app/components/ui/badge";
+import PendingPaymentNotice from "@/app/components/ui/PendingPaymentNotice";
+import { formatDate } from "@/app/lib/formatters";
+import { isValidEmail, isValidPhone } from "@/app/lib/validation";
 
-export default function TrackOrderPage() {
-  const router = useRouter();
-  const { isAuthenticated, isLoading } = useAuth();
+function TrackOrderContent() {
+  const params = useSearchParams();
+  const { isAuthenticated } = useAuth();
+  const trackOrder = useTrackOrderLookup();
+  // SMS and email links carry the order number (and sometimes the contact) in the query
+  const [orderNumber, setOrderNumber] = useState(params.get("order") ?? "");
+  const [contact, setContact] = useState(params.get("contact") ?? "");
+  const [error, setError] = useState("");
 
-  useEffect(() => {
-    if (isLoading) return;
+  const tracking = trackOrder.data;
+  const lockedMinutes = Math.ceil(trackOrder.lockedFor / 60000);
 
-    if (isAuthenticated) {
-      router.replace("/profile/orders");
-    } else {
-      if (typeof window !== "undefined") {
-        window.sessionStorage.setItem("postLoginRedirect", "/profile/orders");
-      }
-      router.replace("/login");
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    const value = contact.trim();
+    const isEmail = value.includes("@");
+
+    if (!orderNumber.trim()) {
+      setError("Please enter your order number");
+      return;
+    }
+    if (isEmail ? !isValidEmail(value) : !isValidPhone(value)) {
+      setError("Please enter the email address or 10-digit phone number used for the order");
+      return;
     }
-  }, [isAuthenticated, isLoading, router]);
+
+    trackOrder.mutate({
+      orderNumber: orderNumber.trim().replace(/^#/, "").toUpperCase(),
+      ...(isEmail ? { email: value.toLowerCase() } : { phone: value.replace(/\D/g, "") }),
+    });
+  };
 
   return (
-    <div className="min-h-[60vh] flex items-center justify-center">
-      <p className="text-sm text-muted-foreground">
-        Checking your account and redirecting...
-      </p>
+    <div className="container mx-auto px-4 py-8 max-w-2xl mt-16 sm:mt-30 space-y-6">
+      <div className="text-center">
+        <h1 className="text-2xl sm:text-3xl font-bold">Track Your Order</h1>
+        <p className="text-sm text-muted-foreground mt-2">
+          Enter the order number from your confirmation email or SMS and the email or phone number used at checkout.
+        </p>
+      </div>
+
+      <PendingPaymentNotice description="Your payment went through but the order hasn't been created yet. We'll email you the order number as soon as it's placed, usually within a few minutes." />
+
+      <Card>
+        <CardContent className="p-4 sm:p-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="orderNumber">Order Number</Label>
+              <Input
+                id="orderNumber"
+                value={orderNumber}
+                onChange={(e) => setOrderNumber(e.target.value)}
+                placeholder="e.g. ORD-123456"
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact">Email or Phone</Label>
+              <Input
+                id="contact"
+                value={contact}
+                onChange={(e) => setContact(e.target.value)}
+                placeholder="you@example.com or 9876543210"
+                autoComplete="email"
+              />
+            </div>
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            {trackOrder.lockedFor > 0 && (
+              <Alert>
+                <AlertDescription>
+                  Too many attempts. Please try again in {lockedMinutes} minute{lockedMinutes === 1 ? "" : "s"}.
+                </AlertDescription>
+              </Alert>
+            )}
+            <Button type="submit" className="w-full" disabled={trackOrder.isPending || trackOrder.lockedFor > 0}>
+              {trackOrder.isPending ? "Looking up..." : "Track Order"}
+            </Button>
+          </form>
+          {isAuthenticated && (
+            <p className="text-sm text-muted-foreground text-center mt-4">
+              Ordered with this account?{" "}
+              <Link href="/profile/orders" className="text-foreground font-medium hover:underline">
+                View My Orders
+              </Link>
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {tracking && (
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between gap-3">
+              <CardTitle className="text-base sm:text-lg">Order #{trackOrder.variables?.orderNumber}</CardTitle>
+              <Badge variant="outline">{tracking.currentStatus.replace(/_/g, " ")}</Badge>
+            </div>
+            {(tracking.trackingNumber || tracking.estimatedDelivery) && (
+              <CardDescription className="space-y-1">
+                {tracking.trackingNumber && (
+                  <span className="block">
+                    AWB: <span className="font-mono">{tracking.trackingNumber}</span>
+                  </span>
+                )}
+                {tracking.estimatedDelivery && tracking.currentStatus !== "DELIVERED" && (
+                  <span className="block">Estimated delivery: {formatDate(tracking.estimatedDelivery)}</span>
+                )}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="pt-0">
+            <OrderTrackingComponent tracking={tracking.history} currentStatus={tracking.currentStatus} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
 
-
+export default function TrackOrderPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-[60vh] flex items-center justify-center">
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        </div>
+      }
+    >
+      <TrackOrderContent />
+    </Suspense>
+  );
+}
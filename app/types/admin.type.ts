@@ -155,6 +155,7 @@ export interface IUserFilters {
   search?: string;
 }
 
+// Any text field may use {{variable}} or {{variable|fallback}}; the backend fills them in per recipient
 export interface IEmailData {
   to: string[];
   subject: string;
@@ -164,16 +165,51 @@ export interface IEmailData {
   buttonUrl?: string;
   footerText?: string;
   previewText?: string;
+  // The saved draft this email was written in; the backend deletes it once sent
+  draftId?: string;
 }
 
-export interface IEmailTemplate {
-  id: string;
-  name: string;
+// Content shared by a template and each of its saved versions
+export interface IEmailTemplateContent {
   subject: string;
   body: string;
+  previewText?: string;
+  buttonText?: string;
+  buttonUrl?: string;
+  footerText?: string;
+}
+
+export interface IEmailTemplate extends IEmailTemplateContent {
+  id: string;
+  name: string;
   variables: string[];
+  // Bumped on every edit; earlier versions stay in the history
+  version: number;
+  createdAt: string;
+  updatedAt: string;
 }
 
+export interface IEmailTemplateVersion extends IEmailTemplateContent {
+  version: number;
+  createdAt: string;
+  createdBy?: string;
+}
+
+export interface ISaveEmailTemplateData extends IEmailTemplateContent {
+  name: string;
+  variables: string[];
+}
+
+export interface IEmailDraft extends Omit<IEmailData, 'draftId'> {
+  id: string;
+  updatedAt: string;
+}
+
+export type ISaveEmailDraftData = Omit<IEmailData, 'draftId'>;
+
+// Sent to the signed-in admin, with variables filled in from their own profile
+export type ITestEmailData = Omit<IEmailData, 'to' | 'draftId'>;
+
 export interface IAnalyticsFilters {
   startDate?: string;
   endDate?: string;
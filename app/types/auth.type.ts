@@ -10,6 +10,8 @@ export interface IRegisterCredentials {
     lastName: string;
     phone: string;
     role?: string;
+    // Links an order placed through guest checkout to the new account
+    guestOrderId?: string;
 }
 
 export interface IAuthResponse {
@@ -43,6 +43,8 @@ export interface IUpdateCartItemRequest {
 
 export interface ICartState {
     items: ICartItem[];
+    // Guest lines waiting to be merged into the server cart; kept until a merge succeeds
+    pendingGuestItems: ICartItem[];
     totalItems: number;
     subtotal: number;
     shipping: number;
@@ -56,4 +58,18 @@ export interface ILocalCartItem extends IProduct {
     quantity: number;
     selectedSize?: string;
     selectedColor?: string;
-}
\ No newline at end of file
+}
+
+// A guest cart line whose quantity had to change while merging into the server cart
+export interface IGuestCartMergeAdjustment {
+    productId: string;
+    variantId?: string;
+    productName: string;
+    requestedQuantity: number;
+    availableQuantity: number;
+}
+
+export interface IGuestCartMergeResult {
+    cart: ICartResponse;
+    adjustments: IGuestCartMergeAdjustment[];
+}
@@ -0,0 +1,95 @@
+export type CodIneligibleReason =
+    | 'DISABLED'
+    | 'GUEST'
+    | 'ORDER_VALUE_TOO_LOW'
+    | 'ORDER_VALUE_TOO_HIGH'
+    | 'PINCODE_BLOCKED'
+    | 'PINCODE_NOT_SERVICEABLE'
+    | 'TOO_MANY_OPEN_ORDERS';
+
+// Store-wide rules the backend applies before accepting a COD order
+export interface ICodRules {
+    enabled: boolean;
+    minOrderValue: number;
+    maxOrderValue: number | null;
+    // Individual pincodes, on top of zones that have COD switched off
+    blockedPincodes: string[];
+    // Undelivered COD orders a customer may have at once; null for no limit
+    maxOpenOrdersPerUser: number | null;
+    requireOtp: boolean;
+    codFee: number;
+    prepaidDiscountPercent: number;
+    prepaidDiscountCap: number | null;
+    updatedAt?: string;
+}
+
+export type IUpdateCodRulesData = Omit<ICodRules, 'updatedAt'>;
+
+export interface ICodEligibilityRequest {
+    pincode: string;
+    orderValue: number;
+}
+
+export interface ICodEligibility {
+    eligible: boolean;
+    reason: CodIneligibleReason | null;
+    message: string | null;
+    // False when the customer's phone was verified recently enough
+    requiresOtp: boolean;
+    codFee: number;
+    // How much less the same cart costs when paid online
+    prepaidSavings: number;
+}
+
+export interface ISendCodOtpData {
+    phone: string;
+}
+
+export interface ICodOtpChallenge {
+    requestId: string;
+    maskedPhone: string;
+    expiresAt: string;
+    resendAfterSeconds: number;
+}
+
+export interface IVerifyCodOtpData {
+    requestId: string;
+    otp: string;
+}
+
+export interface ICodOtpVerification {
+    // Sent with the order so the backend knows the phone was confirmed
+    verificationToken: string;
+    expiresAt: string;
+}
+
+export interface ICodRtoFilters {
+    startDate?: string;
+    endDate?: string;
+    // Ignore pincodes with too few COD orders to judge
+    minOrders?: number;
+    limit?: number;
+}
+
+export interface ICodRtoPincodeStat {
+    pincode: string;
+    city?: string | null;
+    state?: string | null;
+    // COD shipments that reached a final state (delivered or returned to origin)
+    codOrders: number;
+    delivered: number;
+    rto: number;
+    rtoRate: number; // 0-1
+    rtoValue: number;
+    codBlocked: boolean;
+}
+
+export interface ICodRtoAnalytics {
+    overall: {
+        codOrders: number;
+        rto: number;
+        rtoRate: number;
+        rtoValue: number;
+    };
+    pincodes: ICodRtoPincodeStat[];
+}
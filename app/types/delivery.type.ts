@@ -0,0 +1,63 @@
+import { ShippingZone } from './pricing.type';
+
+export interface IPincodeServiceability {
+    pincode: string;
+    serviceable: boolean;
+    zone: ShippingZone | null;
+    city?: string;
+    state?: string;
+    codAvailable: boolean;
+    minDays: number;
+    maxDays: number;
+    estimatedDeliveryFrom: string | null; // ISO date
+    estimatedDeliveryTo: string | null; // ISO date
+    message?: string;
+}
+
+// Admin-maintained row of the pincode-zone table. A row covers an inclusive
+// pincode range so a whole district can be configured at once.
+export interface IPincodeZone {
+    id: string;
+    pincodeFrom: string;
+    pincodeTo: string;
+    zone: ShippingZone;
+    city?: string;
+    state?: string;
+    isServiceable: boolean;
+    codAvailable: boolean;
+    minDays: number;
+    maxDays: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ICreatePincodeZoneData {
+    pincodeFrom: string;
+    pincodeTo: string;
+    zone: ShippingZone;
+    city?: string;
+    state?: string;
+    isServiceable: boolean;
+    codAvailable: boolean;
+    minDays: number;
+    maxDays: number;
+}
+
+export type IUpdatePincodeZoneData = Partial<ICreatePincodeZoneData>;
+
+export interface IPincodeZoneFilters {
+    page?: number;
+    limit?: number;
+    search?: string;
+    zone?: ShippingZone;
+}
+
+export interface IPincodeZoneListResponse {
+    data: IPincodeZone[];
+    meta: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+    };
+}
@@ -0,0 +1,102 @@
+import { ProductFit, ProductSize } from './product.type';
+
+// Reasons an admin can pick when adjusting stock by hand
+export type StockAdjustmentReason = 'RESTOCK' | 'DAMAGE' | 'RETURN' | 'CORRECTION';
+
+// Everything that can appear in the ledger, including movements the system records itself
+export type StockMovementReason = StockAdjustmentReason | 'ORDER' | 'ORDER_CANCELLED' | 'REFUND' | 'IMPORT';
+
+export type InventoryStockStatus = 'IN_STOCK' | 'LOW_STOCK' | 'OUT_OF_STOCK';
+
+export interface IInventoryItem {
+    variantId: string;
+    productId: string;
+    productName: string;
+    sku: string;
+    size: ProductSize;
+    fit?: ProductFit;
+    color: string;
+    stock: number;
+    lowStockThreshold: number;
+    // Held by unpaid checkouts and orders not yet shipped
+    reserved: number;
+    available: number;
+    // Average units sold per day over the last 30 days
+    dailySalesRate: number;
+    // available / dailySalesRate; null when nothing sold in the window
+    daysOfCover: number | null;
+    status: InventoryStockStatus;
+    isActive: boolean;
+}
+
+export interface IInventoryFilters {
+    search?: string;
+    status?: InventoryStockStatus;
+    sortBy?: 'daysOfCover' | 'available' | 'productName';
+    page?: number;
+    limit?: number;
+}
+
+export interface IInventoryListResponse {
+    data: IInventoryItem[];
+    meta: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+        lowStockCount: number;
+        outOfStockCount: number;
+    };
+}
+
+export interface IStockAdjustmentItem {
+    variantId: string;
+    // Signed change to on-hand stock
+    quantity: number;
+}
+
+export interface IBulkStockAdjustmentData {
+    reason: StockAdjustmentReason;
+    note?: string;
+    items: IStockAdjustmentItem[];
+}
+
+export interface IBulkStockAdjustmentResult {
+    adjusted: number;
+    movements: IStockMovement[];
+}
+
+export interface IStockMovement {
+    id: string;
+    variantId: string;
+    sku: string;
+    reason: StockMovementReason;
+    quantity: number;
+    stockBefore: number;
+    stockAfter: number;
+    note: string | null;
+    // Order number for ORDER / ORDER_CANCELLED movements
+    reference: string | null;
+    createdAt: string;
+    createdBy: {
+        id: string;
+        firstName: string;
+        lastName: string;
+    } | null;
+}
+
+export interface IStockMovementFilters {
+    reason?: StockMovementReason;
+    page?: number;
+    limit?: number;
+}
+
+export interface IStockMovementListResponse {
+    data: IStockMovement[];
+    meta: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+    };
+}
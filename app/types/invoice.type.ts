@@ -0,0 +1,68 @@
+export interface IInvoiceParty {
+    name: string;
+    address: string;
+    city: string;
+    state: string;
+    stateCode: string; // two-digit GST state code, e.g. "32" for Kerala
+    pincode: string;
+    phone?: string;
+    email?: string;
+    gstin?: string;
+}
+
+// Numbering and tax classification are issued by the backend so invoice
+// numbers stay sequential and HSN codes come from the catalogue
+export interface IInvoiceMeta {
+    invoiceNumber: string;
+    invoiceDate: string; // ISO date
+    seller: IInvoiceParty & { legalName: string; gstin: string; pan?: string };
+    placeOfSupply: { state: string; stateCode: string };
+    taxInclusive: boolean;
+    lines: Array<{
+        productId: string;
+        variantId?: string;
+        hsnCode: string;
+        gstRate: number; // percentage
+    }>;
+}
+
+export interface IInvoiceLine {
+    description: string;
+    variant?: string;
+    hsnCode: string;
+    quantity: number;
+    unitPrice: number;
+    discount: number;
+    taxableValue: number;
+    gstRate: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    total: number;
+}
+
+export interface IInvoice {
+    invoiceNumber: string;
+    invoiceDate: string;
+    orderId: string;
+    orderNumber: string;
+    orderDate: string;
+    seller: IInvoiceMeta['seller'];
+    billTo: IInvoiceParty;
+    placeOfSupply: IInvoiceMeta['placeOfSupply'];
+    isInterState: boolean;
+    lines: IInvoiceLine[];
+    subtotal: number;
+    discountAmount: number;
+    couponCode?: string;
+    shippingFee: number;
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    taxAmount: number;
+    totalAmount: number;
+    amountInWords: string;
+    paymentMethod: string;
+    paymentStatus: string;
+}
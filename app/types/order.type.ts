@@ -57,6 +57,40 @@ export interface IOrder {
     createdAt: string;
     updatedAt: string;
     deliveredAt?: string;
+    // Sum of refunds that haven't failed; totalAmount stays what was originally charged
+    refundedAmount?: number;
+    refunds?: IOrderRefund[];
+}
+
+export type RefundStatus = 'PENDING' | 'PROCESSED' | 'FAILED';
+
+export interface IRefundItem {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+}
+
+export interface IOrderRefund {
+    id: string;
+    orderId: string;
+    amount: number;
+    reason: string;
+    // Empty for amount-only refunds such as goodwill or price adjustments
+    items: IRefundItem[];
+    restock: boolean;
+    status: RefundStatus;
+    gatewayRefundId?: string | null;
+    createdBy?: string | null;
+    createdAt: string;
+    processedAt?: string | null;
+}
+
+export interface ICreateRefundData {
+    amount: number;
+    items?: IRefundItem[];
+    reason: string;
+    // Put the refunded items back into sellable stock
+    restock: boolean;
 }
 
 export interface IOrderRequest {
@@ -68,6 +102,8 @@ export interface IOrderRequest {
         quantity: number;
     }>;
     couponCode?: string;
+    // Proof the customer confirmed their phone by OTP, when the COD rules ask for it
+    codVerificationToken?: string;
     status?: 'PENDING' | 'CONFIRMED' | 'PROCESSING' | 'SHIPPED' | 'OUT_FOR_DELIVERY' | 'DELIVERED' | 'CANCELLED' | 'RETURNED' | 'REFUNDED';
     paymentStatus?: 'PENDING' | 'PAID' | 'FAILED' | 'REFUNDED' | 'PARTIAL_REFUND';
 }
@@ -104,6 +140,14 @@ export interface ITrackingHistoryItem {
     createdAt: string;
 }
 
+export interface IOrderTrackingEventData {
+    note: string;
+    status?: IOrder['status'];
+    // null clears the order's AWB, e.g. when its shipment is cancelled
+    trackingNumber?: string | null;
+    estimatedDelivery?: string | null;
+}
+
 export interface IOrderFilters {
     page?: number;
     limit?: number;
@@ -115,6 +159,15 @@ export interface IOrderFilters {
     endDate?: string;
 }
 
+export type OrderExportFormat = 'csv' | 'xlsx';
+
+// Guest lookup: the order number plus the email or phone it was placed with
+export interface ITrackOrderLookupData {
+    orderNumber: string;
+    email?: string;
+    phone?: string;
+}
+
 export interface IOrderTrackingServiceResponse {
     status: string;
     data: {
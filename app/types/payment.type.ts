@@ -5,6 +5,8 @@ export interface IRazorpayOptions {
     name: string;
     description: string;
     order_id: string;
+    // Seconds before Razorpay closes the checkout on its own
+    timeout?: number;
     handler: (response: IRazorpayResponse) => void;
     prefill: {
         email: string;
@@ -24,8 +26,22 @@ export interface IRazorpayResponse {
     razorpay_signature: string;
 }
 
+export interface IRazorpayFailureResponse {
+    error: {
+        code: string;
+        description: string;
+        reason: string;
+        metadata: {
+            order_id: string;
+            payment_id: string;
+        };
+    };
+}
+
 export interface IRazorpay {
     open(): void;
+    close(): void;
+    on(event: 'payment.failed', handler: (response: IRazorpayFailureResponse) => void): void;
 }
 
 declare global {
@@ -34,4 +50,68 @@ declare global {
     }
 }
 
-export type PaymentStatus = 'idle' | 'creating_order' | 'payment_pending' | 'verifying' | 'success' | 'failed'; 
\ No newline at end of file
+export type PaymentStatus = 'idle' | 'creating_order' | 'payment_pending' | 'verifying' | 'success' | 'failed';
+
+// Units held for a Razorpay order between opening checkout and verifying payment
+export interface IStockReservation {
+    razorpayOrderId: string;
+    // Epoch ms, computed from the server TTL so client clock skew doesn't matter
+    expiresAt: number;
+}
+
+export type ReservationReleaseReason = 'DISMISSED' | 'PAYMENT_FAILED' | 'EXPIRED';
+
+// Outcome of retrying a captured payment that didn't turn into an order
+export type PaymentReconciliationState = 'ORDER_CREATED' | 'PENDING' | 'REFUNDED';
+
+export interface IPaymentReconciliationResult {
+    state: PaymentReconciliationState;
+    orderId?: string;
+    orderNumber?: string;
+}
+
+// Admin: A Razorpay payment that was captured but has no order attached
+export interface IUnmatchedPayment {
+    paymentId: string;
+    razorpayOrderId: string;
+    // In paise, as captured by Razorpay
+    amount: number;
+    currency: string;
+    method: string;
+    email: string | null;
+    contact: string | null;
+    capturedAt: string;
+    // Cart saved when the Razorpay order was created, if the backend still has it
+    cart: {
+        items: Array<{
+            productId: string;
+            variantId?: string;
+            quantity: number;
+            name?: string;
+            size?: string;
+        }>;
+        shippingAddressId?: string;
+        guest?: {
+            email: string;
+            phone: string;
+        };
+    } | null;
+    // False when there's nothing to build an order from (no saved cart or items out of stock)
+    canCreateOrder: boolean;
+    blockedReason?: string | null;
+}
+
+export interface IUnmatchedPaymentFilters {
+    page?: number;
+    limit?: number;
+}
+
+export interface IUnmatchedPaymentListResponse {
+    data: IUnmatchedPayment[];
+    meta: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+    };
+}
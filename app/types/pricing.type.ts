@@ -0,0 +1,105 @@
+export type ShippingZone = 'LOCAL' | 'REGIONAL' | 'NATIONAL' | 'REMOTE';
+
+export interface IPriceQuoteItem {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+}
+
+export type QuotePaymentMethod = 'RAZORPAY' | 'COD';
+
+export interface IPriceQuoteRequest {
+    items: IPriceQuoteItem[];
+    pincode?: string;
+    couponCode?: string;
+    paymentMethod?: QuotePaymentMethod;
+}
+
+export interface IPriceQuoteLine {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    unitPrice: number;
+    lineTotal: number;
+    categoryId?: string;
+    gstRate: number;
+}
+
+export interface IShippingBreakdown {
+    zone: ShippingZone | null; // null until a pincode is known
+    totalWeight: number; // kg, from IProduct.weight
+    baseFee: number;
+    weightSurcharge: number;
+    freeShippingThreshold: number | null;
+    amount: number;
+    isFree: boolean;
+}
+
+export interface ITaxLine {
+    categoryId: string;
+    categoryName: string;
+    gstRate: number; // percentage, e.g. 5 or 12
+    taxableAmount: number;
+    amount: number;
+}
+
+export type DiscountSource = 'PROMOTION' | 'COUPON';
+
+export interface IAppliedDiscountLine {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    amount: number;
+}
+
+// One promotion or coupon as it was applied to this quote, in the order it ran
+export interface IAppliedDiscount {
+    source: DiscountSource;
+    promotionId?: string;
+    couponCode?: string;
+    label: string;
+    // e.g. "Cheapest 1 of 3 T-shirts free"
+    explanation?: string;
+    amount: number;
+    // Free-shipping promotions zero the shipping line instead of adding to `discount`
+    freeShipping: boolean;
+    lines: IAppliedDiscountLine[];
+}
+
+// A promotion the cart is close to unlocking
+export interface IPromotionHint {
+    promotionId: string;
+    message: string;
+    amountNeeded: number;
+}
+
+export interface IPriceBreakdown {
+    quoteId: string;
+    currency: string;
+    items: IPriceQuoteLine[];
+    subtotal: number;
+    discount: number; // sum of the non-shipping entries in `discounts`
+    couponCode?: string;
+    discounts?: IAppliedDiscount[];
+    promotionHints?: IPromotionHint[];
+    // Set when the coupon is valid but a non-combinable promotion won
+    couponRejectedReason?: string | null;
+    shipping: IShippingBreakdown;
+    taxLines: ITaxLine[];
+    tax: number;
+    taxInclusive: boolean; // GST already included in item prices
+    // COD handling fee (positive) or prepaid discount (negative) for the requested payment method
+    paymentAdjustment?: {
+        label: string;
+        amount: number;
+    } | null;
+    // How much less the cart costs paid online than by COD
+    prepaidSavings?: number;
+    total: number;
+    expiresAt: string;
+}
+
+export interface IPriceQuoteResponse {
+    status: string;
+    data: IPriceBreakdown;
+}
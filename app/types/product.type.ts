@@ -127,6 +127,32 @@ export interface IProductSearchParams {
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
     isFeatured?: boolean;
+    sizes?: ProductSize[];
+    colors?: string[];
+    fits?: ProductFit[];
+    genders?: string[];
+}
+
+export interface IFacetValue {
+    value: string;
+    label: string;
+    count: number;
+}
+
+export interface IPriceBucket {
+    min: number;
+    max: number | null; // null for the open-ended top bucket
+    count: number;
+}
+
+// Counts reflect every active filter except the facet's own selection
+export interface IProductFacets {
+    categories: IFacetValue[];
+    sizes: IFacetValue[];
+    fits: IFacetValue[];
+    colors: IFacetValue[];
+    genders: IFacetValue[];
+    priceBuckets: IPriceBucket[];
 }
 
 export interface ICreateProductData {
@@ -174,3 +200,52 @@ export interface IUpdateVariantData {
     sku?: string;
     stock?: number;
 }
+
+export type CatalogFileFormat = 'csv' | 'xlsx';
+
+export type ProductImportAction = 'CREATE' | 'UPDATE' | 'UNCHANGED' | 'ERROR';
+
+// One spreadsheet row is one variant; rows sharing a product slug are grouped
+export interface IProductImportChange {
+    field: string;
+    from: string | number | null;
+    to: string | number | null;
+}
+
+export interface IProductImportRow {
+    rowNumber: number;
+    action: ProductImportAction;
+    productSlug: string;
+    productName: string;
+    categorySlug?: string;
+    variantSku?: string;
+    size?: ProductSize;
+    fit?: ProductFit;
+    color?: string;
+    changes: IProductImportChange[];
+    errors: string[];
+    warnings: string[];
+}
+
+export interface IProductImportSummary {
+    totalRows: number;
+    productsCreated: number;
+    productsUpdated: number;
+    variantsCreated: number;
+    variantsUpdated: number;
+    unchanged: number;
+    errors: number;
+}
+
+export interface IProductImportPreview {
+    importId: string;
+    fileName: string;
+    expiresAt: string;
+    summary: IProductImportSummary;
+    rows: IProductImportRow[];
+}
+
+export interface IProductImportResult {
+    importId: string;
+    summary: IProductImportSummary;
+}
@@ -85,4 +85,21 @@ export interface IAddressUpdateRequest {
   pincode?: string;
   phone?: string;
   isDefault?: boolean;
-}
\ No newline at end of file
+}
+
+export interface INotificationPreferences {
+  // "Notify me" requests for out-of-stock sizes
+  backInStock: boolean;
+  // Alerts when a wishlisted product gets cheaper
+  priceDrop: boolean;
+  // Smallest drop worth an alert, as a percentage of the price when saved
+  priceDropMinPercent: number;
+  email: boolean;
+  sms: boolean;
+}
+
+export interface INotificationPreferencesResponse {
+  success: boolean;
+  message: string;
+  data: INotificationPreferences;
+}
@@ -0,0 +1,74 @@
+// Automatic promotions apply without a code; coupons still go through ICoupon
+export type PromotionType =
+    | 'DISCOUNT'
+    | 'BUY_X_GET_Y'
+    | 'TIERED_SPEND'
+    | 'FREE_SHIPPING'
+    | 'FIRST_ORDER';
+
+export type PromotionScope = 'ALL' | 'CATEGORY' | 'PRODUCT';
+
+export type PromotionValueType = 'PERCENTAGE' | 'FIXED';
+
+export interface IPromotionTier {
+    minSpend: number;
+    valueType: PromotionValueType;
+    value: number;
+}
+
+export interface IPromotion {
+    id: string;
+    name: string;
+    // Shown to shoppers next to the discount line
+    description?: string;
+    type: PromotionType;
+    scope: PromotionScope;
+    categoryIds: string[];
+    productIds: string[];
+    // Included by the admin list so selected products can be named
+    products?: { id: string; name: string }[];
+    // DISCOUNT and FIRST_ORDER
+    valueType?: PromotionValueType;
+    value?: number;
+    maxDiscount?: number | null;
+    minOrderValue: number;
+    // BUY_X_GET_Y: cheapest `getQuantity` of every `buyQuantity + getQuantity` scoped units
+    buyQuantity?: number;
+    getQuantity?: number;
+    getDiscountPercent?: number; // 100 makes them free
+    // TIERED_SPEND: highest tier whose minSpend the scoped subtotal reaches
+    tiers?: IPromotionTier[];
+    // Higher runs first; a non-stackable promotion that applies stops the ones after it
+    priority: number;
+    stackable: boolean;
+    combinesWithCoupons: boolean;
+    validFrom?: string;
+    validUntil?: string;
+    usageLimit?: number | null;
+    usageCount?: number;
+    isActive: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface IPromotionFilters {
+    page?: number;
+    limit?: number;
+    search?: string;
+    isActive?: boolean;
+    type?: PromotionType;
+}
+
+export interface IPromotionListResponse {
+    data: IPromotion[];
+    meta: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+    };
+}
+
+export type ICreatePromotionData = Omit<IPromotion, 'id' | 'products' | 'usageCount' | 'createdAt' | 'updatedAt'>;
+
+export type IUpdatePromotionData = Partial<ICreatePromotionData>;
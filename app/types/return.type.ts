@@ -0,0 +1,125 @@
+import { IOrder } from './order.type';
+
+export type ReturnRequestType = 'RETURN' | 'EXCHANGE';
+
+export type ReturnStatus =
+    | 'REQUESTED'
+    | 'APPROVED'
+    | 'REJECTED'
+    | 'PICKUP_SCHEDULED'
+    | 'PICKED_UP'
+    | 'REFUNDED'
+    | 'EXCHANGED'
+    | 'CANCELLED';
+
+export type ReturnReason =
+    | 'SIZE_TOO_SMALL'
+    | 'SIZE_TOO_LARGE'
+    | 'DAMAGED'
+    | 'DEFECTIVE'
+    | 'WRONG_ITEM'
+    | 'NOT_AS_DESCRIBED'
+    | 'CHANGED_MIND'
+    | 'OTHER';
+
+export interface IReturnItem {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    // Only set for exchanges
+    exchangeVariantId?: string;
+    product?: {
+        id?: string;
+        name: string;
+        images?: Array<{
+            url: string;
+            alt: string;
+            isPrimary: boolean;
+        }>;
+    };
+    variant?: {
+        id?: string;
+        size: string;
+        color?: string;
+    };
+    exchangeVariant?: {
+        id?: string;
+        size: string;
+        color?: string;
+    };
+}
+
+export interface IReturnPickup {
+    scheduledFor: string; // ISO date
+    courier?: string;
+    trackingNumber?: string;
+}
+
+export interface IReturnRequest {
+    id: string;
+    orderId: string;
+    orderNumber: string;
+    userId: string;
+    type: ReturnRequestType;
+    status: ReturnStatus;
+    reason: ReturnReason;
+    comments?: string;
+    photos: string[];
+    items: IReturnItem[];
+    pickup?: IReturnPickup | null;
+    refundAmount?: number | null;
+    refundedAt?: string | null;
+    adminNote?: string | null;
+    order?: Pick<IOrder, 'id' | 'orderNumber' | 'totalAmount' | 'paymentMethod' | 'paymentStatus' | 'shippingAddress' | 'deliveredAt'>;
+    user?: {
+        id: string;
+        email: string;
+        firstName?: string;
+        lastName?: string;
+    };
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ICreateReturnData {
+    orderId: string;
+    type: ReturnRequestType;
+    reason: ReturnReason;
+    comments?: string;
+    photos: string[];
+    items: Array<{
+        productId: string;
+        variantId?: string;
+        quantity: number;
+        exchangeVariantId?: string;
+    }>;
+}
+
+export interface IReturnFilters {
+    page?: number;
+    limit?: number;
+    status?: ReturnStatus;
+    type?: ReturnRequestType;
+    search?: string;
+}
+
+export interface IReturnListResponse {
+    data: IReturnRequest[];
+    meta: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+    };
+}
+
+export interface ISchedulePickupData {
+    scheduledFor: string;
+    courier?: string;
+    trackingNumber?: string;
+}
+
+export interface IIssueReturnRefundData {
+    amount: number;
+    note?: string;
+}
@@ -1,3 +1,40 @@
+export type ReviewStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+// Raised by the backend's content checks when a review is submitted
+export type ReviewFlag = 'PROFANITY' | 'SPAM' | 'LINKS' | 'DUPLICATE' | 'SHOUTING';
+
+export type ReviewFit = 'RUNS_SMALL' | 'TRUE_TO_SIZE' | 'RUNS_LARGE';
+
+export type ReviewMediaType = 'IMAGE' | 'VIDEO';
+
+export interface IReviewMedia {
+    url: string;
+    type: ReviewMediaType;
+}
+
+// A customer photo or video with enough of its review to caption it in the gallery
+export interface IReviewMediaItem extends IReviewMedia {
+    reviewId: string;
+    rating: number;
+    authorName: string;
+    purchasedSize?: string | null;
+    fit?: ReviewFit | null;
+    createdAt: string;
+}
+
+export type ReviewVote = 'HELPFUL' | 'NOT_HELPFUL';
+
+export type ReviewReportReason = 'SPAM' | 'OFFENSIVE' | 'IRRELEVANT' | 'FAKE' | 'OTHER';
+
+// 'media' lists reviews with photos or videos first
+export type ReviewSortBy = 'helpful' | 'recent' | 'media';
+
+export interface IReviewReply {
+    body: string;
+    createdAt: string;
+    updatedAt?: string;
+}
+
 export interface IReview {
     id: string;
     userId: string;
@@ -7,6 +44,21 @@ export interface IReview {
     comment: string;
     isVerified: boolean;
     isApproved: boolean;
+    media?: IReviewMedia[];
+    purchasedSize?: string | null;
+    fit?: ReviewFit | null;
+    helpfulCount?: number;
+    notHelpfulCount?: number;
+    // The signed-in shopper's own vote and report, when the list is fetched with a session
+    myVote?: ReviewVote | null;
+    reportedByMe?: boolean;
+    status?: ReviewStatus;
+    flags?: ReviewFlag[];
+    rejectionReason?: string | null;
+    // Open shopper reports; the backend sends reviews back to PENDING once enough pile up
+    reportCount?: number;
+    // Public reply from the brand, shown under the review
+    reply?: IReviewReply | null;
     createdAt: string;
     updatedAt: string;
     user: {
@@ -32,6 +84,8 @@ export interface IReviewListResponse {
                 }
                 rating: number;
             }[]
+            // Only reviews that answered the fit question are counted
+            fitDistribution?: Record<ReviewFit, number>;
         }
     };
 }
@@ -40,18 +94,98 @@ export interface ICreateReviewData {
     rating: number;
     title?: string;
     comment: string;
+    media?: IReviewMedia[];
+    purchasedSize?: string;
+    fit?: ReviewFit;
+    // From a review-request email link, so the backend can credit the email and skip its reminder
+    reviewRequestToken?: string;
 }
 
 export interface IUpdateReviewData {
     rating?: number;
     title?: string;
     comment?: string;
+    media?: IReviewMedia[];
+    purchasedSize?: string;
+    fit?: ReviewFit;
 }
 
 export interface IReviewFilters {
     page?: number;
     limit?: number;
-    sortBy?: string;
+    sortBy?: ReviewSortBy;
     sortOrder?: 'asc' | 'desc';
     approved?: boolean;
+    verified?: boolean;
 }
+
+export interface IReportReviewData {
+    reason: ReviewReportReason;
+    details?: string;
+}
+
+export interface IAdminReviewFilters {
+    page?: number;
+    limit?: number;
+    status?: ReviewStatus;
+    rating?: number;
+    productId?: string;
+    flagged?: boolean;
+    reported?: boolean;
+    search?: string;
+}
+
+export interface IAdminReview extends IReview {
+    product: {
+        id: string;
+        name: string;
+        slug?: string;
+    };
+}
+
+export interface IAdminReviewListResponse {
+    data: IAdminReview[];
+    meta: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+        // Per-status totals for the tab badges, ignoring the status filter
+        counts: Record<ReviewStatus, number>;
+    };
+}
+
+export interface IModerateReviewsData {
+    reviewIds: string[];
+    status: Exclude<ReviewStatus, 'PENDING'>;
+    reason?: string;
+}
+
+export interface IReviewReplyData {
+    body: string;
+}
+
+// Automated email asking for a rating some days after an order is delivered.
+// The backend lists each item the customer hasn't reviewed yet, with one-click star links.
+export interface IReviewRequestSettings {
+    enabled: boolean;
+    // Days after deliveredAt before the first email goes out
+    delayDays: number;
+    // One reminder, only for orders with items still unreviewed
+    reminderEnabled: boolean;
+    reminderDelayDays: number;
+    subject: string;
+    body: string;
+    previewText?: string;
+    buttonText?: string;
+    footerText?: string;
+    // Totals for the last 30 days
+    stats?: {
+        sent: number;
+        reminded: number;
+        reviewed: number;
+    };
+    updatedAt?: string;
+}
+
+export type IUpdateReviewRequestSettingsData = Omit<IReviewRequestSettings, 'stats' | 'updatedAt'>;
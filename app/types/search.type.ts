@@ -0,0 +1,46 @@
+import { IProduct, IProductListResponse, IProductSearchParams } from './product.type';
+
+export interface ISearchSuggestions {
+    query: string;
+    didYouMean: string | null;
+    completions: string[];
+    products: IProduct[];
+}
+
+export interface ISearchParams extends IProductSearchParams {
+    q: string;
+    exact?: boolean; // Skip spelling correction ("search instead for ...")
+}
+
+export interface ISearchResultsResponse extends IProductListResponse {
+    query: string;
+    // Set when the original query matched nothing and results are for a corrected spelling
+    correctedQuery: string | null;
+    // Suggested spelling when the original query still returned results
+    didYouMean: string | null;
+}
+
+export interface ITrendingSearch {
+    query: string;
+    count: number;
+}
+
+export interface ISearchQueryStat {
+    query: string;
+    count: number;
+    avgResults: number;
+    lastSearchedAt: string;
+}
+
+export interface ISearchAnalyticsFilters {
+    startDate?: string;
+    endDate?: string;
+}
+
+export interface ISearchAnalytics {
+    totalSearches: number;
+    uniqueQueries: number;
+    zeroResultSearches: number;
+    topQueries: ISearchQueryStat[];
+    zeroResultQueries: ISearchQueryStat[];
+}
@@ -0,0 +1,112 @@
+import { IOrder } from './order.type';
+
+export type CourierCode = 'MOCK' | 'DELHIVERY' | 'BLUEDART' | 'XPRESSBEES' | 'INDIA_POST';
+
+export type ShipmentStatus =
+    | 'CREATED'
+    | 'MANIFESTED'
+    | 'PICKED_UP'
+    | 'IN_TRANSIT'
+    | 'OUT_FOR_DELIVERY'
+    | 'DELIVERED'
+    | 'RTO'
+    | 'CANCELLED';
+
+export interface ICourierOption {
+    code: CourierCode;
+    name: string;
+    supportsCod: boolean;
+}
+
+export interface IShipmentPackage {
+    weightGrams: number;
+    lengthCm: number;
+    widthCm: number;
+    heightCm: number;
+}
+
+export interface IShipmentAddress {
+    name: string;
+    address: string;
+    city: string;
+    state: string;
+    pincode: string;
+    phone: string;
+}
+
+export interface IShipmentTrackingEvent {
+    status: ShipmentStatus;
+    note: string;
+    location?: string;
+    occurredAt: string;
+}
+
+export interface IShipment {
+    id: string;
+    orderId: string;
+    orderNumber: string;
+    courier: CourierCode;
+    trackingNumber: string;
+    routingCode?: string;
+    status: ShipmentStatus;
+    package: IShipmentPackage;
+    paymentMethod: string;
+    codAmount: number;
+    itemCount: number;
+    shipTo: IShipmentAddress;
+    returnTo: IShipmentAddress;
+    manifestId?: string;
+    estimatedDelivery?: string;
+    events: IShipmentTrackingEvent[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface IShipmentManifest {
+    id: string;
+    manifestNumber: string;
+    courier: CourierCode;
+    shipments: IShipment[];
+    createdAt: string;
+}
+
+export interface ICreateShipmentData {
+    courier: CourierCode;
+    package: IShipmentPackage;
+}
+
+export interface IShipmentFilters {
+    page?: number;
+    limit?: number;
+    status?: ShipmentStatus;
+    courier?: CourierCode;
+    search?: string;
+}
+
+export interface IShipmentListResponse {
+    data: IShipment[];
+    meta: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+    };
+}
+
+/**
+ * A courier integration. The API provider talks to the backend, which holds
+ * the courier credentials and writes tracking events into the order's
+ * tracking history; the mock provider keeps everything in the browser so
+ * the shipping flow can be exercised without a courier account.
+ */
+export interface ICourierProvider {
+    readonly name: string;
+    getCouriers(): Promise<ICourierOption[]>;
+    getShipments(filters?: IShipmentFilters): Promise<IShipmentListResponse>;
+    getShipment(shipmentId: string): Promise<IShipment>;
+    createShipment(order: IOrder, data: ICreateShipmentData): Promise<IShipment>;
+    cancelShipment(shipmentId: string): Promise<IShipment>;
+    syncTracking(shipmentId: string): Promise<IShipment>;
+    createManifest(shipmentIds: string[]): Promise<IShipmentManifest>;
+    getManifest(manifestId: string): Promise<IShipmentManifest>;
+}
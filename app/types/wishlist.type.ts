@@ -1,10 +1,12 @@
-import { IProduct } from "./product.type";
+import { IProduct, ProductFit, ProductSize } from "./product.type";
 
 export interface IWishlistItem {
     id: string;
     userId: string;
     productId: string;
     createdAt: string;
+    // Effective price when the item was saved, used for price-drop alerts
+    priceWhenAdded?: number | null;
     product: IProduct;
 }
 
@@ -15,3 +17,62 @@ export interface IWishlistListResponse {
 export interface IWishlist {
     data: IWishlistItem;
 }
+
+export type StockAlertStatus = 'WAITING' | 'NOTIFIED' | 'CANCELLED';
+
+export interface IStockAlert {
+    id: string;
+    productId: string;
+    variantId: string | null;
+    status: StockAlertStatus;
+    createdAt: string;
+    notifiedAt: string | null;
+    product: Pick<IProduct, 'id' | 'name' | 'price' | 'discountedPrice' | 'images'>;
+    variant: {
+        id: string;
+        size: ProductSize;
+        fit?: ProductFit;
+        sku: string;
+    } | null;
+}
+
+export interface ICreateStockAlertData {
+    productId: string;
+    variantId?: string;
+}
+
+export interface IStockAlertListResponse {
+    data: IStockAlert[];
+}
+
+// Admin: One row per SKU that shoppers are waiting on
+export interface IStockWaitlistEntry {
+    productId: string;
+    productName: string;
+    variantId: string | null;
+    sku: string;
+    size: ProductSize | null;
+    fit: ProductFit | null;
+    stock: number;
+    waiting: number;
+    oldestRequestAt: string;
+}
+
+export interface IStockWaitlistFilters {
+    search?: string;
+    // Only SKUs that are still at zero stock
+    outOfStockOnly?: boolean;
+    page?: number;
+    limit?: number;
+}
+
+export interface IStockWaitlistResponse {
+    data: IStockWaitlistEntry[];
+    meta: {
+        total: number;
+        totalWaiting: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+    };
+}
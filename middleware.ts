@@ -76,9 +76,9 @@ export async function middleware(request: NextRequest) {
             return NextResponse.redirect(url);
         }
 
-        // Delivery Partner can access only orders routes
+        // Delivery Partner can access only orders and shipments routes
         if (ALLOW_FOR_DELIVERY_ORDERS_ONLY.has(role)) {
-            const isOrdersPath = pathname.startsWith('/admin/orders');
+            const isOrdersPath = pathname.startsWith('/admin/orders') || pathname.startsWith('/admin/shipments');
             if (!isOrdersPath) {
                 const url = request.nextUrl.clone();
                 url.pathname = '/admin/orders';